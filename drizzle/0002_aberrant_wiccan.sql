@@ -0,0 +1,16 @@
+CREATE TABLE "promotions" (
+	"id" text PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"promotionType" text NOT NULL,
+	"config" json NOT NULL,
+	"applicableProductIds" text[] DEFAULT '{}',
+	"applicableCategoryIds" text[] DEFAULT '{}',
+	"isExclusive" boolean DEFAULT false NOT NULL,
+	"priority" integer DEFAULT 0 NOT NULL,
+	"startsAt" timestamp NOT NULL,
+	"endsAt" timestamp,
+	"isActive" boolean DEFAULT true NOT NULL,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"updatedAt" timestamp DEFAULT now() NOT NULL
+);
@@ -0,0 +1,8 @@
+ALTER TABLE "orders" ADD COLUMN "subtotal" numeric;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "shippingAmount" numeric;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "taxAmount" numeric;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "taxRate" numeric;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "discountAmount" numeric DEFAULT '0' NOT NULL;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "discountCode" text;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "paymentMethod" text;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "currency" text DEFAULT 'NPR' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE "order_events" (
+	"id" text PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"orderId" text NOT NULL,
+	"status" text NOT NULL,
+	"previousStatus" text,
+	"message" text,
+	"location" text,
+	"carrier" text,
+	"carrierReference" text,
+	"createdBy" text,
+	"createdAt" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "order_events" ADD CONSTRAINT "order_events_orderId_orders_id_fk" FOREIGN KEY ("orderId") REFERENCES "public"."orders"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "order_events" ADD CONSTRAINT "order_events_createdBy_users_id_fk" FOREIGN KEY ("createdBy") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,23 @@
+CREATE TABLE "return_requests" (
+	"id" text PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"orderId" text NOT NULL,
+	"orderItemId" text NOT NULL,
+	"userId" text NOT NULL,
+	"quantity" integer NOT NULL,
+	"reason" text NOT NULL,
+	"comments" text,
+	"images" json DEFAULT '[]'::json NOT NULL,
+	"status" text DEFAULT 'REQUESTED' NOT NULL,
+	"refundAmount" numeric NOT NULL,
+	"adminNotes" text,
+	"reviewedBy" text,
+	"reviewedAt" timestamp,
+	"receivedAt" timestamp,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"updatedAt" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "return_requests" ADD CONSTRAINT "return_requests_orderId_orders_id_fk" FOREIGN KEY ("orderId") REFERENCES "public"."orders"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "return_requests" ADD CONSTRAINT "return_requests_orderItemId_order_items_id_fk" FOREIGN KEY ("orderItemId") REFERENCES "public"."order_items"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "return_requests" ADD CONSTRAINT "return_requests_userId_users_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "return_requests" ADD CONSTRAINT "return_requests_reviewedBy_users_id_fk" FOREIGN KEY ("reviewedBy") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
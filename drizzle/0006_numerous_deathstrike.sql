@@ -0,0 +1,18 @@
+CREATE TABLE "refunds" (
+	"id" text PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"orderId" text NOT NULL,
+	"orderItemId" text,
+	"returnRequestId" text,
+	"quantity" integer,
+	"amount" numeric NOT NULL,
+	"reason" text NOT NULL,
+	"method" text DEFAULT 'ORIGINAL_PAYMENT' NOT NULL,
+	"reference" text,
+	"createdBy" text,
+	"createdAt" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "refunds" ADD CONSTRAINT "refunds_orderId_orders_id_fk" FOREIGN KEY ("orderId") REFERENCES "public"."orders"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "refunds" ADD CONSTRAINT "refunds_orderItemId_order_items_id_fk" FOREIGN KEY ("orderItemId") REFERENCES "public"."order_items"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "refunds" ADD CONSTRAINT "refunds_returnRequestId_return_requests_id_fk" FOREIGN KEY ("returnRequestId") REFERENCES "public"."return_requests"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "refunds" ADD CONSTRAINT "refunds_createdBy_users_id_fk" FOREIGN KEY ("createdBy") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
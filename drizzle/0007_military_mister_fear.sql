@@ -0,0 +1,2 @@
+ALTER TABLE "orders" ADD COLUMN "cancellationReason" text;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "cancelledAt" timestamp;
\ No newline at end of file
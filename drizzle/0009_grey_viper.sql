@@ -0,0 +1,19 @@
+CREATE TABLE "payment_transactions" (
+	"id" text PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"orderId" text NOT NULL,
+	"method" text NOT NULL,
+	"gatewayReference" text NOT NULL,
+	"gatewayTransactionId" text,
+	"amount" numeric NOT NULL,
+	"currency" text DEFAULT 'NPR' NOT NULL,
+	"status" text DEFAULT 'INITIATED' NOT NULL,
+	"session" json,
+	"requestPayload" json,
+	"responsePayload" json,
+	"errorMessage" text,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"updatedAt" timestamp DEFAULT now() NOT NULL,
+	"completedAt" timestamp
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "paymentTransactionMethodReferenceIdx" ON "payment_transactions" USING btree ("method","gatewayReference");
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "refunds" ADD COLUMN "status" text DEFAULT 'COMPLETED' NOT NULL;--> statement-breakpoint
+ALTER TABLE "refunds" ADD COLUMN "gatewayResponse" json;--> statement-breakpoint
+ALTER TABLE "refunds" ADD COLUMN "failureReason" text;--> statement-breakpoint
+ALTER TABLE "refunds" ADD COLUMN "completedAt" timestamp;
\ No newline at end of file
@@ -0,0 +1,29 @@
+CREATE TABLE "cod_collections" (
+	"id" text PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"orderId" text NOT NULL,
+	"courier" text,
+	"expectedAmount" numeric NOT NULL,
+	"status" text DEFAULT 'COLLECTED' NOT NULL,
+	"collectedAt" timestamp DEFAULT now() NOT NULL,
+	"remittanceId" text,
+	"remittedAt" timestamp,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"updatedAt" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "cod_collections_orderId_unique" UNIQUE("orderId")
+);
+--> statement-breakpoint
+CREATE TABLE "cod_remittances" (
+	"id" text PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"courier" text NOT NULL,
+	"reference" text,
+	"expectedAmount" numeric NOT NULL,
+	"depositedAmount" numeric NOT NULL,
+	"depositedAt" timestamp DEFAULT now() NOT NULL,
+	"notes" text,
+	"createdBy" text,
+	"createdAt" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "cod_collections" ADD CONSTRAINT "cod_collections_orderId_orders_id_fk" FOREIGN KEY ("orderId") REFERENCES "public"."orders"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "cod_collections" ADD CONSTRAINT "cod_collections_remittanceId_cod_remittances_id_fk" FOREIGN KEY ("remittanceId") REFERENCES "public"."cod_remittances"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "cod_remittances" ADD CONSTRAINT "cod_remittances_createdBy_users_id_fk" FOREIGN KEY ("createdBy") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
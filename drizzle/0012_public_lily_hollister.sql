@@ -0,0 +1,2 @@
+ALTER TABLE "users" ADD COLUMN "preferredPaymentMethod" text;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "defaultShippingAddress" json;
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE "inventory_reservations" (
+	"id" text PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"orderId" text NOT NULL,
+	"productId" text NOT NULL,
+	"quantity" integer NOT NULL,
+	"status" text DEFAULT 'HELD' NOT NULL,
+	"expiresAt" timestamp NOT NULL,
+	"releasedAt" timestamp,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"updatedAt" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "inventory_reservations" ADD CONSTRAINT "inventory_reservations_productId_products_id_fk" FOREIGN KEY ("productId") REFERENCES "public"."products"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "inventoryReservationOrderProductIdx" ON "inventory_reservations" USING btree ("orderId","productId");
\ No newline at end of file
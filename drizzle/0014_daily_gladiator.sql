@@ -0,0 +1,65 @@
+CREATE TABLE "location_stock" (
+	"id" text PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"locationId" text NOT NULL,
+	"productId" text NOT NULL,
+	"quantity" integer DEFAULT 0 NOT NULL,
+	"updatedAt" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "stock_locations" (
+	"id" text PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"code" text NOT NULL,
+	"city" text,
+	"isActive" boolean DEFAULT true NOT NULL,
+	"isDefault" boolean DEFAULT false NOT NULL,
+	"priority" integer DEFAULT 0 NOT NULL,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"updatedAt" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "stock_locations_code_unique" UNIQUE("code")
+);
+--> statement-breakpoint
+CREATE TABLE "stock_transfer_items" (
+	"id" text PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"transferId" text NOT NULL,
+	"productId" text NOT NULL,
+	"quantity" integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "stock_transfers" (
+	"id" text PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"fromLocationId" text NOT NULL,
+	"toLocationId" text NOT NULL,
+	"status" text DEFAULT 'IN_TRANSIT' NOT NULL,
+	"notes" text,
+	"createdBy" text,
+	"shippedAt" timestamp DEFAULT now() NOT NULL,
+	"receivedAt" timestamp,
+	"cancelledAt" timestamp,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"updatedAt" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+DROP INDEX "inventoryReservationOrderProductIdx";--> statement-breakpoint
+ALTER TABLE "inventory_adjustments" ADD COLUMN "locationId" text;--> statement-breakpoint
+ALTER TABLE "inventory_reservations" ADD COLUMN "locationId" text;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "fulfillmentLocationId" text;--> statement-breakpoint
+ALTER TABLE "location_stock" ADD CONSTRAINT "location_stock_locationId_stock_locations_id_fk" FOREIGN KEY ("locationId") REFERENCES "public"."stock_locations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "location_stock" ADD CONSTRAINT "location_stock_productId_products_id_fk" FOREIGN KEY ("productId") REFERENCES "public"."products"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "stock_transfer_items" ADD CONSTRAINT "stock_transfer_items_transferId_stock_transfers_id_fk" FOREIGN KEY ("transferId") REFERENCES "public"."stock_transfers"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "stock_transfer_items" ADD CONSTRAINT "stock_transfer_items_productId_products_id_fk" FOREIGN KEY ("productId") REFERENCES "public"."products"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "stock_transfers" ADD CONSTRAINT "stock_transfers_fromLocationId_stock_locations_id_fk" FOREIGN KEY ("fromLocationId") REFERENCES "public"."stock_locations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "stock_transfers" ADD CONSTRAINT "stock_transfers_toLocationId_stock_locations_id_fk" FOREIGN KEY ("toLocationId") REFERENCES "public"."stock_locations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "stock_transfers" ADD CONSTRAINT "stock_transfers_createdBy_users_id_fk" FOREIGN KEY ("createdBy") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "locationStockLocationProductIdx" ON "location_stock" USING btree ("locationId","productId");--> statement-breakpoint
+ALTER TABLE "inventory_adjustments" ADD CONSTRAINT "inventory_adjustments_locationId_stock_locations_id_fk" FOREIGN KEY ("locationId") REFERENCES "public"."stock_locations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "inventory_reservations" ADD CONSTRAINT "inventory_reservations_locationId_stock_locations_id_fk" FOREIGN KEY ("locationId") REFERENCES "public"."stock_locations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "orders" ADD CONSTRAINT "orders_fulfillmentLocationId_stock_locations_id_fk" FOREIGN KEY ("fulfillmentLocationId") REFERENCES "public"."stock_locations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "inventoryReservationOrderProductLocationIdx" ON "inventory_reservations" USING btree ("orderId","productId","locationId");--> statement-breakpoint
+INSERT INTO "stock_locations" ("name", "code", "city", "isDefault", "priority") VALUES
+	('Kathmandu Warehouse', 'KTM-WH', 'Kathmandu', true, 0),
+	('Pokhara Shop', 'PKR-SHOP', 'Pokhara', false, 1);--> statement-breakpoint
+INSERT INTO "location_stock" ("locationId", "productId", "quantity")
+	SELECT "stock_locations"."id", "products"."id", GREATEST("products"."inventory", 0)
+	FROM "products", "stock_locations"
+	WHERE "stock_locations"."code" = 'KTM-WH';
@@ -0,0 +1,43 @@
+CREATE TABLE "purchase_order_items" (
+	"id" text PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"purchaseOrderId" text NOT NULL,
+	"productId" text NOT NULL,
+	"quantityOrdered" integer NOT NULL,
+	"quantityReceived" integer DEFAULT 0 NOT NULL,
+	"unitCost" numeric NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "purchase_orders" (
+	"id" text PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"supplierId" text NOT NULL,
+	"locationId" text,
+	"status" text DEFAULT 'DRAFT' NOT NULL,
+	"currency" text DEFAULT 'NPR' NOT NULL,
+	"notes" text,
+	"expectedAt" timestamp,
+	"createdBy" text,
+	"sentAt" timestamp,
+	"receivedAt" timestamp,
+	"cancelledAt" timestamp,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"updatedAt" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "suppliers" (
+	"id" text PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"contactName" text,
+	"email" text,
+	"phone" text,
+	"address" text,
+	"notes" text,
+	"isActive" boolean DEFAULT true NOT NULL,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"updatedAt" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "purchase_order_items" ADD CONSTRAINT "purchase_order_items_purchaseOrderId_purchase_orders_id_fk" FOREIGN KEY ("purchaseOrderId") REFERENCES "public"."purchase_orders"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "purchase_order_items" ADD CONSTRAINT "purchase_order_items_productId_products_id_fk" FOREIGN KEY ("productId") REFERENCES "public"."products"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "purchase_orders" ADD CONSTRAINT "purchase_orders_supplierId_suppliers_id_fk" FOREIGN KEY ("supplierId") REFERENCES "public"."suppliers"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "purchase_orders" ADD CONSTRAINT "purchase_orders_locationId_stock_locations_id_fk" FOREIGN KEY ("locationId") REFERENCES "public"."stock_locations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "purchase_orders" ADD CONSTRAINT "purchase_orders_createdBy_users_id_fk" FOREIGN KEY ("createdBy") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
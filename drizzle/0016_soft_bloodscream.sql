@@ -0,0 +1,33 @@
+CREATE TABLE "stocktake_items" (
+	"id" text PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"stocktakeId" text NOT NULL,
+	"productId" text NOT NULL,
+	"expectedQuantity" integer NOT NULL,
+	"countedQuantity" integer,
+	"unitCost" numeric,
+	"countedBy" text,
+	"countedAt" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "stocktakes" (
+	"id" text PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"locationId" text NOT NULL,
+	"categoryId" text,
+	"status" text DEFAULT 'COUNTING' NOT NULL,
+	"notes" text,
+	"createdBy" text,
+	"postedBy" text,
+	"postedAt" timestamp,
+	"cancelledAt" timestamp,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"updatedAt" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "stocktake_items" ADD CONSTRAINT "stocktake_items_stocktakeId_stocktakes_id_fk" FOREIGN KEY ("stocktakeId") REFERENCES "public"."stocktakes"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "stocktake_items" ADD CONSTRAINT "stocktake_items_productId_products_id_fk" FOREIGN KEY ("productId") REFERENCES "public"."products"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "stocktake_items" ADD CONSTRAINT "stocktake_items_countedBy_users_id_fk" FOREIGN KEY ("countedBy") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "stocktakes" ADD CONSTRAINT "stocktakes_locationId_stock_locations_id_fk" FOREIGN KEY ("locationId") REFERENCES "public"."stock_locations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "stocktakes" ADD CONSTRAINT "stocktakes_categoryId_categories_id_fk" FOREIGN KEY ("categoryId") REFERENCES "public"."categories"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "stocktakes" ADD CONSTRAINT "stocktakes_createdBy_users_id_fk" FOREIGN KEY ("createdBy") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "stocktakes" ADD CONSTRAINT "stocktakes_postedBy_users_id_fk" FOREIGN KEY ("postedBy") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "stocktakeItemStocktakeProductIdx" ON "stocktake_items" USING btree ("stocktakeId","productId");
\ No newline at end of file
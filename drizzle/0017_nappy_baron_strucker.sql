@@ -0,0 +1 @@
+ALTER TABLE "payment_transactions" ADD COLUMN "lastCheckedAt" timestamp;
\ No newline at end of file
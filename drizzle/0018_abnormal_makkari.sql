@@ -0,0 +1,14 @@
+CREATE TABLE "discount_reservations" (
+	"id" text PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"discountId" text NOT NULL,
+	"orderId" text NOT NULL,
+	"userId" text,
+	"status" text DEFAULT 'HELD' NOT NULL,
+	"releasedAt" timestamp,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"updatedAt" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "discount_reservations_orderId_unique" UNIQUE("orderId")
+);
+--> statement-breakpoint
+ALTER TABLE "discount_reservations" ADD CONSTRAINT "discount_reservations_discountId_discounts_id_fk" FOREIGN KEY ("discountId") REFERENCES "public"."discounts"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "discount_reservations" ADD CONSTRAINT "discount_reservations_userId_users_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
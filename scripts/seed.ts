@@ -1,6 +1,6 @@
 import { db } from '../src/lib/db';
 import { initializeDefaultSettings } from '../src/lib/site-settings';
-import { categories, products, users } from '../src/lib/db/schema';
+import { categories, products, users, stockLocations, locationStock } from '../src/lib/db/schema';
 import { eq } from 'drizzle-orm';
 import bcrypt from 'bcryptjs';
 
@@ -196,12 +196,25 @@ async function main() {
     },
   ];
 
-  // Insert products
+  // Insert products, stocked at the default location
+  const [defaultLocation] = await db.select().from(stockLocations).where(eq(stockLocations.isDefault, true)).limit(1);
+
   for (const product of productData) {
-    await db.insert(products).values(product).onConflictDoUpdate({
+    const [seeded] = await db.insert(products).values(product).onConflictDoUpdate({
       target: products.slug,
       set: product,
-    });
+    }).returning();
+
+    if (defaultLocation) {
+      await db.insert(locationStock).values({
+        locationId: defaultLocation.id,
+        productId: seeded.id,
+        quantity: product.inventory,
+      }).onConflictDoUpdate({
+        target: [locationStock.locationId, locationStock.productId],
+        set: { quantity: product.inventory },
+      });
+    }
   }
 
   console.log('✅ Products created');
@@ -8,7 +8,8 @@ import {
   expectOrderTotal,
   TEST_USERS,
   waitForPageLoad,
-  takeScreenshot
+  takeScreenshot,
+  startMockPayment
 } from './utils/test-utils'
 
 test.describe('Checkout Process E2E', () => {
@@ -416,4 +417,44 @@ test.describe('Checkout Process E2E', () => {
     
     await takeScreenshot(page, 'mobile-checkout')
   })
-})
\ No newline at end of file
+})
+
+test.describe('Online Payment E2E', () => {
+  test('should create the order when the mock payment succeeds', async ({ page }) => {
+    await page.goto(await startMockPayment(page))
+
+    await page.click('[data-testid="mock-payment-success"]')
+
+    await page.waitForURL(/\/checkout\/success/)
+    await expect(page.locator('text=Payment Successful!')).toBeVisible()
+    await expect(page.locator('[data-testid="order-number"]')).toBeVisible()
+  })
+
+  test('should show the failure page when the mock payment is declined', async ({ page }) => {
+    await page.goto(await startMockPayment(page))
+
+    await page.click('[data-testid="mock-payment-failure"]')
+
+    await page.waitForURL(/\/checkout\/failure/)
+    await expect(page.locator('text=Payment Failed')).toBeVisible()
+  })
+
+  test('should leave the payment pending when the gateway times out', async ({ page }) => {
+    await page.goto(await startMockPayment(page))
+
+    await page.click('[data-testid="mock-payment-timeout"]')
+
+    await expect(page.locator('text=The gateway never returned to the store')).toBeVisible()
+    expect(page.url()).toContain('/checkout/mock-gateway')
+  })
+
+  test('should refuse to create the order when the captured amount differs', async ({ page }) => {
+    await page.goto(await startMockPayment(page))
+
+    await page.click('[data-testid="mock-payment-amount_mismatch"]')
+
+    await page.waitForURL(/\/checkout\/success/)
+    await expect(page.locator('text=Payment amount does not match the order total')).toBeVisible()
+    await expect(page.locator('[data-testid="order-number"]')).not.toBeVisible()
+  })
+})
@@ -244,6 +244,32 @@ export async function createTestProduct(page: Page, product: any) {
   return response.json()
 }
 
+// Start an online payment with the mock gateway, which is only registered
+// outside production, and return the hosted payment page URL
+export async function startMockPayment(page: Page): Promise<string> {
+  const productsResponse = await page.request.get('/api/products?limit=1')
+  const { data: products } = await productsResponse.json()
+
+  const response = await page.request.post('/api/checkout/initiate-payment', {
+    data: {
+      method: 'mock',
+      items: [{ productId: products[0].id, quantity: 1 }],
+      guestEmail: 'mock.payer@example.com',
+      shippingAddress: {
+        fullName: 'Mock Payer',
+        email: 'mock.payer@example.com',
+        address: '123 Test Street',
+        city: 'Kathmandu',
+        postalCode: '44600',
+      },
+    },
+  })
+
+  expect(response.ok()).toBeTruthy()
+  const { paymentUrl } = await response.json()
+  return paymentUrl
+}
+
 export async function cleanupTestData(page: Page) {
   // Clean up any test data created during tests
   try {
@@ -8,7 +8,8 @@ import {
   getCartSummary,
   mergeCartItems,
   removeOutOfStockItems,
-  updateCartItemQuantities
+  updateCartItemQuantities,
+  planReorder
 } from '@/lib/cart-utils'
 
 // Simplified product type for testing
@@ -312,4 +313,62 @@ describe('Cart Utils', () => {
       expect(updated[0].productId).toBe('2')
     })
   })
-})
\ No newline at end of file
+
+  describe('planReorder', () => {
+    const product = (overrides: Record<string, unknown> = {}) => ({
+      id: 'p1',
+      name: 'Dhaka Topi',
+      price: '500',
+      discountPrice: null,
+      inventory: 10,
+      isActive: true,
+      ...overrides,
+    })
+
+    it('should add every item still available at the same price', () => {
+      const plan = planReorder(
+        [{ productId: 'p1', quantity: 2, price: '500' }],
+        [product()]
+      )
+
+      expect(plan.lines).toEqual([{ productId: 'p1', quantity: 2 }])
+      expect(plan.issues).toEqual([])
+    })
+
+    it('should report inactive, missing and out of stock products', () => {
+      const plan = planReorder(
+        [
+          { productId: 'p1', quantity: 1, price: '500' },
+          { productId: 'p2', quantity: 1, price: '300', product: { name: 'Pashmina Shawl' } },
+          { productId: 'p3', quantity: 1, price: '200' },
+        ],
+        [product({ isActive: false }), product({ id: 'p3', name: 'Singing Bowl', inventory: 2 })],
+        { p3: 2 }
+      )
+
+      expect(plan.lines).toEqual([])
+      expect(plan.issues.map(issue => [issue.productId, issue.name, issue.reason])).toEqual([
+        ['p1', 'Dhaka Topi', 'UNAVAILABLE'],
+        ['p2', 'Pashmina Shawl', 'UNAVAILABLE'],
+        ['p3', 'Singing Bowl', 'OUT_OF_STOCK'],
+      ])
+    })
+
+    it('should add what is left in stock and flag price changes', () => {
+      const plan = planReorder(
+        [
+          { productId: 'p1', quantity: 3, price: '500' },
+          { productId: 'p1', quantity: 2, price: '500' },
+        ],
+        [product({ inventory: 4, discountPrice: '450' })],
+        { p1: 1 }
+      )
+
+      expect(plan.lines).toEqual([{ productId: 'p1', quantity: 3 }])
+      expect(plan.issues).toEqual([
+        expect.objectContaining({ reason: 'PARTIALLY_AVAILABLE', requestedQuantity: 5, addedQuantity: 3 }),
+        expect.objectContaining({ reason: 'REPRICED', previousPrice: 500, currentPrice: 450 }),
+      ])
+    })
+  })
+})
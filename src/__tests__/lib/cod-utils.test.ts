@@ -0,0 +1,43 @@
+import { describe, it, expect } from '@jest/globals'
+import {
+  getCodAgeInDays,
+  getRemittanceDifference,
+  summarizeOutstandingCod,
+} from '@/lib/cod-utils'
+
+const now = new Date('2026-03-31T12:00:00Z')
+const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000)
+
+describe('COD Utils', () => {
+  it('should count whole days since the cash was collected', () => {
+    expect(getCodAgeInDays(daysAgo(0), now)).toBe(0)
+    expect(getCodAgeInDays(daysAgo(9.5), now)).toBe(9)
+    expect(getCodAgeInDays(new Date(now.getTime() + 1000), now)).toBe(0)
+  })
+
+  it('should group outstanding cash by courier and age', () => {
+    const summary = summarizeOutstandingCod([
+      { courier: 'Pathao', expectedAmount: '1500', collectedAt: daysAgo(2) },
+      { courier: 'Pathao', expectedAmount: '2500.50', collectedAt: daysAgo(20) },
+      { courier: 'Nepal Can Move', expectedAmount: 800, collectedAt: daysAgo(45) },
+      { courier: null, expectedAmount: '300', collectedAt: daysAgo(10) },
+    ], now)
+
+    expect(summary.map(s => s.courier)).toEqual(['Pathao', 'Nepal Can Move', 'Unassigned'])
+    expect(summary[0]).toEqual({
+      courier: 'Pathao',
+      orders: 2,
+      amount: 4000.5,
+      oldestDays: 20,
+      buckets: [1500, 0, 2500.5, 0],
+    })
+    expect(summary[1].buckets).toEqual([0, 0, 0, 800])
+    expect(summary[2].buckets).toEqual([0, 300, 0, 0])
+  })
+
+  it('should report short and over remittances', () => {
+    expect(getRemittanceDifference('4000.50', 4000.5)).toBe(0)
+    expect(getRemittanceDifference('4000.50', '3900')).toBe(-100.5)
+    expect(getRemittanceDifference(1000, 1000.1)).toBe(0.1)
+  })
+})
@@ -0,0 +1,120 @@
+import { describe, it, expect } from '@jest/globals'
+import {
+  calculateDiscountAmount,
+  getDiscountIneligibilityReason,
+  getEligibleSubtotal,
+  normalizeDiscountCode,
+  toCsvCell,
+  type DiscountRule,
+  type DiscountableItem,
+} from '@/lib/discount-utils'
+
+const createDiscount = (overrides: Partial<DiscountRule> = {}): DiscountRule => ({
+  discountType: 'PERCENTAGE',
+  discountValue: '10',
+  minimumOrderValue: null,
+  maximumDiscountAmount: null,
+  usageLimit: null,
+  usedCount: 0,
+  validFrom: new Date('2024-01-01'),
+  validTo: new Date('2024-12-31'),
+  isActive: true,
+  applicableProductIds: [],
+  applicableCategoryIds: [],
+  userId: null,
+  ...overrides,
+})
+
+const items: DiscountableItem[] = [
+  { productId: 'product-1', categoryId: 'category-1', price: 1000, quantity: 2 },
+  { productId: 'product-2', categoryId: 'category-2', price: 500, quantity: 1 },
+]
+
+const now = new Date('2024-06-01')
+
+describe('Discount Utils', () => {
+  describe('normalizeDiscountCode', () => {
+    it('should trim and uppercase codes', () => {
+      expect(normalizeDiscountCode('  save10 ')).toBe('SAVE10')
+    })
+  })
+
+  describe('getEligibleSubtotal', () => {
+    it('should use the whole cart when the discount is not scoped', () => {
+      expect(getEligibleSubtotal(createDiscount(), items)).toBe(2500)
+    })
+
+    it('should only include matching products and categories', () => {
+      expect(getEligibleSubtotal(createDiscount({ applicableProductIds: ['product-2'] }), items)).toBe(500)
+      expect(getEligibleSubtotal(createDiscount({ applicableCategoryIds: ['category-1'] }), items)).toBe(2000)
+    })
+  })
+
+  describe('calculateDiscountAmount', () => {
+    it('should calculate percentage discounts', () => {
+      expect(calculateDiscountAmount(createDiscount(), items)).toBe(250)
+    })
+
+    it('should cap percentage discounts at the maximum discount amount', () => {
+      expect(calculateDiscountAmount(createDiscount({ maximumDiscountAmount: '100' }), items)).toBe(100)
+    })
+
+    it('should never discount more than the eligible subtotal', () => {
+      const discount = createDiscount({
+        discountType: 'FIXED_AMOUNT',
+        discountValue: '800',
+        applicableProductIds: ['product-2'],
+      })
+
+      expect(calculateDiscountAmount(discount, items)).toBe(500)
+    })
+
+    it('should return 0 when no items are eligible', () => {
+      expect(calculateDiscountAmount(createDiscount({ applicableProductIds: ['product-3'] }), items)).toBe(0)
+    })
+  })
+
+  describe('getDiscountIneligibilityReason', () => {
+    it('should accept a valid discount', () => {
+      expect(getDiscountIneligibilityReason(createDiscount(), { subtotal: 2500, now })).toBeNull()
+    })
+
+    it('should reject inactive, scheduled and expired discounts', () => {
+      expect(getDiscountIneligibilityReason(createDiscount({ isActive: false }), { subtotal: 2500, now })).toMatch(/no longer active/)
+      expect(getDiscountIneligibilityReason(createDiscount(), { subtotal: 2500, now: new Date('2023-12-01') })).toMatch(/not valid yet/)
+      expect(getDiscountIneligibilityReason(createDiscount(), { subtotal: 2500, now: new Date('2025-01-15') })).toMatch(/expired/)
+    })
+
+    it('should reject discounts that reached their usage limit', () => {
+      const discount = createDiscount({ usageLimit: 5, usedCount: 5 })
+      expect(getDiscountIneligibilityReason(discount, { subtotal: 2500, now })).toMatch(/usage limit/)
+    })
+
+    it('should enforce the minimum order value', () => {
+      const discount = createDiscount({ minimumOrderValue: '3000' })
+      expect(getDiscountIneligibilityReason(discount, { subtotal: 2500, now })).toMatch(/minimum order/)
+    })
+
+    it('should restrict user-specific discounts to that user', () => {
+      const discount = createDiscount({ userId: 'user-1' })
+
+      expect(getDiscountIneligibilityReason(discount, { subtotal: 2500, now })).toMatch(/sign in/)
+      expect(getDiscountIneligibilityReason(discount, { subtotal: 2500, userId: 'user-2', now })).toMatch(/not valid for your account/)
+      expect(getDiscountIneligibilityReason(discount, { subtotal: 2500, userId: 'user-1', now })).toBeNull()
+    })
+  })
+
+  describe('toCsvCell', () => {
+    it('should quote values and escape embedded quotes', () => {
+      expect(toCsvCell('SAVE10')).toBe('"SAVE10"')
+      expect(toCsvCell('Say "hi"')).toBe('"Say ""hi"""')
+    })
+
+    it('should prefix values a spreadsheet would run as a formula', () => {
+      expect(toCsvCell('=HYPERLINK("x")')).toBe('"\'=HYPERLINK(""x"")"')
+      expect(toCsvCell('+1')).toBe('"\'+1"')
+      expect(toCsvCell('-5')).toBe('"\'-5"')
+      expect(toCsvCell('@SUM(A1)')).toBe('"\'@SUM(A1)"')
+    })
+  })
+})
@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeAll } from '@jest/globals'
+import crypto from 'crypto'
+import { ESewaGateway, parseESewaCallback, type ESewaConfig } from '@/lib/payment-gateways/esewa'
+
+const config: ESewaConfig = {
+  merchantId: 'EPAYTEST',
+  secretKey: 'test-secret',
+  baseUrl: 'https://uat.esewa.com.np',
+  successUrl: 'http://localhost:3000/checkout/success',
+  failureUrl: 'http://localhost:3000/checkout/failure',
+  apiVersion: 'v2',
+  v2BaseUrl: 'https://rc-epay.esewa.com.np',
+  statusCheckUrl: 'https://rc.esewa.com.np/api/epay/transaction/status/',
+}
+
+const sign = (message: string) =>
+  crypto.createHmac('sha256', config.secretKey).update(message).digest('base64')
+
+const encodeCallback = (data: Record<string, string>) =>
+  Buffer.from(JSON.stringify(data)).toString('base64')
+
+describe('eSewa Gateway', () => {
+  beforeAll(() => {
+    process.env.ESEWA_MERCHANT_ID = config.merchantId
+    process.env.ESEWA_SECRET_KEY = config.secretKey
+    process.env.ESEWA_BASE_URL = config.baseUrl
+  })
+
+  it('should sign v2 form fields in signed_field_names order', () => {
+    const request = new ESewaGateway(config).createV2PaymentRequest({
+      amount: 1500,
+      productId: 'order-1',
+      productName: 'Order',
+      orderId: 'order-1',
+    })
+
+    expect(request.signed_field_names).toBe('total_amount,transaction_uuid,product_code')
+    expect(request.total_amount).toBe('1500.00')
+    expect(request.signature).toBe(
+      sign(`total_amount=1500.00,transaction_uuid=${request.transaction_uuid},product_code=EPAYTEST`)
+    )
+  })
+
+  it('should decode v2 callback data and check its signature', () => {
+    const fields = {
+      transaction_code: '000AWEO',
+      status: 'COMPLETE',
+      total_amount: '1,500.0',
+      transaction_uuid: 'order-1-123',
+      product_code: 'EPAYTEST',
+      signed_field_names: 'transaction_code,status,total_amount,transaction_uuid,product_code,signed_field_names',
+    }
+    const signature = sign(
+      'transaction_code=000AWEO,status=COMPLETE,total_amount=1,500.0,transaction_uuid=order-1-123,' +
+      'product_code=EPAYTEST,signed_field_names=' + fields.signed_field_names
+    )
+
+    expect(parseESewaCallback({ data: encodeCallback({ ...fields, signature }) })).toEqual({
+      oid: 'order-1-123',
+      amt: '1500.0',
+      refId: '000AWEO',
+      status: 'COMPLETE',
+      version: 'v2',
+      signatureValid: true,
+    })
+
+    const tampered = parseESewaCallback({ data: encodeCallback({ ...fields, total_amount: '1.0', signature }) })
+    expect(tampered.signatureValid).toBe(false)
+  })
+
+  it('should keep parsing legacy v1 callbacks', () => {
+    expect(parseESewaCallback({ oid: 'pid-1', amt: '100.00', refId: 'ref-1' })).toEqual({
+      oid: 'pid-1',
+      amt: '100.00',
+      refId: 'ref-1',
+      status: '',
+      version: 'v1',
+    })
+  })
+
+  it('should map status check responses for reconciliation', () => {
+    const gateway = new ESewaGateway(config)
+
+    expect(gateway.getLookupStatus('COMPLETE')).toBe('COMPLETED')
+    expect(gateway.getLookupStatus('FULL_REFUND')).toBe('COMPLETED')
+    expect(gateway.getLookupStatus('AMBIGUOUS')).toBe('PENDING')
+    expect(gateway.getLookupStatus('NOT_FOUND')).toBe('FAILED')
+    expect(gateway.getLookupStatus('CANCELED')).toBe('FAILED')
+  })
+})
@@ -0,0 +1,58 @@
+import { describe, it, expect, jest, afterEach } from '@jest/globals'
+import crypto from 'crypto'
+import { FonepayGateway, type FonepayConfig } from '@/lib/payment-gateways/fonepay'
+
+const config: FonepayConfig = {
+  merchantCode: 'NBQM',
+  secretKey: 'test-secret',
+  username: 'merchant',
+  password: 'password',
+  baseUrl: 'https://dev-merchantapi.fonepay.com/api',
+}
+
+const sign = (message: string) =>
+  crypto.createHmac('sha512', config.secretKey).update(message).digest('hex')
+
+describe('Fonepay Gateway', () => {
+  const originalFetch = global.fetch
+
+  afterEach(() => {
+    global.fetch = originalFetch
+  })
+
+  it('should sign QR requests over amount, prn, merchant code and remarks', async () => {
+    const fetchMock = jest.fn(async () => ({
+      ok: true,
+      json: async () => ({ success: true, qrMessage: '000201010212', message: 'success', status: 'CREATED', statusCode: 201 }),
+    }))
+    global.fetch = fetchMock as unknown as typeof fetch
+
+    const response = await new FonepayGateway(config).createQrPayment('FP123', 1500, 'Order order-1')
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit]
+    const body = JSON.parse(init.body as string)
+
+    expect(response.qrMessage).toBe('000201010212')
+    expect(url).toBe(`${config.baseUrl}/merchant/merchantDetailsForThirdParty/thirdPartyDynamicQrDownload`)
+    expect(body.amount).toBe('1500.00')
+    expect(body.dataValidation).toBe(sign('1500.00,FP123,NBQM,Order order-1,Online order'))
+  })
+
+  it('should reject QR responses Fonepay did not accept', async () => {
+    global.fetch = jest.fn(async () => ({
+      ok: true,
+      json: async () => ({ success: false, message: 'Invalid data validation' }),
+    })) as unknown as typeof fetch
+
+    await expect(new FonepayGateway(config).createQrPayment('FP123', 1500, 'Order')).rejects.toThrow(
+      'Fonepay QR generation failed: Invalid data validation'
+    )
+  })
+
+  it('should map QR payment statuses for reconciliation', () => {
+    const gateway = new FonepayGateway(config)
+
+    expect(gateway.getLookupStatus('success')).toBe('COMPLETED')
+    expect(gateway.getLookupStatus('pending')).toBe('PENDING')
+    expect(gateway.getLookupStatus('failed')).toBe('FAILED')
+  })
+})
@@ -0,0 +1,88 @@
+import { describe, it, expect } from '@jest/globals'
+import {
+  buildDailySeries,
+  fitDemandModel,
+  forecastDemand,
+  getDaysOfCover,
+  planPurchaseReorder,
+} from '@/lib/inventory-forecast-utils'
+
+// A Sunday, so weekday 0 is the first day of the series
+const start = new Date('2026-01-04T00:00:00Z')
+
+const flat = (quantity: number, days: number) =>
+  Array.from({ length: days }, (_, index) => ({
+    date: new Date(start.getTime() + index * 86400000).toISOString().slice(0, 10),
+    quantity,
+  }))
+
+describe('Inventory Forecast Utils', () => {
+  it('should fill days without sales with zero', () => {
+    expect(buildDailySeries([
+      { date: '2026-01-04', quantity: 2 },
+      { date: '2026-01-06', quantity: 3 },
+      { date: '2026-01-06', quantity: 1 },
+    ], start, 4)).toEqual([2, 0, 4, 0])
+  })
+
+  it('should fall back to a flat average on short histories', () => {
+    const model = fitDemandModel([2, 4, 6, 8], start)
+
+    expect(model.averageDailyDemand).toBe(5)
+    expect(model.trendPerDay).toBe(0)
+    expect(model.weekdayFactors).toEqual([1, 1, 1, 1, 1, 1, 1])
+    expect(forecastDemand(model, start, 3).map(day => day.quantity)).toEqual([5, 5, 5])
+  })
+
+  it('should pick up weekday peaks and a rising trend', () => {
+    // Weekends sell twice as much, and every day sells a little more than the last
+    const series = Array.from({ length: 56 }, (_, index) => {
+      const weekend = index % 7 === 0 || index % 7 === 6
+      return (10 + index * 0.1) * (weekend ? 2 : 1)
+    })
+    const model = fitDemandModel(series, start)
+
+    expect(model.historyDays).toBe(56)
+    expect(model.trendPerDay).toBeGreaterThan(0.05)
+    expect(model.weekdayFactors[0]).toBeGreaterThan(1.4)
+    expect(model.weekdayFactors[6]).toBeGreaterThan(1.4)
+    expect(model.weekdayFactors.slice(1, 6).every(factor => factor < 1)).toBe(true)
+
+    // The day after history ends is a Sunday again
+    const forecast = forecastDemand(model, new Date(start.getTime() + 56 * 86400000), 7)
+    expect(forecast[0].quantity).toBeGreaterThan(forecast[1].quantity)
+    expect(forecast[0].quantity).toBeGreaterThan(series[49])
+  })
+
+  it('should never forecast negative demand', () => {
+    const series = Array.from({ length: 35 }, (_, index) => Math.max(0, 20 - index))
+    const model = fitDemandModel(series, start)
+
+    expect(model.trendPerDay).toBeLessThan(0)
+    expect(forecastDemand(model, start, 30).every(day => day.quantity >= 0)).toBe(true)
+  })
+
+  it('should count the days until stock sells through', () => {
+    const forecast = flat(5, 10)
+
+    expect(getDaysOfCover(forecast, 0)).toBe(0)
+    expect(getDaysOfCover(forecast, 12)).toBe(2)
+    expect(getDaysOfCover(forecast, 100)).toBeNull()
+  })
+
+  it('should suggest an order once stock and open orders reach the reorder point', () => {
+    const forecast = flat(5, 30)
+    const plan = planPurchaseReorder({ forecast, standardDeviation: 2, currentStock: 40, onOrder: 0, leadTimeDays: 7 })
+
+    // 35 units over the lead time plus ceil(1.65 * 2 * sqrt(7)) = 9 safety stock
+    expect(plan.safetyStock).toBe(9)
+    expect(plan.reorderPoint).toBe(44)
+    // Enough for 21 days plus safety stock, less what is on hand
+    expect(plan.suggestedOrderQuantity).toBe(105 + 9 - 40)
+
+    expect(planPurchaseReorder({ forecast, standardDeviation: 2, currentStock: 40, onOrder: 20, leadTimeDays: 7 })
+      .suggestedOrderQuantity).toBe(0)
+    expect(planPurchaseReorder({ forecast: flat(0, 30), standardDeviation: 0, currentStock: 0, onOrder: 0, leadTimeDays: 7 })
+      .suggestedOrderQuantity).toBe(0)
+  })
+})
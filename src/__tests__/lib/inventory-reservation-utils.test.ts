@@ -0,0 +1,35 @@
+import { describe, it, expect } from '@jest/globals'
+import {
+  DEFAULT_RESERVATION_MINUTES,
+  formatInsufficientStock,
+  getReservationExpiry,
+  mergeStockItems,
+} from '@/lib/inventory-reservation-utils'
+
+describe('Inventory Reservation Utils', () => {
+  it('should combine repeated products and order them by id', () => {
+    expect(mergeStockItems([
+      { productId: 'prod-b', quantity: 1 },
+      { productId: 'prod-a', quantity: 2 },
+      { productId: 'prod-b', quantity: 3 },
+    ])).toEqual([
+      { productId: 'prod-a', quantity: 2 },
+      { productId: 'prod-b', quantity: 4 },
+    ])
+  })
+
+  it('should hold stock for the configured number of minutes', () => {
+    const now = new Date('2026-03-31T12:00:00Z')
+
+    expect(getReservationExpiry(undefined, now)).toEqual(
+      new Date(now.getTime() + DEFAULT_RESERVATION_MINUTES * 60 * 1000)
+    )
+    expect(getReservationExpiry(5, now)).toEqual(new Date('2026-03-31T12:05:00Z'))
+  })
+
+  it('should never report negative stock as available', () => {
+    expect(formatInsufficientStock('Dhaka Topi', -2, 1)).toBe(
+      'Insufficient inventory for product Dhaka Topi. Available: 0, Requested: 1'
+    )
+  })
+})
@@ -0,0 +1,20 @@
+import { describe, it, expect } from '@jest/globals'
+import { canCustomerCancel, formatCancellationReason } from '@/lib/order-cancellation'
+
+describe('Order Cancellation', () => {
+  it('should allow cancelling pending and processing orders by default', () => {
+    expect(canCustomerCancel('PENDING')).toBe(true)
+    expect(canCustomerCancel('PROCESSING')).toBe(true)
+    expect(canCustomerCancel('SHIPPED')).toBe(false)
+  })
+
+  it('should respect the configured statuses but never allow shipped orders', () => {
+    expect(canCustomerCancel('PROCESSING', ['PENDING'])).toBe(false)
+    expect(canCustomerCancel('SHIPPED', ['PENDING', 'SHIPPED'])).toBe(false)
+  })
+
+  it('should format the stored reason with optional comments', () => {
+    expect(formatCancellationReason('ORDERED_BY_MISTAKE')).toBe('Ordered by mistake')
+    expect(formatCancellationReason('OTHER', '  Wrong size ')).toBe('Other: Wrong size')
+  })
+})
@@ -0,0 +1,82 @@
+import { describe, it, expect } from '@jest/globals'
+import {
+  buildOrderPriceBreakdown,
+  getOrderPriceBreakdown,
+  toOrderPriceColumns,
+} from '@/lib/order-pricing'
+
+describe('Order Pricing', () => {
+  const summary = {
+    subtotal: 1500,
+    shipping: 200,
+    tax: 175.5,
+    taxRate: 0.13,
+    discount: 150,
+    discountCode: 'SAVE10',
+  }
+
+  it('should build a breakdown from a cart summary', () => {
+    const breakdown = buildOrderPriceBreakdown(summary, { paymentMethod: 'esewa' })
+
+    expect(breakdown).toEqual({
+      subtotal: 1500,
+      shippingAmount: 200,
+      taxAmount: 175.5,
+      taxRate: 0.13,
+      discountAmount: 150,
+      discountCode: 'SAVE10',
+      paymentMethod: 'esewa',
+      currency: 'NPR',
+    })
+  })
+
+  it('should convert a breakdown to decimal column values', () => {
+    const columns = toOrderPriceColumns(buildOrderPriceBreakdown(summary, { paymentMethod: 'cod' }))
+
+    expect(columns).toMatchObject({
+      subtotal: '1500.00',
+      shippingAmount: '200.00',
+      taxAmount: '175.50',
+      taxRate: '0.13',
+      discountAmount: '150.00',
+      paymentMethod: 'cod',
+    })
+    expect(toOrderPriceColumns(undefined)).toEqual({})
+  })
+
+  it('should read the stored breakdown of an order', () => {
+    const breakdown = getOrderPriceBreakdown({
+      total: '1725.50',
+      subtotal: '1500.00',
+      shippingAmount: '200.00',
+      taxAmount: '175.50',
+      taxRate: '0.13',
+      discountAmount: '150.00',
+      discountCode: 'SAVE10',
+      paymentMethod: 'khalti',
+      currency: 'NPR',
+    })
+
+    expect(breakdown).toMatchObject({
+      subtotal: 1500,
+      shipping: 200,
+      tax: 175.5,
+      taxRate: 0.13,
+      discount: 150,
+      total: 1725.5,
+    })
+  })
+
+  it('should fall back to the items subtotal for orders without a stored breakdown', () => {
+    const breakdown = getOrderPriceBreakdown(
+      { total: '2400.00' },
+      [{ price: '1000.00', quantity: 2 }, { price: 200, quantity: 1 }]
+    )
+
+    expect(breakdown.subtotal).toBe(2200)
+    expect(breakdown.shipping).toBeNull()
+    expect(breakdown.tax).toBeNull()
+    expect(breakdown.discount).toBe(0)
+    expect(breakdown.total).toBe(2400)
+  })
+})
@@ -0,0 +1,51 @@
+import { describe, it, expect } from '@jest/globals'
+import {
+  canTransition,
+  getAllowedTransitions,
+  resolveTransition,
+  OrderTransitionError,
+  type OrderTransitionContext,
+} from '@/lib/order-state-machine'
+
+const createOrder = (overrides: Partial<OrderTransitionContext> = {}): OrderTransitionContext => ({
+  id: 'order-1',
+  status: 'PENDING',
+  paymentMethod: 'cod',
+  isPaid: false,
+  ...overrides,
+})
+
+describe('Order State Machine', () => {
+  it('should list the allowed next statuses', () => {
+    expect(getAllowedTransitions('PENDING')).toEqual(['PROCESSING', 'CANCELLED'])
+    expect(getAllowedTransitions('REFUNDED')).toEqual([])
+  })
+
+  it('should reject moving backwards or out of terminal states', () => {
+    expect(canTransition('DELIVERED', 'PENDING')).toBe(false)
+    expect(canTransition('CANCELLED', 'SHIPPED')).toBe(false)
+    expect(() => resolveTransition(createOrder({ status: 'DELIVERED' }), 'PENDING'))
+      .toThrow(OrderTransitionError)
+  })
+
+  it('should allow re-applying the current status without side-effects', () => {
+    expect(canTransition('SHIPPED', 'SHIPPED')).toBe(true)
+    expect(resolveTransition(createOrder({ status: 'SHIPPED' }), 'SHIPPED')).toEqual([])
+  })
+
+  it('should restore inventory when an order is cancelled', () => {
+    expect(resolveTransition(createOrder({ status: 'PROCESSING' }), 'CANCELLED'))
+      .toContain('RESTORE_INVENTORY')
+    expect(resolveTransition(createOrder({ status: 'CANCELLED' }), 'REFUNDED'))
+      .not.toContain('RESTORE_INVENTORY')
+  })
+
+  it('should not ship unpaid online orders', () => {
+    const unpaid = createOrder({ status: 'PROCESSING', paymentMethod: 'khalti' })
+
+    expect(() => resolveTransition(unpaid, 'SHIPPED')).toThrow('Cannot ship an order that has not been paid')
+    expect(resolveTransition({ ...unpaid, isPaid: true }, 'SHIPPED')).toContain('NOTIFY_CUSTOMER')
+    expect(resolveTransition(createOrder({ status: 'PROCESSING' }), 'SHIPPED'))
+      .toContain('NOTIFY_CUSTOMER')
+  })
+})
@@ -0,0 +1,38 @@
+import { describe, it, expect } from '@jest/globals'
+import {
+  getPaymentGateway,
+  getRegisteredPaymentGateways,
+  hasPaymentGateway,
+  registerPaymentGateway,
+} from '@/lib/payment-gateways/registry'
+import type { PaymentGateway } from '@/lib/payment-gateways/types'
+
+const createGateway = (method: string): PaymentGateway => ({
+  method,
+  displayName: method,
+  description: '',
+  icon: '',
+  capabilities: { online: true, refunds: false },
+  initiate: async () => ({ method, success: true, transactionId: `${method}-1` }),
+  verify: async (transactionId) => ({ method, success: true, transactionId, amount: 0, orderId: '' }),
+  refund: async () => ({ success: false }),
+  parseCallback: () => ({ success: false, params: {} }),
+})
+
+describe('Payment Gateway Registry', () => {
+  it('should look up gateways by the method they were registered under', () => {
+    const gateway = createGateway('test-wallet')
+    registerPaymentGateway(gateway)
+
+    expect(hasPaymentGateway('test-wallet')).toBe(true)
+    expect(getPaymentGateway('test-wallet')).toBe(gateway)
+  })
+
+  it('should keep registration order and reject unknown methods', () => {
+    registerPaymentGateway(createGateway('test-bank'))
+
+    const methods = getRegisteredPaymentGateways().map(gateway => gateway.method)
+    expect(methods.indexOf('test-wallet')).toBeLessThan(methods.indexOf('test-bank'))
+    expect(() => getPaymentGateway('unknown')).toThrow('Unsupported payment method: unknown')
+  })
+})
@@ -0,0 +1,52 @@
+import { describe, it, expect } from '@jest/globals'
+import { getExpectedPaymentAmount, getPaymentAmountMismatch } from '@/lib/payment-utils'
+import type { PaymentSessionData } from '@/lib/payment-transaction-repository'
+
+const session: PaymentSessionData = {
+  userId: 'user-1',
+  guestEmail: null,
+  cartItems: [
+    { productId: 'product-1', quantity: 2, price: 1000 },
+    // Prices come back from the decimal column as strings
+    { productId: 'product-2', quantity: 1, price: '500.50' as unknown as number },
+  ],
+  amount: 2686.07,
+  shippingAddress: null,
+  discountId: null,
+  discountCode: 'SAVE10',
+  priceBreakdown: {
+    subtotal: 2500.5,
+    shippingAmount: 200,
+    taxAmount: 260.57,
+    taxRate: 0.13,
+    discountAmount: 275,
+  },
+}
+
+describe('Payment Utils', () => {
+  it('should recompute the amount owed from the stored session', () => {
+    expect(getExpectedPaymentAmount(session)).toBe(2686.07)
+  })
+
+  it('should accept payments matching the session total', () => {
+    expect(getPaymentAmountMismatch({ amount: '2686.07', session }, 2686.07)).toBeNull()
+  })
+
+  it('should reject payments the gateway reports no amount for', () => {
+    expect(getPaymentAmountMismatch({ amount: '2686.07', session }, undefined)).toBe(
+      'Gateway did not report the amount captured; 2686.07 was expected'
+    )
+  })
+
+  it('should reject underpaid payments', () => {
+    expect(getPaymentAmountMismatch({ amount: '2686.07', session }, 2586.07)).toBe(
+      'Gateway captured 2586.07 but 2686.07 was expected'
+    )
+  })
+
+  it('should reject attempts started for a different amount than the session', () => {
+    expect(getPaymentAmountMismatch({ amount: '10', session }, 10)).toBe(
+      'Payment was started for 10 but the checkout session totals 2686.07'
+    )
+  })
+})
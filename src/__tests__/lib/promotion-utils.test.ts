@@ -0,0 +1,126 @@
+import { describe, it, expect } from '@jest/globals'
+import {
+  applyPromotions,
+  calculatePromotionSavings,
+  isPromotionLive,
+  type PromotionRule,
+} from '@/lib/promotion-utils'
+import type { DiscountableItem } from '@/lib/discount-utils'
+
+const createPromotion = (overrides: Partial<PromotionRule> = {}): PromotionRule => ({
+  id: 'promo-1',
+  name: 'Promotion',
+  promotionType: 'CATEGORY_SALE',
+  config: { percentOff: 10 },
+  applicableProductIds: [],
+  applicableCategoryIds: [],
+  isExclusive: false,
+  priority: 0,
+  startsAt: new Date('2024-01-01'),
+  endsAt: null,
+  isActive: true,
+  ...overrides,
+})
+
+const items: DiscountableItem[] = [
+  { productId: 'product-1', categoryId: 'lamps', price: 1000, quantity: 2 },
+  { productId: 'product-2', categoryId: 'vases', price: 500, quantity: 2 },
+]
+
+const now = new Date('2024-06-01')
+
+describe('Promotion Utils', () => {
+  describe('isPromotionLive', () => {
+    it('should respect the active flag and start/end window', () => {
+      expect(isPromotionLive(createPromotion(), now)).toBe(true)
+      expect(isPromotionLive(createPromotion({ isActive: false }), now)).toBe(false)
+      expect(isPromotionLive(createPromotion({ startsAt: new Date('2024-07-01') }), now)).toBe(false)
+      expect(isPromotionLive(createPromotion({ endsAt: new Date('2024-05-01') }), now)).toBe(false)
+    })
+  })
+
+  describe('calculatePromotionSavings', () => {
+    it('should discount the cheapest units for buy-X-get-Y', () => {
+      const promotion = createPromotion({
+        promotionType: 'BUY_X_GET_Y',
+        config: { buyQuantity: 1, getQuantity: 1 },
+      })
+
+      // 4 units form two buy-1-get-1 groups, the two 500 units are free
+      expect(calculatePromotionSavings(promotion, items)).toBe(1000)
+    })
+
+    it('should only apply spend threshold promotions above the minimum spend', () => {
+      const promotion = createPromotion({
+        promotionType: 'SPEND_THRESHOLD',
+        config: { minimumSpend: 3000, percentOff: 10, maximumDiscount: 250 },
+      })
+
+      expect(calculatePromotionSavings(promotion, items)).toBe(250)
+      expect(calculatePromotionSavings(promotion, items.slice(0, 1))).toBe(0)
+    })
+
+    it('should limit category sales to the sale category', () => {
+      const promotion = createPromotion({
+        config: { percentOff: 20 },
+        applicableCategoryIds: ['lamps'],
+      })
+
+      expect(calculatePromotionSavings(promotion, items)).toBe(400)
+    })
+
+    it('should pick the highest tier reached for tiered quantity discounts', () => {
+      const promotion = createPromotion({
+        promotionType: 'TIERED_QUANTITY',
+        config: { tiers: [{ minQuantity: 2, percentOff: 5 }, { minQuantity: 4, percentOff: 10 }] },
+      })
+
+      expect(calculatePromotionSavings(promotion, items)).toBe(300)
+    })
+  })
+
+  describe('applyPromotions', () => {
+    it('should combine stackable promotions', () => {
+      const result = applyPromotions([
+        createPromotion({ id: 'a', config: { percentOff: 10 } }),
+        createPromotion({ id: 'b', config: { percentOff: 5 } }),
+      ], items, now)
+
+      expect(result.appliedPromotions).toHaveLength(2)
+      expect(result.totalSavings).toBe(450)
+      expect(result.isExclusive).toBe(false)
+    })
+
+    it('should apply an exclusive promotion alone when it saves more', () => {
+      const result = applyPromotions([
+        createPromotion({ id: 'a', config: { percentOff: 10 } }),
+        createPromotion({ id: 'b', config: { percentOff: 25 }, isExclusive: true }),
+      ], items, now)
+
+      expect(result.appliedPromotions.map(p => p.promotionId)).toEqual(['b'])
+      expect(result.totalSavings).toBe(750)
+      expect(result.isExclusive).toBe(true)
+    })
+
+    it('should ignore an exclusive promotion that saves less than the stackable ones', () => {
+      const result = applyPromotions([
+        createPromotion({ id: 'a', config: { percentOff: 10 } }),
+        createPromotion({ id: 'b', config: { percentOff: 10 } }),
+        createPromotion({ id: 'c', config: { percentOff: 15 }, isExclusive: true }),
+      ], items, now)
+
+      expect(result.appliedPromotions.map(p => p.promotionId)).toEqual(['a', 'b'])
+      expect(result.totalSavings).toBe(600)
+    })
+
+    it('should cap stacked savings at the subtotal in priority order', () => {
+      const result = applyPromotions([
+        createPromotion({ id: 'a', config: { percentOff: 40 }, priority: 1 }),
+        createPromotion({ id: 'b', config: { percentOff: 80 }, priority: 2 }),
+      ], items, now)
+
+      expect(result.totalSavings).toBe(3000)
+      expect(result.appliedPromotions.map(p => [p.promotionId, p.savings])).toEqual([['b', 2400], ['a', 600]])
+    })
+  })
+})
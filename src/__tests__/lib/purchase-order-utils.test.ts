@@ -0,0 +1,57 @@
+import { describe, it, expect } from '@jest/globals'
+import {
+  canApplyPurchaseOrderAction,
+  checkReceipt,
+  formatPurchaseOrderNumber,
+  getOutstandingQuantity,
+  getPurchaseOrderTotal,
+  getStatusAfterReceipt,
+} from '@/lib/purchase-order-utils'
+
+const items = [
+  { id: 'item-1', quantityOrdered: 10, quantityReceived: 4, unitCost: '150.00' },
+  { id: 'item-2', quantityOrdered: 5, quantityReceived: 0, unitCost: '99.50' },
+]
+
+describe('Purchase Order Utils', () => {
+  it('should only allow each action from the right statuses', () => {
+    expect(canApplyPurchaseOrderAction('DRAFT', 'send')).toBe(true)
+    expect(canApplyPurchaseOrderAction('DRAFT', 'receive')).toBe(false)
+    expect(canApplyPurchaseOrderAction('SENT', 'receive')).toBe(true)
+    expect(canApplyPurchaseOrderAction('PARTIALLY_RECEIVED', 'cancel')).toBe(true)
+    expect(canApplyPurchaseOrderAction('RECEIVED', 'cancel')).toBe(false)
+    expect(canApplyPurchaseOrderAction('UNKNOWN', 'send')).toBe(false)
+  })
+
+  it('should total the order and what is still outstanding', () => {
+    expect(getPurchaseOrderTotal(items)).toBe(1997.5)
+    expect(getOutstandingQuantity(items[0])).toBe(6)
+    expect(getOutstandingQuantity({ quantityOrdered: 2, quantityReceived: 3 })).toBe(0)
+    expect(formatPurchaseOrderNumber('0b6a2f1e-4c1d-4e7a-9d0b-12ab34cd56ef')).toBe('PO-34CD56EF')
+  })
+
+  it('should accept a delivery within the outstanding quantities', () => {
+    expect(checkReceipt(items, [
+      { itemId: 'item-1', quantity: 6 },
+      { itemId: 'item-2', quantity: 0 },
+    ])).toBeNull()
+  })
+
+  it('should reject deliveries that cannot be booked', () => {
+    expect(checkReceipt(items, [{ itemId: 'item-1', quantity: 7 }])).toBe('Only 6 more can be received for this item')
+    expect(checkReceipt(items, [{ itemId: 'item-3', quantity: 1 }])).toBe('Item is not on this purchase order')
+    expect(checkReceipt(items, [
+      { itemId: 'item-2', quantity: 1 },
+      { itemId: 'item-2', quantity: 1 },
+    ])).toBe('Each item can only be received once per delivery')
+    expect(checkReceipt(items, [{ itemId: 'item-2', quantity: 0 }])).toBe('Enter a received quantity for at least one item')
+  })
+
+  it('should only mark the order received once everything has arrived', () => {
+    expect(getStatusAfterReceipt(items)).toBe('PARTIALLY_RECEIVED')
+    expect(getStatusAfterReceipt([
+      { quantityOrdered: 10, quantityReceived: 10 },
+      { quantityOrdered: 5, quantityReceived: 5 },
+    ])).toBe('RECEIVED')
+  })
+})
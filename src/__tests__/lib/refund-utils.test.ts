@@ -0,0 +1,65 @@
+import { describe, it, expect } from '@jest/globals'
+import {
+  calculateItemRefundAmount,
+  getCapturedAmount,
+  getRefundedOrderStatus,
+  shouldRefundThroughGateway,
+  summarizeRefunds,
+  type RefundableOrder,
+} from '@/lib/refund-utils'
+
+const createOrder = (overrides: Partial<RefundableOrder> = {}): RefundableOrder => ({
+  status: 'DELIVERED',
+  total: '1895.50',
+  subtotal: '1500.00',
+  shippingAmount: '200.00',
+  taxAmount: '195.50',
+  taxRate: '0.13',
+  discountAmount: '0.00',
+  paymentMethod: 'esewa',
+  paidAmount: 1895.5,
+  ...overrides,
+})
+
+describe('Refund Utils', () => {
+  it('should only count cash on delivery as captured once delivered', () => {
+    expect(getCapturedAmount(createOrder({ paymentMethod: 'cod', paidAmount: 0 }))).toBe(1895.5)
+    expect(getCapturedAmount(createOrder({ paymentMethod: 'cod', status: 'CANCELLED' }))).toBe(0)
+    expect(getCapturedAmount(createOrder({ paymentMethod: null, status: 'CANCELLED', paidAmount: 0 }))).toBe(0)
+  })
+
+  it('should only count online payments the gateway confirmed', () => {
+    expect(getCapturedAmount(createOrder({ status: 'CANCELLED' }))).toBe(1895.5)
+    expect(getCapturedAmount(createOrder({ paidAmount: 0 }))).toBe(0)
+    expect(getCapturedAmount(createOrder({ paidAmount: undefined }))).toBe(0)
+  })
+
+  it('should summarize refunds against the captured amount', () => {
+    const summary = summarizeRefunds(createOrder(), [{ amount: '500.00' }, { amount: 250.25 }])
+
+    expect(summary).toEqual({ captured: 1895.5, refunded: 750.25, remaining: 1145.25 })
+  })
+
+  it('should refund an item share of goods paid, excluding shipping', () => {
+    const items = [
+      { id: 'item-1', price: '1000.00', quantity: 1 },
+      { id: 'item-2', price: '250.00', quantity: 2 },
+    ]
+
+    expect(calculateItemRefundAmount(createOrder(), items, 'item-1', 1)).toBe(1130.33)
+    expect(calculateItemRefundAmount(createOrder(), items, 'item-2', 2)).toBe(565.17)
+    expect(calculateItemRefundAmount(createOrder(), items, 'missing', 1)).toBe(0)
+  })
+
+  it('should mark the order refunded only when everything captured is returned', () => {
+    expect(getRefundedOrderStatus(1895.5, 500)).toBe('PARTIALLY_REFUNDED')
+    expect(getRefundedOrderStatus(1895.5, 1895.5)).toBe('REFUNDED')
+  })
+
+  it('should only send unreferenced original payment refunds to the gateway', () => {
+    expect(shouldRefundThroughGateway({ method: 'ORIGINAL_PAYMENT' }, true)).toBe(true)
+    expect(shouldRefundThroughGateway({ method: 'ORIGINAL_PAYMENT', reference: 'BANK-1' }, true)).toBe(false)
+    expect(shouldRefundThroughGateway({ method: 'STORE_CREDIT' }, true)).toBe(false)
+    expect(shouldRefundThroughGateway({ method: 'ORIGINAL_PAYMENT' }, false)).toBe(false)
+  })
+})
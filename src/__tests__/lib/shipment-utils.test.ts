@@ -0,0 +1,44 @@
+import { describe, it, expect } from '@jest/globals'
+import {
+  deriveOrderStatusFromShipments,
+  getShippedQuantities,
+  getUnshippedQuantities,
+} from '@/lib/shipment-utils'
+
+const items = [
+  { id: 'item-1', quantity: 2 },
+  { id: 'item-2', quantity: 1 },
+]
+
+describe('Shipment Utils', () => {
+  it('should total shipped units per order item across shipments', () => {
+    const shipments = [
+      { status: 'SHIPPED', items: [{ orderItemId: 'item-1', quantity: 1 }] },
+      { status: 'SHIPPED', items: [{ orderItemId: 'item-1', quantity: 1 }, { orderItemId: 'item-2', quantity: 1 }] },
+    ]
+
+    expect(getShippedQuantities(shipments)).toEqual({ 'item-1': 2, 'item-2': 1 })
+    expect(getUnshippedQuantities(items, shipments)).toEqual({})
+  })
+
+  it('should leave unshipped units to ship later', () => {
+    const shipments = [{ status: 'SHIPPED', items: [{ orderItemId: 'item-1', quantity: 1 }] }]
+
+    expect(getUnshippedQuantities(items, shipments)).toEqual({ 'item-1': 1, 'item-2': 1 })
+    expect(deriveOrderStatusFromShipments(items, shipments)).toBe('PARTIALLY_SHIPPED')
+  })
+
+  it('should derive shipped and delivered once every unit has left', () => {
+    const shipments = [
+      { status: 'DELIVERED', items: [{ orderItemId: 'item-1', quantity: 2 }] },
+      { status: 'SHIPPED', items: [{ orderItemId: 'item-2', quantity: 1 }] },
+    ]
+
+    expect(deriveOrderStatusFromShipments(items, [])).toBeNull()
+    expect(deriveOrderStatusFromShipments(items, shipments)).toBe('SHIPPED')
+    expect(deriveOrderStatusFromShipments(items, [
+      shipments[0],
+      { ...shipments[1], status: 'DELIVERED' },
+    ])).toBe('DELIVERED')
+  })
+})
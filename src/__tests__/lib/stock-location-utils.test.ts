@@ -0,0 +1,95 @@
+import { describe, it, expect } from '@jest/globals'
+import {
+  allocateReturnedStock,
+  allocateStock,
+  getMainLocationId,
+  getNetStockTaken,
+} from '@/lib/stock-location-utils'
+
+const locationIds = ['ktm', 'pkr']
+
+describe('Stock Location Utils', () => {
+  it('should ship from the first location that holds everything', () => {
+    const plan = allocateStock(
+      [{ productId: 'prod-a', quantity: 2 }, { productId: 'prod-b', quantity: 1 }],
+      [
+        { locationId: 'ktm', productId: 'prod-a', quantity: 1 },
+        { locationId: 'ktm', productId: 'prod-b', quantity: 5 },
+        { locationId: 'pkr', productId: 'prod-a', quantity: 4 },
+        { locationId: 'pkr', productId: 'prod-b', quantity: 2 },
+      ],
+      locationIds
+    )
+
+    expect(plan.locationId).toBe('pkr')
+    expect(plan.allocations).toEqual([
+      { productId: 'prod-a', locationId: 'pkr', quantity: 2 },
+      { productId: 'prod-b', locationId: 'pkr', quantity: 1 },
+    ])
+    expect(plan.shortfalls).toEqual([])
+  })
+
+  it('should split an order and report what no location can cover', () => {
+    const plan = allocateStock(
+      [{ productId: 'prod-a', quantity: 5 }],
+      [
+        { locationId: 'ktm', productId: 'prod-a', quantity: 1 },
+        { locationId: 'pkr', productId: 'prod-a', quantity: 3 },
+      ],
+      locationIds
+    )
+
+    expect(plan.locationId).toBe('pkr')
+    expect(plan.allocations).toEqual([
+      { productId: 'prod-a', locationId: 'pkr', quantity: 3 },
+      { productId: 'prod-a', locationId: 'ktm', quantity: 1 },
+    ])
+    expect(plan.shortfalls).toEqual([{ productId: 'prod-a', quantity: 1 }])
+  })
+
+  it('should try the preferred location first', () => {
+    const levels = [
+      { locationId: 'ktm', productId: 'prod-a', quantity: 3 },
+      { locationId: 'pkr', productId: 'prod-a', quantity: 3 },
+    ]
+
+    expect(allocateStock([{ productId: 'prod-a', quantity: 2 }], levels, locationIds).locationId).toBe('ktm')
+    expect(allocateStock([{ productId: 'prod-a', quantity: 2 }], levels, locationIds, 'pkr').locationId).toBe('pkr')
+  })
+
+  it('should pick the location that supplied the most units', () => {
+    expect(getMainLocationId([
+      { locationId: 'ktm', quantity: 1 },
+      { locationId: 'pkr', quantity: 2 },
+      { locationId: null, quantity: 5 },
+    ])).toBe('pkr')
+    expect(getMainLocationId([])).toBeNull()
+  })
+
+  it('should net an order\'s adjustments per location', () => {
+    expect(getNetStockTaken([
+      { productId: 'prod-a', locationId: null, quantity: -3 },
+      { productId: 'prod-a', locationId: 'ktm', quantity: 1 },
+      { productId: 'prod-b', locationId: 'pkr', quantity: -2 },
+      { productId: 'prod-b', locationId: 'pkr', quantity: 2 },
+    ], 'ktm')).toEqual([
+      { productId: 'prod-a', locationId: 'ktm', quantity: 2 },
+    ])
+  })
+
+  it('should put returned units back where the order took them from', () => {
+    const taken = [
+      { productId: 'prod-a', locationId: 'pkr', quantity: 3 },
+      { productId: 'prod-a', locationId: 'ktm', quantity: 1 },
+    ]
+
+    expect(allocateReturnedStock([{ productId: 'prod-a', quantity: 4 }], taken)).toEqual({
+      allocations: taken,
+      unplaced: [],
+    })
+    expect(allocateReturnedStock([{ productId: 'prod-a', quantity: 2 }, { productId: 'prod-b', quantity: 1 }], taken)).toEqual({
+      allocations: [{ productId: 'prod-a', locationId: 'pkr', quantity: 2 }],
+      unplaced: [{ productId: 'prod-b', quantity: 1 }],
+    })
+  })
+})
@@ -0,0 +1,65 @@
+import { describe, it, expect } from '@jest/globals'
+import {
+  canApplyStocktakeAction,
+  checkCounts,
+  findItemByCode,
+  formatStocktakeNumber,
+  getStocktakeVariance,
+  getVarianceValue,
+  summarizeStocktake,
+} from '@/lib/stocktake-utils'
+
+const items = [
+  { id: 'item-1', expectedQuantity: 10, countedQuantity: 8, unitCost: '150.00', product: { sku: 'TEA-250' } },
+  { id: 'item-2', expectedQuantity: 4, countedQuantity: 5, unitCost: '99.50', product: { sku: 'MUG-01' } },
+  { id: 'item-3', expectedQuantity: 6, countedQuantity: 6, unitCost: '20.00', product: { sku: null } },
+  { id: 'item-4', expectedQuantity: 3, countedQuantity: null, unitCost: '45.00', product: { sku: 'BAG-02' } },
+  { id: 'item-5', expectedQuantity: 2, countedQuantity: 0, unitCost: null, product: { sku: 'PEN-9' } },
+]
+
+describe('Stocktake Utils', () => {
+  it('should only allow changes while counting', () => {
+    expect(canApplyStocktakeAction('COUNTING', 'count')).toBe(true)
+    expect(canApplyStocktakeAction('COUNTING', 'post')).toBe(true)
+    expect(canApplyStocktakeAction('POSTED', 'cancel')).toBe(false)
+    expect(canApplyStocktakeAction('CANCELLED', 'count')).toBe(false)
+    expect(formatStocktakeNumber('0b6a2f1e-4c1d-4e7a-9d0b-12ab34cd56ef')).toBe('ST-34CD56EF')
+  })
+
+  it('should value variances at purchase price', () => {
+    expect(getStocktakeVariance(items[0])).toBe(-2)
+    expect(getStocktakeVariance(items[3])).toBeNull()
+    expect(getVarianceValue(items[0])).toBe(-300)
+    expect(getVarianceValue(items[1])).toBe(99.5)
+    expect(getVarianceValue(items[4])).toBeNull()
+  })
+
+  it('should summarize shortages and surpluses', () => {
+    expect(summarizeStocktake(items)).toEqual({
+      itemCount: 5,
+      countedCount: 4,
+      varianceCount: 3,
+      shortageUnits: 4,
+      surplusUnits: 1,
+      shortageValue: 300,
+      surplusValue: 99.5,
+      netValue: -200.5,
+      missingCostCount: 1,
+    })
+  })
+
+  it('should find the line for a scanned code', () => {
+    expect(findItemByCode(items, ' mug-01\n')?.id).toBe('item-2')
+    expect(findItemByCode(items, 'UNKNOWN')).toBeNull()
+    expect(findItemByCode(items, '   ')).toBeNull()
+  })
+
+  it('should reject counts that are not on the sheet or repeated', () => {
+    expect(checkCounts(items, [{ itemId: 'item-1', quantity: 3 }, { itemId: 'item-4', quantity: null }])).toBeNull()
+    expect(checkCounts(items, [{ itemId: 'item-9', quantity: 1 }])).toBe('Item is not on this count sheet')
+    expect(checkCounts(items, [
+      { itemId: 'item-1', quantity: 1 },
+      { itemId: 'item-1', quantity: 2 },
+    ])).toBe('Each item can only be counted once per update')
+  })
+})
@@ -6,6 +6,7 @@ import {
   updateOrderSchema,
   paginationSchema,
   productFiltersSchema,
+  createReturnRequestSchema,
 } from '@/lib/validations'
 
 describe('Validation Schemas', () => {
@@ -480,6 +481,36 @@ describe('Validation Schemas', () => {
     })
   })
 
+  describe('createReturnRequestSchema', () => {
+    const validReturn = {
+      orderItemId: '123e4567-e89b-12d3-a456-426614174000',
+      quantity: 1,
+      reason: 'DAMAGED' as const,
+    }
+
+    it('should validate a return request and default images', () => {
+      const result = createReturnRequestSchema.safeParse(validReturn)
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.data.images).toEqual([])
+      }
+    })
+
+    it('should require comments when the reason is OTHER', () => {
+      const result = createReturnRequestSchema.safeParse({ ...validReturn, reason: 'OTHER' })
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error.issues[0].path).toContain('comments')
+      }
+    })
+
+    it('should reject more than 5 photos', () => {
+      const images = Array.from({ length: 6 }, (_, i) => `https://example.com/${i}.jpg`)
+      const result = createReturnRequestSchema.safeParse({ ...validReturn, images })
+      expect(result.success).toBe(false)
+    })
+  })
+
   describe('Edge Cases', () => {
     it('should handle null values', () => {
       const nullData = null
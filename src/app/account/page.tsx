@@ -8,6 +8,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import ProfileForm from '@/components/account/profile-form'
 import AddressBook from '@/components/account/address-book'
 import OrderHistory from '@/components/account/order-history'
+import CheckoutPreferences from '@/components/account/checkout-preferences'
 import { useAuth } from '@/hooks/use-auth'
 import Loading from '@/components/ui/loading'
 
@@ -92,6 +93,17 @@ export default function AccountPage() {
                 <ProfileForm user={{...user, createdAt: (user as any)?.createdAt || new Date().toISOString()}} />
               </CardContent>
             </Card>
+            <Card>
+              <CardHeader>
+                <h3 className="text-lg font-medium text-gray-900">Checkout Preferences</h3>
+                <p className="text-sm text-gray-600">
+                  Choose how you usually pay and where your orders are shipped
+                </p>
+              </CardHeader>
+              <CardContent>
+                <CheckoutPreferences />
+              </CardContent>
+            </Card>
             </div>
           </TabsContent>
 
@@ -19,8 +19,20 @@ import { Card, CardContent, CardHeader } from '@/components/ui/card'
 import Button from '@/components/ui/button'
 import Loading from '@/components/ui/loading'
 import ShippingAddressForm from '@/components/orders/shipping-address-form'
+import OrderTimeline from '@/components/orders/order-timeline'
+import OrderShipments from '@/components/orders/order-shipments'
+import OrderRefunds from '@/components/orders/order-refunds'
+import OrderPaymentAttempts from '@/components/orders/order-payment-attempts'
 import { OrderWithItems } from '@/types'
 import { formatPrice } from '@/lib/cart-utils'
+import { formatPaymentMethod, getOrderPriceBreakdown } from '@/lib/order-pricing'
+import { canTransition } from '@/lib/order-state-machine'
+
+type StockLocationOption = {
+  id: string
+  name: string
+  isActive: boolean
+}
 
 interface AdminOrderDetailPageProps {
   params: Promise<{
@@ -28,6 +40,21 @@ interface AdminOrderDetailPageProps {
   }>
 }
 
+const STATUS_OPTIONS = [
+  { value: 'PENDING', label: 'Pending' },
+  { value: 'PROCESSING', label: 'Processing' },
+  { value: 'PARTIALLY_SHIPPED', label: 'Partially Shipped' },
+  { value: 'SHIPPED', label: 'Shipped' },
+  { value: 'DELIVERED', label: 'Delivered' },
+  { value: 'CANCELLED', label: 'Cancelled' },
+]
+
+// Set by recording a refund, so only shown as the current status
+const REFUND_STATUS_OPTIONS = [
+  { value: 'PARTIALLY_REFUNDED', label: 'Partially Refunded' },
+  { value: 'REFUNDED', label: 'Refunded' },
+]
+
 // Extend the OrderWithItems type to include shippingAddress
 interface OrderWithItemsAndShipping extends OrderWithItems {
   shippingAddress: any | null;
@@ -39,10 +66,15 @@ export default function AdminOrderDetailPage({ params }: AdminOrderDetailPagePro
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string>('')
   const [editingAddress, setEditingAddress] = useState(false)
+  const [locations, setLocations] = useState<StockLocationOption[]>([])
+  const [savingLocation, setSavingLocation] = useState(false)
   const [showTrackingForm, setShowTrackingForm] = useState(false)
   const [trackingData, setTrackingData] = useState({
     status: 'PROCESSING',
-    message: ''
+    message: '',
+    location: '',
+    carrier: '',
+    carrierReference: ''
   })
   const resolvedParams = use(params) // Unwrap the Promise to get the actual params
 
@@ -50,6 +82,22 @@ export default function AdminOrderDetailPage({ params }: AdminOrderDetailPagePro
     fetchOrder()
   }, [resolvedParams.id])
 
+  useEffect(() => {
+    const fetchLocations = async () => {
+      try {
+        const response = await fetch('/api/inventory/locations')
+        if (response.ok) {
+          const data = await response.json()
+          setLocations(data.locations)
+        }
+      } catch (err) {
+        console.error('Failed to load stock locations:', err)
+      }
+    }
+
+    fetchLocations()
+  }, [])
+
   const fetchOrder = async () => {
     setLoading(true)
     setError('')
@@ -91,6 +139,12 @@ export default function AdminOrderDetailPage({ params }: AdminOrderDetailPagePro
           color: 'bg-blue-100 text-blue-800',
           description: 'Order is being processed and prepared for shipment'
         }
+      case 'PARTIALLY_SHIPPED':
+        return {
+          icon: <TruckIcon className="h-6 w-6 text-purple-500" />,
+          color: 'bg-purple-100 text-purple-800',
+          description: 'Some items have been shipped, others are still being prepared'
+        }
       case 'SHIPPED':
         return {
           icon: <TruckIcon className="h-6 w-6 text-purple-500" />,
@@ -109,6 +163,12 @@ export default function AdminOrderDetailPage({ params }: AdminOrderDetailPagePro
           color: 'bg-red-100 text-red-800',
           description: 'This order has been cancelled'
         }
+      case 'PARTIALLY_REFUNDED':
+        return {
+          icon: <XCircleIcon className="h-6 w-6 text-orange-500" />,
+          color: 'bg-orange-100 text-orange-800',
+          description: 'Part of this order has been returned and refunded'
+        }
       case 'REFUNDED':
         return {
           icon: <XCircleIcon className="h-6 w-6 text-orange-500" />,
@@ -134,21 +194,6 @@ export default function AdminOrderDetailPage({ params }: AdminOrderDetailPagePro
     })
   }
 
-  const calculateSubtotal = () => {
-    if (!order) return 0
-    return order.items.reduce((sum, item) => sum + (item.price * item.quantity), 0)
-  }
-
-  const calculateTax = () => {
-    const subtotal = calculateSubtotal()
-    return subtotal * 0.085 // 8.5% tax
-  }
-
-  const calculateShipping = () => {
-    const subtotal = calculateSubtotal()
-    return subtotal >= 50 ? 0 : 9.99
-  }
-
   const handleStatusUpdate = async (newStatus: string) => {
     try {
       const response = await fetch(`/api/orders/${resolvedParams.id}`, {
@@ -160,7 +205,8 @@ export default function AdminOrderDetailPage({ params }: AdminOrderDetailPagePro
       })
 
       if (!response.ok) {
-        throw new Error('Failed to update order status')
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || 'Failed to update order status')
       }
 
       // Refresh order data
@@ -171,6 +217,32 @@ export default function AdminOrderDetailPage({ params }: AdminOrderDetailPagePro
     }
   }
 
+  const handleFulfillmentLocationChange = async (locationId: string) => {
+    setSavingLocation(true)
+
+    try {
+      const response = await fetch(`/api/orders/${resolvedParams.id}/fulfillment-location`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ locationId }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || 'Failed to change fulfillment location')
+      }
+
+      fetchOrder()
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to change fulfillment location'
+      alert(errorMessage)
+    } finally {
+      setSavingLocation(false)
+    }
+  }
+
   const handleAddressSave = (updatedAddress: any) => {
     if (order) {
       setOrder({
@@ -203,7 +275,10 @@ export default function AdminOrderDetailPage({ params }: AdminOrderDetailPagePro
       setShowTrackingForm(false)
       setTrackingData({
         status: 'PROCESSING',
-        message: ''
+        message: '',
+        location: '',
+        carrier: '',
+        carrierReference: ''
       })
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to add tracking information'
@@ -262,9 +337,7 @@ export default function AdminOrderDetailPage({ params }: AdminOrderDetailPagePro
   }
 
   const statusInfo = getStatusInfo(order.status)
-  const subtotal = calculateSubtotal()
-  const tax = calculateTax()
-  const shipping = calculateShipping()
+  const breakdown = getOrderPriceBreakdown(order, order.items)
 
   // Extract shipping address if available
   const shippingAddress = order.shippingAddress || null
@@ -345,6 +418,14 @@ export default function AdminOrderDetailPage({ params }: AdminOrderDetailPagePro
                   </div>
                 </CardContent>
               </Card>
+
+              <OrderTimeline orderId={order.id} currentStatus={order.status} />
+
+              <OrderShipments order={order} canManage onChanged={fetchOrder} />
+
+              <OrderRefunds order={order} canIssueRefund onRefunded={fetchOrder} />
+
+              <OrderPaymentAttempts orderId={order.id} currentStatus={order.status} />
             </div>
 
             {/* Order Summary & Details */}
@@ -432,30 +513,54 @@ export default function AdminOrderDetailPage({ params }: AdminOrderDetailPagePro
                     <div className="flex justify-between text-sm">
                       <span className="text-gray-600">Subtotal</span>
                       <span className="font-medium text-gray-900">
-                        {formatPrice(subtotal)}
+                        {formatPrice(breakdown.subtotal, breakdown.currency)}
                       </span>
                     </div>
+                    {breakdown.discount > 0 && (
+                      <div className="flex justify-between text-sm">
+                        <span className="text-gray-600">
+                          Discount{breakdown.discountCode ? ` (${breakdown.discountCode})` : ''}
+                        </span>
+                        <span className="font-medium text-green-600">
+                          -{formatPrice(breakdown.discount, breakdown.currency)}
+                        </span>
+                      </div>
+                    )}
                     <div className="flex justify-between text-sm">
                       <span className="text-gray-600">Shipping</span>
                       <span className="font-medium text-gray-900">
-                        {shipping === 0 ? (
+                        {breakdown.shipping === null ? (
+                          <span className="text-gray-400">Not recorded</span>
+                        ) : breakdown.shipping === 0 ? (
                           <span className="text-green-600">Free</span>
                         ) : (
-                          formatPrice(shipping)
+                          formatPrice(breakdown.shipping, breakdown.currency)
                         )}
                       </span>
                     </div>
                     <div className="flex justify-between text-sm">
-                      <span className="text-gray-600">Tax</span>
+                      <span className="text-gray-600">
+                        Tax{breakdown.taxRate !== null ? ` (${parseFloat((breakdown.taxRate * 100).toFixed(2))}%)` : ''}
+                      </span>
                       <span className="font-medium text-gray-900">
-                        {formatPrice(tax)}
+                        {breakdown.tax === null ? (
+                          <span className="text-gray-400">Not recorded</span>
+                        ) : (
+                          formatPrice(breakdown.tax, breakdown.currency)
+                        )}
+                      </span>
+                    </div>
+                    <div className="flex justify-between text-sm">
+                      <span className="text-gray-600">Payment Method</span>
+                      <span className="font-medium text-gray-900">
+                        {formatPaymentMethod(breakdown.paymentMethod)}
                       </span>
                     </div>
                     <div className="border-t border-gray-200 pt-3">
                       <div className="flex justify-between">
                         <span className="text-base font-medium text-gray-900">Total</span>
                         <span className="text-base font-medium text-gray-900">
-                          {formatPrice(order.total)}
+                          {formatPrice(breakdown.total, breakdown.currency)}
                         </span>
                       </div>
                     </div>
@@ -500,6 +605,17 @@ export default function AdminOrderDetailPage({ params }: AdminOrderDetailPagePro
                         {formatDate(order.updatedAt.toString())}
                       </span>
                     </div>
+                    {order.cancelledAt && (
+                      <div className="flex justify-between gap-4">
+                        <span className="text-gray-600">Cancelled:</span>
+                        <span className="text-gray-900 text-right">
+                          {formatDate(order.cancelledAt.toString())}
+                          {order.cancellationReason && (
+                            <span className="block text-gray-500">{order.cancellationReason}</span>
+                          )}
+                        </span>
+                      </div>
+                    )}
                   </div>
                 </CardContent>
               </Card>
@@ -518,12 +634,20 @@ export default function AdminOrderDetailPage({ params }: AdminOrderDetailPagePro
                       onChange={(e) => handleStatusUpdate(e.target.value)}
                       className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
                     >
-                      <option value="PENDING">Pending</option>
-                      <option value="PROCESSING">Processing</option>
-                      <option value="SHIPPED">Shipped</option>
-                      <option value="DELIVERED">Delivered</option>
-                      <option value="CANCELLED">Cancelled</option>
-                      <option value="REFUNDED">Refunded</option>
+                      {STATUS_OPTIONS.map(option => (
+                        <option
+                          key={option.value}
+                          value={option.value}
+                          disabled={!canTransition(order.status, option.value)}
+                        >
+                          {option.label}
+                        </option>
+                      ))}
+                      {REFUND_STATUS_OPTIONS.filter(option => option.value === order.status).map(option => (
+                        <option key={option.value} value={option.value} disabled>
+                          {option.label}
+                        </option>
+                      ))}
                     </select>
                     <p className="text-xs text-gray-500">
                       Current status: {order.status}
@@ -532,6 +656,45 @@ export default function AdminOrderDetailPage({ params }: AdminOrderDetailPagePro
                 </CardContent>
               </Card>
 
+              {/* Fulfillment Location */}
+              {locations.length > 0 && (
+                <Card>
+                  <CardHeader>
+                    <h2 className="text-lg font-medium text-gray-900">
+                      Fulfillment Location
+                    </h2>
+                  </CardHeader>
+                  <CardContent>
+                    {order.status === 'PENDING' || order.status === 'PROCESSING' ? (
+                      <div className="space-y-3">
+                        <select
+                          value={order.fulfillmentLocationId || ''}
+                          onChange={(e) => handleFulfillmentLocationChange(e.target.value)}
+                          disabled={savingLocation}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                        >
+                          {!order.fulfillmentLocationId && (
+                            <option value="" disabled>Not assigned</option>
+                          )}
+                          {locations.filter(location => location.isActive).map(location => (
+                            <option key={location.id} value={location.id}>
+                              {location.name}
+                            </option>
+                          ))}
+                        </select>
+                        <p className="text-xs text-gray-500">
+                          Changing the location moves the order&apos;s stock there.
+                        </p>
+                      </div>
+                    ) : (
+                      <p className="text-sm text-gray-900">
+                        {locations.find(location => location.id === order.fulfillmentLocationId)?.name || 'Not assigned'}
+                      </p>
+                    )}
+                  </CardContent>
+                </Card>
+              )}
+
               {/* Tracking Information Form */}
               {showTrackingForm && (
                 <Card>
@@ -551,11 +714,11 @@ export default function AdminOrderDetailPage({ params }: AdminOrderDetailPagePro
                           onChange={(e) => setTrackingData({...trackingData, status: e.target.value})}
                           className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
                         >
-                          <option value="PROCESSING">Processing</option>
-                          <option value="SHIPPED">Shipped</option>
-                          <option value="DELIVERED">Delivered</option>
-                          <option value="CANCELLED">Cancelled</option>
-                          <option value="REFUNDED">Refunded</option>
+                          {STATUS_OPTIONS.filter(option => canTransition(order.status, option.value)).map(option => (
+                            <option key={option.value} value={option.value}>
+                              {option.label}
+                            </option>
+                          ))}
                         </select>
                       </div>
                       
@@ -571,6 +734,45 @@ export default function AdminOrderDetailPage({ params }: AdminOrderDetailPagePro
                           placeholder="Enter tracking message..."
                         />
                       </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                          Location (Optional)
+                        </label>
+                        <input
+                          type="text"
+                          value={trackingData.location}
+                          onChange={(e) => setTrackingData({...trackingData, location: e.target.value})}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                          placeholder="e.g. Kathmandu sorting hub"
+                        />
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                          Carrier (Optional)
+                        </label>
+                        <input
+                          type="text"
+                          value={trackingData.carrier}
+                          onChange={(e) => setTrackingData({...trackingData, carrier: e.target.value})}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                          placeholder="e.g. Nepal Can Move"
+                        />
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                          Carrier Reference (Optional)
+                        </label>
+                        <input
+                          type="text"
+                          value={trackingData.carrierReference}
+                          onChange={(e) => setTrackingData({...trackingData, carrierReference: e.target.value})}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                          placeholder="Courier tracking or consignment number"
+                        />
+                      </div>
                       
                       <div className="flex space-x-3">
                         <Button type="submit" className="flex-1">
@@ -594,7 +796,10 @@ export default function AdminOrderDetailPage({ params }: AdminOrderDetailPagePro
               <div className="space-y-3">
                 <Button 
                   className="w-full flex items-center justify-center space-x-2"
-                  onClick={() => setShowTrackingForm(true)}
+                  onClick={() => {
+                    setTrackingData({ ...trackingData, status: order.status })
+                    setShowTrackingForm(true)
+                  }}
                 >
                   <PencilIcon className="h-4 w-4" />
                   <span>Add Tracking Information</span>
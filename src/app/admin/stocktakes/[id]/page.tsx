@@ -0,0 +1,463 @@
+'use client'
+
+import { useEffect, useRef, useState, use } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { ArrowLeftIcon, CameraIcon, QrCodeIcon } from '@heroicons/react/24/outline'
+import AdminLayout from '@/components/admin/admin-layout'
+import AdminProtectedRoute from '@/components/admin/admin-protected-route'
+import BarcodeScanner from '@/components/admin/barcode-scanner'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import Button from '@/components/ui/button'
+import Loading from '@/components/ui/loading'
+import { formatPrice } from '@/lib/cart-utils'
+import {
+  canApplyStocktakeAction,
+  findItemByCode,
+  formatStocktakeNumber,
+  getStocktakeVariance,
+  getVarianceValue,
+  summarizeStocktake,
+} from '@/lib/stocktake-utils'
+import type { StocktakeWithItems } from '@/types'
+
+interface AdminStocktakePageProps {
+  params: Promise<{
+    id: string
+  }>
+}
+
+type SheetView = 'all' | 'uncounted' | 'variances'
+
+const STATUS_COLORS: Record<string, string> = {
+  COUNTING: 'bg-blue-100 text-blue-800',
+  POSTED: 'bg-green-100 text-green-800',
+  CANCELLED: 'bg-red-100 text-red-800',
+}
+
+export default function AdminStocktakePage({ params }: AdminStocktakePageProps) {
+  const router = useRouter()
+  const resolvedParams = use(params)
+  const scanInputRef = useRef<HTMLInputElement>(null)
+
+  const [stocktake, setStocktake] = useState<StocktakeWithItems | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+  // Counts entered or scanned but not saved yet, by item
+  const [drafts, setDrafts] = useState<Record<string, string>>({})
+  const [scanCode, setScanCode] = useState('')
+  const [scanMessage, setScanMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+  const [showCamera, setShowCamera] = useState(false)
+  const [view, setView] = useState<SheetView>('all')
+  const [search, setSearch] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [acting, setActing] = useState(false)
+
+  useEffect(() => {
+    fetchStocktake()
+  }, [resolvedParams.id])
+
+  const fetchStocktake = async () => {
+    setLoading(true)
+    setError('')
+
+    try {
+      const response = await fetch(`/api/inventory/stocktakes/${resolvedParams.id}`)
+      if (!response.ok) {
+        throw new Error(response.status === 404 ? 'Stocktake not found' : 'Failed to fetch stocktake')
+      }
+
+      const data = await response.json()
+      setStocktake(data.stocktake)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load stocktake')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const canCount = stocktake ? canApplyStocktakeAction(stocktake.status, 'count') : false
+  const dirtyIds = Object.keys(drafts)
+
+  // The sheet as it would be saved, with unsaved counts applied
+  const items = (stocktake?.items || []).map(item => {
+    const draft = drafts[item.id]
+    if (draft === undefined) {
+      return item
+    }
+
+    return { ...item, countedQuantity: draft === '' ? null : parseInt(draft) }
+  })
+  const summary = summarizeStocktake(items)
+
+  const visibleItems = items.filter(item => {
+    const term = search.trim().toLowerCase()
+    if (term && !item.product.name.toLowerCase().includes(term) && !item.product.sku?.toLowerCase().includes(term)) {
+      return false
+    }
+
+    if (view === 'uncounted') return item.countedQuantity === null
+    if (view === 'variances') return !!getStocktakeVariance(item)
+    return true
+  })
+
+  const setDraft = (itemId: string, value: string) => {
+    if (value !== '' && !/^\d+$/.test(value)) {
+      return
+    }
+
+    setDrafts(prev => ({ ...prev, [itemId]: value }))
+  }
+
+  const handleScan = (code: string) => {
+    const item = findItemByCode(items, code)
+    if (!item) {
+      setScanMessage({ type: 'error', text: `Nothing on this sheet has the code ${code.trim()}` })
+      return
+    }
+
+    // Each scan is one more unit of the product
+    const count = (item.countedQuantity ?? 0) + 1
+    setDrafts(prev => ({ ...prev, [item.id]: count.toString() }))
+    setScanMessage({ type: 'success', text: `${item.product.name}: ${count}` })
+  }
+
+  const handleScanSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (scanCode.trim()) {
+      handleScan(scanCode)
+    }
+    setScanCode('')
+    scanInputRef.current?.focus()
+  }
+
+  const handleSave = async () => {
+    if (!stocktake || dirtyIds.length === 0) {
+      return
+    }
+
+    setSaving(true)
+    try {
+      const response = await fetch(`/api/inventory/stocktakes/${stocktake.id}/counts`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          counts: dirtyIds.map(itemId => ({
+            itemId,
+            quantity: drafts[itemId] === '' ? null : parseInt(drafts[itemId]),
+          })),
+        }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.details?.[0]?.message || errorData.error || 'Failed to save counts')
+      }
+
+      const data = await response.json()
+      setStocktake(data.stocktake)
+      setDrafts({})
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to save counts')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleAction = async (action: 'post' | 'cancel') => {
+    if (!stocktake) {
+      return
+    }
+
+    const number = formatStocktakeNumber(stocktake.id)
+    const question = action === 'post'
+      ? `Post ${number}? ${summary.varianceCount} variance${summary.varianceCount === 1 ? '' : 's'} worth ${formatPrice(summary.netValue)} will be booked into stock at ${stocktake.location.name}. Uncounted items are left as they are.`
+      : `Cancel ${number}? The counts are discarded and stock is not changed.`
+    if (!confirm(question)) {
+      return
+    }
+
+    setActing(true)
+    try {
+      const response = await fetch(`/api/inventory/stocktakes/${stocktake.id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ action }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || `Failed to ${action} stocktake`)
+      }
+
+      const data = await response.json()
+      setStocktake(data.stocktake)
+    } catch (err) {
+      alert(err instanceof Error ? err.message : `Failed to ${action} stocktake`)
+    } finally {
+      setActing(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <AdminProtectedRoute>
+        <AdminLayout>
+          <div className="flex justify-center items-center py-16">
+            <Loading size="lg" />
+          </div>
+        </AdminLayout>
+      </AdminProtectedRoute>
+    )
+  }
+
+  if (error || !stocktake) {
+    return (
+      <AdminProtectedRoute>
+        <AdminLayout>
+          <Card>
+            <CardContent className="p-8 text-center">
+              <h2 className="text-2xl font-bold text-red-600 mb-4">
+                {error || 'Stocktake not found'}
+              </h2>
+              <div className="space-x-4">
+                <Button onClick={() => router.back()}>
+                  Go Back
+                </Button>
+                <Link href="/admin/stocktakes">
+                  <Button variant="outline">
+                    View All Stocktakes
+                  </Button>
+                </Link>
+              </div>
+            </CardContent>
+          </Card>
+        </AdminLayout>
+      </AdminProtectedRoute>
+    )
+  }
+
+  return (
+    <AdminProtectedRoute>
+      <AdminLayout>
+        <div className="space-y-6">
+          {/* Header */}
+          <div>
+            <Link href="/admin/stocktakes" className="inline-flex items-center text-indigo-600 hover:text-indigo-500 mb-4">
+              <ArrowLeftIcon className="h-4 w-4 mr-2" />
+              Back to Stocktakes
+            </Link>
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">
+                  Stocktake {formatStocktakeNumber(stocktake.id)}
+                </h1>
+                <p className="text-gray-600">
+                  {stocktake.location.name} · {stocktake.category?.name || 'All categories'} · Started {new Date(stocktake.createdAt).toLocaleDateString()}
+                </p>
+                {stocktake.postedAt && (
+                  <p className="text-sm text-green-700 mt-1">Posted {new Date(stocktake.postedAt).toLocaleString()}</p>
+                )}
+                {stocktake.notes && (
+                  <p className="text-sm text-gray-500 mt-1">{stocktake.notes}</p>
+                )}
+              </div>
+              <span className={`self-start md:self-auto inline-flex items-center px-3 py-1 rounded-full text-sm font-medium ${STATUS_COLORS[stocktake.status] || 'bg-gray-100 text-gray-800'}`}>
+                {stocktake.status}
+              </span>
+            </div>
+          </div>
+
+          {/* Variance summary */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-xs text-gray-500">Counted</p>
+                <p className="text-xl font-bold text-gray-900">{summary.countedCount}/{summary.itemCount}</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-xs text-gray-500">Short</p>
+                <p className="text-xl font-bold text-red-600">{summary.shortageUnits} units</p>
+                <p className="text-xs text-gray-500">{formatPrice(summary.shortageValue)}</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-xs text-gray-500">Over</p>
+                <p className="text-xl font-bold text-green-600">{summary.surplusUnits} units</p>
+                <p className="text-xs text-gray-500">{formatPrice(summary.surplusValue)}</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-xs text-gray-500">Net value impact</p>
+                <p className={`text-xl font-bold ${summary.netValue < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                  {formatPrice(summary.netValue)}
+                </p>
+                {summary.missingCostCount > 0 && (
+                  <p className="text-xs text-yellow-700">{summary.missingCostCount} without a purchase price</p>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Scanning */}
+          {canCount && (
+            <Card>
+              <CardContent className="p-4 space-y-3">
+                <form onSubmit={handleScanSubmit} className="flex gap-2">
+                  <div className="relative flex-1">
+                    <QrCodeIcon className="h-5 w-5 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+                    <input
+                      ref={scanInputRef}
+                      value={scanCode}
+                      onChange={(e) => setScanCode(e.target.value)}
+                      placeholder="Scan or type a SKU"
+                      autoFocus
+                      autoComplete="off"
+                      className="w-full border border-gray-300 rounded-md pl-10 pr-3 py-2 text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                    />
+                  </div>
+                  <Button type="submit" variant="outline">Add</Button>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => setShowCamera(!showCamera)}
+                    className="flex items-center space-x-1"
+                  >
+                    <CameraIcon className="h-4 w-4" />
+                    <span className="hidden sm:inline">Camera</span>
+                  </Button>
+                </form>
+
+                {showCamera && (
+                  <BarcodeScanner onDetected={handleScan} onClose={() => setShowCamera(false)} />
+                )}
+
+                {scanMessage && (
+                  <p className={`text-sm ${scanMessage.type === 'success' ? 'text-green-700' : 'text-red-600'}`}>
+                    {scanMessage.text}
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Count sheet */}
+          <Card>
+            <CardHeader>
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                <CardTitle>Count Sheet</CardTitle>
+                <div className="flex flex-wrap items-center gap-2">
+                  {(['all', 'uncounted', 'variances'] as SheetView[]).map(option => (
+                    <button
+                      key={option}
+                      onClick={() => setView(option)}
+                      className={`px-3 py-1 rounded-full text-xs font-medium capitalize ${
+                        view === option ? 'bg-indigo-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                      }`}
+                    >
+                      {option}
+                    </button>
+                  ))}
+                  <input
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    placeholder="Search"
+                    className="border border-gray-300 rounded-md px-2 py-1 text-sm w-32 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                  />
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="p-0">
+              {visibleItems.length === 0 ? (
+                <div className="text-center py-12 text-gray-500">Nothing to show</div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200 text-sm">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Product</th>
+                        <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Expected</th>
+                        <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Counted</th>
+                        <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Variance</th>
+                        <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Value</th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {visibleItems.map(item => {
+                        const variance = getStocktakeVariance(item)
+                        const value = getVarianceValue(item)
+
+                        return (
+                          <tr key={item.id} className={drafts[item.id] !== undefined ? 'bg-yellow-50' : ''}>
+                            <td className="px-4 py-3">
+                              <div className="font-medium text-gray-900">{item.product.name}</div>
+                              <div className="text-xs text-gray-500">{item.product.sku || 'No SKU'}</div>
+                            </td>
+                            <td className="px-4 py-3 text-right text-gray-700">{item.expectedQuantity}</td>
+                            <td className="px-4 py-3 text-right">
+                              {canCount ? (
+                                <input
+                                  value={drafts[item.id] ?? item.countedQuantity?.toString() ?? ''}
+                                  onChange={(e) => setDraft(item.id, e.target.value)}
+                                  inputMode="numeric"
+                                  placeholder="-"
+                                  className="w-20 border border-gray-300 rounded-md px-2 py-1 text-right focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                                />
+                              ) : (
+                                <span className="text-gray-900">{item.countedQuantity ?? '-'}</span>
+                              )}
+                            </td>
+                            <td className={`px-4 py-3 text-right font-medium ${
+                              !variance ? 'text-gray-500' : variance < 0 ? 'text-red-600' : 'text-green-600'
+                            }`}>
+                              {variance === null ? '-' : variance > 0 ? `+${variance}` : variance}
+                            </td>
+                            <td className="px-4 py-3 text-right text-gray-700">
+                              {variance ? (value === null ? 'No cost' : formatPrice(value)) : '-'}
+                            </td>
+                          </tr>
+                        )
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Actions */}
+          {canCount && (
+            <div className="sticky bottom-0 bg-white border-t border-gray-200 -mx-4 px-4 py-3 flex flex-wrap items-center justify-end gap-3">
+              {dirtyIds.length > 0 && (
+                <span className="text-sm text-yellow-700 mr-auto">
+                  {dirtyIds.length} unsaved count{dirtyIds.length === 1 ? '' : 's'}
+                </span>
+              )}
+              <Button variant="outline" onClick={() => handleAction('cancel')} disabled={acting || saving}>
+                Cancel Stocktake
+              </Button>
+              <Button variant="outline" onClick={handleSave} loading={saving} disabled={saving || dirtyIds.length === 0}>
+                Save Counts
+              </Button>
+              <Button
+                onClick={() => handleAction('post')}
+                loading={acting}
+                disabled={acting || saving || dirtyIds.length > 0 || summary.countedCount === 0}
+              >
+                Post Variances
+              </Button>
+            </div>
+          )}
+        </div>
+      </AdminLayout>
+    </AdminProtectedRoute>
+  )
+}
@@ -1,9 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { db } from '@/lib/db'
-import { orders, orderItems, products, users } from '@/lib/db/schema'
+import { orders, orderItems, products, users, refunds } from '@/lib/db/schema'
 import { eq, gte, lt, ne, and, sql, desc, inArray } from 'drizzle-orm'
 import { createAdminHandler } from '@/lib/auth-middleware'
 
+// Refunds are counted in the period they were issued, not when the order was placed
+async function getRefundTotal(from: Date, to?: Date): Promise<number> {
+  const result = await db.select({ sum: sql<number>`sum(${refunds.amount})` })
+    .from(refunds)
+    .where(to
+      ? and(gte(refunds.createdAt, from), lt(refunds.createdAt, to))
+      : gte(refunds.createdAt, from))
+
+  return parseFloat(result[0]?.sum?.toString() || '0')
+}
+
 export const GET = createAdminHandler(async (request: NextRequest) => {
   try {
     const { searchParams } = new URL(request.url)
@@ -196,9 +207,19 @@ export const GET = createAdminHandler(async (request: NextRequest) => {
       }
     }
 
+    // Revenue is reported net of refunds
+    const previousPeriodStart = new Date(startDate.getTime() - (now.getTime() - startDate.getTime()))
+    const [totalRefunds, previousPeriodRefunds] = await Promise.all([
+      getRefundTotal(startDate),
+      getRefundTotal(previousPeriodStart, startDate),
+    ])
+    const grossRevenue = totalRevenue._sum.total || 0
+    const netRevenue = grossRevenue - totalRefunds
+    const previousNetRevenue = (previousPeriodRevenue._sum.total || 0) - previousPeriodRefunds
+
     // Calculate changes
-    const revenueChange = previousPeriodRevenue._sum.total 
-      ? ((totalRevenue._sum.total || 0) - previousPeriodRevenue._sum.total) / previousPeriodRevenue._sum.total * 100
+    const revenueChange = previousNetRevenue
+      ? (netRevenue - previousNetRevenue) / previousNetRevenue * 100
       : 0
     
     const ordersChange = previousPeriodOrders 
@@ -210,7 +231,7 @@ export const GET = createAdminHandler(async (request: NextRequest) => {
       : 0
 
     // Calculate average order value
-    const averageOrderValue = totalOrders > 0 ? (totalRevenue._sum.total || 0) / totalOrders : 0
+    const averageOrderValue = totalOrders > 0 ? grossRevenue / totalOrders : 0
 
     // Generate sales data for charts (simplified)
     const salesData = []
@@ -221,7 +242,7 @@ export const GET = createAdminHandler(async (request: NextRequest) => {
       const periodStart = new Date(startDate.getTime() + i * 24 * 60 * 60 * 1000)
       const periodEnd = new Date(periodStart.getTime() + interval * 24 * 60 * 60 * 1000)
       
-      const [periodRevenueResult, periodOrdersResult] = await Promise.all([
+      const [periodRevenueResult, periodOrdersResult, periodRefunds] = await Promise.all([
         db.select({ sum: sql<number>`sum(${orders.total})` })
           .from(orders)
           .where(and(
@@ -235,11 +256,12 @@ export const GET = createAdminHandler(async (request: NextRequest) => {
             gte(orders.createdAt, periodStart),
             lt(orders.createdAt, periodEnd),
             ne(orders.status, 'CANCELLED')
-          ))
+          )),
+        getRefundTotal(periodStart, periodEnd)
       ])
       
       const periodRevenue = {
-        _sum: { total: parseFloat(periodRevenueResult[0]?.sum?.toString() || '0') }
+        _sum: { total: parseFloat(periodRevenueResult[0]?.sum?.toString() || '0') - periodRefunds }
       }
       const periodOrders = Number(periodOrdersResult[0]?.count || 0)
       
@@ -270,7 +292,9 @@ export const GET = createAdminHandler(async (request: NextRequest) => {
     ].sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()).slice(0, 8)
 
     const analytics = {
-      totalRevenue: totalRevenue._sum.total || 0,
+      totalRevenue: Math.round(netRevenue * 100) / 100,
+      grossRevenue,
+      totalRefunds,
       totalOrders,
       totalCustomers,
       totalProducts,
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminHandler } from '@/lib/auth-middleware'
+import { getServerSession } from '@/lib/auth'
+import { codRepository } from '@/lib/cod-repository'
+import { createCodRemittanceSchema, paginationSchema } from '@/lib/validations'
+
+export const GET = createAdminHandler(async (request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url)
+
+    const page = parseInt(searchParams.get('page') || '1')
+    const limit = parseInt(searchParams.get('limit') || '20')
+
+    const paginationResult = paginationSchema.safeParse({ page, limit })
+    if (!paginationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid pagination parameters' },
+        { status: 400 }
+      )
+    }
+
+    const result = await codRepository.findRemittances(paginationResult.data)
+
+    return NextResponse.json(result)
+
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+})
+
+// Record a courier's deposit against the COD orders it settles
+export const POST = createAdminHandler(async (request: NextRequest) => {
+  try {
+    const session = await getServerSession()
+    const body = await request.json()
+    const validationResult = createCodRemittanceSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    const remittance = await codRepository.createRemittance(validationResult.data, session!.user.id)
+
+    return NextResponse.json({ remittance }, { status: 201 })
+
+  } catch (error) {
+    if (error instanceof Error) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminHandler } from '@/lib/auth-middleware'
+import { codRepository } from '@/lib/cod-repository'
+
+// Cash on delivery money still held by couriers, by courier and age
+export const GET = createAdminHandler(async (request: NextRequest) => {
+  try {
+    const report = await codRepository.getOutstandingReport()
+
+    return NextResponse.json(report)
+
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+})
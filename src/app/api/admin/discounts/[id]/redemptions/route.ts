@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminHandler } from '@/lib/auth-middleware'
+import { discountRepository } from '@/lib/discount-repository'
+
+interface RouteParams {
+  params: Promise<{
+    id: string
+  }>
+}
+
+export const GET = createAdminHandler<RouteParams>(async (
+  request: NextRequest,
+  context?: RouteParams
+) => {
+  if (!context) {
+    return NextResponse.json(
+      { error: 'Invalid route parameters' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const { id } = await context.params
+    const discount = await discountRepository.findById(id)
+
+    if (!discount) {
+      return NextResponse.json(
+        { error: 'Discount not found' },
+        { status: 404 }
+      )
+    }
+
+    const redemptions = await discountRepository.getRedemptions(id)
+    const orderRevenue = redemptions.reduce((sum, r) => sum + (r.orderTotal ? parseFloat(r.orderTotal) : 0), 0)
+
+    return NextResponse.json({
+      discount,
+      redemptions,
+      summary: {
+        totalRedemptions: redemptions.length,
+        orderRevenue,
+        remainingUses: discount.usageLimit === null ? null : Math.max(0, discount.usageLimit - discount.usedCount),
+      },
+    })
+
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+})
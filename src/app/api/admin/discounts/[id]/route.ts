@@ -0,0 +1,15 @@
+import { createDeactivatableResourceHandlers } from '@/lib/admin-resource-handlers'
+import { discountRepository } from '@/lib/discount-repository'
+import { updateDiscountSchema } from '@/lib/validations'
+
+// Discounts are deactivated rather than deleted so redemption history is kept
+const handlers = createDeactivatableResourceHandlers({
+  resource: 'Discount',
+  key: 'discount',
+  repository: discountRepository,
+  updateSchema: updateDiscountSchema,
+})
+
+export const GET = handlers.GET
+export const PUT = handlers.PUT
+export const DELETE = handlers.DELETE
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminHandler } from '@/lib/auth-middleware'
+import { discountRepository } from '@/lib/discount-repository'
+import { bulkGenerateDiscountsSchema } from '@/lib/validations'
+
+export const POST = createAdminHandler(async (request: NextRequest) => {
+  try {
+    const body = await request.json()
+    const validationResult = bulkGenerateDiscountsSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    const created = await discountRepository.bulkCreate(validationResult.data)
+
+    return NextResponse.json({
+      count: created.length,
+      prefix: validationResult.data.prefix.toUpperCase(),
+      codes: created.map(discount => discount.code),
+    }, { status: 201 })
+
+  } catch (error) {
+    if (error instanceof Error) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminHandler } from '@/lib/auth-middleware'
+import { discountRepository, type DiscountStatusFilter } from '@/lib/discount-repository'
+import { toCsvCell } from '@/lib/discount-utils'
+
+const CSV_HEADERS = [
+  'code',
+  'name',
+  'discountType',
+  'discountValue',
+  'minimumOrderValue',
+  'maximumDiscountAmount',
+  'usageLimit',
+  'usedCount',
+  'validFrom',
+  'validTo',
+  'isActive',
+]
+
+export const GET = createAdminHandler(async (request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const prefix = searchParams.get('prefix') || undefined
+
+    const discounts = await discountRepository.findAllForExport({
+      search: searchParams.get('search') || undefined,
+      status: (searchParams.get('status') as DiscountStatusFilter) || undefined,
+      prefix,
+    })
+
+    const rows = discounts.map(discount => [
+      discount.code,
+      discount.name,
+      discount.discountType,
+      discount.discountValue,
+      discount.minimumOrderValue || '',
+      discount.maximumDiscountAmount || '',
+      discount.usageLimit === null ? '' : String(discount.usageLimit),
+      String(discount.usedCount),
+      new Date(discount.validFrom).toISOString(),
+      new Date(discount.validTo).toISOString(),
+      discount.isActive ? 'true' : 'false',
+    ])
+
+    const csv = [
+      CSV_HEADERS.join(','),
+      ...rows.map(row => row.map(value => toCsvCell(String(value))).join(',')),
+    ].join('\n')
+
+    const filename = prefix
+      ? `discount_codes_${prefix.toUpperCase()}_${Date.now()}.csv`
+      : `discount_codes_${Date.now()}.csv`
+
+    return new NextResponse(csv, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    })
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Failed to export discount codes' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminHandler } from '@/lib/auth-middleware'
+import { discountRepository, type DiscountStatusFilter } from '@/lib/discount-repository'
+import { createDiscountSchema, paginationSchema } from '@/lib/validations'
+
+export const GET = createAdminHandler(async (request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url)
+
+    const page = parseInt(searchParams.get('page') || '1')
+    const limit = parseInt(searchParams.get('limit') || '20')
+
+    const paginationResult = paginationSchema.safeParse({ page, limit })
+    if (!paginationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid pagination parameters' },
+        { status: 400 }
+      )
+    }
+
+    const result = await discountRepository.findAll(paginationResult.data, {
+      search: searchParams.get('search') || undefined,
+      status: (searchParams.get('status') as DiscountStatusFilter) || undefined,
+    })
+
+    return NextResponse.json(result)
+
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+})
+
+export const POST = createAdminHandler(async (request: NextRequest) => {
+  try {
+    const body = await request.json()
+    const validationResult = createDiscountSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    const discount = await discountRepository.create(validationResult.data)
+
+    return NextResponse.json({ discount }, { status: 201 })
+
+  } catch (error) {
+    if (error instanceof Error) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+})
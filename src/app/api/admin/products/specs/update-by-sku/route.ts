@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createAdminHandler } from '@/lib/auth-middleware'
+import { inventoryRepository } from '@/lib/inventory-repository'
 import { db } from '@/lib/db'
 import { products, categories, brands, productAttributes } from '@/lib/db/schema'
 import { eq, inArray } from 'drizzle-orm'
@@ -86,10 +87,17 @@ export const POST = createAdminHandler(async (request: NextRequest) => {
       updateData.dimensions = (clean.length || clean.width || clean.height) ? clean : null
     }
     if (typeof lowStockThreshold === 'number') updateData.lowStockThreshold = lowStockThreshold
-    if (typeof stockQuantity === 'number') updateData.inventory = stockQuantity
     if (typeof inStock === 'boolean') updateData.isActive = inStock
 
     const updated = await db.transaction(async (tx) => {
+      // Stock is kept per location, so a new total is applied as a stock change
+      if (typeof stockQuantity === 'number') {
+        await inventoryRepository.setProductTotal(product.id, stockQuantity, {
+          changeType: 'MANUAL_ADJUSTMENT',
+          reason: `Stock updated by SKU ${sku}`,
+        }, tx)
+      }
+
       // Update product core fields
       const [p] = await tx.update(products)
         .set({ ...updateData, updatedAt: new Date() })
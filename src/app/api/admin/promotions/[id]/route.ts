@@ -0,0 +1,15 @@
+import { createDeactivatableResourceHandlers } from '@/lib/admin-resource-handlers'
+import { promotionRepository } from '@/lib/promotion-repository'
+import { updatePromotionSchema } from '@/lib/validations'
+
+// Promotions are deactivated rather than deleted
+const handlers = createDeactivatableResourceHandlers({
+  resource: 'Promotion',
+  key: 'promotion',
+  repository: promotionRepository,
+  updateSchema: updatePromotionSchema,
+})
+
+export const GET = handlers.GET
+export const PUT = handlers.PUT
+export const DELETE = handlers.DELETE
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminHandler } from '@/lib/auth-middleware'
+import { promotionRepository } from '@/lib/promotion-repository'
+import { createPromotionSchema, paginationSchema } from '@/lib/validations'
+
+export const GET = createAdminHandler(async (request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url)
+
+    const page = parseInt(searchParams.get('page') || '1')
+    const limit = parseInt(searchParams.get('limit') || '20')
+
+    const paginationResult = paginationSchema.safeParse({ page, limit })
+    if (!paginationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid pagination parameters' },
+        { status: 400 }
+      )
+    }
+
+    const active = searchParams.get('active')
+    const result = await promotionRepository.findAll(paginationResult.data, {
+      isActive: active === null ? undefined : active === 'true',
+    })
+
+    return NextResponse.json(result)
+
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+})
+
+export const POST = createAdminHandler(async (request: NextRequest) => {
+  try {
+    const body = await request.json()
+    const validationResult = createPromotionSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    const promotion = await promotionRepository.create(validationResult.data)
+
+    return NextResponse.json({ promotion }, { status: 201 })
+
+  } catch (error) {
+    if (error instanceof Error) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+})
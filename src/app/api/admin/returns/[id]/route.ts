@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminHandler } from '@/lib/auth-middleware'
+import { getServerSession } from '@/lib/auth'
+import { returnRepository } from '@/lib/return-repository'
+import { OrderTransitionError } from '@/lib/order-state-machine'
+import { reviewReturnRequestSchema } from '@/lib/validations'
+
+interface RouteParams {
+  params: Promise<{
+    id: string
+  }>
+}
+
+export const GET = createAdminHandler<RouteParams>(async (
+  request: NextRequest,
+  context?: RouteParams
+) => {
+  if (!context) {
+    return NextResponse.json(
+      { error: 'Invalid route parameters' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const { id } = await context.params
+    const returnRequest = await returnRepository.findById(id)
+
+    if (!returnRequest) {
+      return NextResponse.json(
+        { error: 'Return request not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ returnRequest })
+
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+})
+
+export const PUT = createAdminHandler<RouteParams>(async (
+  request: NextRequest,
+  context?: RouteParams
+) => {
+  if (!context) {
+    return NextResponse.json(
+      { error: 'Invalid route parameters' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const { id } = await context.params
+    const session = await getServerSession()
+    const body = await request.json()
+    const validationResult = reviewReturnRequestSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    const { action, adminNotes } = validationResult.data
+    const adminId = session!.user.id
+
+    const returnRequest = action === 'approve'
+      ? await returnRepository.approve(id, adminId, adminNotes)
+      : action === 'reject'
+      ? await returnRepository.reject(id, adminId, adminNotes)
+      : await returnRepository.receive(id, adminId, adminNotes)
+
+    return NextResponse.json({ returnRequest })
+
+  } catch (error) {
+    if (error instanceof OrderTransitionError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      )
+    }
+
+    if (error instanceof Error) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.message === 'Return request not found' ? 404 : 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+})
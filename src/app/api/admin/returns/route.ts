@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminHandler } from '@/lib/auth-middleware'
+import { returnRepository } from '@/lib/return-repository'
+import { paginationSchema, returnRequestFiltersSchema } from '@/lib/validations'
+
+export const GET = createAdminHandler(async (request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url)
+
+    const page = parseInt(searchParams.get('page') || '1')
+    const limit = parseInt(searchParams.get('limit') || '20')
+
+    const paginationResult = paginationSchema.safeParse({ page, limit })
+    if (!paginationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid pagination parameters' },
+        { status: 400 }
+      )
+    }
+
+    const filtersResult = returnRequestFiltersSchema.safeParse({
+      status: searchParams.get('status') || undefined,
+      orderId: searchParams.get('orderId') || undefined,
+    })
+    if (!filtersResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid filters', details: filtersResult.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const result = await returnRepository.findAll(paginationResult.data, filtersResult.data)
+
+    return NextResponse.json(result)
+
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+})
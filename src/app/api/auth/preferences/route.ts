@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAuthHandler } from '@/lib/auth-middleware'
+import { getServerSession } from '@/lib/auth'
+import { db } from '@/lib/db'
+import { users } from '@/lib/db/schema'
+import { eq } from 'drizzle-orm'
+import { getAvailablePaymentMethods } from '@/lib/payment-gateways'
+import { updatePreferencesSchema } from '@/lib/validations'
+
+// Checkout defaults of the signed-in customer
+export const GET = createAuthHandler(async (request: NextRequest) => {
+  try {
+    const session = await getServerSession()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const [user] = await db.select({
+      preferredPaymentMethod: users.preferredPaymentMethod,
+      defaultShippingAddress: users.defaultShippingAddress,
+    })
+      .from(users)
+      .where(eq(users.id, session.user.id))
+      .limit(1)
+
+    // A method the store has since switched off is no longer a usable preference
+    const availableMethods = await getAvailablePaymentMethods()
+    const preferredPaymentMethod = user?.preferredPaymentMethod && availableMethods.includes(user.preferredPaymentMethod)
+      ? user.preferredPaymentMethod
+      : null
+
+    return NextResponse.json({
+      preferredPaymentMethod,
+      defaultShippingAddress: user?.defaultShippingAddress || null,
+    })
+
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Failed to fetch preferences' },
+      { status: 500 }
+    )
+  }
+})
+
+export const PUT = createAuthHandler(async (request: NextRequest) => {
+  try {
+    const session = await getServerSession()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const parse = updatePreferencesSchema.safeParse(body)
+
+    if (!parse.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: parse.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const { preferredPaymentMethod, defaultShippingAddress } = parse.data
+
+    if (preferredPaymentMethod) {
+      const availableMethods = await getAvailablePaymentMethods()
+      if (!availableMethods.includes(preferredPaymentMethod)) {
+        return NextResponse.json(
+          { error: 'Payment method is not available' },
+          { status: 400 }
+        )
+      }
+    }
+
+    // Fields left out of the request keep their saved value
+    const [updated] = await db.update(users)
+      .set({
+        ...(preferredPaymentMethod !== undefined && { preferredPaymentMethod }),
+        ...(defaultShippingAddress !== undefined && { defaultShippingAddress }),
+        updatedAt: new Date(),
+      })
+      .where(eq(users.id, session.user.id))
+      .returning({
+        preferredPaymentMethod: users.preferredPaymentMethod,
+        defaultShippingAddress: users.defaultShippingAddress,
+      })
+
+    return NextResponse.json({
+      message: 'Preferences updated successfully',
+      ...updated,
+    })
+
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Failed to update preferences' },
+      { status: 500 }
+    )
+  }
+})
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { getToken } from 'next-auth/jwt'
 import { z } from 'zod'
 import { getCartSummaryWithSettings } from '@/lib/cart-utils'
 import { productRepository } from '@/lib/product-repository'
@@ -15,8 +16,10 @@ const cartSummarySchema = z.object({
       discountPrice: z.number().nullable().optional(),
       images: z.array(z.string()),
       slug: z.string(),
+      categoryId: z.string().nullable().optional(),
     }).optional(),
   })).min(1, 'Cart must have at least one item'),
+  discountCode: z.string().trim().optional(),
 })
 
 export async function POST(request: NextRequest) {
@@ -36,7 +39,10 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const { items } = validationResult.data
+    const { items, discountCode } = validationResult.data
+
+    // Coupon codes restricted to a customer need the signed-in user
+    const token = await getToken({ req: request })
 
     // Validate and enrich cart items with current product data
     const cartItems = []
@@ -68,6 +74,7 @@ export async function POST(request: NextRequest) {
           discountPrice: dbProduct.discountPrice,
           images: dbProduct.images,
           slug: dbProduct.slug,
+          categoryId: dbProduct.categoryId,
         }
       }
 
@@ -82,7 +89,10 @@ export async function POST(request: NextRequest) {
     // Calculate summary using database settings
     let summary
     try {
-      summary = await getCartSummaryWithSettings(cartItems)
+      summary = await getCartSummaryWithSettings(cartItems, {
+        discountCode,
+        userId: token?.sub,
+      })
     } catch (settingsError) {
       // Fallback to hardcoded calculation if settings fail
       const { getCartSummary } = await import('@/lib/cart-utils')
@@ -93,6 +103,13 @@ export async function POST(request: NextRequest) {
       success: true,
       summary: {
         subtotal: summary.subtotal,
+        discount: 'discount' in summary ? summary.discount : 0,
+        promotions: 'promotions' in summary ? summary.promotions : [],
+        promotionDiscount: 'promotionDiscount' in summary ? summary.promotionDiscount : 0,
+        couponDiscount: 'couponDiscount' in summary ? summary.couponDiscount : 0,
+        discountCode: 'discountCode' in summary ? summary.discountCode : null,
+        appliedDiscount: 'appliedDiscount' in summary ? summary.appliedDiscount : null,
+        discountError: 'discountError' in summary ? summary.discountError : null,
         shipping: summary.shipping,
         tax: summary.tax,
         total: summary.total,
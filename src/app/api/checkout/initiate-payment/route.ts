@@ -3,20 +3,21 @@ export const runtime = 'nodejs'
 import { NextRequest, NextResponse } from 'next/server'
 import { getToken } from 'next-auth/jwt'
 import { z } from 'zod'
-import { getPaymentGatewayManager, PaymentMethod } from '@/lib/payment-gateways'
+import { getAvailablePaymentMethods, getPaymentGatewayManager } from '@/lib/payment-gateways'
+import type { PaymentSessionData } from '@/lib/payment-transaction-repository'
 import { getCartSummaryWithSettings } from '@/lib/cart-utils'
+import { buildOrderPriceBreakdown, toOrderPriceColumns } from '@/lib/order-pricing'
 import { productRepository } from '@/lib/product-repository'
 import { orderRepository } from '@/lib/order-repository'
+import { inventoryRepository } from '@/lib/inventory-repository'
 import { EmailService } from '@/lib/email-service'
+import { discountRepository } from '@/lib/discount-repository'
 import { db } from '@/lib/db'
-import { orders, orderItems, products, inventoryAdjustments } from '@/lib/db/schema'
-import { eq, sql } from 'drizzle-orm'
-
-// In-memory storage for session data (in production, use Redis or database)
-const paymentSessions = new Map<string, any>()
+import { orders, orderItems } from '@/lib/db/schema'
+import { eq } from 'drizzle-orm'
 
 const initiatePaymentSchema = z.object({
-  method: z.enum(['esewa', 'khalti', 'cod']),
+  method: z.string().min(1),
   items: z.array(z.object({
     productId: z.string(),
     quantity: z.number().positive(),
@@ -30,6 +31,7 @@ const initiatePaymentSchema = z.object({
     city: z.string(),
     postalCode: z.string(),
   }).optional(),
+  discountCode: z.string().trim().optional(),
 })
 
 export async function POST(request: NextRequest) {
@@ -47,7 +49,15 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const { method, items, guestEmail, shippingAddress } = validationResult.data
+    const { method, items, guestEmail, shippingAddress, discountCode } = validationResult.data
+
+    const availableMethods = await getAvailablePaymentMethods()
+    if (!availableMethods.includes(method)) {
+      return NextResponse.json(
+        { error: `Payment method ${method} is not available` },
+        { status: 400 }
+      )
+    }
     
     // Check if user is authenticated (optional for guest checkout)
     const token = await getToken({ req: request })
@@ -97,7 +107,16 @@ export async function POST(request: NextRequest) {
     }
 
     // Calculate order total
-    const summary = await getCartSummaryWithSettings(cartItems)
+    const summary = await getCartSummaryWithSettings(cartItems, { discountCode, userId })
+
+    if (discountCode && !summary.appliedDiscount) {
+      return NextResponse.json(
+        { error: summary.discountError || 'Invalid discount code' },
+        { status: 400 }
+      )
+    }
+
+    const priceBreakdown = buildOrderPriceBreakdown(summary, { paymentMethod: method })
 
     // Generate unique order ID
     const orderId = `order-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
@@ -105,6 +124,22 @@ export async function POST(request: NextRequest) {
     // Get payment gateway manager
     const paymentManager = getPaymentGatewayManager()
 
+    // Stored with the payment attempt so the order can be created after verification
+    const session: PaymentSessionData = {
+      userId: userId || null,
+      guestEmail: isGuest ? guestEmail || null : null,
+      cartItems: cartItems.map(item => ({
+        productId: item.productId,
+        quantity: item.quantity,
+        price: item.product.discountPrice || item.product.price,
+      })),
+      amount: summary.total,
+      shippingAddress: shippingAddress || null,
+      discountId: summary.appliedDiscount?.id || null,
+      discountCode: summary.discountCode,
+      priceBreakdown,
+    }
+
     // Prepare payment configuration
     const paymentConfig = {
       method,
@@ -115,20 +150,63 @@ export async function POST(request: NextRequest) {
         email: isGuest ? guestEmail : token?.email,
         name: isGuest ? undefined : token?.name,
       },
+      session,
+    }
+
+    // Hold the stock while the customer is at the gateway
+    const isOnline = paymentManager.isOnlinePaymentMethod(method)
+    if (isOnline) {
+      try {
+        await inventoryRepository.reserveStock(orderId, cartItems)
+      } catch (reservationError) {
+        if (reservationError instanceof Error && reservationError.message.startsWith('Insufficient inventory')) {
+          return NextResponse.json(
+            { error: reservationError.message },
+            { status: 400 }
+          )
+        }
+        throw reservationError
+      }
+    }
+
+    // Hold the coupon's use too, so parallel checkouts can't exceed its limit
+    if (isOnline && summary.appliedDiscount) {
+      try {
+        await discountRepository.reserveUsage({
+          discountId: summary.appliedDiscount.id,
+          userId: userId || null,
+          orderId,
+        })
+      } catch (reservationError) {
+        await inventoryRepository.releaseReservation(orderId, 'Discount code could not be reserved')
+
+        if (reservationError instanceof Error && reservationError.message.includes('usage limit')) {
+          return NextResponse.json(
+            { error: reservationError.message },
+            { status: 400 }
+          )
+        }
+        throw reservationError
+      }
     }
 
     // Initiate payment
     const paymentResult = await paymentManager.initiatePayment(paymentConfig)
 
     if (!paymentResult.success) {
+      if (isOnline) {
+        await inventoryRepository.releaseReservation(orderId, 'Payment could not be started')
+        await discountRepository.releaseReservation(orderId)
+      }
+
       return NextResponse.json(
         { error: paymentResult.error || 'Payment initiation failed' },
         { status: 500 }
       )
     }
 
-    // For COD payments, create the order immediately since no external verification is needed
-    if (method === 'cod') {
+    // For offline methods such as COD, create the order immediately since no external verification is needed
+    if (!isOnline) {
       try {
         // Prepare order data
         const orderItems = cartItems.map(item => ({
@@ -157,6 +235,7 @@ export async function POST(request: NextRequest) {
               id: orderId,
               userId: actualUserId || null,
               total: summary.total.toString(),
+              ...toOrderPriceColumns(priceBreakdown),
               status: 'PENDING',
               stripePaymentIntentId: paymentResult.transactionId,
               shippingAddress: shippingAddress ? shippingAddress : null,
@@ -176,24 +255,28 @@ export async function POST(request: NextRequest) {
           await tx.insert(orderItems)
             .values(itemsData)
 
-          // Update inventory for each item
-          for (const item of cartItems) {
-            await tx.update(products)
-              .set({
-                inventory: sql`${products.inventory} - ${item.quantity}`,
-                updatedAt: new Date()
-              })
-              .where(eq(products.id, item.productId))
-
-            // Create inventory adjustment
-            await tx.insert(inventoryAdjustments)
-              .values({
-                productId: item.productId,
-                quantity: -item.quantity,
-                changeType: 'ORDER_PLACED',
-                reason: `Inventory reduced for order ${orderId}`,
-                referenceId: orderId,
-              })
+          // Take the stock in the same transaction, failing the order if it ran out
+          const stockPlan = await inventoryRepository.decrementStock(cartItems, {
+            reason: `Inventory reduced for order ${orderId}`,
+            referenceId: orderId,
+          }, tx)
+
+          await tx.update(orders)
+            .set({ fulfillmentLocationId: stockPlan.locationId })
+            .where(eq(orders.id, newOrder.id))
+
+          await orderRepository.recordEvent(newOrder.id, {
+            status: 'PENDING',
+            createdBy: actualUserId || null,
+          }, tx)
+
+          // Redeem the coupon as part of the same transaction
+          if (summary.appliedDiscount) {
+            await discountRepository.recordUsage({
+              discountId: summary.appliedDiscount.id,
+              userId: actualUserId || null,
+              orderId: newOrder.id,
+            }, tx)
           }
 
           // Fetch complete order with relations
@@ -247,6 +330,13 @@ export async function POST(request: NextRequest) {
           orderCreated: true,
         })
       } catch (orderError) {
+        if (orderError instanceof Error && (orderError.message.includes('usage limit') || orderError.message.startsWith('Insufficient inventory'))) {
+          return NextResponse.json(
+            { error: orderError.message },
+            { status: 400 }
+          )
+        }
+
         return NextResponse.json(
           { error: 'Payment successful but order creation failed' },
           { status: 500 }
@@ -254,42 +344,17 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // For online payments (eSewa, Khalti), store session data for later order creation
-    const sessionData = {
-      orderId,
-      userId: userId || null,
-      guestEmail: isGuest ? guestEmail : null,
-      cartItems: cartItems.map(item => ({
-        productId: item.productId,
-        quantity: item.quantity,
-        price: item.product.discountPrice || item.product.price,
-      })),
-      method,
-      amount: summary.total,
-      shippingAddress: shippingAddress || null,
-    }
-
-    // Store session data in memory for retrieval after payment verification
-    paymentSessions.set(orderId, {
-      userId: userId || null,
-      guestEmail: isGuest ? guestEmail : null,
-      cartItems: cartItems.map(item => ({
-        productId: item.productId,
-        quantity: item.quantity,
-        price: item.product.discountPrice || item.product.price,
-      })),
-      amount: summary.total,
-      shippingAddress: shippingAddress || null,
-    })
-
+    // For online payments, the order is created from the stored
+    // payment attempt once the payment is verified
     return NextResponse.json({
       success: true,
       paymentUrl: paymentResult.paymentUrl,
+      paymentForm: paymentResult.paymentForm,
+      qrCode: paymentResult.qrCode,
       transactionId: paymentResult.transactionId,
       orderId,
       method,
       amount: summary.total,
-      sessionData, // Include for frontend to store temporarily
       orderCreated: false, // Will be created after payment verification
     })
 
@@ -0,0 +1,90 @@
+export const runtime = 'nodejs'
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import {
+  MOCK_PAYMENT_OUTCOMES,
+  completeMockPayment,
+  isMockPaymentEnabled,
+  lookupMockPayment,
+} from '@/lib/payment-gateways'
+import { paymentTransactionRepository } from '@/lib/payment-transaction-repository'
+
+const completeMockPaymentSchema = z.object({
+  pidx: z.string().min(1),
+  outcome: z.enum(MOCK_PAYMENT_OUTCOMES),
+})
+
+const notFound = () => NextResponse.json({ error: 'Not found' }, { status: 404 })
+
+// Payment details shown on the hosted mock payment page
+export async function GET(request: NextRequest) {
+  if (!isMockPaymentEnabled()) {
+    return notFound()
+  }
+
+  try {
+    const pidx = new URL(request.url).searchParams.get('pidx')
+    const attempt = pidx ? await paymentTransactionRepository.findByGatewayReference('mock', pidx) : null
+
+    if (!attempt) {
+      return NextResponse.json(
+        { error: 'Mock payment not found' },
+        { status: 404 }
+      )
+    }
+
+    const payment = lookupMockPayment(attempt)
+
+    return NextResponse.json({
+      pidx: payment.pidx,
+      orderId: attempt.orderId,
+      amount: Number(attempt.amount),
+      status: payment.status,
+    })
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Failed to load mock payment' },
+      { status: 500 }
+    )
+  }
+}
+
+// Settles the payment with the outcome picked on the hosted page
+export async function POST(request: NextRequest) {
+  if (!isMockPaymentEnabled()) {
+    return notFound()
+  }
+
+  try {
+    const body = await request.json()
+    const validationResult = completeMockPaymentSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    const { pidx, outcome } = validationResult.data
+    const redirectUrl = await completeMockPayment(pidx!, outcome!)
+
+    return NextResponse.json({ redirectUrl })
+  } catch (error) {
+    if (error instanceof Error) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.message === 'Mock payment not found' ? 404 : 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,20 @@
+export const runtime = 'nodejs'
+
+import { NextResponse } from 'next/server'
+import { getAvailablePaymentMethods, getPaymentMethodInfo } from '@/lib/payment-gateways'
+
+// Payment methods enabled for checkout, in display order
+export async function GET() {
+  try {
+    const methods = await getAvailablePaymentMethods()
+
+    return NextResponse.json({
+      methods: methods.map(method => getPaymentMethodInfo(method)),
+    })
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Failed to load payment methods' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,60 @@
+export const runtime = 'nodejs'
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getPaymentGateway, hasPaymentGateway } from '@/lib/payment-gateways'
+import type { PaymentLookupStatus } from '@/lib/payment-gateways/types'
+import { paymentTransactionRepository } from '@/lib/payment-transaction-repository'
+import { PaymentTransactionStatus } from '@/lib/db/schema'
+
+/**
+ * Payment status polled by checkout while the customer pays from their
+ * phone. Only reports the status; the order is created by verify-payment.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const method = searchParams.get('method')
+    const reference = searchParams.get('reference')
+
+    if (!method || !reference || !hasPaymentGateway(method)) {
+      return NextResponse.json(
+        { error: 'Invalid payment method or reference' },
+        { status: 400 }
+      )
+    }
+
+    const attempt = await paymentTransactionRepository.findByGatewayReference(method, reference)
+    if (!attempt) {
+      return NextResponse.json(
+        { error: 'Payment not found' },
+        { status: 404 }
+      )
+    }
+
+    let status: PaymentLookupStatus
+    switch (attempt.status) {
+      case PaymentTransactionStatus.COMPLETED:
+        status = 'COMPLETED'
+        break
+      case PaymentTransactionStatus.FAILED:
+      case PaymentTransactionStatus.EXPIRED:
+        status = 'FAILED'
+        break
+      default: {
+        const gateway = getPaymentGateway(method)
+        status = gateway.lookup ? (await gateway.lookup(attempt)).status : 'PENDING'
+      }
+    }
+
+    return NextResponse.json({
+      status,
+      orderId: attempt.orderId,
+    })
+  } catch (error) {
+    console.error('Payment status check failed:', error)
+    return NextResponse.json(
+      { error: 'Failed to check payment status' },
+      { status: 500 }
+    )
+  }
+}
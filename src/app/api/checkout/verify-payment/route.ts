@@ -2,46 +2,28 @@ export const runtime = 'nodejs'
 
 import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
-import { getPaymentGatewayManager, parseESewaCallback, parseKhaltiCallback } from '@/lib/payment-gateways'
-import { db } from '@/lib/db'
-import { orderRepository } from '@/lib/order-repository'
-import { productRepository } from '@/lib/product-repository'
-import { EmailService } from '@/lib/email-service'
-import { orderProcessingService } from '@/lib/order-processing-service'
-import { orders, orderItems, products, inventoryAdjustments } from '@/lib/db/schema'
-import { eq, sql } from 'drizzle-orm'
-
-// In-memory storage for session data (in production, use Redis or database)
-const paymentSessions = new Map<string, any>()
+import { getPaymentGateway, getPaymentGatewayManager, hasPaymentGateway } from '@/lib/payment-gateways'
+import { createOrderFromPaymentSession, rejectMismatchedPayment } from '@/lib/payment-finalization'
+import { securityMonitor } from '@/lib/monitoring'
+import type { PaymentSessionData } from '@/lib/payment-transaction-repository'
 
 const verifyPaymentSchema = z.object({
-  method: z.enum(['esewa', 'khalti', 'cod']),
+  method: z.string().min(1),
   transactionId: z.string(),
-  orderId: z.string(),
+  // Checked against the recorded payment attempt, which decides the order
+  orderId: z.string().optional(),
   // Additional data for different payment methods
   esewaData: z.object({
     oid: z.string(),
     amt: z.string(),
     refId: z.string(),
+    version: z.enum(['v1', 'v2']).optional(),
   }).optional(),
   khaltiData: z.object({
     pidx: z.string(),
   }).optional(),
-  codData: z.object({
-    amount: z.number(),
-  }).optional(),
-  // Session data that should have been stored during payment initiation
-  sessionData: z.object({
-    userId: z.string().nullable(),
-    guestEmail: z.string().email().nullable(),
-    cartItems: z.array(z.object({
-      productId: z.string(),
-      quantity: z.number(),
-      price: z.number(),
-    })),
-    amount: z.number(),
-    shippingAddress: z.any().optional(), // Allow any JSON structure for shipping address
-  }).optional(),
+  // Verification data for gateways without a dedicated field above
+  gatewayData: z.record(z.string(), z.any()).optional(),
 })
 
 export async function POST(request: NextRequest) {
@@ -59,53 +41,42 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const { method, transactionId, orderId, esewaData, khaltiData, codData, sessionData } = validationResult.data
+    const { method, transactionId, orderId: requestedOrderId, esewaData, khaltiData, gatewayData } = validationResult.data
 
-    // Get payment gateway manager
-    const paymentManager = getPaymentGatewayManager()
+    if (!hasPaymentGateway(method)) {
+      return NextResponse.json(
+        { error: `Unsupported payment method: ${method}` },
+        { status: 400 }
+      )
+    }
 
-    // Verify payment based on method
-    let verificationResult
-    
-    switch (method) {
-      case 'esewa':
-        if (!esewaData) {
-          return NextResponse.json(
-            { error: 'eSewa verification data required' },
-            { status: 400 }
-          )
-        }
-        verificationResult = await paymentManager.verifyPayment(method, transactionId, esewaData)
-        break
-        
-      case 'khalti':
-        if (!khaltiData) {
-          return NextResponse.json(
-            { error: 'Khalti verification data required' },
-            { status: 400 }
-          )
-        }
-        verificationResult = await paymentManager.verifyPayment(method, khaltiData.pidx)
-        break
-        
-      case 'cod':
-        if (!codData) {
-          return NextResponse.json(
-            { error: 'COD verification data required' },
-            { status: 400 }
-          )
-        }
-        verificationResult = await paymentManager.verifyPayment(method, transactionId, {
+    // Offline methods such as COD create their order at checkout and have no payment to verify
+    if (!getPaymentGateway(method).capabilities.online) {
+      return NextResponse.json(
+        { error: `${method} payments do not need verification` },
+        { status: 400 }
+      )
+    }
+
+    const verificationData = gatewayData || esewaData || khaltiData
+
+    // The gateway checks the verification data it needs and reports what is missing
+    const verificationResult = await getPaymentGatewayManager().verifyPayment(method, transactionId, verificationData)
+
+    const attempt = verificationResult.paymentTransaction
+    const orderId = attempt?.orderId || verificationResult.orderId
+
+    if (!verificationResult.success && verificationResult.pending) {
+      return NextResponse.json(
+        {
+          success: false,
+          pending: true,
+          error: 'Your payment has not been confirmed yet. Your order will be created once the payment clears.',
           orderId,
-          amount: codData.amount,
-        })
-        break
-        
-      default:
-        return NextResponse.json(
-          { error: `Unsupported payment method: ${method}` },
-          { status: 400 }
-        )
+          transactionId,
+        },
+        { status: 202 }
+      )
     }
 
     if (!verificationResult.success) {
@@ -120,126 +91,83 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Payment verified successfully - now create the order
-    try {
-      // Get session data - either from request body or from in-memory storage
-      let orderSessionData = sessionData
-      
-      // If not provided in request, try to get from in-memory storage
-      if (!orderSessionData && paymentSessions.has(orderId)) {
-        orderSessionData = paymentSessions.get(orderId)
-        // Remove from storage after retrieval
-        paymentSessions.delete(orderId)
-      }
-      
-      // If we still don't have session data, we can't create the order
-      if (!orderSessionData) {
-        return NextResponse.json({
-          success: true,
-          orderId: verificationResult.orderId,
-          transactionId: verificationResult.transactionId,
-          amount: verificationResult.amount,
-          method: verificationResult.method,
-          warning: 'Order not created - session data unavailable',
-        })
-      }
-
-      // Create the order using Drizzle transaction
-      const order = await db.transaction(async (tx) => {
-        // Create the order
-        const [newOrder] = await tx.insert(orders)
-          .values({
-            id: orderId,
-            userId: orderSessionData.userId || null,
-            total: orderSessionData.amount.toString(),
-            status: 'PENDING',
-            stripePaymentIntentId: transactionId,
-            shippingAddress: orderSessionData.shippingAddress ? orderSessionData.shippingAddress : null,
-            isGuestOrder: !orderSessionData.userId,
-            guestEmail: orderSessionData.guestEmail || null,
-            guestName: (orderSessionData as any).guestName || null,
-          })
-          .returning()
+    // Orders are only created from what the server recorded when payment was initiated
+    if (!attempt) {
+      securityMonitor.logEvent('PAYMENT_ATTEMPT_MISSING', `Verified ${method} payment ${transactionId} has no recorded payment attempt`, {
+        method,
+        transactionId,
+        requestedOrderId,
+      })
 
-        // Create order items
-        const itemsData = orderSessionData.cartItems.map((item: any) => ({
-          orderId: newOrder.id,
-          productId: item.productId,
-          quantity: item.quantity,
-          price: item.price.toString(),
-        }))
-        
-        const orderItemsResult = await tx.insert(orderItems)
-          .values(itemsData)
-          .returning()
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'No payment was started for this transaction',
+          transactionId,
+        },
+        { status: 404 }
+      )
+    }
 
-        // Update inventory and create adjustments
-        for (const item of orderSessionData.cartItems) {
-          // Update product inventory
-          await tx.update(products)
-            .set({
-              inventory: sql`${products.inventory} - ${item.quantity}`,
-              updatedAt: new Date()
-            })
-            .where(eq(products.id, item.productId))
+    if (requestedOrderId && requestedOrderId !== attempt.orderId) {
+      securityMonitor.logEvent('PAYMENT_ORDER_MISMATCH', `Payment for order ${attempt.orderId} was submitted for order ${requestedOrderId}`, {
+        method,
+        transactionId,
+        orderId: attempt.orderId,
+        requestedOrderId,
+      })
 
-          // Create inventory adjustment
-          await tx.insert(inventoryAdjustments)
-            .values({
-              productId: item.productId,
-              quantity: -item.quantity,
-              changeType: 'ORDER_PLACED',
-              reason: `Inventory reduced for order ${orderId}`,
-              referenceId: orderId,
-            })
-        }
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Payment does not belong to this order',
+          transactionId,
+        },
+        { status: 400 }
+      )
+    }
 
-        // Fetch complete order with relations
-        const completeOrder = await db.query.orders.findFirst({
-          where: eq(orders.id, newOrder.id),
-          with: {
-            items: {
-              with: {
-                product: true
-              }
-            },
-            user: true
-          }
-        })
+    const amountMismatch = await rejectMismatchedPayment(attempt, verificationResult.amount, verificationResult.data)
+    if (amountMismatch) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Payment amount does not match the order total',
+          orderId,
+          transactionId,
+        },
+        { status: 400 }
+      )
+    }
 
-        return completeOrder
+    const session = attempt.session as PaymentSessionData | null
+    if (!session) {
+      securityMonitor.logEvent('PAYMENT_SESSION_MISSING', `Verified payment for order ${orderId} has no checkout session`, {
+        method,
+        transactionId,
+        orderId,
       })
 
-      // Start order processing workflow
-      try {
-        await orderProcessingService.processOrderLifecycle(order.id)
-      } catch (processingError) {
-        console.error('Failed to start order processing:', processingError)
-        // Don't fail the order if processing fails
-      }
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Payment verified but the checkout session was not found',
+          orderId,
+          transactionId,
+        },
+        { status: 409 }
+      )
+    }
 
-      // Send confirmation email if user email is available
-      const userEmail = orderSessionData.guestEmail || (order.user as any)?.email
-      if (userEmail) {
-        try {
-          await EmailService.sendOrderConfirmation({
-            order: order,
-            user: order.user || {
-              id: 'guest',
-              name: 'Guest Customer',
-              email: userEmail,
-            } as any,
-            orderItems: order.items.map(item => ({
-              product: item.product,
-              quantity: item.quantity,
-              price: item.price,
-            })),
-          })
-        } catch (emailError) {
-          console.error('Failed to send order confirmation email:', emailError)
-          // Don't fail the order if email fails
-        }
-      }
+    // Payment verified successfully - now create the order
+    try {
+      // Keyed on the gateway's own reference, so replays and a reconciliation
+      // run that got there first return the existing order
+      const { order, created } = await createOrderFromPaymentSession(
+        orderId,
+        session,
+        verificationResult.transactionId || attempt.gatewayReference
+      )
 
       return NextResponse.json({
         success: true,
@@ -247,7 +175,7 @@ export async function POST(request: NextRequest) {
         transactionId: verificationResult.transactionId,
         amount: verificationResult.amount,
         method: verificationResult.method,
-        orderCreated: true,
+        orderCreated: created,
       })
 
     } catch (error) {
@@ -284,67 +212,32 @@ export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url)
     const method = searchParams.get('method')
     
-    if (!method || !['esewa', 'khalti'].includes(method)) {
+    if (!method || !hasPaymentGateway(method) || !getPaymentGateway(method).capabilities.online) {
       return NextResponse.json(
         { error: 'Invalid payment method' },
         { status: 400 }
       )
     }
 
-    let parsedData
-    
-    if (method === 'esewa') {
-      parsedData = parseESewaCallback(Object.fromEntries(searchParams.entries()))
-      
-      // Redirect to success/failure page based on eSewa callback
-      const { oid, amt, refId } = parsedData
-      
-      if (oid && amt && refId) {
-        // Success - redirect to verification
-        const successUrl = new URL('/checkout/success', request.url)
-        successUrl.searchParams.set('method', 'esewa')
-        successUrl.searchParams.set('oid', oid)
-        successUrl.searchParams.set('amt', amt)
-        successUrl.searchParams.set('refId', refId)
-        
-        return NextResponse.redirect(successUrl.toString())
-      } else {
-        // Failure - redirect to failure page
-        const failureUrl = new URL('/checkout/failure', request.url)
-        failureUrl.searchParams.set('method', 'esewa')
-        failureUrl.searchParams.set('error', 'Payment failed or cancelled')
-        
-        return NextResponse.redirect(failureUrl.toString())
-      }
-    } else if (method === 'khalti') {
-      parsedData = parseKhaltiCallback(Object.fromEntries(searchParams.entries()))
-      
-      // Redirect to success/failure page based on Khalti callback
-      const { pidx, status, transaction_id } = parsedData
-      
-      if (pidx && status && transaction_id) {
-        // Success - redirect to verification
-        const successUrl = new URL('/checkout/success', request.url)
-        successUrl.searchParams.set('method', 'khalti')
-        successUrl.searchParams.set('pidx', pidx)
-        successUrl.searchParams.set('status', status)
-        successUrl.searchParams.set('transaction_id', transaction_id)
-        
-        return NextResponse.redirect(successUrl.toString())
-      } else {
-        // Failure - redirect to failure page
-        const failureUrl = new URL('/checkout/failure', request.url)
-        failureUrl.searchParams.set('method', 'khalti')
-        failureUrl.searchParams.set('error', 'Payment failed or cancelled')
-        
-        return NextResponse.redirect(failureUrl.toString())
+    const callback = getPaymentGateway(method).parseCallback(Object.fromEntries(searchParams.entries()))
+
+    if (callback.success) {
+      // Success - redirect to verification
+      const successUrl = new URL('/checkout/success', request.url)
+      successUrl.searchParams.set('method', method)
+      for (const [key, value] of Object.entries(callback.params)) {
+        successUrl.searchParams.set(key, value)
       }
+
+      return NextResponse.redirect(successUrl.toString())
     }
 
-    return NextResponse.json(
-      { error: 'Invalid payment callback' },
-      { status: 400 }
-    )
+    // Failure - redirect to failure page
+    const failureUrl = new URL('/checkout/failure', request.url)
+    failureUrl.searchParams.set('method', method)
+    failureUrl.searchParams.set('error', 'Payment failed or cancelled')
+
+    return NextResponse.redirect(failureUrl.toString())
 
   } catch (error) {
     
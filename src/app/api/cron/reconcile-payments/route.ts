@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { paymentReconciliationService } from '@/lib/payment-reconciliation';
+
+/**
+ * Payment reconciliation job
+ * Settles eSewa/Khalti payments whose gateway callback never reached us,
+ * creating paid orders and expiring abandoned attempts. Also puts back
+ * stock held for checkouts whose reservation has timed out.
+ * Pass ?minutes=N to override the payment_reconciliation_minutes setting.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authorization
+    const authHeader = request.headers.get('authorization');
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (process.env.NODE_ENV === 'production' && cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const startTime = Date.now();
+
+    const minutes = Number(new URL(request.url).searchParams.get('minutes'));
+    const results = await paymentReconciliationService.reconcile({
+      olderThanMinutes: minutes > 0 ? minutes : undefined,
+    });
+
+    if (results.mismatches.length > 0) {
+      console.warn(`⚠️ Payment reconciliation found ${results.mismatches.length} mismatches:`, results.mismatches);
+    }
+
+    const duration = Date.now() - startTime;
+
+    return NextResponse.json({
+      success: true,
+      message: 'Payment reconciliation completed',
+      duration: `${duration}ms`,
+      timestamp: new Date().toISOString(),
+      results
+    });
+
+  } catch (error) {
+    console.error('Fatal error in payment reconciliation:', error);
+    return NextResponse.json(
+      {
+        error: 'Payment reconciliation failed',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Allow POST method for manual triggering
+export async function POST(request: NextRequest) {
+  return GET(request);
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getToken } from 'next-auth/jwt'
+import { discountRepository } from '@/lib/discount-repository'
+import { productRepository } from '@/lib/product-repository'
+import { validateDiscountCodeSchema } from '@/lib/validations'
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const validationResult = validateDiscountCodeSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    const { code, items } = validationResult.data
+    const token = await getToken({ req: request })
+
+    // Always price the cart from current product data
+    const discountableItems = []
+    for (const item of items) {
+      const product = await productRepository.findById(item.productId)
+
+      if (!product || !product.isActive) {
+        return NextResponse.json(
+          { error: `Product ${item.productId} is no longer available` },
+          { status: 400 }
+        )
+      }
+
+      discountableItems.push({
+        productId: product.id,
+        categoryId: product.categoryId,
+        price: Number(product.discountPrice || product.price),
+        quantity: item.quantity,
+      })
+    }
+
+    const result = await discountRepository.validateCode(code, {
+      items: discountableItems,
+      userId: token?.sub,
+    })
+
+    if (!result.valid || !result.discount) {
+      return NextResponse.json(
+        { valid: false, error: result.error },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      valid: true,
+      discount: {
+        code: result.discount.code,
+        name: result.discount.name,
+        description: result.discount.description,
+        discountType: result.discount.discountType,
+        discountValue: parseFloat(result.discount.discountValue),
+      },
+      discountAmount: result.discountAmount,
+      eligibleSubtotal: result.eligibleSubtotal,
+    })
+
+  } catch (error) {
+    if (error instanceof Error) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { db } from '@/lib/db'
-import { products, inventoryAdjustments } from '@/lib/db/schema'
-import { eq, sql } from 'drizzle-orm'
+import { products } from '@/lib/db/schema'
+import { eq } from 'drizzle-orm'
 import { createAdminHandler } from '@/lib/auth-middleware'
+import { getServerSession } from '@/lib/auth'
+import { inventoryRepository } from '@/lib/inventory-repository'
 import { inventoryAdjustmentSchema } from '@/lib/validations'
 
 export const POST = createAdminHandler(async (request: NextRequest) => {
@@ -20,10 +22,20 @@ export const POST = createAdminHandler(async (request: NextRequest) => {
       )
     }
 
-    const { productId, quantity, type, reason } = validationResult.data
+    const { productId, quantity, type, reason, locationId } = validationResult.data
+    const session = await getServerSession()
 
-    // Get the current product
-    const productResult = await db.select({
+    // Taken from one location, the default unless given; fails rather than go below zero
+    const adjustment = await inventoryRepository.adjustInventory({
+      productId,
+      quantity,
+      type,
+      reason,
+      locationId,
+      createdBy: session?.user.id,
+    })
+
+    const [updatedProduct] = await db.select({
       id: products.id,
       name: products.name,
       inventory: products.inventory
@@ -31,50 +43,6 @@ export const POST = createAdminHandler(async (request: NextRequest) => {
       .from(products)
       .where(eq(products.id, productId))
       .limit(1)
-    const product = productResult[0] || null
-
-    if (!product) {
-      return NextResponse.json(
-        { error: 'Product not found' },
-        { status: 404 }
-      )
-    }
-
-    // Calculate new inventory level
-    const newInventory = product.inventory + quantity
-    if (newInventory < 0) {
-      return NextResponse.json(
-        { error: 'Cannot reduce inventory below zero' },
-        { status: 400 }
-      )
-    }
-
-    // Update product inventory and create adjustment in transaction
-    const [updatedProduct, adjustment] = await db.transaction(async (tx) => {
-      const [updated] = await tx.update(products)
-        .set({ 
-          inventory: newInventory,
-          updatedAt: new Date()
-        })
-        .where(eq(products.id, productId))
-        .returning({
-          id: products.id,
-          name: products.name,
-          inventory: products.inventory
-        })
-
-      const [adj] = await tx.insert(inventoryAdjustments)
-        .values({
-          productId,
-          quantity,
-          changeType: type,
-          reason: reason || null,
-          userId: null // In a real app, this would be the user ID
-        })
-        .returning()
-
-      return [updated, adj]
-    })
 
     return NextResponse.json({
       message: 'Inventory adjusted successfully',
@@ -82,8 +50,9 @@ export const POST = createAdminHandler(async (request: NextRequest) => {
         id: adjustment.id,
         productId: adjustment.productId,
         quantity: adjustment.quantity,
-        type: adjustment.changeType,
+        type,
         reason: adjustment.reason,
+        location: adjustment.location,
         createdAt: adjustment.createdAt
       },
       product: updatedProduct
@@ -97,6 +66,13 @@ export const POST = createAdminHandler(async (request: NextRequest) => {
       )
     }
 
+    if (error instanceof Error && error.message.startsWith('Insufficient inventory')) {
+      return NextResponse.json(
+        { error: 'Cannot reduce inventory below zero at this location' },
+        { status: 400 }
+      )
+    }
+
     return NextResponse.json(
       { error: 'Internal server error' },
       { status: 500 }
@@ -2,10 +2,14 @@ import { NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { products } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
+import { stockLocationRepository } from '@/lib/stock-location-repository';
 
 export async function GET() {
   try {
-    const productsList = await db.select().from(products).where(eq(products.isActive, true));
+    const [productsList, locations] = await Promise.all([
+      db.select().from(products).where(eq(products.isActive, true)),
+      stockLocationRepository.getStockSummary(),
+    ]);
 
     const totalProducts = productsList.length;
 
@@ -14,6 +18,7 @@ export async function GET() {
       return acc + value;
     }, 0);
 
+    // Sellable units, summed across locations; stock in transit is not sellable
     const totalInventoryUnits = productsList.reduce((acc, product) => {
       return acc + product.inventory;
     }, 0);
@@ -30,10 +35,23 @@ export async function GET() {
       totalProducts,
       totalInventoryValue,
       totalInventoryUnits,
+      totalInTransitUnits: locations.reduce((acc, location) => acc + location.inTransit, 0),
       outOfStockProducts: outOfStockProducts.length,
       lowStockProducts: lowStockProducts.length,
+      locations: locations.map((location) => ({
+        id: location.id,
+        name: location.name,
+        code: location.code,
+        city: location.city,
+        isActive: location.isActive,
+        isDefault: location.isDefault,
+        units: location.onHand,
+        inTransitUnits: location.inTransit,
+        value: location.value,
+        outOfStockProducts: location.outOfStockProducts,
+      })),
     });
   } catch (error) {
     return new NextResponse('Internal Server Error', { status: 500 });
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminHandler } from '@/lib/auth-middleware'
+import { inventoryForecastService } from '@/lib/inventory-forecast-service'
+import { inventoryForecastQuerySchema } from '@/lib/validations'
+
+// GET /api/inventory/forecast - A product's demand forecast with ?productId=,
+// otherwise the products due for reordering
+export const GET = createAdminHandler(async (request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url)
+
+    const queryResult = inventoryForecastQuerySchema.safeParse({
+      productId: searchParams.get('productId') || undefined,
+      horizon: searchParams.get('horizon') || undefined,
+      leadTimeDays: searchParams.get('leadTimeDays') || undefined,
+    })
+
+    if (!queryResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid forecast parameters',
+          details: queryResult.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    const { productId, horizon, leadTimeDays } = queryResult.data
+    const options = { horizonDays: horizon, leadTimeDays }
+
+    if (productId) {
+      const forecast = await inventoryForecastService.getProductForecast(productId, options)
+
+      if (!forecast) {
+        return NextResponse.json(
+          { error: 'Product not found' },
+          { status: 404 }
+        )
+      }
+
+      return NextResponse.json({ forecast })
+    }
+
+    const suggestions = await inventoryForecastService.getReorderSuggestions(options)
+
+    return NextResponse.json({ suggestions })
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+})
@@ -23,6 +23,7 @@ export const GET = createAdminHandler(async (request: NextRequest) => {
     // Parse filter parameters
     const filters = {
       productId: searchParams.get('productId') || undefined,
+      locationId: searchParams.get('locationId') || undefined,
       type: searchParams.get('type') || undefined,
       dateFrom: searchParams.get('dateFrom') || undefined,
       dateTo: searchParams.get('dateTo') || undefined,
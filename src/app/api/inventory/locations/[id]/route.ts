@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminHandler } from '@/lib/auth-middleware'
+import { stockLocationRepository } from '@/lib/stock-location-repository'
+import { updateStockLocationSchema } from '@/lib/validations'
+
+interface RouteParams {
+  params: Promise<{
+    id: string
+  }>
+}
+
+export const PUT = createAdminHandler<RouteParams>(async (
+  request: NextRequest,
+  context?: RouteParams
+) => {
+  if (!context) {
+    return NextResponse.json(
+      { error: 'Invalid route parameters' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const { id } = await context.params
+    const body = await request.json()
+    const validationResult = updateStockLocationSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    const location = await stockLocationRepository.update(id, validationResult.data)
+
+    return NextResponse.json({ location })
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message === 'Stock location not found') {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 404 }
+        )
+      }
+
+      if (error.message.includes('already exists') || error.message.includes('default')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        )
+      }
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+})
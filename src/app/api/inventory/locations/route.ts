@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminHandler } from '@/lib/auth-middleware'
+import { stockLocationRepository } from '@/lib/stock-location-repository'
+import { createStockLocationSchema } from '@/lib/validations'
+
+// GET /api/inventory/locations - Stock locations with what each holds
+export const GET = createAdminHandler(async () => {
+  try {
+    const locations = await stockLocationRepository.getStockSummary()
+
+    return NextResponse.json({ locations })
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+})
+
+// POST /api/inventory/locations - Add a warehouse or shop
+export const POST = createAdminHandler(async (request: NextRequest) => {
+  try {
+    const body = await request.json()
+    const validationResult = createStockLocationSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    const location = await stockLocationRepository.create(validationResult.data)
+
+    return NextResponse.json({ location }, { status: 201 })
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('already exists')) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminHandler } from '@/lib/auth-middleware'
+import { getServerSession } from '@/lib/auth'
+import { purchaseOrderRepository } from '@/lib/purchase-order-repository'
+import { receivePurchaseOrderSchema } from '@/lib/validations'
+
+interface RouteParams {
+  params: Promise<{
+    id: string
+  }>
+}
+
+// POST /api/inventory/purchase-orders/[id]/receive - Book a delivery into stock
+export const POST = createAdminHandler<RouteParams>(async (
+  request: NextRequest,
+  context?: RouteParams
+) => {
+  if (!context) {
+    return NextResponse.json(
+      { error: 'Invalid route parameters' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const { id } = await context.params
+    const session = await getServerSession()
+    const body = await request.json()
+    const validationResult = receivePurchaseOrderSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    const purchaseOrder = await purchaseOrderRepository.receive(id, validationResult.data, session!.user.id)
+
+    return NextResponse.json({ purchaseOrder })
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message === 'Purchase order not found') {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 404 }
+        )
+      }
+
+      if (error.message === 'Only sent purchase orders can be received') {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 409 }
+        )
+      }
+
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+})
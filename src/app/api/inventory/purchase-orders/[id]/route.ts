@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminHandler } from '@/lib/auth-middleware'
+import { purchaseOrderRepository } from '@/lib/purchase-order-repository'
+import { updatePurchaseOrderSchema } from '@/lib/validations'
+
+interface RouteParams {
+  params: Promise<{
+    id: string
+  }>
+}
+
+export const GET = createAdminHandler<RouteParams>(async (
+  request: NextRequest,
+  context?: RouteParams
+) => {
+  if (!context) {
+    return NextResponse.json(
+      { error: 'Invalid route parameters' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const { id } = await context.params
+    const purchaseOrder = await purchaseOrderRepository.findById(id)
+
+    if (!purchaseOrder) {
+      return NextResponse.json(
+        { error: 'Purchase order not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ purchaseOrder })
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+})
+
+// PUT /api/inventory/purchase-orders/[id] - Send a draft to the supplier or cancel the order
+export const PUT = createAdminHandler<RouteParams>(async (
+  request: NextRequest,
+  context?: RouteParams
+) => {
+  if (!context) {
+    return NextResponse.json(
+      { error: 'Invalid route parameters' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const { id } = await context.params
+    const body = await request.json()
+    const validationResult = updatePurchaseOrderSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    const purchaseOrder = validationResult.data.action === 'send'
+      ? await purchaseOrderRepository.send(id)
+      : await purchaseOrderRepository.cancel(id)
+
+    return NextResponse.json({ purchaseOrder })
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message === 'Purchase order not found') {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 404 }
+        )
+      }
+
+      if (error.message.includes('purchase order cannot be')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 409 }
+        )
+      }
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminHandler } from '@/lib/auth-middleware'
+import { getServerSession } from '@/lib/auth'
+import { purchaseOrderRepository } from '@/lib/purchase-order-repository'
+import { createPurchaseOrderSchema, paginationSchema, purchaseOrderFiltersSchema } from '@/lib/validations'
+
+// GET /api/inventory/purchase-orders - Purchase orders, newest first
+export const GET = createAdminHandler(async (request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url)
+
+    const page = parseInt(searchParams.get('page') || '1')
+    const limit = parseInt(searchParams.get('limit') || '20')
+
+    const paginationResult = paginationSchema.safeParse({ page, limit })
+    if (!paginationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid pagination parameters' },
+        { status: 400 }
+      )
+    }
+
+    const filtersResult = purchaseOrderFiltersSchema.safeParse({
+      status: searchParams.get('status') || undefined,
+      supplierId: searchParams.get('supplierId') || undefined,
+    })
+    if (!filtersResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid filter parameters' },
+        { status: 400 }
+      )
+    }
+
+    const result = await purchaseOrderRepository.findAll(paginationResult.data, filtersResult.data)
+
+    return NextResponse.json(result)
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+})
+
+// POST /api/inventory/purchase-orders - Draft a purchase order
+export const POST = createAdminHandler(async (request: NextRequest) => {
+  try {
+    const session = await getServerSession()
+    const body = await request.json()
+    const validationResult = createPurchaseOrderSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    const purchaseOrder = await purchaseOrderRepository.create(validationResult.data, session!.user.id)
+
+    return NextResponse.json({ purchaseOrder }, { status: 201 })
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 404 }
+        )
+      }
+
+      if (error.message.includes('no longer an active supplier')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        )
+      }
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+})
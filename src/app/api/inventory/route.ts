@@ -3,6 +3,7 @@ import { createAdminHandler } from '@/lib/auth-middleware'
 import { inventoryRepository } from '@/lib/inventory-repository'
 import { productRepository } from '@/lib/product-repository'
 import { orderRepository } from '@/lib/order-repository'
+import { purchaseOrderRepository } from '@/lib/purchase-order-repository'
 import { bulkInventoryUpdateSchema, inventoryAdjustmentSchema } from '@/lib/validations'
 import { db } from '@/lib/db'
 import { products } from '@/lib/db/schema'
@@ -125,6 +126,9 @@ export const GET = createAdminHandler(async (request: NextRequest) => {
     const topSellingProducts = Object.values(productSales)
       .sort((a, b) => b.totalValue - a.totalValue)
       .slice(0, 10)
+
+    // Units still expected on sent purchase orders, by product
+    const onOrder = await purchaseOrderRepository.getOnOrderQuantities()
     
     const enhancedSummary = {
       ...summary,
@@ -135,7 +139,8 @@ export const GET = createAdminHandler(async (request: NextRequest) => {
       lowStockCount,
       inventoryTurnover,
       categoryDistribution,
-      topSellingProducts
+      topSellingProducts,
+      onOrder
     }
     
     return NextResponse.json(enhancedSummary)
@@ -175,7 +180,9 @@ export const PUT = createAdminHandler(async (request: NextRequest) => {
 
     const result = await inventoryRepository.bulkUpdateInventory(
       updates,
-      validationResult.data.reason || 'Bulk inventory adjustment'
+      validationResult.data.reason || 'Bulk inventory adjustment',
+      undefined,
+      validationResult.data.locationId
     )
 
     return NextResponse.json({
@@ -216,7 +223,8 @@ export const POST = createAdminHandler(async (request: NextRequest) => {
       quantity: validationResult.data.quantity,
       type: validationResult.data.type,
       reason: validationResult.data.reason,
-      createdBy: validationResult.data.createdBy
+      createdBy: validationResult.data.createdBy,
+      locationId: validationResult.data.locationId
     }
 
     const result = await inventoryRepository.adjustInventory(adjustmentData)
@@ -234,6 +242,13 @@ export const POST = createAdminHandler(async (request: NextRequest) => {
       )
     }
 
+    if (error instanceof Error && error.message.startsWith('Insufficient inventory')) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
       console.error('Error fetching inventory summary:', error)
       return NextResponse.json(
         { 
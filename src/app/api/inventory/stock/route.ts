@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminHandler } from '@/lib/auth-middleware'
+import { stockLocationRepository } from '@/lib/stock-location-repository'
+import { purchaseOrderRepository } from '@/lib/purchase-order-repository'
+
+// GET /api/inventory/stock?productId= - A product's stock at each location and what is on order
+export const GET = createAdminHandler(async (request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const productId = searchParams.get('productId')
+
+    if (!productId) {
+      return NextResponse.json(
+        { error: 'productId is required' },
+        { status: 400 }
+      )
+    }
+
+    const [stock, onOrder] = await Promise.all([
+      stockLocationRepository.getProductStock(productId),
+      purchaseOrderRepository.getOnOrderQuantities([productId]),
+    ])
+
+    return NextResponse.json({ stock, onOrder: onOrder[productId] || 0 })
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+})
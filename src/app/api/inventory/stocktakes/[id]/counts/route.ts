@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminHandler } from '@/lib/auth-middleware'
+import { getServerSession } from '@/lib/auth'
+import { stocktakeRepository } from '@/lib/stocktake-repository'
+import { recordStocktakeCountsSchema } from '@/lib/validations'
+
+interface RouteParams {
+  params: Promise<{
+    id: string
+  }>
+}
+
+// PUT /api/inventory/stocktakes/[id]/counts - Record counted quantities
+export const PUT = createAdminHandler<RouteParams>(async (
+  request: NextRequest,
+  context?: RouteParams
+) => {
+  if (!context) {
+    return NextResponse.json(
+      { error: 'Invalid route parameters' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const { id } = await context.params
+    const session = await getServerSession()
+    const body = await request.json()
+    const validationResult = recordStocktakeCountsSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    const stocktake = await stocktakeRepository.recordCounts(id, validationResult.data, session!.user.id)
+
+    return NextResponse.json({ stocktake })
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message === 'Stocktake not found') {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 404 }
+        )
+      }
+
+      if (error.message.includes('stocktake cannot be')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 409 }
+        )
+      }
+
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminHandler } from '@/lib/auth-middleware'
+import { getServerSession } from '@/lib/auth'
+import { stocktakeRepository } from '@/lib/stocktake-repository'
+import { updateStocktakeSchema } from '@/lib/validations'
+
+interface RouteParams {
+  params: Promise<{
+    id: string
+  }>
+}
+
+export const GET = createAdminHandler<RouteParams>(async (
+  request: NextRequest,
+  context?: RouteParams
+) => {
+  if (!context) {
+    return NextResponse.json(
+      { error: 'Invalid route parameters' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const { id } = await context.params
+    const stocktake = await stocktakeRepository.findById(id)
+
+    if (!stocktake) {
+      return NextResponse.json(
+        { error: 'Stocktake not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ stocktake })
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+})
+
+// PUT /api/inventory/stocktakes/[id] - Post the variances into stock or cancel the count
+export const PUT = createAdminHandler<RouteParams>(async (
+  request: NextRequest,
+  context?: RouteParams
+) => {
+  if (!context) {
+    return NextResponse.json(
+      { error: 'Invalid route parameters' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const { id } = await context.params
+    const session = await getServerSession()
+    const body = await request.json()
+    const validationResult = updateStocktakeSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    const stocktake = validationResult.data.action === 'post'
+      ? await stocktakeRepository.post(id, session!.user.id)
+      : await stocktakeRepository.cancel(id)
+
+    return NextResponse.json({ stocktake })
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message === 'Stocktake not found') {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 404 }
+        )
+      }
+
+      if (error.message.includes('stocktake cannot be')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 409 }
+        )
+      }
+
+      // Nothing counted, or a shortage the location no longer holds
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminHandler } from '@/lib/auth-middleware'
+import { getServerSession } from '@/lib/auth'
+import { stocktakeRepository } from '@/lib/stocktake-repository'
+import { createStocktakeSchema, paginationSchema, stocktakeFiltersSchema } from '@/lib/validations'
+
+// GET /api/inventory/stocktakes - Stocktakes, newest first
+export const GET = createAdminHandler(async (request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url)
+
+    const page = parseInt(searchParams.get('page') || '1')
+    const limit = parseInt(searchParams.get('limit') || '20')
+
+    const paginationResult = paginationSchema.safeParse({ page, limit })
+    if (!paginationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid pagination parameters' },
+        { status: 400 }
+      )
+    }
+
+    const filtersResult = stocktakeFiltersSchema.safeParse({
+      status: searchParams.get('status') || undefined,
+      locationId: searchParams.get('locationId') || undefined,
+    })
+    if (!filtersResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid filter parameters' },
+        { status: 400 }
+      )
+    }
+
+    const result = await stocktakeRepository.findAll(paginationResult.data, filtersResult.data)
+
+    return NextResponse.json(result)
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+})
+
+// POST /api/inventory/stocktakes - Generate a count sheet for a location
+export const POST = createAdminHandler(async (request: NextRequest) => {
+  try {
+    const session = await getServerSession()
+    const body = await request.json()
+    const validationResult = createStocktakeSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    const stocktake = await stocktakeRepository.create(validationResult.data, session!.user.id)
+
+    return NextResponse.json({ stocktake }, { status: 201 })
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 404 }
+        )
+      }
+
+      if (error.message === 'There are no products to count') {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        )
+      }
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminHandler } from '@/lib/auth-middleware'
+import { purchaseOrderRepository } from '@/lib/purchase-order-repository'
+import { updateSupplierSchema } from '@/lib/validations'
+
+interface RouteParams {
+  params: Promise<{
+    id: string
+  }>
+}
+
+export const PUT = createAdminHandler<RouteParams>(async (
+  request: NextRequest,
+  context?: RouteParams
+) => {
+  if (!context) {
+    return NextResponse.json(
+      { error: 'Invalid route parameters' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const { id } = await context.params
+    const body = await request.json()
+    const validationResult = updateSupplierSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    const supplier = await purchaseOrderRepository.updateSupplier(id, validationResult.data)
+
+    return NextResponse.json({ supplier })
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Supplier not found') {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminHandler } from '@/lib/auth-middleware'
+import { purchaseOrderRepository } from '@/lib/purchase-order-repository'
+import { createSupplierSchema } from '@/lib/validations'
+
+// GET /api/inventory/suppliers - Suppliers, active ones first
+export const GET = createAdminHandler(async () => {
+  try {
+    const suppliers = await purchaseOrderRepository.findSuppliers()
+
+    return NextResponse.json({ suppliers })
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+})
+
+// POST /api/inventory/suppliers - Add a supplier
+export const POST = createAdminHandler(async (request: NextRequest) => {
+  try {
+    const body = await request.json()
+    const validationResult = createSupplierSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    const supplier = await purchaseOrderRepository.createSupplier(validationResult.data)
+
+    return NextResponse.json({ supplier }, { status: 201 })
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+})
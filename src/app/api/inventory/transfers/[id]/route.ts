@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminHandler } from '@/lib/auth-middleware'
+import { getServerSession } from '@/lib/auth'
+import { stockLocationRepository } from '@/lib/stock-location-repository'
+import { updateStockTransferSchema } from '@/lib/validations'
+
+interface RouteParams {
+  params: Promise<{
+    id: string
+  }>
+}
+
+// PUT /api/inventory/transfers/[id] - Receive or cancel an in-transit transfer
+export const PUT = createAdminHandler<RouteParams>(async (
+  request: NextRequest,
+  context?: RouteParams
+) => {
+  if (!context) {
+    return NextResponse.json(
+      { error: 'Invalid route parameters' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const { id } = await context.params
+    const session = await getServerSession()
+    const body = await request.json()
+    const validationResult = updateStockTransferSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    const transfer = validationResult.data.action === 'receive'
+      ? await stockLocationRepository.receiveTransfer(id, session!.user.id)
+      : await stockLocationRepository.cancelTransfer(id, session!.user.id)
+
+    return NextResponse.json({ transfer })
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message === 'Stock transfer not found') {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 404 }
+        )
+      }
+
+      if (error.message === 'Stock transfer is no longer in transit') {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 409 }
+        )
+      }
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+})
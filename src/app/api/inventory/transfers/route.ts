@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminHandler } from '@/lib/auth-middleware'
+import { getServerSession } from '@/lib/auth'
+import { stockLocationRepository } from '@/lib/stock-location-repository'
+import { createStockTransferSchema, paginationSchema } from '@/lib/validations'
+
+// GET /api/inventory/transfers - Stock transfers between locations, newest first
+export const GET = createAdminHandler(async (request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url)
+
+    const page = parseInt(searchParams.get('page') || '1')
+    const limit = parseInt(searchParams.get('limit') || '20')
+
+    const paginationResult = paginationSchema.safeParse({ page, limit })
+    if (!paginationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid pagination parameters' },
+        { status: 400 }
+      )
+    }
+
+    const result = await stockLocationRepository.findTransfers(
+      paginationResult.data,
+      searchParams.get('status') || undefined
+    )
+
+    return NextResponse.json(result)
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+})
+
+// POST /api/inventory/transfers - Send stock from one location to another
+export const POST = createAdminHandler(async (request: NextRequest) => {
+  try {
+    const session = await getServerSession()
+    const body = await request.json()
+    const validationResult = createStockTransferSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    const transfer = await stockLocationRepository.createTransfer(validationResult.data, session!.user.id)
+
+    return NextResponse.json({ transfer }, { status: 201 })
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 404 }
+        )
+      }
+
+      if (error.message.startsWith('Insufficient inventory')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        )
+      }
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from '@/lib/auth'
+import { orderProcessingService } from '@/lib/order-processing-service'
+import { OrderTransitionError } from '@/lib/order-state-machine'
+import { cancelOrderSchema } from '@/lib/validations'
+
+// Open to guests, who identify their order with the email they used at checkout
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const session = await getServerSession()
+    const body = await request.json()
+    const validationResult = cancelOrderSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    const { guestEmail, ...data } = validationResult.data
+    if (!session?.user?.id && !guestEmail) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const result = await orderProcessingService.cancelByCustomer(id, data, {
+      userId: session?.user?.id,
+      guestEmail,
+    })
+
+    return NextResponse.json(result)
+
+  } catch (error) {
+    if (error instanceof OrderTransitionError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      )
+    }
+
+    if (error instanceof Error) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.message === 'Order not found' ? 404 : 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to cancel order' },
+      { status: 500 }
+    )
+  }
+}
@@ -36,7 +36,8 @@ export async function GET(
               }
             }
           }
-        }
+        },
+        refunds: true
       }
     })
 
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminHandler } from '@/lib/auth-middleware'
+import { paymentTransactionRepository } from '@/lib/payment-transaction-repository'
+
+interface RouteParams {
+  params: Promise<{
+    id: string
+  }>
+}
+
+export const GET = createAdminHandler<RouteParams>(async (
+  request: NextRequest,
+  context?: RouteParams
+) => {
+  if (!context) {
+    return NextResponse.json(
+      { error: 'Invalid route parameters' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const { id } = await context.params
+    const transactions = await paymentTransactionRepository.findByOrderId(id)
+
+    return NextResponse.json({ transactions })
+
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+})
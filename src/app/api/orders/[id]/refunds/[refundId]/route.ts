@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminHandler } from '@/lib/auth-middleware'
+import { refundRepository } from '@/lib/refund-repository'
+import { completeRefundSchema } from '@/lib/validations'
+
+interface RouteParams {
+  params: Promise<{
+    id: string
+    refundId: string
+  }>
+}
+
+// Marks a refund the gateway couldn't process as paid back by hand
+export const PUT = createAdminHandler<RouteParams>(async (
+  request: NextRequest,
+  context?: RouteParams
+) => {
+  if (!context) {
+    return NextResponse.json(
+      { error: 'Invalid route parameters' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const { id, refundId } = await context.params
+    const body = await request.json()
+    const validationResult = completeRefundSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    const refund = await refundRepository.completeManually(id, refundId, validationResult.data.reference!)
+
+    return NextResponse.json({ refund })
+
+  } catch (error) {
+    if (error instanceof Error) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.message === 'Refund not found' ? 404 : 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+})
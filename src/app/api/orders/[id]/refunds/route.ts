@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminHandler, createAuthHandler } from '@/lib/auth-middleware'
+import { getServerSession } from '@/lib/auth'
+import { orderRepository } from '@/lib/order-repository'
+import { refundRepository } from '@/lib/refund-repository'
+import { summarizeRefunds } from '@/lib/refund-utils'
+import { OrderTransitionError } from '@/lib/order-state-machine'
+import { createRefundSchema } from '@/lib/validations'
+
+interface RouteParams {
+  params: Promise<{
+    id: string
+  }>
+}
+
+export const GET = createAuthHandler<RouteParams>(async (
+  request: NextRequest,
+  context?: RouteParams
+) => {
+  if (!context) {
+    return NextResponse.json(
+      { error: 'Invalid route parameters' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const { id } = await context.params
+    const session = await getServerSession()
+
+    const order = await orderRepository.findById(id)
+    if (!order) {
+      return NextResponse.json(
+        { error: 'Order not found' },
+        { status: 404 }
+      )
+    }
+
+    const isAdmin = session?.user?.role === 'ADMIN'
+    const isOwner = order.userId === session?.user.id
+
+    if (!isAdmin && !isOwner) {
+      return NextResponse.json(
+        { error: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const refunds = await refundRepository.findByOrder(id)
+
+    return NextResponse.json({
+      refunds,
+      summary: summarizeRefunds(order, refunds),
+    })
+
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+})
+
+export const POST = createAdminHandler<RouteParams>(async (
+  request: NextRequest,
+  context?: RouteParams
+) => {
+  if (!context) {
+    return NextResponse.json(
+      { error: 'Invalid route parameters' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const { id } = await context.params
+    const session = await getServerSession()
+    const body = await request.json()
+    const validationResult = createRefundSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    const refund = await refundRepository.create(id, validationResult.data, session!.user.id)
+
+    return NextResponse.json({ refund }, { status: 201 })
+
+  } catch (error) {
+    if (error instanceof OrderTransitionError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      )
+    }
+
+    if (error instanceof Error) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.message === 'Order not found' ? 404 : 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+})
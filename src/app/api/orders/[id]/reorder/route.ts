@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAuthHandler } from '@/lib/auth-middleware'
+import { getServerSession } from '@/lib/auth'
+import { orderRepository } from '@/lib/order-repository'
+import CartRepository from '@/lib/cart-repository'
+
+interface RouteParams {
+  params: Promise<{
+    id: string
+  }>
+}
+
+// Buy again: rebuilds the signed-in customer's cart from one of their orders
+export const POST = createAuthHandler<RouteParams>(async (
+  request: NextRequest,
+  context?: RouteParams
+) => {
+  if (!context) {
+    return NextResponse.json(
+      { error: 'Invalid route parameters' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const { id } = await context.params
+    const session = await getServerSession()
+
+    const order = await orderRepository.findById(id)
+    if (!order) {
+      return NextResponse.json(
+        { error: 'Order not found' },
+        { status: 404 }
+      )
+    }
+
+    if (order.userId !== session!.user.id) {
+      return NextResponse.json(
+        { error: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const result = await CartRepository.addFromOrder(order.items, { userId: session!.user.id })
+
+    return NextResponse.json(result)
+
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Failed to add order items to cart' },
+      { status: 500 }
+    )
+  }
+})
@@ -3,10 +3,7 @@ import { orderRepository } from '@/lib/order-repository'
 import { updateOrderSchema, updateShippingAddressSchema } from '@/lib/validations'
 import { createAuthHandler, createAdminHandler } from '@/lib/auth-middleware'
 import { getServerSession } from '@/lib/auth'
-import { EmailService } from '@/lib/email-service'
-import { db } from '@/lib/db-utils'
-import { users } from '@/lib/db/schema'
-import { eq } from 'drizzle-orm'
+import { OrderTransitionError, getAllowedTransitions } from '@/lib/order-state-machine'
 
 interface RouteParams {
   params: Promise<{
@@ -120,38 +117,15 @@ export const PUT = createAuthHandler<RouteParams>(async (
         )
       }
 
-      const previousStatus = existingOrder.status
-      const newStatus = validationResult.data.status
+      const { status: newStatus, ...eventDetails } = validationResult.data
 
+      // Transition rules, inventory restoration and the customer email live in the state machine
       const updatedOrder = await orderRepository.updateStatus(
         resolvedParams.id, 
-        newStatus
+        newStatus,
+        { ...eventDetails, createdBy: session?.user.id }
       )
 
-      // Send order status update email if status changed
-      if (previousStatus !== newStatus) {
-        try {
-          const userResult = await db.select()
-            .from(users)
-            .where(eq(users.id, existingOrder.userId!))
-            .limit(1)
-          const user = userResult[0] || null
-
-          if (user) {
-            await EmailService.sendOrderStatusUpdate({
-              order: updatedOrder,
-              user,
-              previousStatus,
-              newStatus
-            }, true) // Use queue
-
-          }
-        } catch (emailError) {
-          console.error('Failed to send order status update email:', emailError)
-          // Don't fail the order update if email fails
-        }
-      }
-
       return NextResponse.json({
         message: 'Order updated successfully',
         order: updatedOrder
@@ -197,6 +171,17 @@ export const PUT = createAuthHandler<RouteParams>(async (
 
   } catch (error) {
     
+    if (error instanceof OrderTransitionError) {
+      return NextResponse.json(
+        {
+          error: error.message,
+          currentStatus: error.from,
+          allowedStatuses: getAllowedTransitions(error.from),
+        },
+        { status: 409 }
+      )
+    }
+
     if (error instanceof Error) {
       return NextResponse.json(
         { error: error.message },
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminHandler } from '@/lib/auth-middleware'
+import { getServerSession } from '@/lib/auth'
+import { shipmentRepository } from '@/lib/shipment-repository'
+import { OrderTransitionError } from '@/lib/order-state-machine'
+import { updateShipmentSchema } from '@/lib/validations'
+
+interface RouteParams {
+  params: Promise<{
+    id: string
+    shipmentId: string
+  }>
+}
+
+export const PUT = createAdminHandler<RouteParams>(async (
+  request: NextRequest,
+  context?: RouteParams
+) => {
+  if (!context) {
+    return NextResponse.json(
+      { error: 'Invalid route parameters' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const { id, shipmentId } = await context.params
+    const session = await getServerSession()
+    const body = await request.json()
+    const validationResult = updateShipmentSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    const shipment = await shipmentRepository.markDelivered(id, shipmentId, session!.user.id)
+
+    return NextResponse.json({ shipment })
+
+  } catch (error) {
+    if (error instanceof OrderTransitionError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      )
+    }
+
+    if (error instanceof Error) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.message === 'Shipment not found' ? 404 : 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+})
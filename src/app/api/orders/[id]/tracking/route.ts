@@ -2,9 +2,8 @@ import { NextRequest, NextResponse } from 'next/server'
 import { orderRepository } from '@/lib/order-repository'
 import { createAuthHandler, createAdminHandler } from '@/lib/auth-middleware'
 import { getServerSession } from '@/lib/auth'
-import { db } from '@/lib/db'
-import { orders } from '@/lib/db/schema'
-import { eq, asc } from 'drizzle-orm'
+import { OrderTransitionError } from '@/lib/order-state-machine'
+import { manualOrderStatuses } from '@/lib/validations'
 import { z } from 'zod'
 
 interface RouteParams {
@@ -15,8 +14,11 @@ interface RouteParams {
 
 // Validation schema for adding tracking information
 const addTrackingSchema = z.object({
-  status: z.enum(['PENDING', 'PROCESSING', 'SHIPPED', 'DELIVERED', 'CANCELLED', 'REFUNDED']),
+  status: z.enum(manualOrderStatuses),
   message: z.string().optional(),
+  location: z.string().trim().max(200).optional(),
+  carrier: z.string().trim().max(100).optional(),
+  carrierReference: z.string().trim().max(100).optional(),
 })
 
 export const GET = createAuthHandler<RouteParams>(async (
@@ -55,9 +57,7 @@ export const GET = createAuthHandler<RouteParams>(async (
       )
     }
 
-    // Get tracking logs (Note: orderTracking table may not exist in Drizzle schema)
-    // For now, return empty array as tracking functionality needs to be re-implemented
-    const trackingLogs: any[] = []
+    const trackingLogs = await orderRepository.getEvents(resolvedParams.id)
 
     return NextResponse.json(trackingLogs)
 
@@ -97,7 +97,7 @@ export const POST = createAdminHandler<RouteParams>(async (
       )
     }
 
-    const { status, message } = validationResult.data
+    const { status, ...eventDetails } = validationResult.data
 
     // Check if order exists
     const order = await orderRepository.findById(resolvedParams.id)
@@ -108,32 +108,16 @@ export const POST = createAdminHandler<RouteParams>(async (
       )
     }
 
-    // Generate tracking number if status is being updated to SHIPPED and no tracking number exists
-    let updateData: any = {
-      status,
-    }
+    const session = await getServerSession()
 
-    if (status === 'SHIPPED' && !order.trackingNumber) {
-      // Generate a tracking number
-      const trackingNumber = `TN${Date.now().toString(36).toUpperCase()}${Math.random().toString(36).substr(2, 5).toUpperCase()}`
-      updateData.trackingNumber = trackingNumber
-    }
+    // Updates the status, generates a tracking number when shipping and records the event
+    const updatedOrder = await orderRepository.updateStatus(resolvedParams.id, status, {
+      ...eventDetails,
+      createdBy: session?.user?.id,
+    })
 
-    // Update order status and tracking number if needed
-    const [updatedOrder] = await db.update(orders)
-      .set({ ...updateData, updatedAt: new Date() })
-      .where(eq(orders.id, resolvedParams.id))
-      .returning()
-
-    // Add tracking log entry (Note: orderTracking table may not exist in Drizzle schema)
-    // For now, create a mock tracking log
-    const trackingLog = {
-      id: `tracking-${Date.now()}`,
-        orderId: resolvedParams.id,
-        status,
-        message: message || `Order status updated to ${status}`,
-      createdAt: new Date()
-      }
+    const events = await orderRepository.getEvents(resolvedParams.id)
+    const trackingLog = events[events.length - 1]
 
     return NextResponse.json({
       message: 'Tracking information added successfully',
@@ -142,6 +126,13 @@ export const POST = createAdminHandler<RouteParams>(async (
     })
 
   } catch (error) {
+    if (error instanceof OrderTransitionError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      )
+    }
+
     return NextResponse.json(
       { error: 'Internal server error' },
       { status: 500 }
@@ -2,6 +2,10 @@ import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
 import { orderRepository } from '@/lib/order-repository'
 import { orderProcessingService } from '@/lib/order-processing-service'
+import { productRepository } from '@/lib/product-repository'
+import { getCartSummaryWithSettings } from '@/lib/cart-utils'
+import { buildOrderPriceBreakdown } from '@/lib/order-pricing'
+import { hasPaymentGateway } from '@/lib/payment-gateways'
 
 const createGuestOrderRequestSchema = z.object({
   guestEmail: z.string().email(),
@@ -9,9 +13,7 @@ const createGuestOrderRequestSchema = z.object({
   items: z.array(z.object({
     productId: z.string(),
     quantity: z.number().int().positive(),
-    price: z.number().positive(),
   })).min(1),
-  total: z.number().positive(),
   shippingAddress: z.object({
     fullName: z.string(),
     email: z.string().email(),
@@ -21,6 +23,8 @@ const createGuestOrderRequestSchema = z.object({
     postalCode: z.string(),
   }),
   paymentTransactionId: z.string().optional(),
+  discountCode: z.string().trim().optional(),
+  paymentMethod: z.string().refine(hasPaymentGateway, 'Unsupported payment method').optional(),
 })
 
 export async function POST(request: NextRequest) {
@@ -35,7 +39,29 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const { guestEmail, guestName, items, total, shippingAddress, paymentTransactionId } = parse.data
+    const { guestEmail, guestName, items, shippingAddress, paymentTransactionId, discountCode, paymentMethod } = parse.data
+
+    // Price the order server-side so the stored lines and breakdown match current settings
+    const cartItems = []
+    for (const item of items) {
+      const product = await productRepository.findById(item.productId)
+      if (!product) {
+        return NextResponse.json(
+          { error: `Product ${item.productId} not found` },
+          { status: 404 }
+        )
+      }
+      cartItems.push({ productId: product.id, quantity: item.quantity, product })
+    }
+
+    const summary = await getCartSummaryWithSettings(cartItems, { discountCode, userId: null })
+
+    if (discountCode && !summary.appliedDiscount) {
+      return NextResponse.json(
+        { error: summary.discountError || 'Invalid discount code' },
+        { status: 400 }
+      )
+    }
 
     // Generate a payment transaction ID if not provided (for demo/test orders)
     const finalPaymentTransactionId = paymentTransactionId || `guest-order-${Date.now()}`
@@ -43,10 +69,16 @@ export async function POST(request: NextRequest) {
     const order = await orderRepository.createGuestOrder({
       guestEmail,
       guestName,
-      items: items.map(i => ({ productId: i.productId, quantity: i.quantity, price: i.price })),
-      total,
+      items: cartItems.map(item => ({
+        productId: item.productId,
+        quantity: item.quantity,
+        price: Number(item.product.discountPrice || item.product.price),
+      })),
+      total: summary.total,
       shippingAddress,
       stripePaymentIntentId: finalPaymentTransactionId,
+      discountId: summary.appliedDiscount?.id || null,
+      priceBreakdown: buildOrderPriceBreakdown(summary, { paymentMethod: paymentMethod || 'cod' }),
     })
 
     // Start order processing workflow
@@ -6,14 +6,16 @@ import { createAuthHandler } from '@/lib/auth-middleware'
 import { getServerSession } from '@/lib/auth'
 import { orderRepository } from '@/lib/order-repository'
 import { orderProcessingService } from '@/lib/order-processing-service'
+import { productRepository } from '@/lib/product-repository'
+import { getCartSummaryWithSettings } from '@/lib/cart-utils'
+import { buildOrderPriceBreakdown } from '@/lib/order-pricing'
+import { hasPaymentGateway } from '@/lib/payment-gateways'
 
 const createOrderRequestSchema = z.object({
   items: z.array(z.object({
     productId: z.string(),
     quantity: z.number().int().positive(),
-    price: z.number().positive(),
   })).min(1),
-  total: z.number().positive(),
   shippingAddress: z.object({
     fullName: z.string(),
     email: z.string().email(),
@@ -23,6 +25,8 @@ const createOrderRequestSchema = z.object({
     postalCode: z.string(),
   }).optional(),
   paymentTransactionId: z.string().optional(), // Optional payment/transaction ID
+  discountCode: z.string().trim().optional(),
+  paymentMethod: z.string().refine(hasPaymentGateway, 'Unsupported payment method').optional(),
 })
 
 export const POST = createAuthHandler(async (request: NextRequest) => {
@@ -41,17 +45,45 @@ export const POST = createAuthHandler(async (request: NextRequest) => {
       )
     }
 
-    const { items, total, shippingAddress, paymentTransactionId } = parse.data
+    const { items, shippingAddress, paymentTransactionId, discountCode, paymentMethod } = parse.data
+
+    // Price the order server-side so the stored lines and breakdown match current settings
+    const cartItems = []
+    for (const item of items) {
+      const product = await productRepository.findById(item.productId)
+      if (!product) {
+        return NextResponse.json(
+          { error: `Product ${item.productId} not found` },
+          { status: 404 }
+        )
+      }
+      cartItems.push({ productId: product.id, quantity: item.quantity, product })
+    }
+
+    const summary = await getCartSummaryWithSettings(cartItems, { discountCode, userId: session.user.id })
+
+    if (discountCode && !summary.appliedDiscount) {
+      return NextResponse.json(
+        { error: summary.discountError || 'Invalid discount code' },
+        { status: 400 }
+      )
+    }
 
     // Generate a payment transaction ID if not provided (for demo/test orders)
     const finalPaymentTransactionId = paymentTransactionId || `direct-order-${session.user.id}-${Date.now()}`
 
     const order = await orderRepository.create({
       userId: session.user.id,
-      items: items.map(i => ({ productId: i.productId, quantity: i.quantity, price: i.price })),
-      total,
+      items: cartItems.map(item => ({
+        productId: item.productId,
+        quantity: item.quantity,
+        price: Number(item.product.discountPrice || item.product.price),
+      })),
+      total: summary.total,
       shippingAddress: shippingAddress ? shippingAddress : undefined,
       stripePaymentIntentId: finalPaymentTransactionId,
+      discountId: summary.appliedDiscount?.id || null,
+      priceBreakdown: buildOrderPriceBreakdown(summary, { paymentMethod: paymentMethod || 'cod' }),
     })
 
     // Start order processing workflow
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { orderRepository } from '@/lib/order-repository'
-import { paginationSchema } from '@/lib/validations'
+import { manualOrderStatuses, paginationSchema } from '@/lib/validations'
 import { createAuthHandler, createAdminHandler } from '@/lib/auth-middleware'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
@@ -82,13 +82,35 @@ export const POST = createAdminHandler(async (request: NextRequest) => {
             { status: 400 }
           )
         }
-        const updatedCount = await orderRepository.bulkUpdateStatus(
+        if (!(manualOrderStatuses as readonly string[]).includes(params.status)) {
+          return NextResponse.json(
+            { error: `Orders cannot be moved to ${params.status} by hand` },
+            { status: 400 }
+          )
+        }
+        const session = await getServerSession(authOptions)
+        const { updatedCount, rejected } = await orderRepository.bulkUpdateStatus(
           params.orderIds,
-          params.status
+          params.status,
+          { message: params.message, createdBy: session?.user?.id }
         )
+
+        // Only fail the request when no order could be moved; otherwise the
+        // rejected orders are reported alongside the ones that were updated
+        if (updatedCount === 0 && rejected.length > 0) {
+          return NextResponse.json({
+            error: `None of the ${params.orderIds.length} orders could be moved to ${params.status}`,
+            updatedCount,
+            rejected,
+          }, { status: 409 })
+        }
+
         return NextResponse.json({ 
-          message: `Updated ${updatedCount} orders`,
-          updatedCount 
+          message: rejected.length > 0
+            ? `Updated ${updatedCount} orders; ${rejected.length} could not be moved to ${params.status}`
+            : `Updated ${updatedCount} orders`,
+          updatedCount,
+          rejected,
         })
 
       default:
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAuthHandler } from '@/lib/auth-middleware'
+import { isCloudinaryConfigured, uploadImage } from '@/lib/cloudinary'
+
+const MAX_FILES = 5
+const MAX_FILE_SIZE = 5 * 1024 * 1024 // 5MB
+
+// POST /api/returns/upload - Photos attached to a customer's return request
+export const POST = createAuthHandler(async (request: NextRequest) => {
+  try {
+    if (!isCloudinaryConfigured()) {
+      return NextResponse.json(
+        { error: 'Photo uploads are not available right now' },
+        { status: 500 }
+      )
+    }
+
+    const formData = await request.formData()
+    const files = (formData.getAll('files') as File[]).filter(file => file && file.size > 0)
+
+    if (files.length === 0) {
+      return NextResponse.json(
+        { error: 'No files provided' },
+        { status: 400 }
+      )
+    }
+
+    if (files.length > MAX_FILES) {
+      return NextResponse.json(
+        { error: `You can attach up to ${MAX_FILES} photos` },
+        { status: 400 }
+      )
+    }
+
+    const uploadedUrls: string[] = []
+    const uploadErrors: string[] = []
+
+    for (const file of files) {
+      if (!file.type.startsWith('image/')) {
+        uploadErrors.push(`File ${file.name} is not a valid image`)
+        continue
+      }
+
+      if (file.size > MAX_FILE_SIZE) {
+        uploadErrors.push(`File ${file.name} is too large. Maximum size is 5MB`)
+        continue
+      }
+
+      try {
+        const buffer = Buffer.from(await file.arrayBuffer())
+
+        const secureUrl = await uploadImage(buffer, {
+          folder: 'ecommerce/returns',
+          transformation: [
+            { width: 1600, height: 1600, crop: 'limit', quality: 'auto:good' },
+          ],
+          unique_filename: true,
+        })
+
+        if (secureUrl) {
+          uploadedUrls.push(secureUrl)
+        } else {
+          uploadErrors.push(`Failed to upload ${file.name}`)
+        }
+      } catch (error) {
+        uploadErrors.push(`Failed to upload ${file.name}`)
+      }
+    }
+
+    if (uploadedUrls.length === 0) {
+      return NextResponse.json(
+        { error: 'All uploads failed', details: uploadErrors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      urls: uploadedUrls,
+      warnings: uploadErrors.length > 0 ? uploadErrors : undefined,
+    })
+
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Upload service error' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,57 @@
+'use client'
+
+import { Suspense } from 'react'
+import { useSearchParams } from 'next/navigation'
+import Link from 'next/link'
+import { XCircleIcon } from '@heroicons/react/24/solid'
+import MainLayout from '@/components/layout/main-layout'
+import { Card, CardContent } from '@/components/ui/card'
+import Button from '@/components/ui/button'
+import Loading from '@/components/ui/loading'
+
+function CheckoutFailureContent() {
+  const searchParams = useSearchParams()
+  const error = searchParams.get('error')
+
+  return (
+    <MainLayout>
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-16">
+        <Card>
+          <CardContent className="p-8 text-center">
+            <XCircleIcon className="w-16 h-16 text-red-500 mx-auto mb-4" />
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">
+              Payment Failed
+            </h1>
+            <p className="text-lg text-gray-600 mb-6">
+              {error || 'Your payment could not be completed.'} Your cart has been kept so you can try again.
+            </p>
+            <div className="space-x-4">
+              <Link href="/checkout">
+                <Button>Try Again</Button>
+              </Link>
+              <Link href="/cart">
+                <Button variant="outline">Back to Cart</Button>
+              </Link>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </MainLayout>
+  )
+}
+
+export default function CheckoutFailurePage() {
+  return (
+    <Suspense fallback={
+      <MainLayout>
+        <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-16">
+          <div className="text-center">
+            <Loading size="lg" />
+          </div>
+        </div>
+      </MainLayout>
+    }>
+      <CheckoutFailureContent />
+    </Suspense>
+  )
+}
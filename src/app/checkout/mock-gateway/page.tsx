@@ -0,0 +1,166 @@
+'use client'
+
+import { Suspense, useEffect, useState } from 'react'
+import { useSearchParams } from 'next/navigation'
+import Link from 'next/link'
+import { Card, CardContent } from '@/components/ui/card'
+import Button from '@/components/ui/button'
+import Loading from '@/components/ui/loading'
+import { formatCurrency } from '@/lib/currency'
+import type { MockPaymentOutcome } from '@/lib/payment-gateways/mock'
+
+interface MockPayment {
+  pidx: string
+  orderId: string
+  amount: number
+  status: string
+}
+
+const OUTCOME_LABELS: Record<MockPaymentOutcome, string> = {
+  success: 'Pay',
+  failure: 'Decline',
+  timeout: 'Time out',
+  amount_mismatch: 'Pay wrong amount',
+}
+
+// Hosted payment page of the mock gateway, standing in for eSewa or Khalti
+function MockGatewayContent() {
+  const searchParams = useSearchParams()
+  const pidx = searchParams.get('pidx')
+  const [payment, setPayment] = useState<MockPayment | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [submitting, setSubmitting] = useState(false)
+  const [timedOut, setTimedOut] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    const fetchPayment = async () => {
+      try {
+        const response = await fetch(`/api/checkout/mock-gateway?pidx=${encodeURIComponent(pidx || '')}`)
+        const data = await response.json().catch(() => ({}))
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load payment')
+        }
+        setPayment(data)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load payment')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchPayment()
+  }, [pidx])
+
+  const handleOutcome = async (outcome: MockPaymentOutcome) => {
+    setSubmitting(true)
+    setError('')
+
+    try {
+      const response = await fetch('/api/checkout/mock-gateway', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ pidx, outcome }),
+      })
+
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to complete payment')
+      }
+
+      if (data.redirectUrl) {
+        window.location.href = data.redirectUrl
+      } else {
+        setTimedOut(true)
+        setSubmitting(false)
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to complete payment')
+      setSubmitting(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-16">
+        <Loading size="lg" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-md mx-auto px-4 py-16">
+      <Card>
+        <CardContent className="p-8">
+          <p className="text-xs font-semibold uppercase tracking-wide text-amber-600 mb-2">
+            Test payment gateway
+          </p>
+          <h1 className="text-2xl font-bold text-gray-900 mb-6">Complete your payment</h1>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm mb-4">
+              {error}
+            </div>
+          )}
+
+          {payment && (
+            <dl className="space-y-2 text-sm mb-6">
+              <div className="flex justify-between">
+                <dt className="text-gray-600">Order</dt>
+                <dd className="font-mono text-gray-900">{payment.orderId}</dd>
+              </div>
+              <div className="flex justify-between">
+                <dt className="text-gray-600">Amount</dt>
+                <dd className="font-semibold text-gray-900" data-testid="mock-payment-amount">
+                  {formatCurrency(payment.amount, 'NPR')}
+                </dd>
+              </div>
+              <div className="flex justify-between">
+                <dt className="text-gray-600">Status</dt>
+                <dd className="text-gray-900">{payment.status}</dd>
+              </div>
+            </dl>
+          )}
+
+          {timedOut ? (
+            <div className="text-sm text-gray-600 space-y-4">
+              <p>
+                The gateway never returned to the store. The payment stays pending until it expires
+                or payment reconciliation picks it up.
+              </p>
+              <Link href="/checkout" className="text-indigo-600 hover:text-indigo-500">
+                Back to checkout
+              </Link>
+            </div>
+          ) : payment?.status === 'Pending' && (
+            <div className="grid grid-cols-2 gap-3">
+              {(Object.keys(OUTCOME_LABELS) as MockPaymentOutcome[]).map(outcome => (
+                <Button
+                  key={outcome}
+                  variant={outcome === 'success' ? 'primary' : 'outline'}
+                  disabled={submitting}
+                  onClick={() => handleOutcome(outcome)}
+                  data-testid={`mock-payment-${outcome}`}
+                >
+                  {OUTCOME_LABELS[outcome]}
+                </Button>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+export default function MockGatewayPage() {
+  return (
+    <Suspense fallback={
+      <div className="flex justify-center py-16">
+        <Loading size="lg" />
+      </div>
+    }>
+      <MockGatewayContent />
+    </Suspense>
+  )
+}
@@ -10,7 +10,7 @@ import EnhancedAddressSelector from '@/components/addresses/enhanced-address-sel
 import { useCartStore } from '@/stores/cart-store'
 import { useAuth } from '@/hooks/use-auth'
 import { Card, CardContent, CardHeader } from '@/components/ui/card'
-import { PaymentMethod } from '@/lib/payment-gateways'
+import type { PaymentMethod } from '@/lib/payment-gateways/types'
 import { Address } from '@/types'
 
 interface CheckoutAddress {
@@ -40,6 +40,8 @@ export default function CheckoutPage() {
   const [mounted, setMounted] = useState(false)
   const { isAuthenticated, isLoading: authLoading } = useAuth()
   const [orderTotal, setOrderTotal] = useState<number>(0)
+  const [discountCode, setDiscountCode] = useState<string | null>(null)
+  const [discountAmount, setDiscountAmount] = useState<number>(0)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string>('')
   const [guestEmail, setGuestEmail] = useState<string>('')
@@ -65,7 +67,7 @@ export default function CheckoutPage() {
     if (!authLoading && items.length > 0) {
       calculateOrderTotal()
     }
-  }, [mounted, authLoading, items, router, orderPlaced])
+  }, [mounted, authLoading, items, router, orderPlaced, discountCode])
 
   const calculateOrderTotal = useCallback(async () => {
     setLoading(true)
@@ -82,6 +84,7 @@ export default function CheckoutPage() {
             productId: item.productId,
             quantity: item.quantity,
           })),
+          discountCode: discountCode || undefined,
         }),
       })
 
@@ -92,6 +95,7 @@ export default function CheckoutPage() {
 
       const data = await response.json()
       setOrderTotal(data.summary.total)
+      setDiscountAmount(data.summary.discount || 0)
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'An error occurred while calculating order total'
       setError(errorMessage)
@@ -102,7 +106,7 @@ export default function CheckoutPage() {
     } finally {
       setLoading(false)
     }
-  }, [items])
+  }, [items, discountCode])
 
   const handlePaymentInitiate = async (method: PaymentMethod) => {
     try {
@@ -123,6 +127,7 @@ export default function CheckoutPage() {
           })),
           guestEmail: !isAuthenticated ? guestEmail : undefined,
           shippingAddress: selectedAddress,
+          discountCode: discountCode || undefined,
         }),
       })
 
@@ -137,6 +142,8 @@ export default function CheckoutPage() {
         return {
           success: true,
           paymentUrl: data.paymentUrl,
+          paymentForm: data.paymentForm,
+          qrCode: data.qrCode,
           transactionId: data.transactionId,
         }
       } else {
@@ -157,25 +164,17 @@ export default function CheckoutPage() {
     try {
       // For COD, create an order immediately before clearing the cart
       if (paymentMethod === 'cod' && selectedAddress) {
-        const orderItems = items.map(item => {
-          const rawPrice = item.product.discountPrice ?? item.product.price
-          const priceValue = Number(rawPrice)
-          if (isNaN(priceValue)) {
-            throw new Error(`Invalid price for product ${item.productId}`)
-          }
-          return {
-            productId: item.productId,
-            quantity: item.quantity,
-            price: priceValue,
-          }
-        })
-
-        const orderTotal = orderItems.reduce((sum, item) => sum + item.price * item.quantity, 0)
+        // Prices and the total are worked out by the server
+        const orderItems = items.map(item => ({
+          productId: item.productId,
+          quantity: item.quantity,
+        }))
 
         const orderData = {
           items: orderItems,
-          total: orderTotal,
           shippingAddress: selectedAddress,
+          discountCode: discountCode || undefined,
+          paymentMethod,
         }
 
         // Use different API endpoints based on authentication status
@@ -584,7 +583,11 @@ export default function CheckoutPage() {
 
         {/* Right Column - Order Summary */}
         <div className="space-y-6">
-          <OrderSummary items={items} />
+          <OrderSummary
+            items={items}
+            discountCode={discountCode}
+            onDiscountCodeChange={setDiscountCode}
+          />
         </div>
       </div>
     </div>
@@ -9,6 +9,8 @@ import { Card, CardContent } from '@/components/ui/card'
 import Button from '@/components/ui/button'
 import Loading from '@/components/ui/loading'
 import { useAuth } from '@/hooks/use-auth'
+import { useCartStore } from '@/stores/cart-store'
+import { formatCurrency } from '@/lib/currency'
 
 interface PaymentDetails {
   id: string
@@ -18,13 +20,23 @@ interface PaymentDetails {
   created: number
 }
 
+// Order created once an eSewa, Khalti or other online payment is verified
+interface VerifiedOrder {
+  orderId: string
+  transactionId: string
+  amount: number
+  method: string
+}
+
 function CheckoutSuccessContent() {
   const searchParams = useSearchParams()
   const paymentIntentId = searchParams.get('payment_intent')
   const method = searchParams.get('method')
   const transactionId = searchParams.get('transaction_id')
   const { isAuthenticated } = useAuth()
+  const { clearCart } = useCartStore()
   const [paymentDetails, setPaymentDetails] = useState<PaymentDetails | null>(null)
+  const [verifiedOrder, setVerifiedOrder] = useState<VerifiedOrder | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string>('')
 
@@ -34,6 +46,8 @@ function CheckoutSuccessContent() {
     } else if (method === 'cod') {
       // For COD orders, we don't need to fetch payment details
       setLoading(false)
+    } else if (method) {
+      verifyOnlinePayment(method)
     } else {
       setError('No payment information found')
       setLoading(false)
@@ -57,6 +71,42 @@ function CheckoutSuccessContent() {
     }
   }
 
+  // Gateways redirect back here with their own parameters, which are passed
+  // on to the server to confirm the payment and create the order
+  const verifyOnlinePayment = async (paymentMethod: string) => {
+    try {
+      const gatewayData = Object.fromEntries(searchParams.entries())
+      delete gatewayData.method
+
+      const response = await fetch('/api/checkout/verify-payment', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          method: paymentMethod,
+          transactionId: transactionId || searchParams.get('refId') || searchParams.get('pidx') || searchParams.get('prn') || '',
+          gatewayData,
+        }),
+      })
+
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Payment verification failed')
+      }
+
+      setVerifiedOrder({
+        orderId: data.orderId,
+        transactionId: data.transactionId,
+        amount: data.amount,
+        method: data.method,
+      })
+      clearCart()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Payment verification failed')
+    } finally {
+      setLoading(false)
+    }
+  }
+
   const formatAmount = (amount: number, currency: string) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
@@ -168,6 +218,33 @@ function CheckoutSuccessContent() {
               </div>
             )}
 
+            {/* Online Payment Details */}
+            {verifiedOrder && (
+              <div className="bg-gray-50 rounded-lg p-6 mb-8">
+                <h2 className="text-lg font-semibold text-gray-900 mb-4">
+                  Payment Details
+                </h2>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+                  <div>
+                    <span className="text-gray-600">Order Number:</span>
+                    <p className="font-mono text-gray-900" data-testid="order-number">{verifiedOrder.orderId}</p>
+                  </div>
+                  <div>
+                    <span className="text-gray-600">Transaction ID:</span>
+                    <p className="font-mono text-gray-900">{verifiedOrder.transactionId}</p>
+                  </div>
+                  <div>
+                    <span className="text-gray-600">Amount:</span>
+                    <p className="font-semibold text-gray-900">{formatCurrency(verifiedOrder.amount, 'NPR')}</p>
+                  </div>
+                  <div>
+                    <span className="text-gray-600">Status:</span>
+                    <p className="font-semibold text-green-600">Paid</p>
+                  </div>
+                </div>
+              </div>
+            )}
+
             {/* COD Payment Details */}
             {method === 'cod' && (
               <div className="bg-gray-50 rounded-lg p-6 mb-8">
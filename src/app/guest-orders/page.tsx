@@ -8,6 +8,7 @@ import { Card, CardContent, CardHeader } from '@/components/ui/card'
 import Button from '@/components/ui/button'
 import Loading from '@/components/ui/loading'
 import ConvertGuestAccount from '@/components/account/convert-guest-account'
+import CancelOrderButton from '@/components/orders/cancel-order-button'
 import MainLayout from '@/components/layout/main-layout'
 import { OrderWithItems } from '@/types'
 
@@ -19,8 +20,8 @@ export default function GuestOrdersPage() {
   const [error, setError] = useState('')
   const [searched, setSearched] = useState(false)
 
-  const handleSearch = async (e: React.FormEvent) => {
-    e.preventDefault()
+  const handleSearch = async (e?: React.FormEvent) => {
+    e?.preventDefault()
     if (!email.trim()) return
 
     setLoading(true)
@@ -61,12 +62,14 @@ export default function GuestOrdersPage() {
         return 'bg-yellow-100 text-yellow-800'
       case 'PROCESSING':
         return 'bg-blue-100 text-blue-800'
+      case 'PARTIALLY_SHIPPED':
       case 'SHIPPED':
         return 'bg-purple-100 text-purple-800'
       case 'DELIVERED':
         return 'bg-green-100 text-green-800'
       case 'CANCELLED':
         return 'bg-red-100 text-red-800'
+      case 'PARTIALLY_REFUNDED':
       case 'REFUNDED':
         return 'bg-gray-100 text-gray-800'
       default:
@@ -187,8 +190,17 @@ export default function GuestOrdersPage() {
                     <span className="text-lg font-semibold text-gray-900">
                       ${order.total.toFixed(2)}
                     </span>
+                    <CancelOrderButton
+                      orderId={order.id}
+                      status={order.status}
+                      guestEmail={email}
+                      onCancelled={() => handleSearch()}
+                    />
                   </div>
                 </div>
+                {order.cancellationReason && (
+                  <p className="text-sm text-gray-600 mt-2">Cancellation reason: {order.cancellationReason}</p>
+                )}
               </CardHeader>
               <CardContent>
                 <div className="space-y-4">
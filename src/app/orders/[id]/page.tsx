@@ -12,6 +12,12 @@ import Button from '@/components/ui/button'
 import Loading from '@/components/ui/loading'
 import ShippingAddressForm from '@/components/orders/shipping-address-form'
 import DownloadInvoiceButton from '@/components/orders/download-invoice-button'
+import OrderTimeline from '@/components/orders/order-timeline'
+import OrderShipments from '@/components/orders/order-shipments'
+import OrderReturns from '@/components/orders/order-returns'
+import OrderRefunds from '@/components/orders/order-refunds'
+import CancelOrderButton from '@/components/orders/cancel-order-button'
+import BuyAgainButton from '@/components/orders/buy-again-button'
 import { OrderWithItems } from '@/types'
 import { formatPrice } from '@/lib/cart-utils'
 
@@ -219,14 +225,20 @@ export default function OrderDetailPage({ params }: OrderDetailPageProps) {
                   Placed on {formatDate(order.createdAt.toString())}
                 </p>
               </div>
-              <div className="flex items-center">
-                {statusInfo.icon}
-                <span className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium ${statusInfo.color}`}>
-                  {order.status}
-                </span>
+              <div className="flex items-center gap-4">
+                <div className="flex items-center">
+                  {statusInfo.icon}
+                  <span className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium ${statusInfo.color}`}>
+                    {order.status}
+                  </span>
+                </div>
+                <CancelOrderButton orderId={order.id} status={order.status} onCancelled={fetchOrder} />
               </div>
             </div>
             <p className="text-sm text-gray-600 mt-2">{statusInfo.description}</p>
+            {order.cancellationReason && (
+              <p className="text-sm text-gray-600 mt-1">Cancellation reason: {order.cancellationReason}</p>
+            )}
           </div>
 
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
@@ -276,6 +288,14 @@ export default function OrderDetailPage({ params }: OrderDetailPageProps) {
                   </div>
                 </CardContent>
               </Card>
+
+              <OrderTimeline orderId={order.id} currentStatus={order.status} />
+
+              <OrderShipments order={order} />
+
+              <OrderReturns order={order} />
+
+              <OrderRefunds order={order} />
             </div>
 
             {/* Order Summary & Details */}
@@ -594,12 +614,12 @@ export default function OrderDetailPage({ params }: OrderDetailPageProps) {
                         
                         <div className="flex items-center">
                           <div className={`flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center ${
-                            ['PAID', 'PROCESSING', 'SHIPPED', 'DELIVERED'].includes(order.status) 
+                            ['PAID', 'PROCESSING', 'PARTIALLY_SHIPPED', 'SHIPPED', 'DELIVERED'].includes(order.status) 
                               ? 'bg-green-100' 
                               : 'bg-gray-100'
                           }`}>
                             <svg className={`w-4 h-4 ${
-                              ['PAID', 'PROCESSING', 'SHIPPED', 'DELIVERED'].includes(order.status) 
+                              ['PAID', 'PROCESSING', 'PARTIALLY_SHIPPED', 'SHIPPED', 'DELIVERED'].includes(order.status) 
                                 ? 'text-green-600' 
                                 : 'text-gray-400'
                             }`} fill="currentColor" viewBox="0 0 20 20">
@@ -675,11 +695,7 @@ export default function OrderDetailPage({ params }: OrderDetailPageProps) {
 
               {/* Actions */}
               <div className="space-y-3">
-                {order.status === 'DELIVERED' && (
-                  <Button className="w-full">
-                    Reorder Items
-                  </Button>
-                )}
+                <BuyAgainButton orderId={order.id} variant="primary" size="md" className="w-full" />
                 <DownloadInvoiceButton 
                   orderId={order.id}
                   variant="outline"
@@ -51,12 +51,14 @@ export default function OrdersPage() {
         return <ClockIcon className="h-5 w-5 text-yellow-500" />
       case 'PROCESSING':
         return <CheckCircleIcon className="h-5 w-5 text-blue-500" />
+      case 'PARTIALLY_SHIPPED':
       case 'SHIPPED':
         return <TruckIcon className="h-5 w-5 text-purple-500" />
       case 'DELIVERED':
         return <TruckIcon className="h-5 w-5 text-green-500" />
       case 'CANCELLED':
         return <XCircleIcon className="h-5 w-5 text-red-500" />
+      case 'PARTIALLY_REFUNDED':
       case 'REFUNDED':
         return <XCircleIcon className="h-5 w-5 text-gray-500" />
       default:
@@ -70,12 +72,14 @@ export default function OrdersPage() {
         return 'bg-yellow-100 text-yellow-800'
       case 'PROCESSING':
         return 'bg-blue-100 text-blue-800'
+      case 'PARTIALLY_SHIPPED':
       case 'SHIPPED':
         return 'bg-purple-100 text-purple-800'
       case 'DELIVERED':
         return 'bg-green-100 text-green-800'
       case 'CANCELLED':
         return 'bg-red-100 text-red-800'
+      case 'PARTIALLY_REFUNDED':
       case 'REFUNDED':
         return 'bg-gray-100 text-gray-800'
       default:
@@ -147,6 +151,11 @@ export default function OrdersPage() {
                           <p className="text-lg font-semibold text-gray-900 mt-1">
                             {formatPrice(order.total)}
                           </p>
+                          {order.refunds && order.refunds.length > 0 && (
+                            <p className="text-xs text-gray-500">
+                              {formatPrice(order.refunds.reduce((sum, refund) => sum + Number(refund.amount), 0))} refunded
+                            </p>
+                          )}
                         </div>
                       </div>
                     </CardHeader>
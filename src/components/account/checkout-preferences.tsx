@@ -0,0 +1,165 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Button from '@/components/ui/button'
+
+interface PaymentMethodOption {
+  method: string
+  displayName: string
+}
+
+interface SavedAddress {
+  fullName: string
+  email: string
+  phone?: string
+  address: string
+  city: string
+  postalCode: string
+}
+
+export default function CheckoutPreferences() {
+  const [paymentMethods, setPaymentMethods] = useState<PaymentMethodOption[]>([])
+  const [preferredPaymentMethod, setPreferredPaymentMethod] = useState('')
+  const [defaultShippingAddress, setDefaultShippingAddress] = useState<SavedAddress | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState('')
+  const [successMessage, setSuccessMessage] = useState('')
+
+  useEffect(() => {
+    fetchPreferences()
+  }, [])
+
+  const fetchPreferences = async () => {
+    try {
+      setLoading(true)
+      const [methodsResponse, preferencesResponse] = await Promise.all([
+        fetch('/api/checkout/payment-methods'),
+        fetch('/api/auth/preferences'),
+      ])
+
+      if (!methodsResponse.ok || !preferencesResponse.ok) {
+        throw new Error('Failed to fetch preferences')
+      }
+
+      const [methodsData, preferencesData] = await Promise.all([
+        methodsResponse.json(),
+        preferencesResponse.json(),
+      ])
+
+      setPaymentMethods(methodsData.methods || [])
+      setPreferredPaymentMethod(preferencesData.preferredPaymentMethod || '')
+      setDefaultShippingAddress(preferencesData.defaultShippingAddress)
+      setError('')
+    } catch (err) {
+      setError('Failed to fetch preferences')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+    setError('')
+    setSuccessMessage('')
+
+    try {
+      const response = await fetch('/api/auth/preferences', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          preferredPaymentMethod: preferredPaymentMethod || null,
+          defaultShippingAddress,
+        }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to update preferences')
+      }
+
+      setSuccessMessage('Checkout preferences saved!')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update preferences')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center py-8">
+        <div className="text-gray-500">Loading preferences...</div>
+      </div>
+    )
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {successMessage && (
+        <div className="p-4 bg-green-50 border border-green-200 rounded-lg">
+          <p className="text-green-600 text-sm">{successMessage}</p>
+        </div>
+      )}
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-600 text-sm">{error}</p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <label htmlFor="preferredPaymentMethod" className="block text-sm font-medium text-gray-700 mb-1">
+            Preferred Payment Method
+          </label>
+          <select
+            id="preferredPaymentMethod"
+            value={preferredPaymentMethod}
+            onChange={(e) => setPreferredPaymentMethod(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+          >
+            <option value="">No preference</option>
+            {paymentMethods.map((option) => (
+              <option key={option.method} value={option.method}>
+                {option.displayName}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <span className="block text-sm font-medium text-gray-700 mb-1">
+            Default Shipping Address
+          </span>
+          {defaultShippingAddress ? (
+            <div className="p-3 bg-gray-50 rounded-lg text-sm text-gray-600">
+              <div className="font-medium text-gray-900">{defaultShippingAddress.fullName}</div>
+              <div>{defaultShippingAddress.address}</div>
+              <div>{defaultShippingAddress.city}, {defaultShippingAddress.postalCode}</div>
+              {defaultShippingAddress.phone && <div>{defaultShippingAddress.phone}</div>}
+              <button
+                type="button"
+                onClick={() => setDefaultShippingAddress(null)}
+                className="mt-2 text-red-600 hover:text-red-700 text-sm"
+              >
+                Remove
+              </button>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">
+              Tick &quot;use by default next time&quot; at checkout to save the address you ship to.
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div className="flex justify-end">
+        <Button type="submit" disabled={isSubmitting}>
+          {isSubmitting ? 'Saving...' : 'Save Preferences'}
+        </Button>
+      </div>
+    </form>
+  )
+}
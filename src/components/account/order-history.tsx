@@ -5,6 +5,7 @@ import { OrderWithItems } from '@/types'
 import Button from '@/components/ui/button'
 import { Card, CardContent, CardHeader } from '@/components/ui/card'
 import Link from 'next/link'
+import BuyAgainButton from '@/components/orders/buy-again-button'
 
 export default function OrderHistory() {
   const [orders, setOrders] = useState<OrderWithItems[]>([])
@@ -52,9 +53,11 @@ export default function OrderHistory() {
     const colors = {
       PENDING: 'bg-yellow-100 text-yellow-800',
       PROCESSING: 'bg-blue-100 text-blue-800',
+      PARTIALLY_SHIPPED: 'bg-purple-100 text-purple-800',
       SHIPPED: 'bg-purple-100 text-purple-800',
       DELIVERED: 'bg-green-100 text-green-800',
       CANCELLED: 'bg-red-100 text-red-800',
+      PARTIALLY_REFUNDED: 'bg-gray-100 text-gray-800',
       REFUNDED: 'bg-gray-100 text-gray-800',
     }
     return colors[status as keyof typeof colors] || 'bg-gray-100 text-gray-800'
@@ -160,11 +163,7 @@ export default function OrderHistory() {
                           View Details
                         </Button>
                       </Link>
-                      {order.status === 'DELIVERED' && (
-                        <Button variant="outline" size="sm">
-                          Reorder
-                        </Button>
-                      )}
+                      <BuyAgainButton orderId={order.id} />
                     </div>
                   </div>
                 </CardContent>
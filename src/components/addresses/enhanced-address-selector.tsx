@@ -15,6 +15,28 @@ interface EnhancedAddressSelectorProps {
   showSaveOption?: boolean
 }
 
+const isSameAddress = (a: any, b: any) =>
+  a.fullName === b.fullName && a.address === b.address && a.city === b.city && a.postalCode === b.postalCode
+
+const fetchSavedDefaultAddress = async (): Promise<Address | null> => {
+  try {
+    const response = await fetch('/api/auth/preferences')
+    if (!response.ok) return null
+
+    const data = await response.json()
+    if (!data.defaultShippingAddress) return null
+
+    return {
+      ...data.defaultShippingAddress,
+      id: 'saved-default',
+      type: 'SHIPPING',
+      isDefault: true,
+    } as Address
+  } catch (error) {
+    return null
+  }
+}
+
 export default function EnhancedAddressSelector({
   type = 'SHIPPING',
   selectedAddress,
@@ -37,9 +59,24 @@ export default function EnhancedAddressSelector({
     try {
       setLoading(true)
       // Load addresses from localStorage as temporary solution
-      const stored = JSON.parse(localStorage.getItem('userAddresses') || '[]')
-      setAddresses(stored)
+      const stored: Address[] = JSON.parse(localStorage.getItem('userAddresses') || '[]')
+      const savedDefault = await fetchSavedDefaultAddress()
+
+      // The default saved to the account follows the customer across devices
+      let loaded = stored
+      if (savedDefault) {
+        loaded = stored.map(addr => ({ ...addr, isDefault: isSameAddress(addr, savedDefault) }))
+        if (!loaded.some(addr => addr.isDefault)) {
+          loaded = [savedDefault, ...loaded]
+        }
+      }
+      setAddresses(loaded)
       setError(null)
+
+      const defaultAddress = loaded.find(addr => addr.type === type && addr.isDefault)
+      if (defaultAddress && !selectedAddress) {
+        onAddressSelect(defaultAddress)
+      }
     } catch (error) {
       setError('Failed to fetch addresses')
     } finally {
@@ -17,6 +17,8 @@ import { formatPrice } from '@/lib/cart-utils'
 
 interface AnalyticsStats {
   totalRevenue: number
+  grossRevenue?: number
+  totalRefunds?: number
   totalOrders: number
   totalCustomers: number
   totalProducts: number
@@ -177,6 +179,11 @@ export default function AdminAnalyticsTab() {
                         {Math.abs(stats.revenueChange)}%
                       </span>
                     </div>
+                    {!!stats.totalRefunds && (
+                      <p className="text-xs text-gray-500 mt-1">
+                        After {formatPrice(stats.totalRefunds)} refunded
+                      </p>
+                    )}
                   </div>
                 </div>
               </CardContent>
@@ -0,0 +1,438 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import Button from '@/components/ui/button'
+import Modal from '@/components/ui/modal'
+import Loading from '@/components/ui/loading'
+import { formatPrice } from '@/lib/cart-utils'
+import { COD_AGE_BUCKETS, UNASSIGNED_COURIER, getCodAgeInDays, getRemittanceDifference, type CourierCodSummary } from '@/lib/cod-utils'
+import type { CodCollectionWithOrder, CodRemittanceWithCollections } from '@/types'
+
+interface OutstandingReport {
+  totalAmount: number
+  totalOrders: number
+  couriers: CourierCodSummary[]
+  collections: CodCollectionWithOrder[]
+}
+
+const PAGE_SIZE = 20
+
+const orderLabel = (orderId: string) => `#${orderId.slice(-8).toUpperCase()}`
+
+export default function AdminCodTab() {
+  const [report, setReport] = useState<OutstandingReport | null>(null)
+  const [remittances, setRemittances] = useState<CodRemittanceWithCollections[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [page, setPage] = useState(1)
+  const [totalPages, setTotalPages] = useState(1)
+  const [message, setMessage] = useState('')
+
+  const [remitting, setRemitting] = useState<CourierCodSummary | null>(null)
+  const [courier, setCourier] = useState('')
+  const [selectedOrderIds, setSelectedOrderIds] = useState<string[]>([])
+  const [depositedAmount, setDepositedAmount] = useState('')
+  const [depositedAt, setDepositedAt] = useState('')
+  const [reference, setReference] = useState('')
+  const [notes, setNotes] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [formError, setFormError] = useState('')
+
+  useEffect(() => {
+    fetchData()
+  }, [page])
+
+  const fetchData = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const params = new URLSearchParams({
+        page: page.toString(),
+        limit: PAGE_SIZE.toString(),
+      })
+
+      const [reportResponse, remittancesResponse] = await Promise.all([
+        fetch('/api/admin/cod'),
+        fetch(`/api/admin/cod/remittances?${params}`),
+      ])
+
+      if (reportResponse.ok && remittancesResponse.ok) {
+        const reportData = await reportResponse.json()
+        const remittanceData = await remittancesResponse.json()
+        setReport(reportData)
+        setRemittances(remittanceData.data || [])
+        setTotalPages(remittanceData.pagination?.totalPages || 1)
+      } else {
+        setError('Failed to fetch COD cash')
+      }
+    } catch (error) {
+      setError('Failed to fetch COD cash')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const courierCollections = (summary: CourierCodSummary) =>
+    (report?.collections || []).filter(collection =>
+      (collection.courier || UNASSIGNED_COURIER) === summary.courier
+    )
+
+  const selectedTotal = (report?.collections || [])
+    .filter(collection => selectedOrderIds.includes(collection.orderId))
+    .reduce((sum, collection) => sum + Number(collection.expectedAmount), 0)
+
+  const openRemittance = (summary: CourierCodSummary) => {
+    setRemitting(summary)
+    setCourier(summary.courier === UNASSIGNED_COURIER ? '' : summary.courier)
+    setSelectedOrderIds(courierCollections(summary).map(collection => collection.orderId))
+    setDepositedAmount(summary.amount.toString())
+    setDepositedAt(new Date().toISOString().slice(0, 10))
+    setReference('')
+    setNotes('')
+    setFormError('')
+  }
+
+  const closeRemittance = () => {
+    setRemitting(null)
+    setFormError('')
+  }
+
+  const toggleOrder = (orderId: string) => {
+    setSelectedOrderIds(ids =>
+      ids.includes(orderId) ? ids.filter(id => id !== orderId) : [...ids, orderId]
+    )
+  }
+
+  const handleRemittance = async () => {
+    setSaving(true)
+    setFormError('')
+    try {
+      const response = await fetch('/api/admin/cod/remittances', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          courier,
+          orderIds: selectedOrderIds,
+          depositedAmount: Number(depositedAmount),
+          depositedAt: depositedAt || undefined,
+          reference: reference || undefined,
+          notes: notes || undefined,
+        }),
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        setFormError(result.details?.[0]?.message || result.error || 'Failed to record remittance')
+        return
+      }
+
+      const difference = getRemittanceDifference(result.remittance.expectedAmount, result.remittance.depositedAmount)
+      setMessage(
+        difference === 0
+          ? `Remittance from ${courier} recorded`
+          : `Remittance from ${courier} recorded, ${formatPrice(Math.abs(difference))} ${difference < 0 ? 'short' : 'over'}`
+      )
+      closeRemittance()
+      fetchData()
+    } catch (error) {
+      setFormError('Failed to record remittance')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">COD Cash</h1>
+        <p className="text-gray-600">Cash collected on delivery and what couriers have remitted</p>
+      </div>
+
+      {message && (
+        <div className="bg-green-50 border border-green-200 rounded-md p-3 text-sm text-green-800">
+          {message}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <Loading size="lg" />
+        </div>
+      ) : error ? (
+        <div className="text-center py-12">
+          <p className="text-red-600 mb-4">{error}</p>
+          <Button onClick={fetchData}>Try Again</Button>
+        </div>
+      ) : report && (
+        <>
+          {/* Outstanding by courier */}
+          <Card>
+            <CardHeader>
+              <CardTitle>
+                Outstanding: {formatPrice(report.totalAmount)} across {report.totalOrders} {report.totalOrders === 1 ? 'order' : 'orders'}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="p-0">
+              {report.couriers.length === 0 ? (
+                <div className="text-center py-12 text-gray-500">Every collected COD order has been remitted</div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Courier</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Orders</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Outstanding</th>
+                        {COD_AGE_BUCKETS.map(bucket => (
+                          <th key={bucket.label} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            {bucket.label}
+                          </th>
+                        ))}
+                        <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {report.couriers.map((summary) => (
+                        <tr key={summary.courier} className="hover:bg-gray-50">
+                          <td className="px-6 py-4 whitespace-nowrap text-sm">
+                            <div className="font-medium text-gray-900">{summary.courier}</div>
+                            <div className="text-xs text-gray-500">Oldest {summary.oldestDays} days</div>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{summary.orders}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-semibold text-gray-900">
+                            {formatPrice(summary.amount)}
+                          </td>
+                          {summary.buckets.map((amount, index) => (
+                            <td
+                              key={COD_AGE_BUCKETS[index].label}
+                              className={`px-6 py-4 whitespace-nowrap text-sm ${
+                                amount > 0 && index === COD_AGE_BUCKETS.length - 1 ? 'text-red-600 font-medium' : 'text-gray-700'
+                              }`}
+                            >
+                              {amount > 0 ? formatPrice(amount) : '-'}
+                            </td>
+                          ))}
+                          <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                            <button
+                              onClick={() => openRemittance(summary)}
+                              className="text-indigo-600 hover:text-indigo-900"
+                            >
+                              Record Remittance
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Remittance history */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Remittances</CardTitle>
+            </CardHeader>
+            <CardContent className="p-0">
+              {remittances.length === 0 ? (
+                <div className="text-center py-12 text-gray-500">No remittances recorded yet</div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Deposited</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Courier</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Orders</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Expected</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Difference</th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {remittances.map((remittance) => {
+                        const difference = getRemittanceDifference(remittance.expectedAmount, remittance.depositedAmount)
+
+                        return (
+                          <tr key={remittance.id} className="hover:bg-gray-50 align-top">
+                            <td className="px-6 py-4 whitespace-nowrap text-sm">
+                              <div className="text-gray-900">{new Date(remittance.depositedAt).toLocaleDateString()}</div>
+                              {remittance.reference && (
+                                <div className="text-xs text-gray-500">Ref: {remittance.reference}</div>
+                              )}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{remittance.courier}</td>
+                            <td className="px-6 py-4 text-sm">
+                              <div className="flex flex-wrap gap-x-2 max-w-xs">
+                                {remittance.collections.map(collection => (
+                                  <Link
+                                    key={collection.id}
+                                    href={`/admin/orders/${collection.orderId}`}
+                                    className="text-xs text-indigo-600 hover:text-indigo-900"
+                                  >
+                                    {orderLabel(collection.orderId)}
+                                  </Link>
+                                ))}
+                              </div>
+                              {remittance.notes && (
+                                <p className="text-xs text-gray-500 mt-1">{remittance.notes}</p>
+                              )}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                              {formatPrice(Number(remittance.expectedAmount))}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                              {formatPrice(Number(remittance.depositedAmount))}
+                            </td>
+                            <td className={`px-6 py-4 whitespace-nowrap text-sm font-medium ${
+                              difference < 0 ? 'text-red-600' : difference > 0 ? 'text-amber-600' : 'text-green-600'
+                            }`}>
+                              {difference === 0 ? 'Settled' : `${difference < 0 ? '-' : '+'}${formatPrice(Math.abs(difference))}`}
+                            </td>
+                          </tr>
+                        )
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Pagination */}
+          {totalPages > 1 && (
+            <div className="flex items-center justify-end space-x-2">
+              <Button variant="outline" size="sm" disabled={page === 1} onClick={() => setPage(page - 1)}>
+                Previous
+              </Button>
+              <span className="px-3 py-1 text-sm text-gray-700">
+                Page {page} of {totalPages}
+              </span>
+              <Button variant="outline" size="sm" disabled={page === totalPages} onClick={() => setPage(page + 1)}>
+                Next
+              </Button>
+            </div>
+          )}
+        </>
+      )}
+
+      {/* Record remittance */}
+      <Modal
+        isOpen={remitting !== null}
+        onClose={closeRemittance}
+        title="Record Remittance"
+        size="lg"
+      >
+        {remitting && (
+          <div className="space-y-4">
+            {formError && (
+              <div className="bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-700">
+                {formError}
+              </div>
+            )}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Courier</label>
+              <input
+                type="text"
+                value={courier}
+                onChange={(e) => setCourier(e.target.value)}
+                readOnly={remitting.courier !== UNASSIGNED_COURIER}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Orders settled</label>
+              <div className="max-h-56 overflow-y-auto border border-gray-200 rounded-md divide-y divide-gray-100">
+                {courierCollections(remitting).map(collection => (
+                  <label key={collection.id} className="flex items-center justify-between px-3 py-2 text-sm cursor-pointer">
+                    <span className="flex items-center space-x-2">
+                      <input
+                        type="checkbox"
+                        checked={selectedOrderIds.includes(collection.orderId)}
+                        onChange={() => toggleOrder(collection.orderId)}
+                      />
+                      <span className="text-gray-900">{orderLabel(collection.orderId)}</span>
+                      <span className="text-xs text-gray-500">
+                        delivered {getCodAgeInDays(collection.collectedAt)} days ago
+                      </span>
+                    </span>
+                    <span className="text-gray-900">{formatPrice(Number(collection.expectedAmount))}</span>
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                Expected {formatPrice(selectedTotal)} for {selectedOrderIds.length} {selectedOrderIds.length === 1 ? 'order' : 'orders'}
+              </p>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Amount deposited</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={depositedAmount}
+                  onChange={(e) => setDepositedAmount(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Deposit date</label>
+                <input
+                  type="date"
+                  value={depositedAt}
+                  onChange={(e) => setDepositedAt(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                />
+              </div>
+            </div>
+            {depositedAmount !== '' && getRemittanceDifference(selectedTotal, depositedAmount) !== 0 && (
+              <p className="text-sm text-amber-700 bg-amber-50 p-2 rounded">
+                The deposit is {formatPrice(Math.abs(getRemittanceDifference(selectedTotal, depositedAmount)))}
+                {getRemittanceDifference(selectedTotal, depositedAmount) < 0 ? ' short of' : ' more than'} the expected cash.
+                The difference is kept on the remittance.
+              </p>
+            )}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Reference (Optional)</label>
+              <input
+                type="text"
+                value={reference}
+                onChange={(e) => setReference(e.target.value)}
+                placeholder="Bank deposit or courier statement number"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Notes (Optional)</label>
+              <textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                rows={2}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+              />
+            </div>
+            <div className="flex justify-end space-x-3">
+              <Button variant="outline" onClick={closeRemittance}>
+                Cancel
+              </Button>
+              <Button
+                onClick={handleRemittance}
+                disabled={saving || !courier || selectedOrderIds.length === 0 || depositedAmount === ''}
+              >
+                {saving ? 'Saving...' : 'Record Remittance'}
+              </Button>
+            </div>
+          </div>
+        )}
+      </Modal>
+    </div>
+  )
+}
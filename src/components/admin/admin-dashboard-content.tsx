@@ -126,12 +126,14 @@ export default function AdminDashboardContent({ onTabChange }: AdminDashboardCon
         return 'bg-yellow-100 text-yellow-800'
       case 'PROCESSING':
         return 'bg-blue-100 text-blue-800'
+      case 'PARTIALLY_SHIPPED':
       case 'SHIPPED':
         return 'bg-purple-100 text-purple-800'
       case 'DELIVERED':
         return 'bg-green-100 text-green-800'
       case 'CANCELLED':
         return 'bg-red-100 text-red-800'
+      case 'PARTIALLY_REFUNDED':
       case 'REFUNDED':
         return 'bg-gray-100 text-gray-800'
       default:
@@ -13,7 +13,9 @@ import {
   XMarkIcon,
   ArchiveBoxIcon,
   FolderIcon,
-  TagIcon
+  TagIcon,
+  ReceiptPercentIcon,
+  ArrowUturnLeftIcon
 } from '@heroicons/react/24/outline'
 import { signOut } from 'next-auth/react'
 import { useAuth } from '@/hooks/use-auth'
@@ -49,6 +51,14 @@ const AdminOrdersTab = dynamic(() => import('./admin-orders-tab'), {
   loading: () => <div className="flex justify-center items-center py-16">Loading orders...</div>
 })
 
+const AdminPromotionsTab = dynamic(() => import('./admin-promotions-tab'), {
+  loading: () => <div className="flex justify-center items-center py-16">Loading promotions...</div>
+})
+
+const AdminReturnsTab = dynamic(() => import('./admin-returns-tab'), {
+  loading: () => <div className="flex justify-center items-center py-16">Loading returns...</div>
+})
+
 const AdminCustomersTab = dynamic(() => import('./admin-customers-tab'), {
   loading: () => <div className="flex justify-center items-center py-16">Loading customers...</div>
 })
@@ -57,7 +67,7 @@ const AdminAnalyticsTab = dynamic(() => import('./admin-analytics-tab'), {
   loading: () => <div className="flex justify-center items-center py-16">Loading analytics...</div>
 })
 
-export type AdminTab = 'dashboard' | 'products' | 'categories' | 'brands' | 'inventory' | 'orders' | 'customers' | 'analytics' | 'settings'
+export type AdminTab = 'dashboard' | 'products' | 'categories' | 'brands' | 'inventory' | 'orders' | 'promotions' | 'returns' | 'customers' | 'analytics' | 'settings'
 
 interface TabItem {
   id: AdminTab
@@ -72,6 +82,8 @@ const tabs: TabItem[] = [
   { id: 'brands', name: 'Brands', icon: TagIcon },
   { id: 'inventory', name: 'Inventory', icon: ArchiveBoxIcon },
   { id: 'orders', name: 'Orders', icon: ShoppingBagIcon },
+  { id: 'promotions', name: 'Promotions', icon: ReceiptPercentIcon },
+  { id: 'returns', name: 'Returns', icon: ArrowUturnLeftIcon },
   { id: 'customers', name: 'Customers', icon: UsersIcon },
   { id: 'analytics', name: 'Analytics', icon: ChartBarIcon },
   { id: 'settings', name: 'Settings', icon: Cog6ToothIcon },
@@ -102,6 +114,10 @@ export default function AdminDashboardTabs() {
         return <AdminInventoryTab />
       case 'orders':
         return <AdminOrdersTab />
+      case 'promotions':
+        return <AdminPromotionsTab />
+      case 'returns':
+        return <AdminReturnsTab />
       case 'customers':
         return <AdminCustomersTab />
       case 'analytics':
@@ -9,7 +9,10 @@ import {
   AdjustmentsHorizontalIcon,
   ClockIcon,
   PlusIcon,
-  ArrowPathIcon
+  ArrowPathIcon,
+  ArrowsRightLeftIcon,
+  PencilIcon,
+  ChartBarIcon
 } from '@heroicons/react/24/outline'
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
 import Button from '@/components/ui/button'
@@ -19,6 +22,10 @@ import BulkInventoryUpdate from '@/components/admin/bulk-inventory-update'
 import InventoryAdjustmentForm from '@/components/admin/inventory-adjustment-form'
 import InventoryHistoryModal from '@/components/admin/inventory-history-modal'
 import AddProductModal from '@/components/admin/add-product-modal'
+import StockTransferForm from '@/components/admin/stock-transfer-form'
+import StockLocationForm from '@/components/admin/stock-location-form'
+import InventoryForecastModal from '@/components/admin/inventory-forecast-modal'
+import type { ReorderSuggestion } from '@/lib/inventory-forecast-service'
 
 type InventoryAnalytics = {
   totalProducts: number;
@@ -27,6 +34,34 @@ type InventoryAnalytics = {
   outOfStockProducts: number;
 }
 
+type LocationBreakdown = {
+  id: string
+  name: string
+  code: string
+  city: string | null
+  isActive: boolean
+  isDefault: boolean
+  priority: number
+  onHand: number
+  inTransit: number
+  value: number
+  outOfStockProducts: number
+}
+
+type StockTransfer = {
+  id: string
+  status: string
+  notes: string | null
+  shippedAt: string
+  fromLocation: { id: string; name: string }
+  toLocation: { id: string; name: string }
+  items: {
+    id: string
+    quantity: number
+    product: { id: string; name: string }
+  }[]
+}
+
 type Product = {
   id: string
   name: string
@@ -59,6 +94,7 @@ export default function AdminInventoryTab() {
   const [analytics, setAnalytics] = useState<InventoryAnalytics | null>(null)
   const [lowStockProducts, setLowStockProducts] = useState<Product[]>([])
   const [outOfStockProducts, setOutOfStockProducts] = useState<Product[]>([])
+  const [onOrder, setOnOrder] = useState<Record<string, number>>({})
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string>('')
   const [showBulkUpdate, setShowBulkUpdate] = useState(false)
@@ -66,6 +102,14 @@ export default function AdminInventoryTab() {
   const [showHistoryModal, setShowHistoryModal] = useState(false)
   const [showAddProductModal, setShowAddProductModal] = useState(false)
   const [selectedProduct, setSelectedProduct] = useState<Product | null>(null)
+  const [locations, setLocations] = useState<LocationBreakdown[]>([])
+  const [transfers, setTransfers] = useState<StockTransfer[]>([])
+  const [showTransferForm, setShowTransferForm] = useState(false)
+  const [showLocationForm, setShowLocationForm] = useState(false)
+  const [selectedLocation, setSelectedLocation] = useState<LocationBreakdown | null>(null)
+  const [transferAction, setTransferAction] = useState<string | null>(null)
+  const [reorderSuggestions, setReorderSuggestions] = useState<ReorderSuggestion[]>([])
+  const [forecastProduct, setForecastProduct] = useState<{ id: string; name: string } | null>(null)
 
   const [threshold, setThreshold] = useState(10)
   useEffect(() => {
@@ -108,6 +152,26 @@ export default function AdminInventoryTab() {
 
       setLowStockProducts(summary.lowStockProducts || [])
       setOutOfStockProducts(summary.outOfStockProducts || [])
+      setOnOrder(summary.onOrder || {})
+
+      // Per-location stock, transfers still on the road and what to reorder
+      const [locationsRes, transfersRes, forecastRes] = await Promise.all([
+        fetch('/api/inventory/locations'),
+        fetch('/api/inventory/transfers?status=IN_TRANSIT&limit=50'),
+        fetch('/api/inventory/forecast'),
+      ])
+      if (locationsRes.ok) {
+        const data = await locationsRes.json()
+        setLocations(data.locations || [])
+      }
+      if (transfersRes.ok) {
+        const data = await transfersRes.json()
+        setTransfers(data.data || [])
+      }
+      if (forecastRes.ok) {
+        const data = await forecastRes.json()
+        setReorderSuggestions(data.suggestions || [])
+      }
 
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to load inventory data'
@@ -131,6 +195,32 @@ export default function AdminInventoryTab() {
     fetchData()
   }
 
+  const handleTransferAction = async (transfer: StockTransfer, action: 'receive' | 'cancel') => {
+    if (action === 'cancel' && !confirm(`Cancel this transfer? The stock goes back to ${transfer.fromLocation.name}.`)) {
+      return
+    }
+
+    setTransferAction(transfer.id)
+    try {
+      const response = await fetch(`/api/inventory/transfers/${transfer.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to update transfer')
+      }
+
+      fetchData()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to update transfer')
+    } finally {
+      setTransferAction(null)
+    }
+  }
+
   const formatAdjustmentType = (type: string) => {
     return type.split('_').map(word => 
       word.charAt(0).toUpperCase() + word.slice(1).toLowerCase()
@@ -146,7 +236,11 @@ export default function AdminInventoryTab() {
       case 'DAMAGED':
         return 'text-red-600'
       case 'ORDER_RETURNED':
+      case 'RESERVATION_RELEASED':
         return 'text-yellow-600'
+      case 'TRANSFER_OUT':
+      case 'TRANSFER_IN':
+        return 'text-purple-600'
       default:
         return 'text-gray-600'
     }
@@ -187,6 +281,15 @@ export default function AdminInventoryTab() {
             <ArrowPathIcon className="h-4 w-4" />
             <span>Refresh</span>
           </Button>
+          <Button
+            variant="outline"
+            onClick={() => setShowTransferForm(true)}
+            disabled={locations.filter(location => location.isActive).length < 2}
+            className="flex items-center space-x-2"
+          >
+            <ArrowsRightLeftIcon className="h-4 w-4" />
+            <span>Transfer Stock</span>
+          </Button>
           <Button
             onClick={() => setShowBulkUpdate(true)}
             className="flex items-center space-x-2"
@@ -263,6 +366,193 @@ export default function AdminInventoryTab() {
             </Card>
           </div>
 
+          {/* Stock by Location */}
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <h3 className="text-lg font-medium text-gray-900">Stock by Location</h3>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => {
+                    setSelectedLocation(null)
+                    setShowLocationForm(true)
+                  }}
+                  className="flex items-center space-x-1"
+                >
+                  <PlusIcon className="h-3 w-3" />
+                  <span>Add Location</span>
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {locations.length > 0 ? (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200 text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-500">
+                        <th className="py-2 pr-4 font-medium">Location</th>
+                        <th className="py-2 pr-4 font-medium text-right">On Hand</th>
+                        <th className="py-2 pr-4 font-medium text-right">In Transit</th>
+                        <th className="py-2 pr-4 font-medium text-right">Value</th>
+                        <th className="py-2 pr-4 font-medium text-right">Out of Stock</th>
+                        <th className="py-2" />
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {locations.map((location) => (
+                        <tr key={location.id} className={location.isActive ? '' : 'text-gray-400'}>
+                          <td className="py-2 pr-4">
+                            <div className="font-medium text-gray-900">
+                              {location.name}
+                              {location.isDefault && (
+                                <span className="ml-2 px-1.5 py-0.5 text-xs rounded bg-blue-100 text-blue-700">Default</span>
+                              )}
+                              {!location.isActive && (
+                                <span className="ml-2 px-1.5 py-0.5 text-xs rounded bg-gray-100 text-gray-600">Inactive</span>
+                              )}
+                            </div>
+                            <div className="text-xs text-gray-500">
+                              {location.code}{location.city ? ` · ${location.city}` : ''} · Priority {location.priority}
+                            </div>
+                          </td>
+                          <td className="py-2 pr-4 text-right font-medium">{location.onHand.toLocaleString()}</td>
+                          <td className="py-2 pr-4 text-right text-blue-600">{location.inTransit > 0 ? location.inTransit.toLocaleString() : '-'}</td>
+                          <td className="py-2 pr-4 text-right">{formatPrice(location.value)}</td>
+                          <td className="py-2 pr-4 text-right text-red-600">{location.outOfStockProducts}</td>
+                          <td className="py-2 text-right">
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => {
+                                setSelectedLocation(location)
+                                setShowLocationForm(true)
+                              }}
+                            >
+                              <PencilIcon className="h-3 w-3" />
+                            </Button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ) : (
+                <p className="text-gray-500 text-center py-8">No stock locations yet</p>
+              )}
+
+              {transfers.length > 0 && (
+                <div className="mt-6">
+                  <h4 className="text-sm font-medium text-gray-900 mb-3">In Transit ({transfers.length})</h4>
+                  <div className="space-y-3">
+                    {transfers.map((transfer) => (
+                      <div key={transfer.id} className="flex items-center justify-between p-3 border border-blue-200 rounded-md bg-blue-50">
+                        <div>
+                          <p className="text-sm font-medium text-gray-900">
+                            {transfer.fromLocation.name} → {transfer.toLocation.name}
+                          </p>
+                          <p className="text-xs text-gray-600">
+                            {transfer.items.map(item => `${item.quantity} × ${item.product.name}`).join(', ')}
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            Sent {new Date(transfer.shippedAt).toLocaleDateString()}{transfer.notes ? ` · ${transfer.notes}` : ''}
+                          </p>
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          <Button
+                            size="sm"
+                            onClick={() => handleTransferAction(transfer, 'receive')}
+                            disabled={transferAction === transfer.id}
+                          >
+                            Receive
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleTransferAction(transfer, 'cancel')}
+                            disabled={transferAction === transfer.id}
+                          >
+                            Cancel
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Reorder Suggestions */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg font-medium text-gray-900">
+                Reorder Suggestions ({reorderSuggestions.length})
+              </CardTitle>
+              <CardDescription>
+                Products whose stock and open purchase orders won&apos;t cover forecast sales until a new order arrives
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {reorderSuggestions.length > 0 ? (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200 text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-500">
+                        <th className="py-2 pr-4 font-medium">Product</th>
+                        <th className="py-2 pr-4 font-medium text-right">Stock</th>
+                        <th className="py-2 pr-4 font-medium text-right">On Order</th>
+                        <th className="py-2 pr-4 font-medium text-right">Daily Sales</th>
+                        <th className="py-2 pr-4 font-medium text-right">Days Left</th>
+                        <th className="py-2 pr-4 font-medium text-right">Reorder Point</th>
+                        <th className="py-2 pr-4 font-medium text-right">Order Qty</th>
+                        <th className="py-2" />
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {reorderSuggestions.map((suggestion) => (
+                        <tr key={suggestion.productId}>
+                          <td className="py-2 pr-4">
+                            <div className="font-medium text-gray-900">{suggestion.name}</div>
+                            <div className="text-xs text-gray-500">
+                              {suggestion.sku ? `${suggestion.sku} · ` : ''}{suggestion.leadTimeDays} day lead time
+                            </div>
+                          </td>
+                          <td className="py-2 pr-4 text-right font-medium">{suggestion.currentStock}</td>
+                          <td className="py-2 pr-4 text-right text-indigo-600">{suggestion.onOrder > 0 ? suggestion.onOrder : '-'}</td>
+                          <td className="py-2 pr-4 text-right">{suggestion.averageDailyDemand.toFixed(1)}</td>
+                          <td className={`py-2 pr-4 text-right ${
+                            suggestion.daysOfCover !== null && suggestion.daysOfCover <= suggestion.leadTimeDays ? 'text-red-600 font-medium' : ''
+                          }`}>
+                            {suggestion.daysOfCover ?? '-'}
+                          </td>
+                          <td className="py-2 pr-4 text-right">{suggestion.reorderPoint}</td>
+                          <td className="py-2 pr-4 text-right font-medium">{suggestion.suggestedOrderQuantity}</td>
+                          <td className="py-2 text-right">
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => setForecastProduct({ id: suggestion.productId, name: suggestion.name })}
+                            >
+                              <ChartBarIcon className="h-3 w-3" />
+                            </Button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <div className="mt-4 text-right">
+                    <Link href="/admin/purchasing" className="text-sm text-indigo-600 hover:text-indigo-800">
+                      Create a purchase order →
+                    </Link>
+                  </div>
+                </div>
+              ) : (
+                <p className="text-gray-500 text-center py-8">Nothing needs reordering yet</p>
+              )}
+            </CardContent>
+          </Card>
+
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
             {/* Low Stock Products */}
             <Card>
@@ -280,7 +570,12 @@ export default function AdminInventoryTab() {
                           <Image src={product.images[0] || '/placeholder-product.jpg'} alt={product.name} width={32} height={32} className="w-8 h-8 rounded object-cover" />
                           <div>
                             <p className="text-sm font-medium text-gray-900">{product.name}</p>
-                            <p className="text-xs text-gray-500">Stock: {product.inventory} / Threshold: {product.lowStockThreshold}</p>
+                            <p className="text-xs text-gray-500">
+                              Stock: {product.inventory} / Threshold: {product.lowStockThreshold}
+                              {onOrder[product.id] > 0 && (
+                                <span className="ml-1 text-indigo-600">· {onOrder[product.id]} on order</span>
+                              )}
+                            </p>
                           </div>
                         </div>
                         <Button size="sm" variant="outline" onClick={() => handleAdjustInventory(product)}><PlusIcon className="h-3 w-3" /></Button>
@@ -309,7 +604,12 @@ export default function AdminInventoryTab() {
                           <Image src={product.images[0] || '/placeholder-product.jpg'} alt={product.name} width={32} height={32} className="w-8 h-8 rounded object-cover" />
                           <div>
                             <p className="text-sm font-medium text-gray-900">{product.name}</p>
-                            <p className="text-xs text-red-600 font-medium">Out of Stock</p>
+                            <p className="text-xs text-red-600 font-medium">
+                              Out of Stock
+                              {onOrder[product.id] > 0 && (
+                                <span className="ml-1 text-indigo-600 font-normal">· {onOrder[product.id]} on order</span>
+                              )}
+                            </p>
                           </div>
                         </div>
                         <Button size="sm" onClick={() => handleAdjustInventory(product)} className="bg-red-600 hover:bg-red-700">Restock</Button>
@@ -336,6 +636,32 @@ export default function AdminInventoryTab() {
         />
       )}
 
+      {showTransferForm && (
+        <StockTransferForm
+          locations={locations}
+          onClose={() => setShowTransferForm(false)}
+          onSuccess={() => {
+            setShowTransferForm(false)
+            fetchData()
+          }}
+        />
+      )}
+
+      {showLocationForm && (
+        <StockLocationForm
+          location={selectedLocation}
+          onClose={() => {
+            setShowLocationForm(false)
+            setSelectedLocation(null)
+          }}
+          onSuccess={() => {
+            setShowLocationForm(false)
+            setSelectedLocation(null)
+            fetchData()
+          }}
+        />
+      )}
+
       {showAddProductModal && (
         <AddProductModal
           onClose={() => setShowAddProductModal(false)}
@@ -361,6 +687,14 @@ export default function AdminInventoryTab() {
         />
       )}
 
+      {forecastProduct && (
+        <InventoryForecastModal
+          productId={forecastProduct.id}
+          productName={forecastProduct.name}
+          onClose={() => setForecastProduct(null)}
+        />
+      )}
+
       {showHistoryModal && selectedProduct && (
         <InventoryHistoryModal
           product={selectedProduct}
@@ -16,7 +16,12 @@ import {
   XMarkIcon,
   ArchiveBoxIcon,
   FolderIcon,
-  TagIcon
+  TagIcon,
+  ReceiptPercentIcon,
+  ArrowUturnLeftIcon,
+  BanknotesIcon,
+  ClipboardDocumentListIcon,
+  ClipboardDocumentCheckIcon
 } from '@heroicons/react/24/outline'
 import { useAuth } from '@/hooks/use-auth'
 import Button from '@/components/ui/button'
@@ -31,7 +36,12 @@ const navigation = [
   { name: 'Categories', href: '/admin/categories', icon: FolderIcon },
   { name: 'Brands', href: '/admin/brands', icon: TagIcon },
   { name: 'Inventory', href: '/admin/inventory', icon: ArchiveBoxIcon },
+  { name: 'Purchasing', href: '/admin/purchasing', icon: ClipboardDocumentListIcon },
+  { name: 'Stocktakes', href: '/admin/stocktakes', icon: ClipboardDocumentCheckIcon },
   { name: 'Orders', href: '/admin/orders', icon: ShoppingBagIcon },
+  { name: 'Promotions', href: '/admin/promotions', icon: ReceiptPercentIcon },
+  { name: 'Returns', href: '/admin/returns', icon: ArrowUturnLeftIcon },
+  { name: 'COD Cash', href: '/admin/cod', icon: BanknotesIcon },
   { name: 'Customers', href: '/admin/customers', icon: UsersIcon },
   { name: 'Analytics', href: '/admin/analytics', icon: ChartBarIcon },
   { name: 'Settings', href: '/admin/settings', icon: Cog6ToothIcon },
@@ -110,12 +110,20 @@ export default function AdminOrdersTab() {
         }),
       })
 
-      if (!response.ok) {
-        throw new Error('Failed to update orders')
-      }
+      const data = await response.json().catch(() => ({}))
 
       setSelectedOrders([])
       fetchOrders()
+
+      // Orders the state machine rejected are listed with the reason, even
+      // when the rest of the selection was updated
+      const rejected: { orderId: string; error: string }[] = data.rejected || []
+      if (!response.ok || rejected.length > 0) {
+        const details = rejected
+          .map(r => `#${r.orderId.slice(-8).toUpperCase()}: ${r.error}`)
+          .join('\n')
+        throw new Error([data.error || data.message || 'Failed to update orders', details].filter(Boolean).join('\n'))
+      }
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to update orders'
       alert(errorMessage)
@@ -146,12 +154,14 @@ export default function AdminOrdersTab() {
         return <ClockIcon className="h-4 w-4 text-yellow-500" />
       case 'PROCESSING':
         return <CheckIcon className="h-4 w-4 text-blue-500" />
+      case 'PARTIALLY_SHIPPED':
       case 'SHIPPED':
         return <TruckIcon className="h-4 w-4 text-purple-500" />
       case 'DELIVERED':
         return <TruckIcon className="h-4 w-4 text-green-500" />
       case 'CANCELLED':
         return <XMarkIcon className="h-4 w-4 text-red-500" />
+      case 'PARTIALLY_REFUNDED':
       case 'REFUNDED':
         return <XMarkIcon className="h-4 w-4 text-orange-500" />
       default:
@@ -165,12 +175,14 @@ export default function AdminOrdersTab() {
         return 'bg-yellow-100 text-yellow-800'
       case 'PROCESSING':
         return 'bg-blue-100 text-blue-800'
+      case 'PARTIALLY_SHIPPED':
       case 'SHIPPED':
         return 'bg-purple-100 text-purple-800'
       case 'DELIVERED':
         return 'bg-green-100 text-green-800'
       case 'CANCELLED':
         return 'bg-red-100 text-red-800'
+      case 'PARTIALLY_REFUNDED':
       case 'REFUNDED':
         return 'bg-orange-100 text-orange-800'
       default:
@@ -226,9 +238,11 @@ export default function AdminOrdersTab() {
                   <option value="">All Statuses</option>
                   <option value="PENDING">Pending</option>
                   <option value="PROCESSING">Processing</option>
+                  <option value="PARTIALLY_SHIPPED">Partially Shipped</option>
                   <option value="SHIPPED">Shipped</option>
                   <option value="DELIVERED">Delivered</option>
                   <option value="CANCELLED">Cancelled</option>
+                  <option value="PARTIALLY_REFUNDED">Partially Refunded</option>
                   <option value="REFUNDED">Refunded</option>
                 </select>
               </div>
@@ -400,10 +414,16 @@ export default function AdminOrdersTab() {
                             >
                               <option value="PENDING">Pending</option>
                               <option value="PROCESSING">Processing</option>
+                              <option value="PARTIALLY_SHIPPED">Partially Shipped</option>
                               <option value="SHIPPED">Shipped</option>
                               <option value="DELIVERED">Delivered</option>
                               <option value="CANCELLED">Cancelled</option>
-                              <option value="REFUNDED">Refunded</option>
+                              {/* Refunded statuses are set by recording a refund */}
+                              {(order.status === 'PARTIALLY_REFUNDED' || order.status === 'REFUNDED') && (
+                                <option value={order.status} disabled>
+                                  {order.status === 'REFUNDED' ? 'Refunded' : 'Partially Refunded'}
+                                </option>
+                              )}
                             </select>
                           </div>
                         </td>
@@ -0,0 +1,473 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Card, CardContent } from '@/components/ui/card'
+import Button from '@/components/ui/button'
+import Modal from '@/components/ui/modal'
+import Loading from '@/components/ui/loading'
+import DiscountForm from './discount-form'
+import { formatPrice } from '@/lib/cart-utils'
+import { Discount } from '@/types'
+
+type StatusFilter = 'all' | 'active' | 'scheduled' | 'expired' | 'inactive'
+
+type Redemption = {
+  id: string
+  usedAt: string
+  orderId: string | null
+  orderStatus: string | null
+  orderTotal: string | null
+  customerName: string | null
+  customerEmail: string | null
+}
+
+type RedemptionReport = {
+  discount: Discount
+  redemptions: Redemption[]
+  summary: {
+    totalRedemptions: number
+    orderRevenue: number
+    remainingUses: number | null
+  }
+}
+
+const PAGE_SIZE = 20
+
+export default function AdminPromotionsTab() {
+  const [discounts, setDiscounts] = useState<Discount[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [searchTerm, setSearchTerm] = useState('')
+  const [prefixFilter, setPrefixFilter] = useState('')
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all')
+  const [page, setPage] = useState(1)
+  const [totalPages, setTotalPages] = useState(1)
+  const [total, setTotal] = useState(0)
+
+  const [formMode, setFormMode] = useState<'create' | 'edit' | 'bulk' | null>(null)
+  const [editingDiscount, setEditingDiscount] = useState<Discount | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [formError, setFormError] = useState('')
+  const [message, setMessage] = useState('')
+
+  const [report, setReport] = useState<RedemptionReport | null>(null)
+  const [reportLoading, setReportLoading] = useState(false)
+
+  useEffect(() => {
+    fetchDiscounts()
+  }, [page, statusFilter])
+
+  const buildFilterParams = () => {
+    const params = new URLSearchParams()
+    if (searchTerm.trim()) params.set('search', searchTerm.trim())
+    if (prefixFilter.trim()) params.set('prefix', prefixFilter.trim())
+    if (statusFilter !== 'all') params.set('status', statusFilter)
+    return params
+  }
+
+  const fetchDiscounts = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const params = buildFilterParams()
+      params.set('page', page.toString())
+      params.set('limit', PAGE_SIZE.toString())
+
+      const response = await fetch(`/api/admin/discounts?${params}`)
+      if (response.ok) {
+        const data = await response.json()
+        setDiscounts(data.data || [])
+        setTotalPages(data.pagination?.totalPages || 1)
+        setTotal(data.pagination?.total || 0)
+      } else {
+        setError('Failed to fetch discounts')
+      }
+    } catch (error) {
+      setError('Failed to fetch discounts')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (page === 1) {
+      fetchDiscounts()
+    } else {
+      setPage(1)
+    }
+  }
+
+  const closeForm = () => {
+    setFormMode(null)
+    setEditingDiscount(null)
+    setFormError('')
+  }
+
+  const handleSubmit = async (data: Record<string, unknown>) => {
+    setSaving(true)
+    setFormError('')
+    try {
+      const url = formMode === 'bulk'
+        ? '/api/admin/discounts/bulk'
+        : formMode === 'edit' && editingDiscount
+          ? `/api/admin/discounts/${editingDiscount.id}`
+          : '/api/admin/discounts'
+
+      const response = await fetch(url, {
+        method: formMode === 'edit' ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(data),
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        const detail = result.details?.[0]?.message
+        setFormError(detail || result.error || 'Failed to save discount')
+        return
+      }
+
+      if (formMode === 'bulk') {
+        setMessage(`Generated ${result.count} codes with prefix ${result.prefix}`)
+        setPrefixFilter(result.prefix)
+      } else {
+        setMessage(formMode === 'edit' ? 'Discount updated' : 'Discount created')
+      }
+
+      closeForm()
+      fetchDiscounts()
+    } catch (error) {
+      setFormError('Failed to save discount')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDeactivate = async (discount: Discount) => {
+    if (!confirm(`Deactivate "${discount.code}"? Customers will no longer be able to use it.`)) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/admin/discounts/${discount.id}`, {
+        method: 'DELETE',
+      })
+
+      if (response.ok) {
+        const { discount: updated } = await response.json()
+        setDiscounts(discounts.map(d => d.id === discount.id ? updated : d))
+      } else {
+        const errorData = await response.json()
+        alert(errorData.error || 'Failed to deactivate discount')
+      }
+    } catch (error) {
+      alert('Failed to deactivate discount')
+    }
+  }
+
+  const openReport = async (discount: Discount) => {
+    setReportLoading(true)
+    setReport(null)
+    try {
+      const response = await fetch(`/api/admin/discounts/${discount.id}/redemptions`)
+      if (response.ok) {
+        setReport(await response.json())
+      } else {
+        alert('Failed to load redemption report')
+      }
+    } catch (error) {
+      alert('Failed to load redemption report')
+    } finally {
+      setReportLoading(false)
+    }
+  }
+
+  const getStatus = (discount: Discount) => {
+    const now = new Date()
+    if (!discount.isActive) return { label: 'Inactive', className: 'bg-gray-100 text-gray-800' }
+    if (new Date(discount.validTo) < now) return { label: 'Expired', className: 'bg-red-100 text-red-800' }
+    if (new Date(discount.validFrom) > now) return { label: 'Scheduled', className: 'bg-yellow-100 text-yellow-800' }
+    if (discount.usageLimit !== null && discount.usedCount >= discount.usageLimit) {
+      return { label: 'Used up', className: 'bg-blue-100 text-blue-800' }
+    }
+    return { label: 'Active', className: 'bg-green-100 text-green-800' }
+  }
+
+  const formatValue = (discount: Discount) => discount.discountType === 'PERCENTAGE'
+    ? `${parseFloat(discount.discountValue)}%`
+    : formatPrice(parseFloat(discount.discountValue))
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Promotions</h1>
+          <p className="text-gray-600">Manage discount codes and track redemptions</p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <a href={`/api/admin/discounts/export?${buildFilterParams()}`} target="_blank" rel="noopener noreferrer">
+            <Button variant="outline">Export CSV</Button>
+          </a>
+          <Button variant="outline" onClick={() => setFormMode('bulk')}>
+            Generate Codes
+          </Button>
+          <Button onClick={() => setFormMode('create')}>
+            New Discount
+          </Button>
+        </div>
+      </div>
+
+      {message && (
+        <div className="bg-green-50 border border-green-200 rounded-md p-3 text-sm text-green-800">
+          {message}
+        </div>
+      )}
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="p-4">
+          <form onSubmit={handleSearch} className="flex flex-col sm:flex-row gap-4">
+            <input
+              type="text"
+              placeholder="Search code or name..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+            />
+            <input
+              type="text"
+              placeholder="Code prefix"
+              value={prefixFilter}
+              onChange={(e) => setPrefixFilter(e.target.value.toUpperCase())}
+              className="sm:w-40 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+            />
+            <select
+              value={statusFilter}
+              onChange={(e) => {
+                setStatusFilter(e.target.value as StatusFilter)
+                setPage(1)
+              }}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+            >
+              <option value="all">All Status</option>
+              <option value="active">Active</option>
+              <option value="scheduled">Scheduled</option>
+              <option value="expired">Expired</option>
+              <option value="inactive">Inactive</option>
+            </select>
+            <Button type="submit" variant="secondary">Search</Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {/* Discounts Table */}
+      <Card>
+        <CardContent className="p-0">
+          {loading ? (
+            <div className="flex justify-center py-12">
+              <Loading size="lg" />
+            </div>
+          ) : error ? (
+            <div className="text-center py-12">
+              <p className="text-red-600 mb-4">{error}</p>
+              <Button onClick={fetchDiscounts}>Try Again</Button>
+            </div>
+          ) : discounts.length === 0 ? (
+            <div className="text-center py-12 text-gray-500">No discounts found</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Code</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Value</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Usage</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Valid</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {discounts.map((discount) => {
+                    const status = getStatus(discount)
+                    return (
+                      <tr key={discount.id} className="hover:bg-gray-50">
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <div className="text-sm font-mono font-medium text-gray-900">{discount.code}</div>
+                          <div className="text-sm text-gray-500">{discount.name}</div>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {formatValue(discount)}
+                          {discount.minimumOrderValue && (
+                            <div className="text-xs text-gray-500">
+                              Min {formatPrice(parseFloat(discount.minimumOrderValue))}
+                            </div>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {discount.usedCount} / {discount.usageLimit ?? '∞'}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {new Date(discount.validFrom).toLocaleDateString()} – {new Date(discount.validTo).toLocaleDateString()}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${status.className}`}>
+                            {status.label}
+                          </span>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-3">
+                          <button
+                            onClick={() => openReport(discount)}
+                            className="text-gray-600 hover:text-gray-900"
+                          >
+                            Report
+                          </button>
+                          <button
+                            onClick={() => {
+                              setEditingDiscount(discount)
+                              setFormMode('edit')
+                            }}
+                            className="text-indigo-600 hover:text-indigo-900"
+                          >
+                            Edit
+                          </button>
+                          {discount.isActive && (
+                            <button
+                              onClick={() => handleDeactivate(discount)}
+                              className="text-red-600 hover:text-red-900"
+                            >
+                              Deactivate
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Pagination */}
+      {totalPages > 1 && (
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-gray-600">{total} discounts</p>
+          <div className="flex space-x-2">
+            <Button variant="outline" size="sm" disabled={page === 1} onClick={() => setPage(page - 1)}>
+              Previous
+            </Button>
+            <span className="px-3 py-1 text-sm text-gray-700">
+              Page {page} of {totalPages}
+            </span>
+            <Button variant="outline" size="sm" disabled={page === totalPages} onClick={() => setPage(page + 1)}>
+              Next
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {/* Create / Edit / Bulk Generate */}
+      <Modal
+        isOpen={formMode !== null}
+        onClose={closeForm}
+        title={formMode === 'bulk' ? 'Generate Discount Codes' : formMode === 'edit' ? 'Edit Discount' : 'New Discount'}
+        size="lg"
+      >
+        {formError && (
+          <div className="mb-4 bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-700">
+            {formError}
+          </div>
+        )}
+        {formMode !== null && (
+          <DiscountForm
+            key={editingDiscount?.id || formMode}
+            discount={editingDiscount || undefined}
+            mode={formMode === 'bulk' ? 'bulk' : 'single'}
+            onSubmit={handleSubmit}
+            onCancel={closeForm}
+            loading={saving}
+          />
+        )}
+      </Modal>
+
+      {/* Redemption Report */}
+      <Modal
+        isOpen={reportLoading || report !== null}
+        onClose={() => setReport(null)}
+        title={report ? `Redemptions for ${report.discount.code}` : 'Redemptions'}
+        size="xl"
+      >
+        {reportLoading || !report ? (
+          <div className="flex justify-center py-8">
+            <Loading size="md" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-4 p-4 bg-gray-50 rounded-md text-sm">
+              <div>
+                <span className="text-gray-500">Redemptions</span>
+                <p className="text-lg font-medium text-gray-900">{report.summary.totalRedemptions}</p>
+              </div>
+              <div>
+                <span className="text-gray-500">Order Revenue</span>
+                <p className="text-lg font-medium text-gray-900">{formatPrice(report.summary.orderRevenue)}</p>
+              </div>
+              <div>
+                <span className="text-gray-500">Remaining Uses</span>
+                <p className="text-lg font-medium text-gray-900">{report.summary.remainingUses ?? 'Unlimited'}</p>
+              </div>
+            </div>
+
+            {report.redemptions.length === 0 ? (
+              <p className="text-center py-6 text-gray-500">This code has not been redeemed yet</p>
+            ) : (
+              <div className="overflow-x-auto max-h-96">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left font-medium text-gray-500">Date</th>
+                      <th className="px-4 py-2 text-left font-medium text-gray-500">Order</th>
+                      <th className="px-4 py-2 text-left font-medium text-gray-500">Customer</th>
+                      <th className="px-4 py-2 text-left font-medium text-gray-500">Status</th>
+                      <th className="px-4 py-2 text-right font-medium text-gray-500">Total</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {report.redemptions.map((redemption) => (
+                      <tr key={redemption.id}>
+                        <td className="px-4 py-2 text-gray-500">{new Date(redemption.usedAt).toLocaleString()}</td>
+                        <td className="px-4 py-2">
+                          {redemption.orderId ? (
+                            <a href={`/admin/orders/${redemption.orderId}`} className="text-indigo-600 hover:text-indigo-900 font-mono">
+                              #{redemption.orderId.slice(-8)}
+                            </a>
+                          ) : '—'}
+                        </td>
+                        <td className="px-4 py-2 text-gray-900">
+                          {redemption.customerName || 'Guest'}
+                          {redemption.customerEmail && (
+                            <div className="text-xs text-gray-500">{redemption.customerEmail}</div>
+                          )}
+                        </td>
+                        <td className="px-4 py-2 text-gray-900">{redemption.orderStatus || '—'}</td>
+                        <td className="px-4 py-2 text-right text-gray-900">
+                          {redemption.orderTotal ? formatPrice(parseFloat(redemption.orderTotal)) : '—'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+      </Modal>
+    </div>
+  )
+}
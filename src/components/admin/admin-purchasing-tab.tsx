@@ -0,0 +1,390 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { PlusIcon, PencilIcon } from '@heroicons/react/24/outline'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import Button from '@/components/ui/button'
+import Loading from '@/components/ui/loading'
+import SupplierForm from '@/components/admin/supplier-form'
+import PurchaseOrderForm from '@/components/admin/purchase-order-form'
+import PurchaseOrderReceiveForm from '@/components/admin/purchase-order-receive-form'
+import { formatPrice } from '@/lib/cart-utils'
+import {
+  formatPurchaseOrderNumber,
+  getPurchaseOrderActions,
+  getPurchaseOrderTotal,
+} from '@/lib/purchase-order-utils'
+import type { PurchaseOrderWithItems, Supplier } from '@/types'
+
+const PAGE_SIZE = 20
+
+const STATUS_FILTERS = [
+  { value: '', label: 'All' },
+  { value: 'DRAFT', label: 'Draft' },
+  { value: 'SENT', label: 'Sent' },
+  { value: 'PARTIALLY_RECEIVED', label: 'Partially Received' },
+  { value: 'RECEIVED', label: 'Received' },
+  { value: 'CANCELLED', label: 'Cancelled' },
+]
+
+const STATUS_COLORS: Record<string, string> = {
+  DRAFT: 'bg-gray-100 text-gray-800',
+  SENT: 'bg-blue-100 text-blue-800',
+  PARTIALLY_RECEIVED: 'bg-yellow-100 text-yellow-800',
+  RECEIVED: 'bg-green-100 text-green-800',
+  CANCELLED: 'bg-red-100 text-red-800',
+}
+
+export default function AdminPurchasingTab() {
+  const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrderWithItems[]>([])
+  const [suppliers, setSuppliers] = useState<Supplier[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [status, setStatus] = useState('')
+  const [page, setPage] = useState(1)
+  const [totalPages, setTotalPages] = useState(1)
+  const [message, setMessage] = useState('')
+
+  const [showSupplierForm, setShowSupplierForm] = useState(false)
+  const [selectedSupplier, setSelectedSupplier] = useState<Supplier | null>(null)
+  const [showOrderForm, setShowOrderForm] = useState(false)
+  const [receiving, setReceiving] = useState<PurchaseOrderWithItems | null>(null)
+  const [actionId, setActionId] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchData()
+  }, [page, status])
+
+  const fetchData = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const params = new URLSearchParams({
+        page: page.toString(),
+        limit: PAGE_SIZE.toString(),
+      })
+      if (status) params.set('status', status)
+
+      const [ordersResponse, suppliersResponse] = await Promise.all([
+        fetch(`/api/inventory/purchase-orders?${params}`),
+        fetch('/api/inventory/suppliers'),
+      ])
+
+      if (ordersResponse.ok && suppliersResponse.ok) {
+        const orderData = await ordersResponse.json()
+        const supplierData = await suppliersResponse.json()
+        setPurchaseOrders(orderData.data || [])
+        setTotalPages(orderData.pagination?.totalPages || 1)
+        setSuppliers(supplierData.suppliers || [])
+      } else {
+        setError('Failed to fetch purchase orders')
+      }
+    } catch (error) {
+      setError('Failed to fetch purchase orders')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleAction = async (purchaseOrder: PurchaseOrderWithItems, action: 'send' | 'cancel') => {
+    const number = formatPurchaseOrderNumber(purchaseOrder.id)
+    if (action === 'cancel' && !confirm(`Cancel ${number}? Anything not yet received will no longer be expected.`)) {
+      return
+    }
+
+    setActionId(purchaseOrder.id)
+    try {
+      const response = await fetch(`/api/inventory/purchase-orders/${purchaseOrder.id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ action }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || `Failed to ${action} purchase order`)
+      }
+
+      setMessage(action === 'send' ? `${number} sent to ${purchaseOrder.supplier.name}` : `${number} cancelled`)
+      fetchData()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : `Failed to ${action} purchase order`)
+    } finally {
+      setActionId(null)
+    }
+  }
+
+  const openSupplierForm = (supplier: Supplier | null) => {
+    setSelectedSupplier(supplier)
+    setShowSupplierForm(true)
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Purchasing</h1>
+          <p className="text-gray-600">Suppliers, purchase orders and stock still on order</p>
+        </div>
+        <div className="flex space-x-3">
+          <Button variant="outline" onClick={() => openSupplierForm(null)} className="flex items-center space-x-2">
+            <PlusIcon className="h-4 w-4" />
+            <span>Add Supplier</span>
+          </Button>
+          <Button
+            onClick={() => setShowOrderForm(true)}
+            disabled={!suppliers.some(supplier => supplier.isActive)}
+            className="flex items-center space-x-2"
+          >
+            <PlusIcon className="h-4 w-4" />
+            <span>New Purchase Order</span>
+          </Button>
+        </div>
+      </div>
+
+      {message && (
+        <div className="bg-green-50 border border-green-200 rounded-md p-3 text-sm text-green-800">
+          {message}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <Loading size="lg" />
+        </div>
+      ) : error ? (
+        <div className="text-center py-12">
+          <p className="text-red-600 mb-4">{error}</p>
+          <Button onClick={fetchData}>Try Again</Button>
+        </div>
+      ) : (
+        <>
+          {/* Purchase orders */}
+          <Card>
+            <CardHeader>
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                <CardTitle>Purchase Orders</CardTitle>
+                <div className="flex flex-wrap gap-2">
+                  {STATUS_FILTERS.map(filter => (
+                    <button
+                      key={filter.value}
+                      onClick={() => {
+                        setStatus(filter.value)
+                        setPage(1)
+                      }}
+                      className={`px-3 py-1 rounded-full text-xs font-medium ${
+                        status === filter.value ? 'bg-indigo-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                      }`}
+                    >
+                      {filter.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="p-0">
+              {purchaseOrders.length === 0 ? (
+                <div className="text-center py-12 text-gray-500">No purchase orders</div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Order</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Supplier</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Items</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Total</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Expected</th>
+                        <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {purchaseOrders.map((purchaseOrder) => {
+                        const actions = getPurchaseOrderActions(purchaseOrder.status)
+
+                        return (
+                          <tr key={purchaseOrder.id} className="hover:bg-gray-50 align-top">
+                            <td className="px-6 py-4 whitespace-nowrap text-sm">
+                              <div className="font-mono text-gray-900">{formatPurchaseOrderNumber(purchaseOrder.id)}</div>
+                              <div className="text-xs text-gray-500">{new Date(purchaseOrder.createdAt).toLocaleDateString()}</div>
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm">
+                              <div className="text-gray-900">{purchaseOrder.supplier.name}</div>
+                              {purchaseOrder.location && (
+                                <div className="text-xs text-gray-500">To {purchaseOrder.location.name}</div>
+                              )}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm">
+                              <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${STATUS_COLORS[purchaseOrder.status] || 'bg-gray-100 text-gray-800'}`}>
+                                {purchaseOrder.status.replace('_', ' ')}
+                              </span>
+                            </td>
+                            <td className="px-6 py-4 text-sm">
+                              <div className="space-y-1 max-w-xs">
+                                {purchaseOrder.items.map(item => (
+                                  <div key={item.id} className="flex justify-between gap-3">
+                                    <span className="text-gray-900 truncate">{item.product.name}</span>
+                                    <span className="text-gray-500 whitespace-nowrap">
+                                      {item.quantityReceived}/{item.quantityOrdered}
+                                    </span>
+                                  </div>
+                                ))}
+                              </div>
+                              {purchaseOrder.notes && (
+                                <p className="text-xs text-gray-500 mt-1">{purchaseOrder.notes}</p>
+                              )}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                              {formatPrice(getPurchaseOrderTotal(purchaseOrder.items), purchaseOrder.currency)}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                              {purchaseOrder.expectedAt ? new Date(purchaseOrder.expectedAt).toLocaleDateString() : '-'}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-3">
+                              {actions.includes('send') && (
+                                <button
+                                  onClick={() => handleAction(purchaseOrder, 'send')}
+                                  disabled={actionId === purchaseOrder.id}
+                                  className="text-indigo-600 hover:text-indigo-900 disabled:opacity-50"
+                                >
+                                  Mark Sent
+                                </button>
+                              )}
+                              {actions.includes('receive') && (
+                                <button
+                                  onClick={() => setReceiving(purchaseOrder)}
+                                  disabled={actionId === purchaseOrder.id}
+                                  className="text-green-600 hover:text-green-900 disabled:opacity-50"
+                                >
+                                  Receive
+                                </button>
+                              )}
+                              {actions.includes('cancel') && (
+                                <button
+                                  onClick={() => handleAction(purchaseOrder, 'cancel')}
+                                  disabled={actionId === purchaseOrder.id}
+                                  className="text-red-600 hover:text-red-900 disabled:opacity-50"
+                                >
+                                  Cancel
+                                </button>
+                              )}
+                            </td>
+                          </tr>
+                        )
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Pagination */}
+          {totalPages > 1 && (
+            <div className="flex items-center justify-end space-x-2">
+              <Button variant="outline" size="sm" disabled={page === 1} onClick={() => setPage(page - 1)}>
+                Previous
+              </Button>
+              <span className="px-3 py-1 text-sm text-gray-700">
+                Page {page} of {totalPages}
+              </span>
+              <Button variant="outline" size="sm" disabled={page === totalPages} onClick={() => setPage(page + 1)}>
+                Next
+              </Button>
+            </div>
+          )}
+
+          {/* Suppliers */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Suppliers</CardTitle>
+            </CardHeader>
+            <CardContent className="p-0">
+              {suppliers.length === 0 ? (
+                <div className="text-center py-12 text-gray-500">Add a supplier to start ordering stock</div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Contact</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Phone</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Email</th>
+                        <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {suppliers.map((supplier) => (
+                        <tr key={supplier.id} className="hover:bg-gray-50">
+                          <td className="px-6 py-4 whitespace-nowrap text-sm">
+                            <div className="font-medium text-gray-900">{supplier.name}</div>
+                            {!supplier.isActive && (
+                              <div className="text-xs text-gray-500">Inactive</div>
+                            )}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">{supplier.contactName || '-'}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">{supplier.phone || '-'}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">{supplier.email || '-'}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                            <button
+                              onClick={() => openSupplierForm(supplier)}
+                              className="text-indigo-600 hover:text-indigo-900"
+                              title="Edit supplier"
+                            >
+                              <PencilIcon className="h-4 w-4" />
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      {/* Modals */}
+      {showSupplierForm && (
+        <SupplierForm
+          supplier={selectedSupplier}
+          onClose={() => setShowSupplierForm(false)}
+          onSuccess={() => {
+            setShowSupplierForm(false)
+            fetchData()
+          }}
+        />
+      )}
+
+      {showOrderForm && (
+        <PurchaseOrderForm
+          suppliers={suppliers}
+          onClose={() => setShowOrderForm(false)}
+          onSuccess={() => {
+            setShowOrderForm(false)
+            setMessage('Purchase order saved as a draft')
+            fetchData()
+          }}
+        />
+      )}
+
+      {receiving && (
+        <PurchaseOrderReceiveForm
+          purchaseOrder={receiving}
+          onClose={() => setReceiving(null)}
+          onSuccess={() => {
+            setMessage(`Stock received on ${formatPurchaseOrderNumber(receiving.id)}`)
+            setReceiving(null)
+            fetchData()
+          }}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,333 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Image from 'next/image'
+import Link from 'next/link'
+import { Card, CardContent } from '@/components/ui/card'
+import Button from '@/components/ui/button'
+import Modal from '@/components/ui/modal'
+import Loading from '@/components/ui/loading'
+import { RETURN_REASON_LABELS, RETURN_STATUS_STYLES } from '@/components/orders/order-returns'
+import { formatPrice } from '@/lib/cart-utils'
+import { ReturnRequestWithDetails } from '@/types'
+
+type ReviewAction = 'approve' | 'reject' | 'receive'
+
+const ACTION_LABELS: Record<ReviewAction, string> = {
+  approve: 'Approve Return',
+  reject: 'Reject Return',
+  receive: 'Mark as Received',
+}
+
+const PAGE_SIZE = 20
+
+export default function AdminReturnsTab() {
+  const [returns, setReturns] = useState<ReturnRequestWithDetails[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [statusFilter, setStatusFilter] = useState('REQUESTED')
+  const [page, setPage] = useState(1)
+  const [totalPages, setTotalPages] = useState(1)
+  const [total, setTotal] = useState(0)
+
+  const [selected, setSelected] = useState<ReturnRequestWithDetails | null>(null)
+  const [action, setAction] = useState<ReviewAction | null>(null)
+  const [adminNotes, setAdminNotes] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [actionError, setActionError] = useState('')
+  const [message, setMessage] = useState('')
+
+  useEffect(() => {
+    fetchReturns()
+  }, [page, statusFilter])
+
+  const fetchReturns = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const params = new URLSearchParams({
+        page: page.toString(),
+        limit: PAGE_SIZE.toString(),
+      })
+      if (statusFilter !== 'all') params.set('status', statusFilter)
+
+      const response = await fetch(`/api/admin/returns?${params}`)
+      if (response.ok) {
+        const data = await response.json()
+        setReturns(data.data || [])
+        setTotalPages(data.pagination?.totalPages || 1)
+        setTotal(data.pagination?.total || 0)
+      } else {
+        setError('Failed to fetch returns')
+      }
+    } catch (error) {
+      setError('Failed to fetch returns')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const openAction = (returnRequest: ReturnRequestWithDetails, nextAction: ReviewAction) => {
+    setSelected(returnRequest)
+    setAction(nextAction)
+    setAdminNotes(returnRequest.adminNotes || '')
+    setActionError('')
+  }
+
+  const closeAction = () => {
+    setSelected(null)
+    setAction(null)
+    setActionError('')
+  }
+
+  const handleAction = async () => {
+    if (!selected || !action) return
+
+    setSaving(true)
+    setActionError('')
+    try {
+      const response = await fetch(`/api/admin/returns/${selected.id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ action, adminNotes: adminNotes || undefined }),
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        setActionError(result.error || 'Failed to update return')
+        return
+      }
+
+      setMessage(
+        action === 'receive'
+          ? `Return received and ${formatPrice(Number(selected.refundAmount))} marked for refund`
+          : `Return ${action === 'approve' ? 'approved' : 'rejected'}`
+      )
+      closeAction()
+      fetchReturns()
+    } catch (error) {
+      setActionError('Failed to update return')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Returns</h1>
+          <p className="text-gray-600">Review return requests and restock received items</p>
+        </div>
+        <select
+          value={statusFilter}
+          onChange={(e) => {
+            setStatusFilter(e.target.value)
+            setPage(1)
+          }}
+          className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+        >
+          <option value="all">All Status</option>
+          <option value="REQUESTED">Requested</option>
+          <option value="APPROVED">Approved</option>
+          <option value="RECEIVED">Received</option>
+          <option value="REJECTED">Rejected</option>
+        </select>
+      </div>
+
+      {message && (
+        <div className="bg-green-50 border border-green-200 rounded-md p-3 text-sm text-green-800">
+          {message}
+        </div>
+      )}
+
+      {/* Returns Table */}
+      <Card>
+        <CardContent className="p-0">
+          {loading ? (
+            <div className="flex justify-center py-12">
+              <Loading size="lg" />
+            </div>
+          ) : error ? (
+            <div className="text-center py-12">
+              <p className="text-red-600 mb-4">{error}</p>
+              <Button onClick={fetchReturns}>Try Again</Button>
+            </div>
+          ) : returns.length === 0 ? (
+            <div className="text-center py-12 text-gray-500">No return requests found</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Item</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Customer</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reason</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Refund</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {returns.map((returnRequest) => (
+                    <tr key={returnRequest.id} className="hover:bg-gray-50 align-top">
+                      <td className="px-6 py-4">
+                        <div className="text-sm font-medium text-gray-900">
+                          {returnRequest.quantity} x {returnRequest.orderItem.product.name}
+                        </div>
+                        <Link
+                          href={`/admin/orders/${returnRequest.orderId}`}
+                          className="text-xs text-indigo-600 hover:text-indigo-900"
+                        >
+                          Order #{returnRequest.orderId.slice(-8).toUpperCase()}
+                        </Link>
+                        <div className="text-xs text-gray-500">
+                          {new Date(returnRequest.createdAt).toLocaleDateString()}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <div className="text-gray-900">{returnRequest.user?.name}</div>
+                        <div className="text-gray-500">{returnRequest.user?.email}</div>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-900 max-w-xs">
+                        {RETURN_REASON_LABELS[returnRequest.reason] || returnRequest.reason}
+                        {returnRequest.comments && (
+                          <p className="text-xs text-gray-500 mt-1">{returnRequest.comments}</p>
+                        )}
+                        {returnRequest.images.length > 0 && (
+                          <div className="flex gap-1 mt-2">
+                            {returnRequest.images.map(url => (
+                              <a key={url} href={url} target="_blank" rel="noopener noreferrer">
+                                <Image src={url} alt="Return photo" width={40} height={40} className="w-10 h-10 rounded object-cover" />
+                              </a>
+                            ))}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {formatPrice(Number(returnRequest.refundAmount))}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${RETURN_STATUS_STYLES[returnRequest.status] || 'bg-gray-100 text-gray-800'}`}>
+                          {returnRequest.status}
+                        </span>
+                        {returnRequest.adminNotes && (
+                          <p className="text-xs text-gray-500 mt-1 max-w-[12rem] whitespace-normal">{returnRequest.adminNotes}</p>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-3">
+                        {returnRequest.status === 'REQUESTED' && (
+                          <button
+                            onClick={() => openAction(returnRequest, 'approve')}
+                            className="text-indigo-600 hover:text-indigo-900"
+                          >
+                            Approve
+                          </button>
+                        )}
+                        {returnRequest.status === 'APPROVED' && (
+                          <button
+                            onClick={() => openAction(returnRequest, 'receive')}
+                            className="text-green-600 hover:text-green-900"
+                          >
+                            Mark Received
+                          </button>
+                        )}
+                        {returnRequest.status === 'RECEIVED' && returnRequest.refunds?.length === 0 && (
+                          <button
+                            onClick={() => openAction(returnRequest, 'receive')}
+                            className="text-green-600 hover:text-green-900"
+                          >
+                            Retry Refund
+                          </button>
+                        )}
+                        {(returnRequest.status === 'REQUESTED' || returnRequest.status === 'APPROVED') && (
+                          <button
+                            onClick={() => openAction(returnRequest, 'reject')}
+                            className="text-red-600 hover:text-red-900"
+                          >
+                            Reject
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Pagination */}
+      {totalPages > 1 && (
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-gray-600">{total} returns</p>
+          <div className="flex space-x-2">
+            <Button variant="outline" size="sm" disabled={page === 1} onClick={() => setPage(page - 1)}>
+              Previous
+            </Button>
+            <span className="px-3 py-1 text-sm text-gray-700">
+              Page {page} of {totalPages}
+            </span>
+            <Button variant="outline" size="sm" disabled={page === totalPages} onClick={() => setPage(page + 1)}>
+              Next
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {/* Review */}
+      <Modal
+        isOpen={selected !== null}
+        onClose={closeAction}
+        title={action ? ACTION_LABELS[action] : ''}
+        size="md"
+      >
+        {selected && (
+          <div className="space-y-4">
+            {actionError && (
+              <div className="bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-700">
+                {actionError}
+              </div>
+            )}
+            <p className="text-sm text-gray-700">
+              {selected.quantity} x {selected.orderItem.product.name} · refund {formatPrice(Number(selected.refundAmount))}
+            </p>
+            {action === 'receive' && (
+              <p className="text-sm text-gray-600">
+                {selected.status === 'RECEIVED'
+                  ? 'The items were already restocked. The refund will be recorded and the order marked as partially or fully refunded.'
+                  : 'The items will be restocked and the order marked as partially or fully refunded.'}
+              </p>
+            )}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Notes for the customer (Optional)</label>
+              <textarea
+                value={adminNotes}
+                onChange={(e) => setAdminNotes(e.target.value)}
+                rows={3}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+              />
+            </div>
+            <div className="flex justify-end space-x-3">
+              <Button variant="outline" onClick={closeAction}>
+                Cancel
+              </Button>
+              <Button
+                variant={action === 'reject' ? 'danger' : 'primary'}
+                onClick={handleAction}
+                disabled={saving}
+              >
+                {saving ? 'Saving...' : action ? ACTION_LABELS[action] : ''}
+              </Button>
+            </div>
+          </div>
+        )}
+      </Modal>
+    </div>
+  )
+}
@@ -10,7 +10,9 @@ import {
   CheckCircleIcon,
   ExclamationTriangleIcon,
   EyeIcon,
-  EyeSlashIcon
+  EyeSlashIcon,
+  ShoppingBagIcon,
+  CreditCardIcon
 } from '@heroicons/react/24/outline'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import Button from '@/components/ui/button'
@@ -197,6 +199,10 @@ export default function AdminSettingsTab() {
         return <CurrencyDollarIcon className="h-5 w-5" />
       case 'store':
         return <BuildingStorefrontIcon className="h-5 w-5" />
+      case 'orders':
+        return <ShoppingBagIcon className="h-5 w-5" />
+      case 'payments':
+        return <CreditCardIcon className="h-5 w-5" />
       default:
         return <CogIcon className="h-5 w-5" />
     }
@@ -212,6 +218,10 @@ export default function AdminSettingsTab() {
         return 'Currency Settings'
       case 'store':
         return 'Store Settings'
+      case 'orders':
+        return 'Order Settings'
+      case 'payments':
+        return 'Payment Settings'
       default:
         return category.charAt(0).toUpperCase() + category.slice(1)
     }
@@ -0,0 +1,227 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { PlusIcon } from '@heroicons/react/24/outline'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import Button from '@/components/ui/button'
+import Loading from '@/components/ui/loading'
+import StocktakeForm from '@/components/admin/stocktake-form'
+import { formatPrice } from '@/lib/cart-utils'
+import { formatStocktakeNumber, summarizeStocktake } from '@/lib/stocktake-utils'
+import type { StocktakeWithItems } from '@/types'
+
+const PAGE_SIZE = 20
+
+type LocationOption = {
+  id: string
+  name: string
+  isActive: boolean
+}
+
+const STATUS_FILTERS = [
+  { value: '', label: 'All' },
+  { value: 'COUNTING', label: 'Counting' },
+  { value: 'POSTED', label: 'Posted' },
+  { value: 'CANCELLED', label: 'Cancelled' },
+]
+
+const STATUS_COLORS: Record<string, string> = {
+  COUNTING: 'bg-blue-100 text-blue-800',
+  POSTED: 'bg-green-100 text-green-800',
+  CANCELLED: 'bg-red-100 text-red-800',
+}
+
+export default function AdminStocktakesTab() {
+  const router = useRouter()
+  const [stocktakes, setStocktakes] = useState<StocktakeWithItems[]>([])
+  const [locations, setLocations] = useState<LocationOption[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [status, setStatus] = useState('')
+  const [page, setPage] = useState(1)
+  const [totalPages, setTotalPages] = useState(1)
+  const [showForm, setShowForm] = useState(false)
+
+  useEffect(() => {
+    fetchData()
+  }, [page, status])
+
+  const fetchData = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const params = new URLSearchParams({
+        page: page.toString(),
+        limit: PAGE_SIZE.toString(),
+      })
+      if (status) params.set('status', status)
+
+      const [stocktakesResponse, locationsResponse] = await Promise.all([
+        fetch(`/api/inventory/stocktakes?${params}`),
+        fetch('/api/inventory/locations'),
+      ])
+
+      if (stocktakesResponse.ok && locationsResponse.ok) {
+        const stocktakeData = await stocktakesResponse.json()
+        const locationData = await locationsResponse.json()
+        setStocktakes(stocktakeData.data || [])
+        setTotalPages(stocktakeData.pagination?.totalPages || 1)
+        setLocations(locationData.locations || [])
+      } else {
+        setError('Failed to fetch stocktakes')
+      }
+    } catch (error) {
+      setError('Failed to fetch stocktakes')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Stocktakes</h1>
+          <p className="text-gray-600">Count what is on the shelves and reconcile it with system stock</p>
+        </div>
+        <Button
+          onClick={() => setShowForm(true)}
+          disabled={!locations.some(location => location.isActive)}
+          className="flex items-center space-x-2"
+        >
+          <PlusIcon className="h-4 w-4" />
+          <span>New Stocktake</span>
+        </Button>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <Loading size="lg" />
+        </div>
+      ) : error ? (
+        <div className="text-center py-12">
+          <p className="text-red-600 mb-4">{error}</p>
+          <Button onClick={fetchData}>Try Again</Button>
+        </div>
+      ) : (
+        <>
+          <Card>
+            <CardHeader>
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                <CardTitle>Count Sessions</CardTitle>
+                <div className="flex flex-wrap gap-2">
+                  {STATUS_FILTERS.map(filter => (
+                    <button
+                      key={filter.value}
+                      onClick={() => {
+                        setStatus(filter.value)
+                        setPage(1)
+                      }}
+                      className={`px-3 py-1 rounded-full text-xs font-medium ${
+                        status === filter.value ? 'bg-indigo-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                      }`}
+                    >
+                      {filter.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="p-0">
+              {stocktakes.length === 0 ? (
+                <div className="text-center py-12 text-gray-500">No stocktakes</div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Stocktake</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Location</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Counted</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Variance</th>
+                        <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {stocktakes.map((stocktake) => {
+                        const summary = summarizeStocktake(stocktake.items)
+
+                        return (
+                          <tr key={stocktake.id} className="hover:bg-gray-50">
+                            <td className="px-6 py-4 whitespace-nowrap text-sm">
+                              <div className="font-mono text-gray-900">{formatStocktakeNumber(stocktake.id)}</div>
+                              <div className="text-xs text-gray-500">{new Date(stocktake.createdAt).toLocaleDateString()}</div>
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm">
+                              <div className="text-gray-900">{stocktake.location.name}</div>
+                              <div className="text-xs text-gray-500">{stocktake.category?.name || 'All categories'}</div>
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm">
+                              <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${STATUS_COLORS[stocktake.status] || 'bg-gray-100 text-gray-800'}`}>
+                                {stocktake.status}
+                              </span>
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                              {summary.countedCount}/{summary.itemCount}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm">
+                              {summary.varianceCount > 0 ? (
+                                <span className={summary.netValue < 0 ? 'text-red-600' : 'text-green-600'}>
+                                  {summary.varianceCount} item{summary.varianceCount > 1 ? 's' : ''} · {formatPrice(summary.netValue)}
+                                </span>
+                              ) : (
+                                <span className="text-gray-500">-</span>
+                              )}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                              <Link
+                                href={`/admin/stocktakes/${stocktake.id}`}
+                                className="text-indigo-600 hover:text-indigo-900"
+                              >
+                                {stocktake.status === 'COUNTING' ? 'Count' : 'View'}
+                              </Link>
+                            </td>
+                          </tr>
+                        )
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Pagination */}
+          {totalPages > 1 && (
+            <div className="flex items-center justify-end space-x-2">
+              <Button variant="outline" size="sm" disabled={page === 1} onClick={() => setPage(page - 1)}>
+                Previous
+              </Button>
+              <span className="px-3 py-1 text-sm text-gray-700">
+                Page {page} of {totalPages}
+              </span>
+              <Button variant="outline" size="sm" disabled={page === totalPages} onClick={() => setPage(page + 1)}>
+                Next
+              </Button>
+            </div>
+          )}
+        </>
+      )}
+
+      {showForm && (
+        <StocktakeForm
+          locations={locations}
+          onClose={() => setShowForm(false)}
+          onSuccess={(stocktake) => {
+            setShowForm(false)
+            router.push(`/admin/stocktakes/${stocktake.id}`)
+          }}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,110 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { XMarkIcon } from '@heroicons/react/24/outline'
+
+// The browser's built-in barcode reader (Chrome on Android, Safari 17+)
+type BarcodeDetectorLike = {
+  detect: (source: HTMLVideoElement) => Promise<{ rawValue: string }[]>
+}
+
+type BarcodeDetectorConstructor = new () => BarcodeDetectorLike
+
+// The same code is ignored for this long so one scan isn't counted twice
+const REPEAT_DELAY_MS = 1500
+
+interface BarcodeScannerProps {
+  onDetected: (code: string) => void
+  onClose: () => void
+}
+
+export default function BarcodeScanner({ onDetected, onClose }: BarcodeScannerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null)
+  const onDetectedRef = useRef(onDetected)
+  const [error, setError] = useState('')
+
+  onDetectedRef.current = onDetected
+
+  useEffect(() => {
+    const Detector = (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector
+    if (!Detector || !navigator.mediaDevices?.getUserMedia) {
+      setError('This browser cannot scan with the camera. Use a scanner app or type the code instead.')
+      return
+    }
+
+    let stream: MediaStream | null = null
+    let timer: ReturnType<typeof setInterval> | null = null
+    let stopped = false
+    let lastCode = ''
+    let lastSeenAt = 0
+
+    const start = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: 'environment' },
+          audio: false,
+        })
+
+        if (stopped || !videoRef.current) {
+          stream.getTracks().forEach(track => track.stop())
+          return
+        }
+
+        videoRef.current.srcObject = stream
+        await videoRef.current.play()
+
+        const detector = new Detector()
+        timer = setInterval(async () => {
+          if (!videoRef.current || videoRef.current.readyState < 2) {
+            return
+          }
+
+          try {
+            const [barcode] = await detector.detect(videoRef.current)
+            const now = Date.now()
+            if (barcode && (barcode.rawValue !== lastCode || now - lastSeenAt > REPEAT_DELAY_MS)) {
+              onDetectedRef.current(barcode.rawValue)
+            }
+            if (barcode) {
+              lastCode = barcode.rawValue
+              lastSeenAt = now
+            }
+          } catch (err) {
+            // A frame the detector couldn't read; try the next one
+          }
+        }, 250)
+      } catch (err) {
+        setError('Could not open the camera. Check that the browser is allowed to use it.')
+      }
+    }
+
+    start()
+
+    return () => {
+      stopped = true
+      if (timer) clearInterval(timer)
+      stream?.getTracks().forEach(track => track.stop())
+    }
+  }, [])
+
+  return (
+    <div className="relative rounded-lg overflow-hidden bg-black">
+      <button
+        type="button"
+        onClick={onClose}
+        className="absolute top-2 right-2 z-10 rounded-full bg-black/50 p-1 text-white hover:bg-black/70"
+      >
+        <XMarkIcon className="h-5 w-5" />
+      </button>
+
+      {error ? (
+        <p className="p-4 text-sm text-white">{error}</p>
+      ) : (
+        <>
+          <video ref={videoRef} className="w-full max-h-72 object-cover" muted playsInline />
+          <div className="pointer-events-none absolute inset-x-8 top-1/2 h-0.5 -translate-y-1/2 bg-red-500/80" />
+        </>
+      )}
+    </div>
+  )
+}
@@ -13,6 +13,13 @@ type BulkUpdateItem = {
   productName?: string
 }
 
+type StockLocationOption = {
+  id: string
+  name: string
+  isActive: boolean
+  isDefault: boolean
+}
+
 interface BulkInventoryUpdateProps {
   onClose: () => void
   onSuccess: () => void
@@ -22,14 +29,31 @@ export default function BulkInventoryUpdate({ onClose, onSuccess }: BulkInventor
   const [products, setProducts] = useState<Product[]>([])
   const [updates, setUpdates] = useState<BulkUpdateItem[]>([])
   const [reason, setReason] = useState('')
+  const [locations, setLocations] = useState<StockLocationOption[]>([])
+  const [locationId, setLocationId] = useState('')
   const [loading, setLoading] = useState(false)
   const [fetchingProducts, setFetchingProducts] = useState(true)
   const [error, setError] = useState('')
 
   useEffect(() => {
     fetchProducts()
+    fetchLocations()
   }, [])
 
+  const fetchLocations = async () => {
+    try {
+      const response = await fetch('/api/inventory/locations')
+      if (response.ok) {
+        const data = await response.json()
+        const active = (data.locations as StockLocationOption[]).filter(location => location.isActive)
+        setLocations(active)
+        setLocationId(active.find(location => location.isDefault)?.id || active[0]?.id || '')
+      }
+    } catch (error) {
+      // Without the list, counts go to the default location
+    }
+  }
+
   const fetchProducts = async () => {
     try {
       const response = await fetch('/api/products?limit=100')
@@ -95,7 +119,8 @@ export default function BulkInventoryUpdate({ onClose, onSuccess }: BulkInventor
         },
         body: JSON.stringify({
           updates: validUpdates.map(u => ({ productId: u.productId, quantity: u.quantity })),
-          reason: reason.trim()
+          reason: reason.trim(),
+          locationId: locationId || undefined
         })
       })
 
@@ -141,6 +166,26 @@ export default function BulkInventoryUpdate({ onClose, onSuccess }: BulkInventor
             </div>
           ) : (
             <form onSubmit={handleSubmit}>
+              {locations.length > 1 && (
+                <div className="mb-6">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Location *
+                  </label>
+                  <select
+                    value={locationId}
+                    onChange={(e) => setLocationId(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                  >
+                    {locations.map((location) => (
+                      <option key={location.id} value={location.id}>
+                        {location.name}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="mt-1 text-xs text-gray-500">New quantities are the stock counted at this location</p>
+                </div>
+              )}
+
               <div className="mb-6">
                 <label className="block text-sm font-medium text-gray-700 mb-2">
                   Reason for Update *
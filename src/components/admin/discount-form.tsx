@@ -0,0 +1,264 @@
+'use client'
+
+import { useState } from 'react'
+import Button from '@/components/ui/button'
+import Input from '@/components/ui/input'
+import { Discount } from '@/types'
+
+interface DiscountFormProps {
+  discount?: Discount
+  // 'bulk' replaces the code field with a prefix and number of codes to generate
+  mode?: 'single' | 'bulk'
+  onSubmit: (data: Record<string, unknown>) => Promise<void>
+  onCancel: () => void
+  loading?: boolean
+}
+
+const toDateInput = (value?: Date | string | null) => {
+  if (!value) return ''
+  return new Date(value).toISOString().slice(0, 10)
+}
+
+const toNumberOrNull = (value: string) => value.trim() === '' ? null : Number(value)
+
+export default function DiscountForm({ discount, mode = 'single', onSubmit, onCancel, loading }: DiscountFormProps) {
+  const [formData, setFormData] = useState({
+    code: discount?.code || '',
+    prefix: '',
+    count: '100',
+    name: discount?.name || '',
+    description: discount?.description || '',
+    discountType: discount?.discountType || 'PERCENTAGE',
+    discountValue: discount?.discountValue || '',
+    minimumOrderValue: discount?.minimumOrderValue || '',
+    maximumDiscountAmount: discount?.maximumDiscountAmount || '',
+    usageLimit: discount?.usageLimit?.toString() || (mode === 'bulk' ? '1' : ''),
+    validFrom: toDateInput(discount?.validFrom) || toDateInput(new Date()),
+    validTo: toDateInput(discount?.validTo),
+    applicableProductIds: (discount?.applicableProductIds || []).join(', '),
+    applicableCategoryIds: (discount?.applicableCategoryIds || []).join(', '),
+    isActive: discount?.isActive ?? true,
+  })
+  const [errors, setErrors] = useState<Record<string, string>>({})
+
+  const handleInputChange = (field: string, value: string | boolean) => {
+    setFormData(prev => ({ ...prev, [field]: value }))
+    if (errors[field]) {
+      setErrors(prev => ({ ...prev, [field]: '' }))
+    }
+  }
+
+  const validateForm = () => {
+    const newErrors: Record<string, string> = {}
+
+    if (mode === 'single' && !/^[A-Za-z0-9_-]{3,32}$/.test(formData.code.trim())) {
+      newErrors.code = 'Code must be 3-32 letters, numbers, dashes or underscores'
+    }
+
+    if (mode === 'bulk') {
+      if (!/^[A-Za-z0-9]{2,16}$/.test(formData.prefix.trim())) {
+        newErrors.prefix = 'Prefix must be 2-16 letters or numbers'
+      }
+      const count = Number(formData.count)
+      if (!Number.isInteger(count) || count < 1 || count > 1000) {
+        newErrors.count = 'Generate between 1 and 1000 codes'
+      }
+    }
+
+    if (!formData.name.trim()) {
+      newErrors.name = 'Name is required'
+    }
+
+    const value = Number(formData.discountValue)
+    if (!value || value <= 0) {
+      newErrors.discountValue = 'Discount value must be positive'
+    } else if (formData.discountType === 'PERCENTAGE' && value > 100) {
+      newErrors.discountValue = 'Percentage discount cannot exceed 100'
+    }
+
+    if (!formData.validFrom || !formData.validTo) {
+      newErrors.validTo = 'Start and end dates are required'
+    } else if (new Date(formData.validTo) <= new Date(formData.validFrom)) {
+      newErrors.validTo = 'End date must be after start date'
+    }
+
+    setErrors(newErrors)
+    return Object.keys(newErrors).length === 0
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!validateForm()) return
+
+    const splitIds = (value: string) => value.split(',').map(id => id.trim()).filter(Boolean)
+
+    const data: Record<string, unknown> = {
+      name: formData.name.trim(),
+      description: formData.description.trim() || null,
+      discountType: formData.discountType,
+      discountValue: Number(formData.discountValue),
+      minimumOrderValue: toNumberOrNull(String(formData.minimumOrderValue)),
+      maximumDiscountAmount: toNumberOrNull(String(formData.maximumDiscountAmount)),
+      usageLimit: toNumberOrNull(formData.usageLimit),
+      // End date is inclusive for the whole day
+      validFrom: new Date(`${formData.validFrom}T00:00:00`).toISOString(),
+      validTo: new Date(`${formData.validTo}T23:59:59`).toISOString(),
+      applicableProductIds: splitIds(formData.applicableProductIds),
+      applicableCategoryIds: splitIds(formData.applicableCategoryIds),
+      isActive: formData.isActive,
+    }
+
+    if (mode === 'bulk') {
+      data.prefix = formData.prefix.trim()
+      data.count = Number(formData.count)
+      data.usageLimit = data.usageLimit ?? 1
+    } else {
+      data.code = formData.code.trim().toUpperCase()
+    }
+
+    await onSubmit(data)
+  }
+
+  const fieldClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500'
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {mode === 'single' ? (
+        <Input
+          label="Code"
+          value={formData.code}
+          onChange={(e) => handleInputChange('code', e.target.value.toUpperCase())}
+          error={errors.code}
+          placeholder="SUMMER10"
+        />
+      ) : (
+        <div className="grid grid-cols-2 gap-4">
+          <Input
+            label="Code Prefix"
+            value={formData.prefix}
+            onChange={(e) => handleInputChange('prefix', e.target.value.toUpperCase())}
+            error={errors.prefix}
+            placeholder="DASHAIN"
+          />
+          <Input
+            label="Number of Codes"
+            type="number"
+            value={formData.count}
+            onChange={(e) => handleInputChange('count', e.target.value)}
+            error={errors.count}
+          />
+        </div>
+      )}
+
+      <Input
+        label="Name"
+        value={formData.name}
+        onChange={(e) => handleInputChange('name', e.target.value)}
+        error={errors.name}
+        placeholder="Summer sale"
+      />
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+        <textarea
+          value={formData.description}
+          onChange={(e) => handleInputChange('description', e.target.value)}
+          rows={2}
+          className={fieldClass}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+          <select
+            value={formData.discountType}
+            onChange={(e) => handleInputChange('discountType', e.target.value)}
+            className={fieldClass}
+          >
+            <option value="PERCENTAGE">Percentage</option>
+            <option value="FIXED_AMOUNT">Fixed amount</option>
+          </select>
+        </div>
+        <Input
+          label={formData.discountType === 'PERCENTAGE' ? 'Percent Off' : 'Amount Off'}
+          type="number"
+          step="0.01"
+          value={formData.discountValue}
+          onChange={(e) => handleInputChange('discountValue', e.target.value)}
+          error={errors.discountValue}
+        />
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        <Input
+          label="Minimum Order"
+          type="number"
+          step="0.01"
+          value={formData.minimumOrderValue}
+          onChange={(e) => handleInputChange('minimumOrderValue', e.target.value)}
+        />
+        <Input
+          label="Maximum Discount"
+          type="number"
+          step="0.01"
+          value={formData.maximumDiscountAmount}
+          onChange={(e) => handleInputChange('maximumDiscountAmount', e.target.value)}
+        />
+        <Input
+          label={mode === 'bulk' ? 'Uses per Code' : 'Usage Limit'}
+          type="number"
+          value={formData.usageLimit}
+          onChange={(e) => handleInputChange('usageLimit', e.target.value)}
+          placeholder="Unlimited"
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <Input
+          label="Valid From"
+          type="date"
+          value={formData.validFrom}
+          onChange={(e) => handleInputChange('validFrom', e.target.value)}
+        />
+        <Input
+          label="Valid To"
+          type="date"
+          value={formData.validTo}
+          onChange={(e) => handleInputChange('validTo', e.target.value)}
+          error={errors.validTo}
+        />
+      </div>
+
+      <Input
+        label="Product IDs (optional, comma separated)"
+        value={formData.applicableProductIds}
+        onChange={(e) => handleInputChange('applicableProductIds', e.target.value)}
+      />
+      <Input
+        label="Category IDs (optional, comma separated)"
+        value={formData.applicableCategoryIds}
+        onChange={(e) => handleInputChange('applicableCategoryIds', e.target.value)}
+      />
+
+      <label className="flex items-center space-x-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={formData.isActive}
+          onChange={(e) => handleInputChange('isActive', e.target.checked)}
+          className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+        />
+        <span>Active</span>
+      </label>
+
+      <div className="flex justify-end space-x-3 pt-2">
+        <Button type="button" variant="outline" onClick={onCancel} disabled={loading}>
+          Cancel
+        </Button>
+        <Button type="submit" loading={loading}>
+          {mode === 'bulk' ? 'Generate Codes' : discount ? 'Save Changes' : 'Create Discount'}
+        </Button>
+      </div>
+    </form>
+  )
+}
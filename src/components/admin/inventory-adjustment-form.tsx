@@ -1,6 +1,6 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { XMarkIcon } from '@heroicons/react/24/outline'
 import Button from '@/components/ui/button'
 import Input from '@/components/ui/input'
@@ -12,6 +12,17 @@ type Product = {
   lowStockThreshold: number
 }
 
+type LocationStock = {
+  location: {
+    id: string
+    name: string
+    isActive: boolean
+    isDefault: boolean
+  }
+  quantity: number
+  inTransit: number
+}
+
 interface InventoryAdjustmentFormProps {
   product: Product
   onClose: () => void
@@ -33,6 +44,31 @@ export default function InventoryAdjustmentForm({ product, onClose, onSuccess }:
   })
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState('')
+  const [locationStock, setLocationStock] = useState<LocationStock[]>([])
+  const [locationId, setLocationId] = useState('')
+  const [onOrder, setOnOrder] = useState(0)
+
+  useEffect(() => {
+    const fetchLocationStock = async () => {
+      try {
+        const response = await fetch(`/api/inventory/stock?productId=${product.id}`)
+        if (response.ok) {
+          const data = await response.json()
+          const active = (data.stock as LocationStock[]).filter(entry => entry.location.isActive)
+          setLocationStock(active)
+          setLocationId((active.find(entry => entry.location.isDefault) || active[0])?.location.id || '')
+          setOnOrder(data.onOrder || 0)
+        }
+      } catch (err) {
+        // Falls back to adjusting the default location
+      }
+    }
+
+    fetchLocationStock()
+  }, [product.id])
+
+  // Stock at the chosen location, or the product total when locations aren't loaded
+  const currentStock = locationStock.find(entry => entry.location.id === locationId)?.quantity ?? product.inventory
 
   const handleInputChange = (field: string, value: string | number) => {
     setFormData(prev => ({ ...prev, [field]: value }))
@@ -53,9 +89,9 @@ export default function InventoryAdjustmentForm({ product, onClose, onSuccess }:
     }
 
     // Calculate new inventory level
-    const newInventory = product.inventory + formData.quantity
+    const newInventory = currentStock + formData.quantity
     if (newInventory < 0) {
-      setError(`Cannot reduce inventory below zero. Current: ${product.inventory}, Adjustment: ${formData.quantity}`)
+      setError(`Cannot reduce inventory below zero. Current: ${currentStock}, Adjustment: ${formData.quantity}`)
       return
     }
 
@@ -72,7 +108,8 @@ export default function InventoryAdjustmentForm({ product, onClose, onSuccess }:
           productId: product.id,
           quantity: formData.quantity,
           type: formData.type,
-          reason: formData.reason.trim()
+          reason: formData.reason.trim(),
+          locationId: locationId || undefined
         })
       })
 
@@ -90,7 +127,7 @@ export default function InventoryAdjustmentForm({ product, onClose, onSuccess }:
     }
   }
 
-  const newInventory = Math.max(0, product.inventory + formData.quantity)
+  const newInventory = Math.max(0, currentStock + formData.quantity)
 
   return (
     <div className="fixed inset-0 z-50 overflow-y-auto">
@@ -119,16 +156,57 @@ export default function InventoryAdjustmentForm({ product, onClose, onSuccess }:
               <div>
                 <span className="text-gray-500">Current Stock:</span>
                 <span className="ml-2 font-medium">{product.inventory}</span>
+                {onOrder > 0 && (
+                  <span className="ml-1 text-xs text-indigo-600">(+{onOrder} on order)</span>
+                )}
               </div>
               <div>
                 <span className="text-gray-500">Low Stock Threshold:</span>
                 <span className="ml-2 font-medium">{product.lowStockThreshold}</span>
               </div>
             </div>
+            {locationStock.length > 1 && (
+              <div className="mt-3 pt-3 border-t border-gray-200 space-y-1 text-sm">
+                {locationStock.map((entry) => (
+                  <div key={entry.location.id} className="flex justify-between">
+                    <span className="text-gray-500">{entry.location.name}</span>
+                    <span className="font-medium">
+                      {entry.quantity}
+                      {entry.inTransit > 0 && (
+                        <span className="ml-1 text-xs text-blue-600">(+{entry.inTransit} in transit)</span>
+                      )}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
 
           <form onSubmit={handleSubmit}>
             <div className="space-y-4">
+              {locationStock.length > 1 && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Location *
+                  </label>
+                  <select
+                    value={locationId}
+                    onChange={(e) => {
+                      setLocationId(e.target.value)
+                      if (error) setError('')
+                    }}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                    required
+                  >
+                    {locationStock.map((entry) => (
+                      <option key={entry.location.id} value={entry.location.id}>
+                        {entry.location.name} ({entry.quantity} in stock)
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   Adjustment Type *
@@ -145,6 +223,11 @@ export default function InventoryAdjustmentForm({ product, onClose, onSuccess }:
                     </option>
                   ))}
                 </select>
+                {formData.type === 'RESTOCK' && (
+                  <p className="mt-1 text-xs text-gray-500">
+                    Deliveries from a supplier should be received against their purchase order under Purchasing, so the cost is recorded.
+                  </p>
+                )}
               </div>
 
               <div>
@@ -181,7 +264,7 @@ export default function InventoryAdjustmentForm({ product, onClose, onSuccess }:
                 <div className="text-sm text-blue-800">
                   <div className="flex justify-between">
                     <span>Current Inventory:</span>
-                    <span className="font-medium">{product.inventory}</span>
+                    <span className="font-medium">{currentStock}</span>
                   </div>
                   <div className="flex justify-between">
                     <span>Adjustment:</span>
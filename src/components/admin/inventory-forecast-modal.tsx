@@ -1,57 +1,90 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { XMarkIcon, ArrowTrendingUpIcon } from '@heroicons/react/24/outline'
 import Button from '@/components/ui/button'
+import Loading from '@/components/ui/loading'
 import { formatPrice } from '@/lib/cart-utils'
+import type { ProductForecast } from '@/lib/inventory-forecast-service'
 
 type ForecastData = {
   date: string
   predictedSales: number
   predictedRevenue: number
   currentStock: number
-  recommendedRestock: number
+  belowReorderPoint: boolean
 }
 
 interface InventoryForecastModalProps {
+  productId: string
   productName: string
-  currentInventory: number
-  averageDailySales: number
-  averageSalePrice: number
   onClose: () => void
 }
 
-export default function InventoryForecastModal({ 
-  productName, 
-  currentInventory, 
-  averageDailySales, 
-  averageSalePrice,
-  onClose 
+const LEAD_TIME_SOURCES: Record<ProductForecast['leadTimeSource'], string> = {
+  override: 'set manually',
+  purchase_orders: 'from received purchase orders',
+  default: 'default, no purchase order received yet',
+}
+
+export default function InventoryForecastModal({
+  productId,
+  productName,
+  onClose
 }: InventoryForecastModalProps) {
   const [forecastPeriod, setForecastPeriod] = useState<number>(30) // days
+  const [forecast, setForecast] = useState<ProductForecast | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    const fetchForecast = async () => {
+      setLoading(true)
+      setError('')
+
+      try {
+        const response = await fetch(`/api/inventory/forecast?productId=${productId}&horizon=${forecastPeriod}`)
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}))
+          throw new Error(errorData.error || 'Failed to load forecast')
+        }
 
-  // Generate forecast data
+        const data = await response.json()
+        setForecast(data.forecast)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load forecast')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchForecast()
+  }, [productId, forecastPeriod])
+
+  // Roll the daily forecast up into weeks
   const generateForecastData = (): ForecastData[] => {
+    if (!forecast) {
+      return []
+    }
+
     const data: ForecastData[] = []
-    let currentStock = currentInventory
-    
-    for (let i = 1; i <= Math.ceil(forecastPeriod / 7); i++) {
-      const weeks = i
-      const days = weeks * 7
-      const predictedSales = Math.round(averageDailySales * days)
-      const predictedRevenue = predictedSales * averageSalePrice
-      currentStock = Math.max(0, currentInventory - predictedSales)
-      const recommendedRestock = currentStock <= 0 ? Math.ceil(predictedSales * 0.2) : 0 // 20% buffer
-      
+    let sold = 0
+
+    for (let start = 0; start < forecast.daily.length; start += 7) {
+      const weeks = start / 7 + 1
+      const demand = forecast.daily.slice(start, start + 7).reduce((sum, day) => sum + day.quantity, 0)
+      sold += demand
+      const currentStock = Math.max(0, Math.round(forecast.currentStock - sold))
+
       data.push({
         date: `${weeks} week${weeks > 1 ? 's' : ''}`,
-        predictedSales,
-        predictedRevenue,
+        predictedSales: Math.round(demand),
+        predictedRevenue: demand * forecast.price,
         currentStock,
-        recommendedRestock
+        belowReorderPoint: currentStock + forecast.onOrder <= forecast.reorderPoint,
       })
     }
-    
+
     return data
   }
 
@@ -70,9 +103,12 @@ export default function InventoryForecastModal({
               <h3 className="text-lg font-medium text-gray-900">
                 Inventory Forecast: {productName}
               </h3>
-              <p className="text-sm text-gray-500 mt-1">
-                Current stock: {currentInventory} units
-              </p>
+              {forecast && (
+                <p className="text-sm text-gray-500 mt-1">
+                  Current stock: {forecast.currentStock} units
+                  {forecast.onOrder > 0 && ` (+${forecast.onOrder} on order)`}
+                </p>
+              )}
             </div>
             <button
               onClick={onClose}
@@ -98,75 +134,106 @@ export default function InventoryForecastModal({
               </select>
             </div>
 
-            <div className="overflow-x-auto">
-              <table className="min-w-full divide-y divide-gray-200">
-                <thead className="bg-gray-50">
-                  <tr>
-                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                      Time Period
-                    </th>
-                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                      Predicted Sales
-                    </th>
-                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                      Revenue
-                    </th>
-                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                      Stock Level
-                    </th>
-                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                      Recommendation
-                    </th>
-                  </tr>
-                </thead>
-                <tbody className="bg-white divide-y divide-gray-200">
-                  {forecastData.map((forecast, index) => (
-                    <tr key={index} className={index % 2 === 0 ? 'bg-white' : 'bg-gray-50'}>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
-                        {forecast.date}
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                        {forecast.predictedSales}
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                        {formatPrice(forecast.predictedRevenue)}
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap">
-                        <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
-                          forecast.currentStock === 0 
-                            ? 'bg-red-100 text-red-800' 
-                            : forecast.currentStock <= 10 
-                              ? 'bg-yellow-100 text-yellow-800' 
-                              : 'bg-green-100 text-green-800'
-                        }`}>
-                          {forecast.currentStock}
-                        </span>
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                        {forecast.recommendedRestock > 0 ? (
-                          <div className="flex items-center">
-                            <ArrowTrendingUpIcon className="h-4 w-4 text-green-500 mr-1" />
-                            <span>Restock {forecast.recommendedRestock} units</span>
-                          </div>
-                        ) : (
-                          <span className="text-gray-500">Sufficient stock</span>
-                        )}
-                      </td>
+            {loading ? (
+              <div className="flex justify-center py-12">
+                <Loading size="lg" />
+              </div>
+            ) : error ? (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+                <p className="text-sm text-red-600">{error}</p>
+              </div>
+            ) : forecast && (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Time Period
+                      </th>
+                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Predicted Sales
+                      </th>
+                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Revenue
+                      </th>
+                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Stock Level
+                      </th>
+                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Recommendation
+                      </th>
                     </tr>
-                  ))}
-                </tbody>
-              </table>
-            </div>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {forecastData.map((row, index) => (
+                      <tr key={index} className={index % 2 === 0 ? 'bg-white' : 'bg-gray-50'}>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                          {row.date}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {row.predictedSales}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {formatPrice(row.predictedRevenue)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                            row.currentStock === 0
+                              ? 'bg-red-100 text-red-800'
+                              : row.belowReorderPoint
+                                ? 'bg-yellow-100 text-yellow-800'
+                                : 'bg-green-100 text-green-800'
+                          }`}>
+                            {row.currentStock}
+                          </span>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {row.belowReorderPoint ? (
+                            <div className="flex items-center">
+                              <ArrowTrendingUpIcon className="h-4 w-4 text-green-500 mr-1" />
+                              <span>Below reorder point</span>
+                            </div>
+                          ) : (
+                            <span className="text-gray-500">Sufficient stock</span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
           </div>
 
-          <div className="bg-blue-50 p-4 rounded-md mb-6">
-            <h4 className="text-sm font-medium text-blue-800 mb-2">Forecast Insights</h4>
-            <ul className="text-sm text-blue-700 list-disc pl-5 space-y-1">
-              <li>Average daily sales: {averageDailySales.toFixed(1)} units</li>
-              <li>Current stock will last approximately {(currentInventory / averageDailySales).toFixed(1)} days</li>
-              <li>Recommended safety stock: {Math.ceil(averageDailySales * 7)} units (1 week)</li>
-            </ul>
-          </div>
+          {forecast && !loading && !error && (
+            <div className="bg-blue-50 p-4 rounded-md mb-6">
+              <h4 className="text-sm font-medium text-blue-800 mb-2">Forecast Insights</h4>
+              <ul className="text-sm text-blue-700 list-disc pl-5 space-y-1">
+                <li>
+                  Average daily sales: {forecast.averageDailyDemand.toFixed(1)} units over the last {forecast.historyDays} days
+                  {forecast.trendPerDay !== 0 && (
+                    <>, {forecast.trendPerDay > 0 ? 'rising' : 'falling'} by {Math.abs(forecast.trendPerDay * 7).toFixed(1)} units a day each week</>
+                  )}
+                </li>
+                <li>
+                  {forecast.daysOfCover === null
+                    ? `Current stock lasts beyond the ${forecastPeriod} day forecast`
+                    : `Current stock will last approximately ${forecast.daysOfCover} days`}
+                </li>
+                <li>
+                  Lead time: {forecast.leadTimeDays} days ({LEAD_TIME_SOURCES[forecast.leadTimeSource]})
+                </li>
+                <li>
+                  Safety stock: {forecast.safetyStock} units, reorder point: {forecast.reorderPoint} units
+                </li>
+                <li>
+                  {forecast.suggestedOrderQuantity > 0
+                    ? `Order ${forecast.suggestedOrderQuantity} units now`
+                    : 'No reorder needed yet'}
+                </li>
+              </ul>
+            </div>
+          )}
 
           <div className="flex justify-end">
             <Button
@@ -180,4 +247,4 @@ export default function InventoryForecastModal({
       </div>
     </div>
   )
-}
\ No newline at end of file
+}
@@ -25,6 +25,11 @@ type InventoryAdjustmentWithProduct = {
     name: string
     slug: string
   }
+  location?: {
+    id: string
+    name: string
+    code: string
+  } | null
 }
 
 type PaginatedResponse<T> = {
@@ -94,9 +99,14 @@ export default function InventoryHistoryModal({ product, onClose }: InventoryHis
       case 'DAMAGED':
         return 'bg-red-100 text-red-800'
       case 'ORDER_RETURNED':
+      case 'RESERVATION_RELEASED':
         return 'bg-yellow-100 text-yellow-800'
       case 'MANUAL_ADJUSTMENT':
+      case 'STOCKTAKE':
         return 'bg-purple-100 text-purple-800'
+      case 'TRANSFER_OUT':
+      case 'TRANSFER_IN':
+        return 'bg-indigo-100 text-indigo-800'
       default:
         return 'bg-gray-100 text-gray-800'
     }
@@ -176,6 +186,9 @@ export default function InventoryHistoryModal({ product, onClose }: InventoryHis
                             <ClockIcon className="h-3 w-3 mr-1" />
                             {new Date(adjustment.createdAt).toLocaleString()}
                           </span>
+                          {adjustment.location && (
+                            <span>{adjustment.location.name}</span>
+                          )}
                           {adjustment.createdBy && (
                             <span>by {adjustment.createdBy}</span>
                           )}
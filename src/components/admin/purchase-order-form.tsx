@@ -0,0 +1,323 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { XMarkIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline'
+import Button from '@/components/ui/button'
+import Input from '@/components/ui/input'
+import Loading from '@/components/ui/loading'
+import { formatPrice } from '@/lib/cart-utils'
+import type { Product, Supplier } from '@/types'
+
+type StockLocationOption = {
+  id: string
+  name: string
+  isActive: boolean
+  isDefault: boolean
+}
+
+type OrderRow = {
+  productId: string
+  quantity: number
+  unitCost: number
+}
+
+interface PurchaseOrderFormProps {
+  suppliers: Supplier[]
+  onClose: () => void
+  onSuccess: () => void
+}
+
+export default function PurchaseOrderForm({ suppliers, onClose, onSuccess }: PurchaseOrderFormProps) {
+  const activeSuppliers = suppliers.filter(supplier => supplier.isActive)
+  const [products, setProducts] = useState<Product[]>([])
+  const [locations, setLocations] = useState<StockLocationOption[]>([])
+  const [supplierId, setSupplierId] = useState(activeSuppliers[0]?.id || '')
+  const [locationId, setLocationId] = useState('')
+  const [expectedAt, setExpectedAt] = useState('')
+  const [rows, setRows] = useState<OrderRow[]>([{ productId: '', quantity: 1, unitCost: 0 }])
+  const [notes, setNotes] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [fetchingProducts, setFetchingProducts] = useState(true)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    const fetchOptions = async () => {
+      try {
+        const [productsResponse, locationsResponse] = await Promise.all([
+          fetch('/api/products?limit=100'),
+          fetch('/api/inventory/locations'),
+        ])
+        if (productsResponse.ok) {
+          const data = await productsResponse.json()
+          setProducts(data.data)
+        }
+        if (locationsResponse.ok) {
+          const data = await locationsResponse.json()
+          const active = (data.locations as StockLocationOption[]).filter(location => location.isActive)
+          setLocations(active)
+          setLocationId((active.find(location => location.isDefault) || active[0])?.id || '')
+        }
+      } catch (err) {
+        setError('Failed to load products')
+      } finally {
+        setFetchingProducts(false)
+      }
+    }
+
+    fetchOptions()
+  }, [])
+
+  const updateRow = (index: number, changes: Partial<OrderRow>) => {
+    setRows(rows.map((row, i) => i === index ? { ...row, ...changes } : row))
+    if (error) setError('')
+  }
+
+  // Start from what the product last cost
+  const selectProduct = (index: number, productId: string) => {
+    const product = products.find(entry => entry.id === productId)
+    updateRow(index, { productId, unitCost: Number(product?.purchasePrice) || 0 })
+  }
+
+  const items = rows.filter(row => row.productId && row.quantity > 0)
+  const total = items.reduce((sum, row) => sum + row.quantity * row.unitCost, 0)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!supplierId) {
+      setError('Choose a supplier')
+      return
+    }
+
+    if (items.length === 0) {
+      setError('Add at least one product to order')
+      return
+    }
+
+    setLoading(true)
+    setError('')
+
+    try {
+      const response = await fetch('/api/inventory/purchase-orders', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          supplierId,
+          locationId: locationId || undefined,
+          expectedAt: expectedAt || undefined,
+          items: items.map(row => ({
+            productId: row.productId,
+            quantity: row.quantity,
+            unitCost: row.unitCost,
+          })),
+          notes: notes.trim() || undefined
+        })
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.details?.[0]?.message || errorData.error || 'Failed to create purchase order')
+      }
+
+      onSuccess()
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to create purchase order'
+      setError(errorMessage)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const selectClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500'
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-end justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity" onClick={onClose} />
+
+        <span className="hidden sm:inline-block sm:align-middle sm:h-screen">&#8203;</span>
+
+        <div className="inline-block align-bottom bg-white rounded-lg px-4 pt-5 pb-4 text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-3xl sm:w-full sm:p-6">
+          <div className="flex items-center justify-between mb-6">
+            <h3 className="text-lg font-medium text-gray-900">
+              New Purchase Order
+            </h3>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-500"
+            >
+              <XMarkIcon className="h-6 w-6" />
+            </button>
+          </div>
+
+          {fetchingProducts ? (
+            <div className="flex justify-center py-8">
+              <Loading size="md" />
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit}>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Supplier *
+                  </label>
+                  <select
+                    value={supplierId}
+                    onChange={(e) => setSupplierId(e.target.value)}
+                    className={selectClassName}
+                    required
+                  >
+                    <option value="">Select Supplier</option>
+                    {activeSuppliers.map((supplier) => (
+                      <option key={supplier.id} value={supplier.id}>{supplier.name}</option>
+                    ))}
+                  </select>
+                </div>
+                {locations.length > 1 && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Deliver To
+                    </label>
+                    <select
+                      value={locationId}
+                      onChange={(e) => setLocationId(e.target.value)}
+                      className={selectClassName}
+                    >
+                      {locations.map((location) => (
+                        <option key={location.id} value={location.id}>{location.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Expected By
+                  </label>
+                  <input
+                    type="date"
+                    value={expectedAt}
+                    onChange={(e) => setExpectedAt(e.target.value)}
+                    className={selectClassName}
+                  />
+                </div>
+              </div>
+
+              <div className="mb-4">
+                <div className="flex items-center justify-between mb-3">
+                  <h4 className="text-md font-medium text-gray-900">Products</h4>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setRows([...rows, { productId: '', quantity: 1, unitCost: 0 }])}
+                    className="flex items-center space-x-1"
+                  >
+                    <PlusIcon className="h-4 w-4" />
+                    <span>Add Row</span>
+                  </Button>
+                </div>
+
+                <div className="space-y-3">
+                  <div className="flex items-center space-x-3 text-xs font-medium text-gray-500">
+                    <div className="flex-1">Product</div>
+                    <div className="w-24">Quantity</div>
+                    <div className="w-32">Unit Cost</div>
+                    <div className="w-9" />
+                  </div>
+                  {rows.map((row, index) => (
+                    <div key={index} className="flex items-center space-x-3">
+                      <div className="flex-1">
+                        <select
+                          value={row.productId}
+                          onChange={(e) => selectProduct(index, e.target.value)}
+                          className={selectClassName}
+                        >
+                          <option value="">Select Product</option>
+                          {products.map((product) => (
+                            <option key={product.id} value={product.id}>{product.name}</option>
+                          ))}
+                        </select>
+                      </div>
+                      <div className="w-24">
+                        <Input
+                          type="number"
+                          min="1"
+                          value={row.quantity}
+                          onChange={(e) => updateRow(index, { quantity: parseInt(e.target.value) || 0 })}
+                        />
+                      </div>
+                      <div className="w-32">
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={row.unitCost}
+                          onChange={(e) => updateRow(index, { unitCost: parseFloat(e.target.value) || 0 })}
+                        />
+                      </div>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setRows(rows.filter((_, i) => i !== index))}
+                        className="text-red-600 hover:text-red-700"
+                        disabled={rows.length === 1}
+                      >
+                        <TrashIcon className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+                <p className="mt-3 text-sm text-right text-gray-700">
+                  Total: <span className="font-medium text-gray-900">{formatPrice(total)}</span>
+                </p>
+              </div>
+
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Notes
+                </label>
+                <textarea
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  rows={2}
+                  className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                  placeholder="Quotation number, payment terms..."
+                />
+                <p className="mt-1 text-xs text-gray-500">
+                  The order is saved as a draft. Its quantities count as on order once it is sent.
+                </p>
+              </div>
+
+              {error && (
+                <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md">
+                  <p className="text-sm text-red-600">{error}</p>
+                </div>
+              )}
+
+              <div className="flex justify-end space-x-3">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={onClose}
+                  disabled={loading}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  type="submit"
+                  loading={loading}
+                  disabled={loading}
+                >
+                  Save Draft
+                </Button>
+              </div>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
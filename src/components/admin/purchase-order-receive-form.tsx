@@ -0,0 +1,165 @@
+'use client'
+
+import { useState } from 'react'
+import { XMarkIcon } from '@heroicons/react/24/outline'
+import Button from '@/components/ui/button'
+import { formatPrice } from '@/lib/cart-utils'
+import { formatPurchaseOrderNumber, getOutstandingQuantity } from '@/lib/purchase-order-utils'
+import type { PurchaseOrderWithItems } from '@/types'
+
+interface PurchaseOrderReceiveFormProps {
+  purchaseOrder: PurchaseOrderWithItems
+  onClose: () => void
+  onSuccess: () => void
+}
+
+export default function PurchaseOrderReceiveForm({ purchaseOrder, onClose, onSuccess }: PurchaseOrderReceiveFormProps) {
+  const outstandingItems = purchaseOrder.items.filter(item => getOutstandingQuantity(item) > 0)
+  // Assume the whole outstanding quantity arrived; staff lower what didn't
+  const [quantities, setQuantities] = useState<Record<string, number>>(
+    Object.fromEntries(outstandingItems.map(item => [item.id, getOutstandingQuantity(item)]))
+  )
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+
+  const totalUnits = Object.values(quantities).reduce((sum, quantity) => sum + quantity, 0)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (totalUnits === 0) {
+      setError('Enter a received quantity for at least one item')
+      return
+    }
+
+    setLoading(true)
+    setError('')
+
+    try {
+      const response = await fetch(`/api/inventory/purchase-orders/${purchaseOrder.id}/receive`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          items: outstandingItems.map(item => ({
+            itemId: item.id,
+            quantity: quantities[item.id] || 0,
+          }))
+        })
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.details?.[0]?.message || errorData.error || 'Failed to receive stock')
+      }
+
+      onSuccess()
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to receive stock'
+      setError(errorMessage)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-end justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity" onClick={onClose} />
+
+        <span className="hidden sm:inline-block sm:align-middle sm:h-screen">&#8203;</span>
+
+        <div className="inline-block align-bottom bg-white rounded-lg px-4 pt-5 pb-4 text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-2xl sm:w-full sm:p-6">
+          <div className="flex items-center justify-between mb-6">
+            <div>
+              <h3 className="text-lg font-medium text-gray-900">
+                Receive {formatPurchaseOrderNumber(purchaseOrder.id)}
+              </h3>
+              <p className="text-sm text-gray-500">
+                {purchaseOrder.supplier.name}
+                {purchaseOrder.location && ` → ${purchaseOrder.location.name}`}
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-500"
+            >
+              <XMarkIcon className="h-6 w-6" />
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit}>
+            <table className="min-w-full text-sm mb-4">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="py-2 pr-4 font-medium">Product</th>
+                  <th className="py-2 pr-4 font-medium text-right">Ordered</th>
+                  <th className="py-2 pr-4 font-medium text-right">Received</th>
+                  <th className="py-2 pr-4 font-medium text-right">Unit Cost</th>
+                  <th className="py-2 font-medium text-right">Arrived Now</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {outstandingItems.map((item) => (
+                  <tr key={item.id}>
+                    <td className="py-2 pr-4 text-gray-900">
+                      {item.product.name}
+                      {item.product.sku && (
+                        <span className="block text-xs text-gray-500">{item.product.sku}</span>
+                      )}
+                    </td>
+                    <td className="py-2 pr-4 text-right">{item.quantityOrdered}</td>
+                    <td className="py-2 pr-4 text-right">{item.quantityReceived}</td>
+                    <td className="py-2 pr-4 text-right">{formatPrice(Number(item.unitCost))}</td>
+                    <td className="py-2 text-right">
+                      <input
+                        type="number"
+                        min="0"
+                        max={getOutstandingQuantity(item)}
+                        value={quantities[item.id] ?? 0}
+                        onChange={(e) => {
+                          setQuantities({ ...quantities, [item.id]: Math.max(0, parseInt(e.target.value) || 0) })
+                          if (error) setError('')
+                        }}
+                        className="w-20 px-2 py-1 border border-gray-300 rounded-md text-right focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <p className="mb-4 text-xs text-gray-500">
+              Received units are added to stock as a restock against this purchase order, and each product&apos;s purchase price is set to its unit cost.
+            </p>
+
+            {error && (
+              <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md">
+                <p className="text-sm text-red-600">{error}</p>
+              </div>
+            )}
+
+            <div className="flex justify-end space-x-3">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={onClose}
+                disabled={loading}
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                loading={loading}
+                disabled={loading || totalUnits === 0}
+              >
+                Receive {totalUnits} {totalUnits === 1 ? 'Unit' : 'Units'}
+              </Button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,183 @@
+'use client'
+
+import { useState } from 'react'
+import { XMarkIcon } from '@heroicons/react/24/outline'
+import Button from '@/components/ui/button'
+import Input from '@/components/ui/input'
+
+type StockLocation = {
+  id: string
+  name: string
+  code: string
+  city: string | null
+  isActive: boolean
+  isDefault: boolean
+  priority: number
+}
+
+interface StockLocationFormProps {
+  // Edits this location; adds a new one when missing
+  location?: StockLocation | null
+  onClose: () => void
+  onSuccess: () => void
+}
+
+export default function StockLocationForm({ location, onClose, onSuccess }: StockLocationFormProps) {
+  const [formData, setFormData] = useState({
+    name: location?.name || '',
+    code: location?.code || '',
+    city: location?.city || '',
+    priority: location?.priority ?? 0,
+    isActive: location?.isActive ?? true,
+    isDefault: location?.isDefault ?? false,
+  })
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+
+  const handleInputChange = (field: keyof typeof formData, value: string | number | boolean) => {
+    setFormData(prev => ({ ...prev, [field]: value }))
+    if (error) setError('')
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    setLoading(true)
+    setError('')
+
+    try {
+      const response = await fetch(location ? `/api/inventory/locations/${location.id}` : '/api/inventory/locations', {
+        method: location ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          ...formData,
+          name: formData.name.trim(),
+          code: formData.code.trim(),
+          city: formData.city.trim() || undefined,
+        })
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.details?.[0]?.message || errorData.error || 'Failed to save location')
+      }
+
+      onSuccess()
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to save location'
+      setError(errorMessage)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-end justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity" onClick={onClose} />
+
+        <span className="hidden sm:inline-block sm:align-middle sm:h-screen">&#8203;</span>
+
+        <div className="inline-block align-bottom bg-white rounded-lg px-4 pt-5 pb-4 text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-lg sm:w-full sm:p-6">
+          <div className="flex items-center justify-between mb-6">
+            <h3 className="text-lg font-medium text-gray-900">
+              {location ? 'Edit Location' : 'Add Location'}
+            </h3>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-500"
+            >
+              <XMarkIcon className="h-6 w-6" />
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit}>
+            <div className="space-y-4">
+              <Input
+                label="Name *"
+                value={formData.name}
+                onChange={(e) => handleInputChange('name', e.target.value)}
+                placeholder="e.g., Pokhara Shop"
+                required
+              />
+
+              <div className="grid grid-cols-2 gap-4">
+                <Input
+                  label="Code *"
+                  value={formData.code}
+                  onChange={(e) => handleInputChange('code', e.target.value)}
+                  placeholder="e.g., PKR-SHOP"
+                  required
+                />
+                <Input
+                  label="City"
+                  value={formData.city}
+                  onChange={(e) => handleInputChange('city', e.target.value)}
+                  placeholder="e.g., Pokhara"
+                />
+              </div>
+
+              <Input
+                label="Fulfillment Priority"
+                type="number"
+                min="0"
+                value={formData.priority}
+                onChange={(e) => handleInputChange('priority', parseInt(e.target.value) || 0)}
+                helperText="Orders ship from the lowest number that has everything in stock"
+              />
+
+              <div className="space-y-2">
+                <label className="flex items-center space-x-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={formData.isActive}
+                    onChange={(e) => handleInputChange('isActive', e.target.checked)}
+                    disabled={location?.isDefault}
+                    className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  <span>Active (fulfils orders)</span>
+                </label>
+                <label className="flex items-center space-x-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={formData.isDefault}
+                    onChange={(e) => handleInputChange('isDefault', e.target.checked)}
+                    disabled={location?.isDefault}
+                    className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  <span>Default location for stock entered without one</span>
+                </label>
+              </div>
+
+              {error && (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+                  <p className="text-sm text-red-600">{error}</p>
+                </div>
+              )}
+            </div>
+
+            <div className="flex justify-end space-x-3 mt-6">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={onClose}
+                disabled={loading}
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                loading={loading}
+                disabled={loading}
+              >
+                {location ? 'Save Location' : 'Add Location'}
+              </Button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,266 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { XMarkIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline'
+import Button from '@/components/ui/button'
+import Input from '@/components/ui/input'
+import Loading from '@/components/ui/loading'
+import { Product } from '@/types'
+
+type StockLocationOption = {
+  id: string
+  name: string
+  isActive: boolean
+}
+
+type TransferRow = {
+  productId: string
+  quantity: number
+}
+
+interface StockTransferFormProps {
+  locations: StockLocationOption[]
+  onClose: () => void
+  onSuccess: () => void
+}
+
+export default function StockTransferForm({ locations, onClose, onSuccess }: StockTransferFormProps) {
+  const activeLocations = locations.filter(location => location.isActive)
+  const [products, setProducts] = useState<Product[]>([])
+  const [fromLocationId, setFromLocationId] = useState(activeLocations[0]?.id || '')
+  const [toLocationId, setToLocationId] = useState(activeLocations[1]?.id || '')
+  const [rows, setRows] = useState<TransferRow[]>([{ productId: '', quantity: 1 }])
+  const [notes, setNotes] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [fetchingProducts, setFetchingProducts] = useState(true)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    const fetchProducts = async () => {
+      try {
+        const response = await fetch('/api/products?limit=100')
+        if (response.ok) {
+          const data = await response.json()
+          setProducts(data.data)
+        }
+      } catch (err) {
+        setError('Failed to load products')
+      } finally {
+        setFetchingProducts(false)
+      }
+    }
+
+    fetchProducts()
+  }, [])
+
+  const updateRow = (index: number, field: keyof TransferRow, value: string | number) => {
+    setRows(rows.map((row, i) => i === index ? { ...row, [field]: value } : row))
+    if (error) setError('')
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (fromLocationId === toLocationId) {
+      setError('Choose two different locations')
+      return
+    }
+
+    const items = rows.filter(row => row.productId && row.quantity > 0)
+    if (items.length === 0) {
+      setError('Add at least one product to transfer')
+      return
+    }
+
+    setLoading(true)
+    setError('')
+
+    try {
+      const response = await fetch('/api/inventory/transfers', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          fromLocationId,
+          toLocationId,
+          items,
+          notes: notes.trim() || undefined
+        })
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to create transfer')
+      }
+
+      onSuccess()
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to create transfer'
+      setError(errorMessage)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const selectClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500'
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-end justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity" onClick={onClose} />
+
+        <span className="hidden sm:inline-block sm:align-middle sm:h-screen">&#8203;</span>
+
+        <div className="inline-block align-bottom bg-white rounded-lg px-4 pt-5 pb-4 text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-2xl sm:w-full sm:p-6">
+          <div className="flex items-center justify-between mb-6">
+            <h3 className="text-lg font-medium text-gray-900">
+              Transfer Stock
+            </h3>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-500"
+            >
+              <XMarkIcon className="h-6 w-6" />
+            </button>
+          </div>
+
+          {fetchingProducts ? (
+            <div className="flex justify-center py-8">
+              <Loading size="md" />
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit}>
+              <div className="grid grid-cols-2 gap-4 mb-6">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    From *
+                  </label>
+                  <select
+                    value={fromLocationId}
+                    onChange={(e) => setFromLocationId(e.target.value)}
+                    className={selectClassName}
+                    required
+                  >
+                    {activeLocations.map((location) => (
+                      <option key={location.id} value={location.id}>{location.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    To *
+                  </label>
+                  <select
+                    value={toLocationId}
+                    onChange={(e) => setToLocationId(e.target.value)}
+                    className={selectClassName}
+                    required
+                  >
+                    <option value="">Select Location</option>
+                    {activeLocations.map((location) => (
+                      <option key={location.id} value={location.id}>{location.name}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div className="mb-4">
+                <div className="flex items-center justify-between mb-3">
+                  <h4 className="text-md font-medium text-gray-900">Products</h4>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setRows([...rows, { productId: '', quantity: 1 }])}
+                    className="flex items-center space-x-1"
+                  >
+                    <PlusIcon className="h-4 w-4" />
+                    <span>Add Row</span>
+                  </Button>
+                </div>
+
+                <div className="space-y-3">
+                  {rows.map((row, index) => (
+                    <div key={index} className="flex items-center space-x-3">
+                      <div className="flex-1">
+                        <select
+                          value={row.productId}
+                          onChange={(e) => updateRow(index, 'productId', e.target.value)}
+                          className={selectClassName}
+                        >
+                          <option value="">Select Product</option>
+                          {products.map((product) => (
+                            <option key={product.id} value={product.id}>{product.name}</option>
+                          ))}
+                        </select>
+                      </div>
+                      <div className="w-28">
+                        <Input
+                          type="number"
+                          min="1"
+                          value={row.quantity}
+                          onChange={(e) => updateRow(index, 'quantity', parseInt(e.target.value) || 0)}
+                        />
+                      </div>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setRows(rows.filter((_, i) => i !== index))}
+                        className="text-red-600 hover:text-red-700"
+                        disabled={rows.length === 1}
+                      >
+                        <TrashIcon className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Notes
+                </label>
+                <textarea
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  rows={2}
+                  className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                  placeholder="Courier, vehicle or anything the receiving location should know"
+                />
+                <p className="mt-1 text-xs text-gray-500">
+                  The stock stops being sellable as soon as it is sent and is added to the destination once received.
+                </p>
+              </div>
+
+              {error && (
+                <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md">
+                  <p className="text-sm text-red-600">{error}</p>
+                </div>
+              )}
+
+              <div className="flex justify-end space-x-3">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={onClose}
+                  disabled={loading}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  type="submit"
+                  loading={loading}
+                  disabled={loading}
+                >
+                  Send Stock
+                </Button>
+              </div>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -4,9 +4,12 @@ import { useEffect, useState } from 'react'
 import { useCartStore } from '@/stores/cart-store'
 import { getCartSummary, formatPrice } from '@/lib/cart-utils'
 import Loading from '@/components/ui/loading'
+import type { AppliedPromotion } from '@/lib/promotion-utils'
 
 interface CartSummary {
   subtotal: number
+  promotions?: AppliedPromotion[]
+  promotionDiscount?: number
   shipping: number
   tax: number
   total: number
@@ -126,6 +129,15 @@ export default function CartSummary() {
           </span>
         </div>
 
+        {summary.promotions?.map((promotion) => (
+          <div key={promotion.promotionId} className="flex justify-between text-sm">
+            <span className="text-gray-600">{promotion.name}</span>
+            <span className="font-medium text-green-600">
+              -{formatPrice(promotion.savings)}
+            </span>
+          </div>
+        ))}
+
         <div className="flex justify-between text-sm">
           <span className="text-gray-600">Shipping</span>
           <span className="font-medium text-gray-900">
@@ -154,6 +166,15 @@ export default function CartSummary() {
         </div>
       </div>
 
+      {/* Promotion Savings */}
+      {!!summary.promotionDiscount && summary.promotionDiscount > 0 && (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-3">
+          <p className="text-sm text-green-800 font-medium">
+            You save {formatPrice(summary.promotionDiscount)} with current promotions
+          </p>
+        </div>
+      )}
+
       {/* Savings Message */}
       {summary.shipping === 0 && summary.subtotal >= summary.freeShippingThreshold && (
         <div className="bg-green-50 border border-green-200 rounded-lg p-3">
@@ -2,7 +2,7 @@
 
 import { useState, useEffect } from 'react'
 import { useAuth } from '@/hooks/use-auth'
-import { PaymentMethod } from '@/lib/payment-gateways'
+import type { PaymentForm, PaymentMethod, PaymentQrCode } from '@/lib/payment-gateways/types'
 import { Address } from '@/types'
 import PaymentMethodSelector from './payment-method-selector'
 import Button from '@/components/ui/button'
@@ -23,7 +23,7 @@ interface CheckoutFormProps {
   isGuest?: boolean
   guestEmail?: string
   onGuestEmailChange?: (email: string) => void
-  onPaymentInitiate?: (method: PaymentMethod) => Promise<{ success: boolean; paymentUrl?: string; error?: string }>
+  onPaymentInitiate?: (method: PaymentMethod) => Promise<{ success: boolean; paymentUrl?: string; paymentForm?: PaymentForm; qrCode?: PaymentQrCode; transactionId?: string; error?: string }>
   customerInfo?: CustomerInfo
   onCustomerInfoChange?: (info: CustomerInfo) => void
   selectedAddress?: Address | null
@@ -43,6 +43,7 @@ export default function CheckoutForm({
 }: CheckoutFormProps) {
   const { user } = useAuth()
   const [selectedPaymentMethod, setSelectedPaymentMethod] = useState<PaymentMethod>('cod')
+  const [rememberPreferences, setRememberPreferences] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
   const [message, setMessage] = useState<string>('')
   const [internalCustomerInfo, setInternalCustomerInfo] = useState<CustomerInfo>({
@@ -72,6 +73,54 @@ export default function CheckoutForm({
     }
   }, [selectedAddress])
 
+  // Start signed-in customers on their preferred payment method
+  useEffect(() => {
+    if (!user?.id) return
+
+    const fetchPreferences = async () => {
+      try {
+        const response = await fetch('/api/auth/preferences')
+        if (response.ok) {
+          const data = await response.json()
+          if (data.preferredPaymentMethod) {
+            setSelectedPaymentMethod(data.preferredPaymentMethod)
+          }
+        }
+      } catch (err) {
+        console.error('Failed to load checkout preferences:', err)
+      }
+    }
+
+    fetchPreferences()
+  }, [user?.id])
+
+  const saveCheckoutPreferences = async () => {
+    if (!user?.id || !rememberPreferences) {
+      return
+    }
+
+    try {
+      await fetch('/api/auth/preferences', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          preferredPaymentMethod: selectedPaymentMethod,
+          defaultShippingAddress: {
+            fullName: customerInfo.name,
+            email: customerInfo.email,
+            phone: customerInfo.phone || undefined,
+            address: customerInfo.address,
+            city: customerInfo.city,
+            postalCode: customerInfo.postalCode,
+          },
+        }),
+      })
+    } catch (err) {
+      // Not worth failing the order over
+      console.error('Failed to save checkout preferences:', err)
+    }
+  }
+
   const handleSubmit = async (event: React.FormEvent) => {
     event.preventDefault()
 
@@ -90,6 +139,7 @@ export default function CheckoutForm({
 
     setIsLoading(true)
     setMessage('')
+    await saveCheckoutPreferences()
 
     try {
       if (selectedPaymentMethod === 'cod') {
@@ -100,9 +150,15 @@ export default function CheckoutForm({
         // For online payment methods, initiate payment
         const result = await onPaymentInitiate(selectedPaymentMethod)
         
-        if (result.success && result.paymentUrl) {
+        if (result.success && result.paymentForm) {
+          // Post the signed form to the payment gateway
+          submitPaymentForm(result.paymentForm)
+        } else if (result.success && result.paymentUrl) {
           // Redirect to payment gateway
           window.location.href = result.paymentUrl
+        } else if (result.success && result.qrCode) {
+          // QR payments are shown and polled under the selected payment method
+          setMessage('Scan the QR code under the payment method to complete your payment.')
         } else {
           throw new Error(result.error || 'Failed to initiate payment')
         }
@@ -311,7 +367,19 @@ export default function CheckoutForm({
           onMethodSelect={setSelectedPaymentMethod}
           orderTotal={orderTotal}
           disabled={isLoading}
+          onQrPaymentInitiate={onPaymentInitiate}
         />
+        {user?.id && (
+          <label className="flex items-center space-x-2 mt-3 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={rememberPreferences}
+              onChange={(e) => setRememberPreferences(e.target.checked)}
+              className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+            />
+            <span>Use this address and payment method by default next time</span>
+          </label>
+        )}
       </div>
 
       {/* Error Message */}
@@ -369,4 +437,21 @@ export default function CheckoutForm({
     </form>
     </div>
   )
-}
\ No newline at end of file
+}
+
+function submitPaymentForm({ action, fields }: PaymentForm) {
+  const form = document.createElement('form')
+  form.method = 'POST'
+  form.action = action
+
+  for (const [name, value] of Object.entries(fields)) {
+    const input = document.createElement('input')
+    input.type = 'hidden'
+    input.name = name
+    input.value = value
+    form.appendChild(input)
+  }
+
+  document.body.appendChild(form)
+  form.submit()
+}
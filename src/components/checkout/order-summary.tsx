@@ -5,15 +5,23 @@ import Image from 'next/image'
 import Link from 'next/link'
 import { CartItem } from '@/types'
 import { Card, CardContent, CardHeader } from '@/components/ui/card'
-import { getCartSummary, getCartSummaryWithSettings, formatPrice } from '@/lib/cart-utils'
+import { getCartSummary, formatPrice } from '@/lib/cart-utils'
 import Loading from '@/components/ui/loading'
+import type { AppliedPromotion } from '@/lib/promotion-utils'
 
 interface OrderSummaryProps {
   items: CartItem[]
+  discountCode?: string | null
+  onDiscountCodeChange?: (code: string | null) => void
 }
 
 interface CartSummary {
   subtotal: number
+  discount?: number
+  promotions?: AppliedPromotion[]
+  couponDiscount?: number
+  discountCode?: string | null
+  discountError?: string | null
   shipping: number
   tax: number
   total: number
@@ -24,10 +32,12 @@ interface CartSummary {
   shippingRate: number
 }
 
-export default function OrderSummary({ items }: OrderSummaryProps) {
+export default function OrderSummary({ items, discountCode, onDiscountCodeChange }: OrderSummaryProps) {
   const [summary, setSummary] = useState<CartSummary | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState('')
+  const [promoInput, setPromoInput] = useState('')
+  const [promoError, setPromoError] = useState('')
 
   useEffect(() => {
     if (!items || items.length === 0) {
@@ -36,7 +46,7 @@ export default function OrderSummary({ items }: OrderSummaryProps) {
       return
     }
     fetchCartSummary()
-  }, [items])
+  }, [items, discountCode])
 
   const fetchCartSummary = async () => {
     try {
@@ -56,6 +66,7 @@ export default function OrderSummary({ items }: OrderSummaryProps) {
             productId: item.productId,
             quantity: item.quantity,
           })),
+          discountCode: discountCode || undefined,
         }),
       })
       
@@ -68,6 +79,12 @@ export default function OrderSummary({ items }: OrderSummaryProps) {
       
       const data = await response.json()
       setSummary(data.summary)
+
+      // Drop a code the server rejected so checkout does not submit it
+      if (discountCode && data.summary.discountError) {
+        setPromoError(data.summary.discountError)
+        onDiscountCodeChange?.(null)
+      }
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to calculate order total'
       setError(errorMessage)
@@ -102,6 +119,19 @@ export default function OrderSummary({ items }: OrderSummaryProps) {
     }
   }
 
+  const handleApplyPromo = () => {
+    const code = promoInput.trim()
+    if (!code) return
+    setPromoError('')
+    onDiscountCodeChange?.(code.toUpperCase())
+  }
+
+  const handleRemovePromo = () => {
+    setPromoInput('')
+    setPromoError('')
+    onDiscountCodeChange?.(null)
+  }
+
   if (loading) {
     return (
       <Card className="sticky top-8">
@@ -189,6 +219,55 @@ export default function OrderSummary({ items }: OrderSummaryProps) {
           ))}
         </div>
 
+        {/* Promo Code */}
+        {onDiscountCodeChange && (
+          <div className="border-t border-gray-200 pt-4">
+            {summary.discountCode ? (
+              <div className="flex items-center justify-between bg-green-50 border border-green-200 rounded-lg p-3">
+                <span className="text-sm text-green-800 font-medium">
+                  Code {summary.discountCode} applied
+                </span>
+                <button
+                  type="button"
+                  onClick={handleRemovePromo}
+                  className="text-sm text-gray-600 hover:text-gray-900"
+                >
+                  Remove
+                </button>
+              </div>
+            ) : (
+              <div>
+                <div className="flex space-x-2">
+                  <input
+                    type="text"
+                    value={promoInput}
+                    onChange={(e) => setPromoInput(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') {
+                        e.preventDefault()
+                        handleApplyPromo()
+                      }
+                    }}
+                    placeholder="Promo code"
+                    className="flex-1 rounded-md border border-gray-300 px-3 py-2 text-sm uppercase focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                  />
+                  <button
+                    type="button"
+                    onClick={handleApplyPromo}
+                    disabled={!promoInput.trim()}
+                    className="rounded-md bg-gray-900 px-4 py-2 text-sm font-medium text-white hover:bg-gray-800 disabled:opacity-50"
+                  >
+                    Apply
+                  </button>
+                </div>
+                {promoError && (
+                  <p className="mt-2 text-sm text-red-600">{promoError}</p>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Pricing Breakdown */}
         <div className="border-t border-gray-200 pt-4 space-y-3">
           <div className="flex justify-between text-sm">
@@ -200,6 +279,26 @@ export default function OrderSummary({ items }: OrderSummaryProps) {
             </span>
           </div>
 
+          {summary.promotions?.map((promotion) => (
+            <div key={promotion.promotionId} className="flex justify-between text-sm">
+              <span className="text-gray-600">{promotion.name}</span>
+              <span className="font-medium text-green-600">
+                -{formatPrice(promotion.savings)}
+              </span>
+            </div>
+          ))}
+
+          {!!summary.couponDiscount && summary.couponDiscount > 0 && (
+            <div className="flex justify-between text-sm">
+              <span className="text-gray-600">
+                Discount{summary.discountCode ? ` (${summary.discountCode})` : ''}
+              </span>
+              <span className="font-medium text-green-600">
+                -{formatPrice(summary.couponDiscount)}
+              </span>
+            </div>
+          )}
+
           <div className="flex justify-between text-sm">
             <span className="text-gray-600">Shipping</span>
             <span className="font-medium text-gray-900">
@@ -1,14 +1,25 @@
 'use client'
 
-import { useState } from 'react'
-import Image from 'next/image'
-import { PaymentMethod, getAvailablePaymentMethods, getPaymentMethodInfo, formatCurrencyAmount } from '@/lib/payment-gateways'
+import { useEffect, useState } from 'react'
+import type { PaymentMethod } from '@/lib/payment-gateways/types'
+import { formatCurrency } from '@/lib/currency'
+import QrPaymentPanel, { type QrPaymentInitiation } from './qr-payment-panel'
 
 interface PaymentMethodSelectorProps {
   selectedMethod: PaymentMethod | null
   onMethodSelect: (method: PaymentMethod) => void
   orderTotal: number
   disabled?: boolean
+  // Starts the payment for methods paid by scanning a QR code
+  onQrPaymentInitiate?: (method: PaymentMethod) => Promise<QrPaymentInitiation>
+}
+
+interface PaymentMethodOption {
+  method: PaymentMethod
+  displayName: string
+  description: string
+  isOnline: boolean
+  isQr?: boolean
 }
 
 export default function PaymentMethodSelector({
@@ -16,8 +27,35 @@ export default function PaymentMethodSelector({
   onMethodSelect,
   orderTotal,
   disabled = false,
+  onQrPaymentInitiate,
 }: PaymentMethodSelectorProps) {
-  const paymentMethods = getAvailablePaymentMethods()
+  const [paymentMethods, setPaymentMethods] = useState<PaymentMethodOption[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const fetchPaymentMethods = async () => {
+      try {
+        const response = await fetch('/api/checkout/payment-methods')
+        if (response.ok) {
+          const data = await response.json()
+          setPaymentMethods(data.methods)
+        }
+      } catch (error) {
+        console.error('Failed to load payment methods:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchPaymentMethods()
+  }, [])
+
+  // Fall back to the first enabled method when the current choice is not offered
+  useEffect(() => {
+    if (paymentMethods.length > 0 && !paymentMethods.some(option => option.method === selectedMethod)) {
+      onMethodSelect(paymentMethods[0].method)
+    }
+  }, [paymentMethods, selectedMethod, onMethodSelect])
   
   const handleMethodChange = (method: PaymentMethod) => {
     if (!disabled) {
@@ -33,8 +71,14 @@ export default function PaymentMethodSelector({
       </p>
 
       <div className="space-y-3">
-        {paymentMethods.map((method) => {
-          const methodInfo = getPaymentMethodInfo(method)
+        {loading && (
+          <div className="h-16 rounded-lg bg-gray-100 animate-pulse" />
+        )}
+        {!loading && paymentMethods.length === 0 && (
+          <p className="text-sm text-red-600">No payment methods are available right now.</p>
+        )}
+        {paymentMethods.map((option) => {
+          const { method } = option
           const isSelected = selectedMethod === method
 
           return (
@@ -63,24 +107,7 @@ export default function PaymentMethodSelector({
 
                 {/* Payment Method Icon */}
                 <div className="flex-shrink-0">
-                  {method === 'esewa' && (
-                    <div className="w-12 h-8 bg-green-600 rounded flex items-center justify-center">
-                      <span className="text-white text-xs font-bold">eSewa</span>
-                    </div>
-                  )}
-                  {method === 'khalti' && (
-                    <div className="w-12 h-8 bg-purple-600 rounded flex items-center justify-center">
-                      <span className="text-white text-xs font-bold">Khalti</span>
-                    </div>
-                  )}
-                  {method === 'cod' && (
-                    <div className="w-12 h-8 bg-orange-600 rounded flex items-center justify-center">
-                      <svg className="w-5 h-5 text-white" fill="currentColor" viewBox="0 0 20 20">
-                        <path d="M4 4a2 2 0 00-2 2v1h16V6a2 2 0 00-2-2H4z" />
-                        <path fillRule="evenodd" d="M18 9H2v5a2 2 0 002 2h12a2 2 0 002-2V9zM4 13a1 1 0 011-1h1a1 1 0 110 2H5a1 1 0 01-1-1zm5-1a1 1 0 100 2h1a1 1 0 100-2H9z" clipRule="evenodd" />
-                      </svg>
-                    </div>
-                  )}
+                  <PaymentMethodIcon method={method} size="md" label={option.displayName} />
                 </div>
 
                 {/* Payment Method Info */}
@@ -88,13 +115,13 @@ export default function PaymentMethodSelector({
                   <div className="flex items-center justify-between">
                     <div>
                       <h4 className="text-sm font-medium text-gray-900">
-                        {methodInfo.displayName}
+                        {option.displayName}
                       </h4>
                       <p className="text-sm text-gray-500">
-                        {getPaymentMethodDescription(method)}
+                        {option.description}
                       </p>
                     </div>
-                    {methodInfo.isOnline && (
+                    {option.isOnline && (
                       <div className="flex-shrink-0">
                         <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
                           Online
@@ -120,7 +147,7 @@ export default function PaymentMethodSelector({
                   <div className="flex justify-between text-sm">
                     <span className="text-indigo-700">Order Total:</span>
                     <span className="font-semibold text-indigo-900">
-                      {formatCurrencyAmount(orderTotal)}
+                      {formatCurrency(orderTotal, 'NPR')}
                     </span>
                   </div>
                   {method === 'cod' && (
@@ -129,14 +156,17 @@ export default function PaymentMethodSelector({
                       Please keep the exact amount ready.
                     </p>
                   )}
-                  {method === 'esewa' && (
+                  {option.isQr && onQrPaymentInitiate ? (
+                    <QrPaymentPanel
+                      method={method}
+                      displayName={option.displayName}
+                      orderTotal={orderTotal}
+                      onInitiate={onQrPaymentInitiate}
+                      disabled={disabled}
+                    />
+                  ) : option.isOnline && (
                     <p className="mt-2 text-xs text-green-700">
-                      You will be redirected to eSewa to complete your payment securely.
-                    </p>
-                  )}
-                  {method === 'khalti' && (
-                    <p className="mt-2 text-xs text-purple-700">
-                      You will be redirected to Khalti to complete your payment securely.
+                      You will be redirected to {option.displayName} to complete your payment securely.
                     </p>
                   )}
                 </div>
@@ -173,17 +203,17 @@ export default function PaymentMethodSelector({
   )
 }
 
-function getPaymentMethodDescription(method: PaymentMethod): string {
-  const descriptions = {
-    esewa: 'Pay securely with your eSewa wallet',
-    khalti: 'Pay with Khalti wallet or mobile banking',
-    cod: 'Pay in cash when your order is delivered',
-  }
-  return descriptions[method] || ''
-}
-
 // Export payment method icons for use in other components
-export function PaymentMethodIcon({ method, size = 'sm' }: { method: PaymentMethod; size?: 'xs' | 'sm' | 'md' | 'lg' }) {
+export function PaymentMethodIcon({
+  method,
+  size = 'sm',
+  label,
+}: {
+  method: PaymentMethod
+  size?: 'xs' | 'sm' | 'md' | 'lg'
+  // Shown for gateways without a dedicated badge
+  label?: string
+}) {
   const sizeClasses = {
     xs: 'w-6 h-4',
     sm: 'w-8 h-6',
@@ -216,6 +246,10 @@ export function PaymentMethodIcon({ method, size = 'sm' }: { method: PaymentMeth
         </div>
       )
     default:
-      return null
+      return label ? (
+        <div className={`${className} bg-gray-600 px-1 truncate`}>
+          {label}
+        </div>
+      ) : null
   }
 }
\ No newline at end of file
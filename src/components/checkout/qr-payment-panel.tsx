@@ -0,0 +1,129 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { PaymentMethod, PaymentQrCode } from '@/lib/payment-gateways/types'
+import { formatCurrency } from '@/lib/currency'
+import Button from '@/components/ui/button'
+
+// How often the payment status is checked while the QR is on screen
+const POLL_INTERVAL_MS = 3000
+
+export interface QrPaymentInitiation {
+  success: boolean
+  qrCode?: PaymentQrCode
+  transactionId?: string
+  error?: string
+}
+
+interface QrPaymentPanelProps {
+  method: PaymentMethod
+  displayName: string
+  orderTotal: number
+  onInitiate: (method: PaymentMethod) => Promise<QrPaymentInitiation>
+  disabled?: boolean
+}
+
+export default function QrPaymentPanel({
+  method,
+  displayName,
+  orderTotal,
+  onInitiate,
+  disabled = false,
+}: QrPaymentPanelProps) {
+  const [qrCode, setQrCode] = useState<PaymentQrCode | null>(null)
+  const [reference, setReference] = useState<string | null>(null)
+  const [generating, setGenerating] = useState(false)
+  const [error, setError] = useState('')
+
+  // Poll until the payment settles, then hand over to the success page,
+  // which verifies it like any other gateway callback
+  useEffect(() => {
+    if (!reference) {
+      return
+    }
+
+    const params = new URLSearchParams({ method, reference })
+    const interval = setInterval(async () => {
+      try {
+        const response = await fetch(`/api/checkout/payment-status?${params.toString()}`)
+        if (!response.ok) {
+          return
+        }
+
+        const data = await response.json()
+        if (data.status === 'COMPLETED') {
+          clearInterval(interval)
+          window.location.href = `/checkout/success?${new URLSearchParams({ method, prn: reference }).toString()}`
+        } else if (data.status === 'FAILED') {
+          clearInterval(interval)
+          setQrCode(null)
+          setReference(null)
+          setError('The payment was not completed. Generate a new QR code to try again.')
+        }
+      } catch (err) {
+        console.error('Failed to check payment status:', err)
+      }
+    }, POLL_INTERVAL_MS)
+
+    return () => clearInterval(interval)
+  }, [method, reference])
+
+  const handleGenerate = async () => {
+    setGenerating(true)
+    setError('')
+
+    try {
+      const result = await onInitiate(method)
+      if (!result.success || !result.qrCode || !result.transactionId) {
+        throw new Error(result.error || 'Failed to generate QR code')
+      }
+
+      setQrCode(result.qrCode)
+      setReference(result.transactionId)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to generate QR code')
+    } finally {
+      setGenerating(false)
+    }
+  }
+
+  return (
+    <div className="mt-3 space-y-3" onClick={(e) => e.stopPropagation()}>
+      {error && (
+        <p className="text-xs text-red-700 bg-red-50 p-2 rounded">{error}</p>
+      )}
+
+      {qrCode ? (
+        <div className="flex flex-col items-center space-y-2">
+          <img
+            src={qrCode.image}
+            alt={`${displayName} payment QR code`}
+            className="w-48 h-48 bg-white p-2 rounded border border-indigo-200"
+            data-testid="qr-payment-code"
+          />
+          <p className="text-sm font-semibold text-indigo-900">
+            Pay {formatCurrency(orderTotal, 'NPR')}
+          </p>
+          <p className="text-xs text-gray-600 text-center">
+            Scan with any Fonepay or NepalPay banking app. This page updates once the payment goes through.
+          </p>
+          <div className="flex items-center text-xs text-indigo-700">
+            <span className="w-2 h-2 bg-indigo-500 rounded-full mr-2 animate-pulse"></span>
+            Waiting for payment...
+          </div>
+        </div>
+      ) : (
+        <Button
+          type="button"
+          size="sm"
+          onClick={handleGenerate}
+          disabled={disabled || generating}
+          loading={generating}
+          data-testid="qr-payment-generate"
+        >
+          Generate QR Code
+        </Button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,113 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import Button from '@/components/ui/button'
+import Modal from '@/components/ui/modal'
+import { useCartStore } from '@/stores/cart-store'
+import { formatPrice, type ReorderIssue } from '@/lib/cart-utils'
+import { Product } from '@/types'
+
+interface BuyAgainButtonProps {
+  orderId: string
+  variant?: 'primary' | 'outline'
+  size?: 'sm' | 'md'
+  className?: string
+}
+
+const describeIssue = (issue: ReorderIssue) => {
+  switch (issue.reason) {
+    case 'UNAVAILABLE':
+      return 'is no longer available'
+    case 'OUT_OF_STOCK':
+      return 'is out of stock'
+    case 'PARTIALLY_AVAILABLE':
+      return `only ${issue.addedQuantity} of ${issue.requestedQuantity} added, the rest is out of stock`
+    case 'REPRICED':
+      return `price changed from ${formatPrice(issue.previousPrice!)} to ${formatPrice(issue.currentPrice!)}`
+  }
+}
+
+export default function BuyAgainButton({ orderId, variant = 'outline', size = 'sm', className }: BuyAgainButtonProps) {
+  const router = useRouter()
+  const { addItem } = useCartStore()
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState('')
+  const [addedCount, setAddedCount] = useState(0)
+  const [issues, setIssues] = useState<ReorderIssue[]>([])
+  const [showReport, setShowReport] = useState(false)
+
+  const handleBuyAgain = async () => {
+    setSubmitting(true)
+    setError('')
+
+    try {
+      const response = await fetch(`/api/orders/${orderId}/reorder`, { method: 'POST' })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to add items to cart')
+      }
+
+      const added: Array<{ quantity: number; product: Product }> = data.added || []
+      added.forEach(item => addItem(item.product, item.quantity))
+
+      if (added.length > 0 && (data.issues || []).length === 0) {
+        router.push('/cart')
+        return
+      }
+
+      setAddedCount(added.length)
+      setIssues(data.issues || [])
+      setShowReport(true)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add items to cart')
+      setShowReport(true)
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <>
+      <Button variant={variant} size={size} className={className} onClick={handleBuyAgain} disabled={submitting}>
+        {submitting ? 'Adding to cart...' : 'Buy Again'}
+      </Button>
+
+      <Modal isOpen={showReport} onClose={() => setShowReport(false)} title="Buy Again" size="md">
+        <div className="space-y-4">
+          {error ? (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm">
+              {error}
+            </div>
+          ) : (
+            <>
+              <p className="text-sm text-gray-600">
+                {addedCount > 0
+                  ? `${addedCount} ${addedCount === 1 ? 'item was' : 'items were'} added to your cart. Some items have changed since you ordered them:`
+                  : 'None of the items from this order can be added to your cart right now:'}
+              </p>
+              <ul className="text-sm text-gray-700 space-y-1">
+                {issues.map((issue) => (
+                  <li key={`${issue.productId}-${issue.reason}`}>
+                    • <span className="font-medium">{issue.name}</span> {describeIssue(issue)}
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <Button type="button" variant="outline" onClick={() => setShowReport(false)}>
+              Close
+            </Button>
+            {!error && addedCount > 0 && (
+              <Button type="button" onClick={() => router.push('/cart')}>
+                Go to Cart
+              </Button>
+            )}
+          </div>
+        </div>
+      </Modal>
+    </>
+  )
+}
@@ -0,0 +1,146 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Button from '@/components/ui/button'
+import Modal from '@/components/ui/modal'
+import { formatPrice } from '@/lib/cart-utils'
+import {
+  CANCELLATION_REASON_LABELS,
+  DEFAULT_CANCELLABLE_STATUSES,
+  canCustomerCancel,
+} from '@/lib/order-cancellation'
+
+interface CancelOrderButtonProps {
+  orderId: string
+  status: string
+  // Guests confirm the email the order was placed with
+  guestEmail?: string
+  onCancelled?: (refundAmount: number) => void
+}
+
+export default function CancelOrderButton({ orderId, status, guestEmail, onCancelled }: CancelOrderButtonProps) {
+  const [cancellableStatuses, setCancellableStatuses] = useState<string[]>(DEFAULT_CANCELLABLE_STATUSES)
+  const [showForm, setShowForm] = useState(false)
+  const [reason, setReason] = useState('CHANGED_MIND')
+  const [comments, setComments] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      try {
+        const response = await fetch('/api/settings/public')
+        if (response.ok) {
+          const data = await response.json()
+          if (Array.isArray(data.settings?.customer_cancellable_statuses)) {
+            setCancellableStatuses(data.settings.customer_cancellable_statuses)
+          }
+        }
+      } catch (err) {
+        console.error('Failed to load cancellation settings:', err)
+      }
+    }
+
+    fetchSettings()
+  }, [])
+
+  if (!canCustomerCancel(status, cancellableStatuses)) {
+    return null
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSubmitting(true)
+    setError('')
+
+    try {
+      const response = await fetch(`/api/orders/${orderId}/cancel`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          reason,
+          comments: comments || undefined,
+          guestEmail,
+        }),
+      })
+
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to cancel order')
+      }
+
+      setShowForm(false)
+      if (data.refundAmount > 0) {
+        alert(`Your order has been cancelled. A refund of ${formatPrice(data.refundAmount)} has been initiated.`)
+      }
+      onCancelled?.(data.refundAmount || 0)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel order')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <>
+      <Button variant="danger" size="sm" onClick={() => setShowForm(true)}>
+        Cancel Order
+      </Button>
+
+      <Modal isOpen={showForm} onClose={() => setShowForm(false)} title="Cancel Order" size="md">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm">
+              {error}
+            </div>
+          )}
+
+          <p className="text-sm text-gray-600">
+            Cancelled items go back into stock. If you paid online, the full amount is refunded to your original payment method.
+          </p>
+
+          <fieldset>
+            <legend className="block text-sm font-medium text-gray-700 mb-2">Why are you cancelling?</legend>
+            <div className="space-y-2">
+              {Object.entries(CANCELLATION_REASON_LABELS).map(([value, label]) => (
+                <label key={value} className="flex items-center space-x-2 text-sm text-gray-700">
+                  <input
+                    type="radio"
+                    name="cancellation-reason"
+                    value={value}
+                    checked={reason === value}
+                    onChange={() => setReason(value)}
+                    className="text-indigo-600 focus:ring-indigo-500"
+                  />
+                  <span>{label}</span>
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Anything else? {reason === 'OTHER' ? '' : '(Optional)'}
+            </label>
+            <textarea
+              value={comments}
+              onChange={(e) => setComments(e.target.value)}
+              rows={3}
+              required={reason === 'OTHER'}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+            />
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <Button type="button" variant="outline" onClick={() => setShowForm(false)}>
+              Keep Order
+            </Button>
+            <Button type="submit" variant="danger" disabled={submitting}>
+              {submitting ? 'Cancelling...' : 'Cancel Order'}
+            </Button>
+          </div>
+        </form>
+      </Modal>
+    </>
+  )
+}
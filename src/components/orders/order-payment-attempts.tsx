@@ -0,0 +1,86 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardHeader } from '@/components/ui/card'
+import Loading from '@/components/ui/loading'
+import { formatPrice } from '@/lib/cart-utils'
+import { formatPaymentMethod } from '@/lib/order-pricing'
+import type { PaymentTransaction } from '@/types'
+
+interface OrderPaymentAttemptsProps {
+  orderId: string
+  // Refetch when the order changes, e.g. after a refund
+  currentStatus: string
+}
+
+const PAYMENT_STATUS_STYLES: Record<string, string> = {
+  INITIATED: 'bg-yellow-100 text-yellow-800',
+  COMPLETED: 'bg-green-100 text-green-800',
+  FAILED: 'bg-red-100 text-red-800',
+  EXPIRED: 'bg-gray-100 text-gray-800',
+}
+
+export default function OrderPaymentAttempts({ orderId, currentStatus }: OrderPaymentAttemptsProps) {
+  const [transactions, setTransactions] = useState<PaymentTransaction[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const fetchTransactions = async () => {
+      try {
+        const response = await fetch(`/api/orders/${orderId}/payments`)
+        if (response.ok) {
+          const data = await response.json()
+          setTransactions(data.transactions)
+        }
+      } catch (error) {
+        console.error('Failed to load payment attempts:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchTransactions()
+  }, [orderId, currentStatus])
+
+  if (!loading && transactions.length === 0) {
+    return null
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <h2 className="text-lg font-medium text-gray-900">Payment Attempts</h2>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loading size="md" />
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {transactions.map(transaction => (
+              <li key={transaction.id} className="py-3 first:pt-0 last:pb-0 text-sm">
+                <div className="flex justify-between gap-4">
+                  <span className="font-medium text-gray-900">
+                    {formatPaymentMethod(transaction.method)}
+                    <span className={`ml-2 inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${PAYMENT_STATUS_STYLES[transaction.status] || 'bg-gray-100 text-gray-800'}`}>
+                      {transaction.status}
+                    </span>
+                  </span>
+                  <span className="text-gray-900">{formatPrice(Number(transaction.amount), transaction.currency)}</span>
+                </div>
+                <p className="text-xs text-gray-500 font-mono break-all">
+                  {transaction.gatewayTransactionId || transaction.gatewayReference}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {new Date(transaction.createdAt).toLocaleString()}
+                  {transaction.errorMessage && ` · ${transaction.errorMessage}`}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
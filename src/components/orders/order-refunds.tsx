@@ -0,0 +1,353 @@
+'use client'
+
+import { useState } from 'react'
+import { Card, CardContent, CardHeader } from '@/components/ui/card'
+import Button from '@/components/ui/button'
+import Modal from '@/components/ui/modal'
+import { formatPrice } from '@/lib/cart-utils'
+import { REFUNDABLE_ORDER_STATUSES, summarizeRefunds } from '@/lib/refund-utils'
+import type { OrderWithItems, Refund } from '@/types'
+
+interface OrderRefundsProps {
+  order: OrderWithItems
+  // Admins can issue refunds from the order page
+  canIssueRefund?: boolean
+  onRefunded?: () => void
+}
+
+export const REFUND_METHOD_LABELS: Record<string, string> = {
+  ORIGINAL_PAYMENT: 'Original payment method',
+  CASH: 'Cash',
+  BANK_TRANSFER: 'Bank transfer',
+  STORE_CREDIT: 'Store credit',
+}
+
+// Refunds not yet paid back; customers see both as pending
+const REFUND_STATUS_STYLES: Record<string, string> = {
+  PROCESSING: 'bg-yellow-100 text-yellow-800',
+  MANUAL_REQUIRED: 'bg-red-100 text-red-800',
+}
+
+export default function OrderRefunds({ order, canIssueRefund = false, onRefunded }: OrderRefundsProps) {
+  const [showForm, setShowForm] = useState(false)
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState('')
+  const [formData, setFormData] = useState({
+    orderItemId: '',
+    quantity: 1,
+    amount: '',
+    reason: '',
+    method: 'ORIGINAL_PAYMENT',
+    reference: '',
+  })
+  const [completingRefund, setCompletingRefund] = useState<Refund | null>(null)
+  const [completionReference, setCompletionReference] = useState('')
+
+  const refunds = order.refunds || []
+  const summary = summarizeRefunds(order, refunds)
+  const canRefund = canIssueRefund && REFUNDABLE_ORDER_STATUSES.includes(order.status) && summary.remaining > 0
+
+  if (refunds.length === 0 && !canRefund) {
+    return null
+  }
+
+  const selectedItem = order.items.find(item => item.id === formData.orderItemId)
+
+  const openForm = () => {
+    setFormData({
+      orderItemId: '',
+      quantity: 1,
+      amount: '',
+      reason: '',
+      method: 'ORIGINAL_PAYMENT',
+      reference: '',
+    })
+    setError('')
+    setShowForm(true)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSubmitting(true)
+    setError('')
+
+    try {
+      const response = await fetch(`/api/orders/${order.id}/refunds`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          orderItemId: formData.orderItemId || undefined,
+          quantity: formData.orderItemId ? formData.quantity : undefined,
+          // Leave blank on line-item refunds to refund the item's share of the order
+          amount: formData.amount ? parseFloat(formData.amount) : undefined,
+          reason: formData.reason,
+          method: formData.method,
+          reference: formData.reference || undefined,
+        }),
+      })
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to issue refund')
+      }
+
+      setShowForm(false)
+      onRefunded?.()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to issue refund')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const openCompletion = (refund: Refund) => {
+    setCompletionReference('')
+    setError('')
+    setCompletingRefund(refund)
+  }
+
+  const handleComplete = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!completingRefund) return
+
+    setSubmitting(true)
+    setError('')
+
+    try {
+      const response = await fetch(`/api/orders/${order.id}/refunds/${completingRefund.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reference: completionReference }),
+      })
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to update refund')
+      }
+
+      setCompletingRefund(null)
+      onRefunded?.()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update refund')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-medium text-gray-900">Refunds</h2>
+          {canRefund && (
+            <Button size="sm" variant="outline" onClick={openForm}>
+              Issue Refund
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {refunds.length > 0 && (
+          <ul className="divide-y divide-gray-200 mb-4">
+            {refunds.map(refund => (
+              <li key={refund.id} className="py-3 first:pt-0 flex justify-between gap-4 text-sm">
+                <div>
+                  <p className="font-medium text-gray-900">{refund.reason}</p>
+                  <p className="text-gray-500 text-xs">
+                    {new Date(refund.createdAt).toLocaleDateString()}
+                    {' · '}{REFUND_METHOD_LABELS[refund.method] || refund.method}
+                    {refund.reference && ` · Ref ${refund.reference}`}
+                  </p>
+                  {refund.status !== 'COMPLETED' && (
+                    <p className="mt-1 text-xs">
+                      <span className={`inline-flex px-2 py-0.5 font-semibold rounded-full ${REFUND_STATUS_STYLES[refund.status] || 'bg-gray-100 text-gray-800'}`}>
+                        {canIssueRefund && refund.status === 'MANUAL_REQUIRED' ? 'Manual refund required' : 'Pending'}
+                      </span>
+                      {canIssueRefund && refund.failureReason && (
+                        <span className="ml-2 text-gray-500">{refund.failureReason}</span>
+                      )}
+                    </p>
+                  )}
+                </div>
+                <div className="text-right">
+                  <span className="font-medium text-gray-900 whitespace-nowrap">
+                    -{formatPrice(Number(refund.amount))}
+                  </span>
+                  {canIssueRefund && refund.status === 'MANUAL_REQUIRED' && (
+                    <Button size="sm" variant="outline" className="mt-2 block" onClick={() => openCompletion(refund)}>
+                      Mark Refunded
+                    </Button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="space-y-2 text-sm">
+          <div className="flex justify-between">
+            <span className="text-gray-600">Paid</span>
+            <span className="text-gray-900">{formatPrice(summary.captured)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-600">Refunded</span>
+            <span className="text-gray-900">-{formatPrice(summary.refunded)}</span>
+          </div>
+          <div className="flex justify-between border-t border-gray-200 pt-2 font-medium">
+            <span className="text-gray-900">Net Paid</span>
+            <span className="text-gray-900">{formatPrice(summary.captured - summary.refunded)}</span>
+          </div>
+        </div>
+      </CardContent>
+
+      <Modal isOpen={showForm} onClose={() => setShowForm(false)} title="Issue Refund" size="md">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm">
+              {error}
+            </div>
+          )}
+
+          <p className="text-sm text-gray-600">
+            Up to {formatPrice(summary.remaining)} can still be refunded.
+          </p>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Refund For</label>
+            <select
+              value={formData.orderItemId}
+              onChange={(e) => setFormData({ ...formData, orderItemId: e.target.value, quantity: 1 })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+            >
+              <option value="">A custom amount</option>
+              {order.items.map(item => (
+                <option key={item.id} value={item.id}>
+                  {item.product.name} (x{item.quantity})
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {selectedItem && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Quantity</label>
+                <input
+                  type="number"
+                  min={1}
+                  max={selectedItem.quantity}
+                  value={formData.quantity}
+                  onChange={(e) => setFormData({ ...formData, quantity: Math.max(1, Number(e.target.value)) })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                />
+              </div>
+            )}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Amount {selectedItem ? '(Optional)' : ''}
+              </label>
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                max={summary.remaining}
+                value={formData.amount}
+                onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                required={!selectedItem}
+                placeholder={selectedItem ? 'Item share of order' : ''}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+            <input
+              type="text"
+              value={formData.reason}
+              onChange={(e) => setFormData({ ...formData, reason: e.target.value })}
+              required
+              placeholder="e.g. Damaged in transit, shipping refund"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+            />
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Method</label>
+              <select
+                value={formData.method}
+                onChange={(e) => setFormData({ ...formData, method: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+              >
+                {Object.entries(REFUND_METHOD_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Reference (Optional)</label>
+              <input
+                type="text"
+                value={formData.reference}
+                onChange={(e) => setFormData({ ...formData, reference: e.target.value })}
+                placeholder="Transaction or voucher ID"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+              />
+              {formData.method === 'ORIGINAL_PAYMENT' && (
+                <p className="mt-1 text-xs text-gray-500">
+                  Leave blank to refund online payments through the payment gateway
+                </p>
+              )}
+            </div>
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <Button type="button" variant="outline" onClick={() => setShowForm(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={submitting}>
+              {submitting ? 'Refunding...' : 'Issue Refund'}
+            </Button>
+          </div>
+        </form>
+      </Modal>
+
+      <Modal isOpen={!!completingRefund} onClose={() => setCompletingRefund(null)} title="Mark Refunded" size="md">
+        <form onSubmit={handleComplete} className="space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm">
+              {error}
+            </div>
+          )}
+
+          <p className="text-sm text-gray-600">
+            Pay {completingRefund && formatPrice(Number(completingRefund.amount))} back to the customer outside the
+            payment gateway, then record how it was paid.
+          </p>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Reference</label>
+            <input
+              type="text"
+              value={completionReference}
+              onChange={(e) => setCompletionReference(e.target.value)}
+              required
+              placeholder="Bank transfer or wallet transaction ID"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+            />
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <Button type="button" variant="outline" onClick={() => setCompletingRefund(null)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={submitting}>
+              {submitting ? 'Saving...' : 'Mark Refunded'}
+            </Button>
+          </div>
+        </form>
+      </Modal>
+    </Card>
+  )
+}
@@ -0,0 +1,259 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Image from 'next/image'
+import { ArrowUturnLeftIcon } from '@heroicons/react/24/outline'
+import { Card, CardContent, CardHeader } from '@/components/ui/card'
+import Button from '@/components/ui/button'
+import Modal from '@/components/ui/modal'
+import ImageUpload from '@/components/ui/image-upload'
+import { formatPrice } from '@/lib/cart-utils'
+import type { OrderWithItems, ReturnRequestWithDetails } from '@/types'
+
+interface OrderReturnsProps {
+  order: OrderWithItems
+}
+
+export const RETURN_REASON_LABELS: Record<string, string> = {
+  DAMAGED: 'Arrived damaged',
+  WRONG_ITEM: 'Wrong item received',
+  NOT_AS_DESCRIBED: 'Not as described',
+  NO_LONGER_NEEDED: 'No longer needed',
+  OTHER: 'Other',
+}
+
+export const RETURN_STATUS_STYLES: Record<string, string> = {
+  REQUESTED: 'bg-yellow-100 text-yellow-800',
+  APPROVED: 'bg-blue-100 text-blue-800',
+  REJECTED: 'bg-red-100 text-red-800',
+  RECEIVED: 'bg-green-100 text-green-800',
+}
+
+const RETURNABLE_STATUSES = ['DELIVERED', 'PARTIALLY_REFUNDED']
+
+export default function OrderReturns({ order }: OrderReturnsProps) {
+  const [returns, setReturns] = useState<ReturnRequestWithDetails[]>([])
+  const [showForm, setShowForm] = useState(false)
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState('')
+  const [formData, setFormData] = useState({
+    orderItemId: order.items[0]?.id || '',
+    quantity: 1,
+    reason: 'DAMAGED',
+    comments: '',
+    images: [] as string[],
+  })
+
+  const fetchReturns = async () => {
+    try {
+      const response = await fetch(`/api/orders/${order.id}/returns`)
+      if (response.ok) {
+        const data = await response.json()
+        setReturns(data.returns)
+      }
+    } catch (err) {
+      console.error('Failed to load returns:', err)
+    }
+  }
+
+  useEffect(() => {
+    fetchReturns()
+  }, [order.id])
+
+  // Quantity still available to return per item, ignoring rejected requests
+  const getReturnableQuantity = (orderItemId: string) => {
+    const item = order.items.find(i => i.id === orderItemId)
+    if (!item) return 0
+    const requested = returns
+      .filter(r => r.orderItemId === orderItemId && r.status !== 'REJECTED')
+      .reduce((sum, r) => sum + r.quantity, 0)
+    return Math.max(0, item.quantity - requested)
+  }
+
+  const returnableItems = order.items.filter(item => getReturnableQuantity(item.id) > 0)
+  const canRequestReturn = RETURNABLE_STATUSES.includes(order.status) && returnableItems.length > 0
+
+  const openForm = () => {
+    setFormData({
+      orderItemId: returnableItems[0]?.id || '',
+      quantity: 1,
+      reason: 'DAMAGED',
+      comments: '',
+      images: [],
+    })
+    setError('')
+    setShowForm(true)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSubmitting(true)
+    setError('')
+
+    try {
+      const response = await fetch(`/api/orders/${order.id}/returns`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...formData,
+          comments: formData.comments || undefined,
+        }),
+      })
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to request return')
+      }
+
+      setShowForm(false)
+      fetchReturns()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to request return')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  if (!canRequestReturn && returns.length === 0) {
+    return null
+  }
+
+  const maxQuantity = getReturnableQuantity(formData.orderItemId)
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-medium text-gray-900">Returns</h2>
+          {canRequestReturn && (
+            <Button size="sm" variant="outline" onClick={openForm} className="flex items-center space-x-2">
+              <ArrowUturnLeftIcon className="h-4 w-4" />
+              <span>Request a Return</span>
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {returns.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            Not happy with an item? You can request a return for delivered items.
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {returns.map(returnRequest => (
+              <li key={returnRequest.id} className="py-3 first:pt-0 last:pb-0">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">
+                      {returnRequest.quantity} x {returnRequest.orderItem.product.name}
+                    </p>
+                    <p className="text-sm text-gray-600">
+                      {RETURN_REASON_LABELS[returnRequest.reason] || returnRequest.reason}
+                      {' · '}Refund {formatPrice(Number(returnRequest.refundAmount))}
+                    </p>
+                    {returnRequest.adminNotes && (
+                      <p className="text-xs text-gray-500 mt-1">{returnRequest.adminNotes}</p>
+                    )}
+                  </div>
+                  <span className={`px-2 py-1 text-xs font-medium rounded-full ${RETURN_STATUS_STYLES[returnRequest.status] || 'bg-gray-100 text-gray-800'}`}>
+                    {returnRequest.status}
+                  </span>
+                </div>
+                {returnRequest.images.length > 0 && (
+                  <div className="flex gap-2 mt-2">
+                    {returnRequest.images.map(url => (
+                      <Image key={url} src={url} alt="Return photo" width={48} height={48} className="w-12 h-12 rounded object-cover" />
+                    ))}
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+
+      <Modal isOpen={showForm} onClose={() => setShowForm(false)} title="Request a Return" size="lg">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm">
+              {error}
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Item</label>
+            <select
+              value={formData.orderItemId}
+              onChange={(e) => setFormData({ ...formData, orderItemId: e.target.value, quantity: 1 })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+            >
+              {returnableItems.map(item => (
+                <option key={item.id} value={item.id}>
+                  {item.product.name} ({getReturnableQuantity(item.id)} returnable)
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Quantity</label>
+              <input
+                type="number"
+                min={1}
+                max={maxQuantity}
+                value={formData.quantity}
+                onChange={(e) => setFormData({ ...formData, quantity: Math.min(maxQuantity, Math.max(1, Number(e.target.value))) })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+              <select
+                value={formData.reason}
+                onChange={(e) => setFormData({ ...formData, reason: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+              >
+                {Object.entries(RETURN_REASON_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Details {formData.reason === 'OTHER' ? '' : '(Optional)'}
+            </label>
+            <textarea
+              value={formData.comments}
+              onChange={(e) => setFormData({ ...formData, comments: e.target.value })}
+              rows={3}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+              placeholder="Tell us what went wrong..."
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Photos (Optional)</label>
+            <ImageUpload
+              images={formData.images}
+              onImagesChange={(images) => setFormData({ ...formData, images })}
+              maxImages={5}
+              uploadUrl="/api/returns/upload"
+            />
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <Button type="button" variant="outline" onClick={() => setShowForm(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={submitting || !formData.orderItemId}>
+              {submitting ? 'Submitting...' : 'Submit Request'}
+            </Button>
+          </div>
+        </form>
+      </Modal>
+    </Card>
+  )
+}
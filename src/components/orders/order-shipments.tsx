@@ -0,0 +1,240 @@
+'use client'
+
+import { useState } from 'react'
+import { Card, CardContent, CardHeader } from '@/components/ui/card'
+import Button from '@/components/ui/button'
+import Modal from '@/components/ui/modal'
+import { getUnshippedQuantities } from '@/lib/shipment-utils'
+import type { OrderWithItems } from '@/types'
+
+interface OrderShipmentsProps {
+  order: OrderWithItems
+  // Admins can create shipments and mark them delivered from the order page
+  canManage?: boolean
+  onChanged?: () => void
+}
+
+const SHIPPABLE_ORDER_STATUSES = ['PROCESSING', 'PARTIALLY_SHIPPED']
+
+export const SHIPMENT_STATUS_STYLES: Record<string, string> = {
+  SHIPPED: 'bg-purple-100 text-purple-800',
+  DELIVERED: 'bg-green-100 text-green-800',
+}
+
+export default function OrderShipments({ order, canManage = false, onChanged }: OrderShipmentsProps) {
+  const [showForm, setShowForm] = useState(false)
+  const [submitting, setSubmitting] = useState(false)
+  const [updatingId, setUpdatingId] = useState<string | null>(null)
+  const [error, setError] = useState('')
+  const [quantities, setQuantities] = useState<Record<string, number>>({})
+  const [carrier, setCarrier] = useState('')
+  const [trackingNumber, setTrackingNumber] = useState('')
+
+  const shipments = order.shipments || []
+  const unshipped = getUnshippedQuantities(order.items, shipments)
+  const canShip = canManage && SHIPPABLE_ORDER_STATUSES.includes(order.status) && Object.keys(unshipped).length > 0
+
+  if (shipments.length === 0 && !canShip) {
+    return null
+  }
+
+  const getItemName = (orderItemId: string) =>
+    order.items.find(item => item.id === orderItemId)?.product.name || 'Item'
+
+  const openForm = () => {
+    // Default to shipping everything that is left
+    setQuantities(unshipped)
+    setCarrier('')
+    setTrackingNumber('')
+    setError('')
+    setShowForm(true)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSubmitting(true)
+    setError('')
+
+    try {
+      const response = await fetch(`/api/orders/${order.id}/shipments`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          items: Object.entries(quantities)
+            .filter(([, quantity]) => quantity > 0)
+            .map(([orderItemId, quantity]) => ({ orderItemId, quantity })),
+          carrier: carrier || undefined,
+          trackingNumber: trackingNumber || undefined,
+        }),
+      })
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to create shipment')
+      }
+
+      setShowForm(false)
+      onChanged?.()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create shipment')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleMarkDelivered = async (shipmentId: string) => {
+    setUpdatingId(shipmentId)
+
+    try {
+      const response = await fetch(`/api/orders/${order.id}/shipments/${shipmentId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: 'DELIVERED' }),
+      })
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || 'Failed to update shipment')
+      }
+
+      onChanged?.()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to update shipment')
+    } finally {
+      setUpdatingId(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-medium text-gray-900">Shipments</h2>
+          {canShip && (
+            <Button size="sm" variant="outline" onClick={openForm}>
+              Create Shipment
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {shipments.length > 0 ? (
+          <ul className="divide-y divide-gray-200">
+            {shipments.map((shipment, index) => (
+              <li key={shipment.id} className="py-3 first:pt-0 last:pb-0">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="text-sm">
+                    <p className="font-medium text-gray-900">
+                      Shipment {index + 1}
+                      <span className={`ml-2 inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${SHIPMENT_STATUS_STYLES[shipment.status] || 'bg-gray-100 text-gray-800'}`}>
+                        {shipment.status}
+                      </span>
+                    </p>
+                    <p className="text-gray-500 text-xs">
+                      Shipped {new Date(shipment.shippedAt).toLocaleDateString()}
+                      {shipment.carrier && ` · ${shipment.carrier}`}
+                      {shipment.trackingNumber && ` · Tracking ${shipment.trackingNumber}`}
+                      {shipment.deliveredAt && ` · Delivered ${new Date(shipment.deliveredAt).toLocaleDateString()}`}
+                    </p>
+                    <ul className="mt-1 text-gray-700">
+                      {shipment.items.map(item => (
+                        <li key={item.id}>{getItemName(item.orderItemId)} x{item.quantity}</li>
+                      ))}
+                    </ul>
+                  </div>
+                  {canManage && shipment.status === 'SHIPPED' && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleMarkDelivered(shipment.id)}
+                      disabled={updatingId === shipment.id}
+                    >
+                      {updatingId === shipment.id ? 'Updating...' : 'Mark Delivered'}
+                    </Button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500">Nothing has shipped yet.</p>
+        )}
+
+        {shipments.length > 0 && Object.keys(unshipped).length > 0 && (
+          <p className="mt-4 text-sm text-gray-600">
+            Still to ship: {Object.entries(unshipped).map(([id, quantity]) => `${getItemName(id)} x${quantity}`).join(', ')}
+          </p>
+        )}
+      </CardContent>
+
+      <Modal isOpen={showForm} onClose={() => setShowForm(false)} title="Create Shipment" size="md">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm">
+              {error}
+            </div>
+          )}
+
+          <div>
+            <p className="block text-sm font-medium text-gray-700 mb-2">Items in this shipment</p>
+            <div className="space-y-2">
+              {Object.entries(unshipped).map(([orderItemId, remaining]) => (
+                <div key={orderItemId} className="flex items-center justify-between gap-4">
+                  <span className="text-sm text-gray-900">
+                    {getItemName(orderItemId)}
+                    <span className="text-gray-500"> ({remaining} left)</span>
+                  </span>
+                  <input
+                    type="number"
+                    min={0}
+                    max={remaining}
+                    value={quantities[orderItemId] ?? 0}
+                    onChange={(e) => setQuantities({
+                      ...quantities,
+                      [orderItemId]: Math.min(remaining, Math.max(0, Number(e.target.value))),
+                    })}
+                    className="w-20 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Carrier (Optional)</label>
+              <input
+                type="text"
+                value={carrier}
+                onChange={(e) => setCarrier(e.target.value)}
+                placeholder="e.g. Pathao, Nepal Post"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Tracking Number (Optional)</label>
+              <input
+                type="text"
+                value={trackingNumber}
+                onChange={(e) => setTrackingNumber(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <Button type="button" variant="outline" onClick={() => setShowForm(false)}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={submitting || !Object.values(quantities).some(quantity => quantity > 0)}
+            >
+              {submitting ? 'Creating...' : 'Create Shipment'}
+            </Button>
+          </div>
+        </form>
+      </Modal>
+    </Card>
+  )
+}
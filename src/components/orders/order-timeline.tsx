@@ -0,0 +1,162 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { CheckIcon, XMarkIcon } from '@heroicons/react/24/outline'
+import { Card, CardContent, CardHeader } from '@/components/ui/card'
+import Loading from '@/components/ui/loading'
+import type { OrderEvent } from '@/types'
+
+interface OrderTimelineProps {
+  orderId: string
+  currentStatus: string
+}
+
+const FULFILLMENT_STEPS = [
+  { status: 'PENDING', label: 'Placed' },
+  { status: 'PROCESSING', label: 'Processing' },
+  { status: 'SHIPPED', label: 'Shipped' },
+  { status: 'DELIVERED', label: 'Delivered' },
+]
+
+const TERMINAL_STATUSES = ['CANCELLED', 'REFUNDED']
+
+export default function OrderTimeline({ orderId, currentStatus }: OrderTimelineProps) {
+  const [events, setEvents] = useState<OrderEvent[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const fetchEvents = async () => {
+      try {
+        const response = await fetch(`/api/orders/${orderId}/tracking`)
+        if (response.ok) {
+          setEvents(await response.json())
+        }
+      } catch (error) {
+        console.error('Failed to load order timeline:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchEvents()
+  }, [orderId, currentStatus])
+
+  const formatDate = (date: string | Date) => {
+    return new Date(date).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    })
+  }
+
+  const isTerminated = TERMINAL_STATUSES.includes(currentStatus)
+  // Partially refunded orders were delivered; the returns section shows the rest.
+  // Partially shipped orders are still being fulfilled; the shipments section shows what left.
+  const stepStatus = currentStatus === 'PARTIALLY_REFUNDED'
+    ? 'DELIVERED'
+    : currentStatus === 'PARTIALLY_SHIPPED' ? 'PROCESSING' : currentStatus
+  const currentIndex = FULFILLMENT_STEPS.findIndex(step => step.status === stepStatus)
+
+  // When cancelled or refunded, the stepper stops at the last fulfillment step reached
+  const reachedIndex = isTerminated
+    ? Math.max(-1, ...events.map(event => FULFILLMENT_STEPS.findIndex(step => step.status === event.status)))
+    : currentIndex
+
+  const steps = isTerminated
+    ? [
+        ...FULFILLMENT_STEPS.slice(0, reachedIndex + 1),
+        { status: currentStatus, label: currentStatus === 'CANCELLED' ? 'Cancelled' : 'Refunded' },
+      ]
+    : FULFILLMENT_STEPS
+
+  const getStepEvent = (status: string) =>
+    [...events].reverse().find(event => event.status === status)
+
+  return (
+    <Card>
+      <CardHeader>
+        <h2 className="text-lg font-medium text-gray-900">Order Timeline</h2>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loading size="md" />
+          </div>
+        ) : (
+          <div className="space-y-8">
+            {/* Stepper */}
+            <ol className="flex items-start">
+              {steps.map((step, index) => {
+                const isTerminal = TERMINAL_STATUSES.includes(step.status)
+                const isComplete = isTerminal || index <= reachedIndex
+                const stepEvent = getStepEvent(step.status)
+
+                return (
+                  <li key={step.status} className="flex-1 relative">
+                    {index > 0 && (
+                      <div
+                        className={`absolute top-4 right-1/2 w-full h-0.5 ${
+                          isComplete ? (isTerminal ? 'bg-red-300' : 'bg-indigo-600') : 'bg-gray-200'
+                        }`}
+                      />
+                    )}
+                    <div className="relative flex flex-col items-center text-center">
+                      <span
+                        className={`w-8 h-8 rounded-full flex items-center justify-center ${
+                          isTerminal
+                            ? 'bg-red-600 text-white'
+                            : isComplete
+                            ? 'bg-indigo-600 text-white'
+                            : 'bg-white border-2 border-gray-300 text-gray-400'
+                        }`}
+                      >
+                        {isTerminal ? (
+                          <XMarkIcon className="h-4 w-4" />
+                        ) : isComplete ? (
+                          <CheckIcon className="h-4 w-4" />
+                        ) : (
+                          <span className="text-xs font-medium">{index + 1}</span>
+                        )}
+                      </span>
+                      <span className={`mt-2 text-xs font-medium ${isComplete ? 'text-gray-900' : 'text-gray-500'}`}>
+                        {step.label}
+                      </span>
+                      {stepEvent && (
+                        <span className="text-xs text-gray-500">{formatDate(stepEvent.createdAt)}</span>
+                      )}
+                    </div>
+                  </li>
+                )
+              })}
+            </ol>
+
+            {/* Event history */}
+            {events.length > 0 ? (
+              <ul className="space-y-4 border-t border-gray-200 pt-4">
+                {[...events].reverse().map(event => (
+                  <li key={event.id} className="flex justify-between gap-4 text-sm">
+                    <div>
+                      <p className="font-medium text-gray-900">{event.message}</p>
+                      {event.location && (
+                        <p className="text-gray-600">{event.location}</p>
+                      )}
+                      {(event.carrier || event.carrierReference) && (
+                        <p className="text-gray-500 text-xs">
+                          {[event.carrier, event.carrierReference].filter(Boolean).join(' · ')}
+                        </p>
+                      )}
+                    </div>
+                    <span className="text-gray-500 whitespace-nowrap">{formatDate(event.createdAt)}</span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-gray-500">No tracking updates yet.</p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
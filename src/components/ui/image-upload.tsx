@@ -12,6 +12,7 @@ interface ImageUploadProps {
   maxImages?: number
   maxFileSize?: number // in MB
   error?: string
+  uploadUrl?: string
 }
 
 export default function ImageUpload({ 
@@ -19,7 +20,8 @@ export default function ImageUpload({
   onImagesChange, 
   maxImages = 5, 
   maxFileSize = 5,
-  error 
+  error,
+  uploadUrl = '/api/upload'
 }: ImageUploadProps) {
   const [uploading, setUploading] = useState(false)
   const [dragActive, setDragActive] = useState(false)
@@ -57,7 +59,7 @@ export default function ImageUpload({
         formData.append('files', file)
       })
 
-      const response = await fetch('/api/upload', {
+      const response = await fetch(uploadUrl, {
         method: 'POST',
         body: formData,
       })
@@ -102,7 +104,7 @@ export default function ImageUpload({
     } finally {
       setUploading(false)
     }
-  }, [images, maxImages, maxFileSize, onImagesChange])
+  }, [images, maxImages, maxFileSize, onImagesChange, uploadUrl])
 
   const handleDrag = useCallback((e: React.DragEvent) => {
     e.preventDefault()
@@ -0,0 +1,148 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { z } from 'zod'
+import { createAdminHandler } from './auth-middleware'
+
+interface RouteParams {
+  params: Promise<{
+    id: string
+  }>
+}
+
+interface DeactivatableRepository<T, U> {
+  findById(id: string): Promise<T | null>
+  update(id: string, data: U): Promise<T>
+  deactivate(id: string): Promise<T>
+}
+
+interface DeactivatableResourceOptions<T, U> {
+  // Display name used in error messages, e.g. 'Discount'
+  resource: string
+  // Response body key, e.g. 'discount'
+  key: string
+  repository: DeactivatableRepository<T, U>
+  updateSchema: z.ZodType<U, z.ZodTypeDef, unknown>
+}
+
+/**
+ * GET, PUT and DELETE handlers for an admin `[id]` route whose records are
+ * deactivated rather than deleted, such as discounts and promotions.
+ */
+export function createDeactivatableResourceHandlers<T, U>({
+  resource,
+  key,
+  repository,
+  updateSchema,
+}: DeactivatableResourceOptions<T, U>) {
+  const notFoundMessage = `${resource} not found`
+
+  const GET = createAdminHandler<RouteParams>(async (
+    request: NextRequest,
+    context?: RouteParams
+  ) => {
+    if (!context) {
+      return NextResponse.json(
+        { error: 'Invalid route parameters' },
+        { status: 400 }
+      )
+    }
+
+    try {
+      const { id } = await context.params
+      const record = await repository.findById(id)
+
+      if (!record) {
+        return NextResponse.json(
+          { error: notFoundMessage },
+          { status: 404 }
+        )
+      }
+
+      return NextResponse.json({ [key]: record })
+
+    } catch (error) {
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      )
+    }
+  })
+
+  const PUT = createAdminHandler<RouteParams>(async (
+    request: NextRequest,
+    context?: RouteParams
+  ) => {
+    if (!context) {
+      return NextResponse.json(
+        { error: 'Invalid route parameters' },
+        { status: 400 }
+      )
+    }
+
+    try {
+      const { id } = await context.params
+      const body = await request.json()
+      const validationResult = updateSchema.safeParse(body)
+
+      if (!validationResult.success) {
+        return NextResponse.json(
+          {
+            error: 'Validation failed',
+            details: validationResult.error.issues
+          },
+          { status: 400 }
+        )
+      }
+
+      const record = await repository.update(id, validationResult.data)
+
+      return NextResponse.json({ [key]: record })
+
+    } catch (error) {
+      if (error instanceof Error) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: error.message === notFoundMessage ? 404 : 400 }
+        )
+      }
+
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      )
+    }
+  })
+
+  const DELETE = createAdminHandler<RouteParams>(async (
+    request: NextRequest,
+    context?: RouteParams
+  ) => {
+    if (!context) {
+      return NextResponse.json(
+        { error: 'Invalid route parameters' },
+        { status: 400 }
+      )
+    }
+
+    try {
+      const { id } = await context.params
+      const record = await repository.deactivate(id)
+
+      return NextResponse.json({ [key]: record })
+
+    } catch (error) {
+      if (error instanceof Error) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: error.message === notFoundMessage ? 404 : 500 }
+        )
+      }
+
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      )
+    }
+  })
+
+  return { GET, PUT, DELETE }
+}
@@ -1,7 +1,8 @@
 import { db } from '@/lib/db';
 import { cartItems, products, categories } from '@/lib/db/schema';
-import { eq, and, sql } from 'drizzle-orm';
+import { eq, and, inArray, sql } from 'drizzle-orm';
 import { ActivityTracker } from './activity-tracker';
+import { planReorder, type ReorderIssue } from './cart-utils';
 
 export interface CartItem {
   id: string;
@@ -31,6 +32,15 @@ export interface AddToCartData {
   sessionId?: string;
 }
 
+export interface ReorderResult {
+  added: Array<{
+    productId: string;
+    quantity: number;
+    product: CartItem['product'];
+  }>;
+  issues: ReorderIssue[];
+}
+
 export class CartRepository {
   /**
    * Add item to cart
@@ -150,6 +160,59 @@ export class CartRepository {
     }
   }
 
+  /**
+   * Put the items of a past order back into the cart, skipping or trimming
+   * the ones that can no longer be bought as ordered
+   */
+  static async addFromOrder(
+    orderItems: Array<{ productId: string; quantity: number; price: string | number; product?: { name: string } | null }>,
+    identifier: { userId: string } | { sessionId: string }
+  ): Promise<ReorderResult> {
+    const productIds = Array.from(new Set(orderItems.map(item => item.productId)));
+    if (productIds.length === 0) {
+      return { added: [], issues: [] };
+    }
+
+    const currentProducts = await db.select({
+      id: products.id,
+      name: products.name,
+      price: products.price,
+      discountPrice: products.discountPrice,
+      inventory: products.inventory,
+      isActive: products.isActive,
+    })
+    .from(products)
+    .where(inArray(products.id, productIds));
+
+    const cartQuantities: Record<string, number> = {};
+    const existingItems = await this.getCart(identifier);
+    existingItems.forEach(item => {
+      cartQuantities[item.productId] = item.quantity;
+    });
+
+    const { lines, issues } = planReorder(orderItems, currentProducts, cartQuantities);
+    const added: ReorderResult['added'] = [];
+
+    for (const line of lines) {
+      try {
+        const cartItem = await this.addToCart({ ...line, ...identifier });
+        added.push({ productId: line.productId, quantity: line.quantity, product: cartItem.product });
+      } catch (error) {
+        // Stock can sell out between planning and adding
+        const product = currentProducts.find(p => p.id === line.productId);
+        issues.push({
+          productId: line.productId,
+          name: product?.name || 'Unknown product',
+          reason: 'OUT_OF_STOCK',
+          requestedQuantity: line.quantity,
+          addedQuantity: 0,
+        });
+      }
+    }
+
+    return { added, issues };
+  }
+
   /**
    * Get cart items for user or session
    */
@@ -100,7 +100,13 @@ export function getCartSummary(items: CartItem[]) {
 
 // Async version that uses configurable settings from the database
 // This ensures shipping costs and thresholds are always synced with admin settings
-export async function getCartSummaryWithSettings(items: CartItem[]) {
+// Server-only modules are loaded lazily because this file is also used by client components
+export async function getCartSummaryWithSettings(
+  items: CartItem[],
+  options: { discountCode?: string | null; userId?: string | null } = {}
+) {
+  const { SettingsRepository } = await import('./settings-repository')
+
   const subtotal = calculateCartTotal(items)
   const itemsCount = calculateCartItemsCount(items)
   
@@ -108,17 +114,67 @@ export async function getCartSummaryWithSettings(items: CartItem[]) {
   const freeShippingThreshold = await SettingsRepository.getValue('free_shipping_threshold', 200)
   const shippingRate = await SettingsRepository.getValue('shipping_rate', 200)
   const taxRate = await SettingsRepository.getValue('tax_rate', 0.13)
-  
-  // Calculate shipping
+
+  const discountableItems = items.map(item => ({
+    productId: item.productId,
+    categoryId: (item.product as { categoryId?: string | null }).categoryId,
+    price: Number(item.product.discountPrice || item.product.price),
+    quantity: item.quantity,
+  }))
+
+  // Apply automatic promotions
+  const { promotionRepository } = await import('./promotion-repository')
+  const { applyPromotions } = await import('./promotion-utils')
+  const promotionResult = applyPromotions(await promotionRepository.findLive(), discountableItems)
+  const promotionDiscount = promotionResult.totalSavings
+
+  // Apply coupon code if one was provided, on top of any promotions
+  let couponDiscount = 0
+  let appliedDiscount: { id: string; code: string; name: string; discountType: string } | null = null
+  let discountError: string | null = null
+
+  if (options.discountCode && promotionResult.isExclusive) {
+    discountError = `Discount codes cannot be combined with the ${promotionResult.appliedPromotions[0].name} promotion`
+  } else if (options.discountCode) {
+    const { discountRepository } = await import('./discount-repository')
+    const result = await discountRepository.validateCode(options.discountCode, {
+      items: discountableItems,
+      subtotal,
+      userId: options.userId,
+    })
+
+    if (result.valid && result.discount) {
+      couponDiscount = Math.min(result.discountAmount, subtotal - promotionDiscount)
+      appliedDiscount = {
+        id: result.discount.id,
+        code: result.discount.code,
+        name: result.discount.name,
+        discountType: result.discount.discountType,
+      }
+    } else {
+      discountError = result.error || 'Invalid discount code'
+    }
+  }
+
+  const discount = promotionDiscount + couponDiscount
+
+  // Calculate shipping (free shipping is judged on the pre-discount subtotal)
   const shipping = subtotal >= freeShippingThreshold ? 0 : shippingRate
   
-  // Calculate tax
-  const tax = subtotal * taxRate
+  // Calculate tax on the discounted amount
+  const tax = (subtotal - discount) * taxRate
   
-  const total = subtotal + shipping + tax
+  const total = subtotal - discount + shipping + tax
 
   return {
     subtotal,
+    discount,
+    promotions: promotionResult.appliedPromotions,
+    promotionDiscount,
+    couponDiscount,
+    discountCode: appliedDiscount?.code || null,
+    appliedDiscount,
+    discountError,
     shipping,
     tax,
     total,
@@ -164,4 +220,93 @@ export function updateCartItemQuantities(items: CartItem[]): CartItem[] {
     ...item,
     quantity: Math.min(item.quantity, item.product.inventory)
   })).filter(item => item.quantity > 0)
-}
\ No newline at end of file
+}
+
+export type ReorderIssueReason = 'UNAVAILABLE' | 'OUT_OF_STOCK' | 'PARTIALLY_AVAILABLE' | 'REPRICED'
+
+export interface ReorderIssue {
+  productId: string
+  name: string
+  reason: ReorderIssueReason
+  requestedQuantity: number
+  addedQuantity: number
+  previousPrice?: number
+  currentPrice?: number
+}
+
+interface ReorderOrderItem {
+  productId: string
+  quantity: number
+  price: string | number
+  product?: { name: string } | null
+}
+
+interface ReorderProduct {
+  id: string
+  name: string
+  price: string | number
+  discountPrice?: string | number | null
+  inventory: number
+  isActive: boolean
+}
+
+/**
+ * Work out which items of a past order can go back into the cart. Stock
+ * already sitting in the cart counts against what is available, and every
+ * item that can't be added as ordered is reported with the reason.
+ */
+export function planReorder(
+  orderItems: ReorderOrderItem[],
+  products: ReorderProduct[],
+  cartQuantities: Record<string, number> = {}
+): { lines: Array<{ productId: string; quantity: number }>; issues: ReorderIssue[] } {
+  const productsById = new Map(products.map(product => [product.id, product]))
+  const requested = new Map<string, ReorderOrderItem>()
+
+  // An order can list the same product more than once
+  orderItems.forEach(item => {
+    const existing = requested.get(item.productId)
+    requested.set(item.productId, existing
+      ? { ...existing, quantity: existing.quantity + item.quantity }
+      : { ...item })
+  })
+
+  const lines: Array<{ productId: string; quantity: number }> = []
+  const issues: ReorderIssue[] = []
+
+  requested.forEach(item => {
+    const product = productsById.get(item.productId)
+    const issue = {
+      productId: item.productId,
+      name: product?.name || item.product?.name || 'Unknown product',
+      requestedQuantity: item.quantity,
+    }
+
+    if (!product || !product.isActive) {
+      issues.push({ ...issue, reason: 'UNAVAILABLE', addedQuantity: 0 })
+      return
+    }
+
+    const available = product.inventory - (cartQuantities[product.id] || 0)
+    if (available <= 0) {
+      issues.push({ ...issue, reason: 'OUT_OF_STOCK', addedQuantity: 0 })
+      return
+    }
+
+    const quantity = Math.min(item.quantity, available)
+    lines.push({ productId: product.id, quantity })
+
+    if (quantity < item.quantity) {
+      issues.push({ ...issue, reason: 'PARTIALLY_AVAILABLE', addedQuantity: quantity })
+    }
+
+    // Order lines keep the price before promotions, so compare it with the same
+    const previousPrice = Number(item.price)
+    const currentPrice = Number(product.discountPrice) || Number(product.price)
+    if (currentPrice !== previousPrice) {
+      issues.push({ ...issue, reason: 'REPRICED', addedQuantity: quantity, previousPrice, currentPrice })
+    }
+  })
+
+  return { lines, issues }
+}
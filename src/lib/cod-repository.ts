@@ -0,0 +1,191 @@
+import { db } from './db'
+import { codCollections, codRemittances, shipments, CodCollectionStatus } from './db/schema'
+import { eq, asc, desc, inArray, sql } from 'drizzle-orm'
+import type { CreateCodRemittanceInput, PaginationInput } from './validations'
+import type {
+  CodCollectionWithOrder,
+  CodRemittanceWithCollections,
+  Order,
+  PaginatedResponse,
+} from '@/types'
+import { summarizeOutstandingCod, type CourierCodSummary } from './cod-utils'
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0]
+type DbClient = typeof db | Transaction
+
+export interface CodOutstandingReport {
+  totalAmount: number
+  totalOrders: number
+  couriers: CourierCodSummary[]
+  // Oldest first
+  collections: CodCollectionWithOrder[]
+}
+
+const withOrders = {
+  collections: {
+    with: {
+      order: true,
+    },
+  },
+} as const
+
+export class CodRepository {
+  /**
+   * Record that the courier collected the cash for a delivered cash on
+   * delivery order. Falls back to the carrier of the order's latest
+   * shipment when the delivery didn't name one.
+   */
+  async recordCollection(
+    order: Pick<Order, 'id' | 'total' | 'paymentMethod'>,
+    courier: string | null,
+    client: DbClient = db
+  ): Promise<void> {
+    if (order.paymentMethod !== 'cod') {
+      return
+    }
+
+    let collectedBy = courier
+    if (!collectedBy) {
+      const [latest] = await client.select({ carrier: shipments.carrier })
+        .from(shipments)
+        .where(eq(shipments.orderId, order.id))
+        .orderBy(desc(shipments.shippedAt))
+        .limit(1)
+
+      collectedBy = latest?.carrier || null
+    }
+
+    await client.insert(codCollections)
+      .values({
+        orderId: order.id,
+        courier: collectedBy,
+        expectedAmount: order.total,
+      })
+      .onConflictDoNothing({ target: codCollections.orderId })
+  }
+
+  /**
+   * Cash collected on delivery that no courier has remitted yet
+   */
+  async getOutstandingReport(now: Date = new Date()): Promise<CodOutstandingReport> {
+    const collections = await db.query.codCollections.findMany({
+      where: eq(codCollections.status, CodCollectionStatus.COLLECTED),
+      with: {
+        order: true,
+      },
+      orderBy: [asc(codCollections.collectedAt)],
+    }) as CodCollectionWithOrder[]
+
+    const couriers = summarizeOutstandingCod(collections, now)
+
+    return {
+      totalAmount: couriers.reduce((sum, courier) => Math.round((sum + courier.amount) * 100) / 100, 0),
+      totalOrders: collections.length,
+      couriers,
+      collections,
+    }
+  }
+
+  async findRemittances(
+    pagination: PaginationInput = { page: 1, limit: 20 }
+  ): Promise<PaginatedResponse<CodRemittanceWithCollections>> {
+    const { page, limit } = pagination
+    const offset = (page - 1) * limit
+
+    const [data, [{ count: total }]] = await Promise.all([
+      db.query.codRemittances.findMany({
+        with: withOrders,
+        orderBy: [desc(codRemittances.depositedAt), desc(codRemittances.createdAt)],
+        limit,
+        offset,
+      }),
+      db.select({ count: sql<number>`count(*)::int` })
+        .from(codRemittances),
+    ])
+
+    return {
+      data: data as CodRemittanceWithCollections[],
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    }
+  }
+
+  async findRemittanceById(id: string): Promise<CodRemittanceWithCollections | null> {
+    const result = await db.query.codRemittances.findFirst({
+      where: eq(codRemittances.id, id),
+      with: withOrders,
+    })
+
+    return (result as CodRemittanceWithCollections) || null
+  }
+
+  /**
+   * Settle a courier's collected cash for the given orders against the
+   * amount it deposited. The batch is recorded even when the deposit falls
+   * short so the difference stays visible on the remittance.
+   */
+  async createRemittance(
+    data: CreateCodRemittanceInput,
+    createdBy: string | null
+  ): Promise<CodRemittanceWithCollections> {
+    const orderIds = Array.from(new Set(data.orderIds))
+    const depositedAt = data.depositedAt || new Date()
+
+    const remittance = await db.transaction(async (tx) => {
+      // Lock the collections so two batches cannot both settle an order
+      const collections = await tx.select()
+        .from(codCollections)
+        .where(inArray(codCollections.orderId, orderIds))
+        .for('update')
+
+      if (collections.length !== orderIds.length) {
+        throw new Error('Some orders have no cash on delivery collection')
+      }
+
+      for (const collection of collections) {
+        if (collection.status !== CodCollectionStatus.COLLECTED) {
+          throw new Error(`Order ${collection.orderId} has already been remitted`)
+        }
+
+        if (collection.courier && collection.courier !== data.courier) {
+          throw new Error(`Order ${collection.orderId} was collected by ${collection.courier}`)
+        }
+      }
+
+      const expectedAmount = collections.reduce((sum, collection) => sum + Number(collection.expectedAmount), 0)
+
+      const [created] = await tx.insert(codRemittances)
+        .values({
+          courier: data.courier!,
+          reference: data.reference || null,
+          expectedAmount: expectedAmount.toFixed(2),
+          depositedAmount: data.depositedAmount!.toFixed(2),
+          depositedAt,
+          notes: data.notes || null,
+          createdBy,
+        })
+        .returning()
+
+      await tx.update(codCollections)
+        .set({
+          status: CodCollectionStatus.REMITTED,
+          // Collections delivered without a courier on record take the batch's
+          courier: data.courier,
+          remittanceId: created.id,
+          remittedAt: depositedAt,
+          updatedAt: new Date(),
+        })
+        .where(inArray(codCollections.orderId, orderIds))
+
+      return created
+    })
+
+    return (await this.findRemittanceById(remittance.id))!
+  }
+}
+
+export const codRepository = new CodRepository()
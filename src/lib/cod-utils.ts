@@ -0,0 +1,82 @@
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// How long cash has been with the courier, for the outstanding COD report
+export const COD_AGE_BUCKETS = [
+  { label: '0-7 days', maxDays: 7 },
+  { label: '8-14 days', maxDays: 14 },
+  { label: '15-30 days', maxDays: 30 },
+  { label: 'Over 30 days', maxDays: Infinity },
+] as const
+
+// Shown for collections delivered without a courier on record
+export const UNASSIGNED_COURIER = 'Unassigned'
+
+interface OutstandingCodLike {
+  courier: string | null
+  expectedAmount: string | number
+  collectedAt: Date | string
+}
+
+export interface CourierCodSummary {
+  courier: string
+  orders: number
+  amount: number
+  oldestDays: number
+  // Amount outstanding per COD_AGE_BUCKETS entry
+  buckets: number[]
+}
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100
+
+/**
+ * Whole days since the courier collected the cash
+ */
+export function getCodAgeInDays(collectedAt: Date | string, now: Date = new Date()): number {
+  return Math.max(0, Math.floor((now.getTime() - new Date(collectedAt).getTime()) / DAY_MS))
+}
+
+export function getCodAgeBucketIndex(days: number): number {
+  return COD_AGE_BUCKETS.findIndex(bucket => days <= bucket.maxDays)
+}
+
+/**
+ * Cash still held by each courier, grouped by how long it has been
+ * outstanding; couriers owing the most come first
+ */
+export function summarizeOutstandingCod(
+  collections: OutstandingCodLike[],
+  now: Date = new Date()
+): CourierCodSummary[] {
+  const byCourier = new Map<string, CourierCodSummary>()
+
+  for (const collection of collections) {
+    const courier = collection.courier || UNASSIGNED_COURIER
+    const summary = byCourier.get(courier) || {
+      courier,
+      orders: 0,
+      amount: 0,
+      oldestDays: 0,
+      buckets: COD_AGE_BUCKETS.map(() => 0),
+    }
+
+    const amount = Number(collection.expectedAmount)
+    const days = getCodAgeInDays(collection.collectedAt, now)
+    const bucket = getCodAgeBucketIndex(days)
+
+    summary.orders += 1
+    summary.amount = roundAmount(summary.amount + amount)
+    summary.oldestDays = Math.max(summary.oldestDays, days)
+    summary.buckets[bucket] = roundAmount(summary.buckets[bucket] + amount)
+
+    byCourier.set(courier, summary)
+  }
+
+  return Array.from(byCourier.values()).sort((a, b) => b.amount - a.amount)
+}
+
+/**
+ * Deposited minus expected cash; negative when the courier remitted short
+ */
+export function getRemittanceDifference(expectedAmount: string | number, depositedAmount: string | number): number {
+  return roundAmount(Number(depositedAmount) - Number(expectedAmount))
+}
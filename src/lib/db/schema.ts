@@ -11,9 +11,11 @@ export const Role = {
 export const OrderStatus = {
   PENDING: 'PENDING',
   PROCESSING: 'PROCESSING',
+  PARTIALLY_SHIPPED: 'PARTIALLY_SHIPPED',
   SHIPPED: 'SHIPPED',
   DELIVERED: 'DELIVERED',
   CANCELLED: 'CANCELLED',
+  PARTIALLY_REFUNDED: 'PARTIALLY_REFUNDED',
   REFUNDED: 'REFUNDED',
 } as const;
 
@@ -30,6 +32,10 @@ export const InventoryChangeType = {
   DAMAGED: 'DAMAGED',
   ORDER_PLACED: 'ORDER_PLACED',
   ORDER_RETURNED: 'ORDER_RETURNED',
+  RESERVATION_RELEASED: 'RESERVATION_RELEASED',
+  TRANSFER_OUT: 'TRANSFER_OUT',
+  TRANSFER_IN: 'TRANSFER_IN',
+  STOCKTAKE: 'STOCKTAKE',
   INITIAL: 'INITIAL',
   OTHER: 'OTHER',
 } as const;
@@ -46,6 +52,98 @@ export const DiscountType = {
   FIXED_AMOUNT: 'FIXED_AMOUNT',
 } as const;
 
+export const PromotionType = {
+  BUY_X_GET_Y: 'BUY_X_GET_Y',
+  SPEND_THRESHOLD: 'SPEND_THRESHOLD',
+  CATEGORY_SALE: 'CATEGORY_SALE',
+  TIERED_QUANTITY: 'TIERED_QUANTITY',
+} as const;
+
+export const ReturnStatus = {
+  REQUESTED: 'REQUESTED',
+  APPROVED: 'APPROVED',
+  REJECTED: 'REJECTED',
+  RECEIVED: 'RECEIVED',
+} as const;
+
+export const ReturnReason = {
+  DAMAGED: 'DAMAGED',
+  WRONG_ITEM: 'WRONG_ITEM',
+  NOT_AS_DESCRIBED: 'NOT_AS_DESCRIBED',
+  NO_LONGER_NEEDED: 'NO_LONGER_NEEDED',
+  OTHER: 'OTHER',
+} as const;
+
+export const CancellationReason = {
+  CHANGED_MIND: 'CHANGED_MIND',
+  ORDERED_BY_MISTAKE: 'ORDERED_BY_MISTAKE',
+  FOUND_BETTER_PRICE: 'FOUND_BETTER_PRICE',
+  DELIVERY_TOO_SLOW: 'DELIVERY_TOO_SLOW',
+  OTHER: 'OTHER',
+} as const;
+
+export const RefundMethod = {
+  ORIGINAL_PAYMENT: 'ORIGINAL_PAYMENT',
+  CASH: 'CASH',
+  BANK_TRANSFER: 'BANK_TRANSFER',
+  STORE_CREDIT: 'STORE_CREDIT',
+} as const;
+
+export const RefundStatus = {
+  PROCESSING: 'PROCESSING', // Sent to the payment gateway
+  COMPLETED: 'COMPLETED',
+  MANUAL_REQUIRED: 'MANUAL_REQUIRED', // The gateway couldn't refund it; an admin has to pay it back
+} as const;
+
+export const ShipmentStatus = {
+  SHIPPED: 'SHIPPED',
+  DELIVERED: 'DELIVERED',
+} as const;
+
+export const CodCollectionStatus = {
+  COLLECTED: 'COLLECTED', // Cash taken by the courier on delivery
+  REMITTED: 'REMITTED', // Deposited to us as part of a remittance batch
+} as const;
+
+export const PaymentTransactionStatus = {
+  INITIATED: 'INITIATED',
+  COMPLETED: 'COMPLETED',
+  FAILED: 'FAILED',
+  EXPIRED: 'EXPIRED', // Abandoned at the gateway, closed by reconciliation
+} as const;
+
+export const InventoryReservationStatus = {
+  HELD: 'HELD', // Taken out of stock while the customer pays online
+  CONSUMED: 'CONSUMED', // The paid order was created from it
+  RELEASED: 'RELEASED', // Put back after the payment failed or the hold timed out
+} as const;
+
+export const DiscountReservationStatus = {
+  HELD: 'HELD', // Counted against the code while the customer pays online
+  CONSUMED: 'CONSUMED', // Redeemed by the paid order
+  RELEASED: 'RELEASED', // Given back after the payment failed or expired
+} as const;
+
+export const StockTransferStatus = {
+  IN_TRANSIT: 'IN_TRANSIT', // Left the source location, not sellable until received
+  RECEIVED: 'RECEIVED',
+  CANCELLED: 'CANCELLED', // Called back; the stock returned to the source location
+} as const;
+
+export const PurchaseOrderStatus = {
+  DRAFT: 'DRAFT',
+  SENT: 'SENT', // Placed with the supplier; its outstanding quantities count as on order
+  PARTIALLY_RECEIVED: 'PARTIALLY_RECEIVED',
+  RECEIVED: 'RECEIVED',
+  CANCELLED: 'CANCELLED', // Anything not yet received is no longer expected
+} as const;
+
+export const StocktakeStatus = {
+  COUNTING: 'COUNTING',
+  POSTED: 'POSTED', // Variances booked into stock; the counts can no longer change
+  CANCELLED: 'CANCELLED',
+} as const;
+
 export const ActivityType = {
   VIEW: 'VIEW',
   CART_ADD: 'CART_ADD',
@@ -69,6 +167,9 @@ export const users = pgTable('users', {
   image: text('image'),
   resetToken: text('resetToken'),
   resetTokenExpiry: timestamp('resetTokenExpiry'),
+  // Checkout defaults for returning customers
+  preferredPaymentMethod: text('preferredPaymentMethod'),
+  defaultShippingAddress: json('defaultShippingAddress'),
   createdAt: timestamp('createdAt').notNull().defaultNow(),
   updatedAt: timestamp('updatedAt').notNull().defaultNow(),
 });
@@ -188,9 +289,22 @@ export const orders = pgTable('orders', {
   status: text('status').notNull().default(OrderStatus.PENDING),
   trackingNumber: text('trackingNumber').unique(),
   total: decimal('total').notNull(),
+  // Price breakdown captured at checkout; null on orders placed before it was stored
+  subtotal: decimal('subtotal'),
+  shippingAmount: decimal('shippingAmount'),
+  taxAmount: decimal('taxAmount'),
+  taxRate: decimal('taxRate'),
+  discountAmount: decimal('discountAmount').notNull().default('0'),
+  discountCode: text('discountCode'),
+  paymentMethod: text('paymentMethod'), // esewa, khalti, cod
+  currency: text('currency').notNull().default('NPR'),
   stripePaymentIntentId: text('stripePaymentIntentId'),
   shippingAddress: json('shippingAddress'),
   isGuestOrder: boolean('isGuestOrder').notNull().default(false),
+  cancellationReason: text('cancellationReason'),
+  cancelledAt: timestamp('cancelledAt'),
+  // Where the order is packed and shipped from
+  fulfillmentLocationId: text('fulfillmentLocationId').references(() => stockLocations.id),
   createdAt: timestamp('createdAt').notNull().defaultNow(),
   updatedAt: timestamp('updatedAt').notNull().defaultNow(),
 });
@@ -205,6 +319,135 @@ export const orderItems = pgTable('order_items', {
   createdAt: timestamp('createdAt').notNull().defaultNow(),
 });
 
+// Order events table (status history and tracking timeline)
+export const orderEvents = pgTable('order_events', {
+  id: text('id').primaryKey().default(sql`gen_random_uuid()`),
+  orderId: text('orderId').notNull().references(() => orders.id, { onDelete: 'cascade' }),
+  status: text('status').notNull(),
+  previousStatus: text('previousStatus'),
+  message: text('message'),
+  location: text('location'),
+  carrier: text('carrier'),
+  carrierReference: text('carrierReference'),
+  createdBy: text('createdBy').references(() => users.id), // null for system/automated changes
+  createdAt: timestamp('createdAt').notNull().defaultNow(),
+});
+
+// Return requests table (one request per order item)
+export const returnRequests = pgTable('return_requests', {
+  id: text('id').primaryKey().default(sql`gen_random_uuid()`),
+  orderId: text('orderId').notNull().references(() => orders.id),
+  orderItemId: text('orderItemId').notNull().references(() => orderItems.id),
+  userId: text('userId').notNull().references(() => users.id),
+  quantity: integer('quantity').notNull(),
+  reason: text('reason').notNull(), // DAMAGED, WRONG_ITEM, NOT_AS_DESCRIBED, NO_LONGER_NEEDED, OTHER
+  comments: text('comments'),
+  images: json('images').$type<string[]>().notNull().default([]),
+  status: text('status').notNull().default(ReturnStatus.REQUESTED),
+  refundAmount: decimal('refundAmount').notNull(),
+  adminNotes: text('adminNotes'),
+  reviewedBy: text('reviewedBy').references(() => users.id),
+  reviewedAt: timestamp('reviewedAt'),
+  receivedAt: timestamp('receivedAt'),
+  createdAt: timestamp('createdAt').notNull().defaultNow(),
+  updatedAt: timestamp('updatedAt').notNull().defaultNow(),
+});
+
+// Refunds table - ledger of money returned to the customer, one row per refund
+export const refunds = pgTable('refunds', {
+  id: text('id').primaryKey().default(sql`gen_random_uuid()`),
+  orderId: text('orderId').notNull().references(() => orders.id),
+  orderItemId: text('orderItemId').references(() => orderItems.id),
+  returnRequestId: text('returnRequestId').references(() => returnRequests.id),
+  quantity: integer('quantity'),
+  amount: decimal('amount').notNull(),
+  reason: text('reason').notNull(),
+  method: text('method').notNull().default(RefundMethod.ORIGINAL_PAYMENT), // ORIGINAL_PAYMENT, CASH, BANK_TRANSFER, STORE_CREDIT
+  reference: text('reference'),
+  status: text('status').notNull().default(RefundStatus.COMPLETED), // PROCESSING, COMPLETED, MANUAL_REQUIRED
+  gatewayResponse: json('gatewayResponse'),
+  failureReason: text('failureReason'),
+  createdBy: text('createdBy').references(() => users.id),
+  createdAt: timestamp('createdAt').notNull().defaultNow(),
+  completedAt: timestamp('completedAt'),
+});
+
+// Shipments table - a parcel sent for an order; an order may ship in several parts
+export const shipments = pgTable('shipments', {
+  id: text('id').primaryKey().default(sql`gen_random_uuid()`),
+  orderId: text('orderId').notNull().references(() => orders.id),
+  status: text('status').notNull().default(ShipmentStatus.SHIPPED), // SHIPPED, DELIVERED
+  carrier: text('carrier'),
+  trackingNumber: text('trackingNumber'),
+  shippedAt: timestamp('shippedAt').notNull().defaultNow(),
+  deliveredAt: timestamp('deliveredAt'),
+  createdBy: text('createdBy').references(() => users.id),
+  createdAt: timestamp('createdAt').notNull().defaultNow(),
+  updatedAt: timestamp('updatedAt').notNull().defaultNow(),
+});
+
+// Shipment items table - order items (and quantities) packed in a shipment
+export const shipmentItems = pgTable('shipment_items', {
+  id: text('id').primaryKey().default(sql`gen_random_uuid()`),
+  shipmentId: text('shipmentId').notNull().references(() => shipments.id, { onDelete: 'cascade' }),
+  orderItemId: text('orderItemId').notNull().references(() => orderItems.id),
+  quantity: integer('quantity').notNull(),
+});
+
+// COD remittances table - a deposit from a courier settling the cash it
+// collected for many cash on delivery orders
+export const codRemittances = pgTable('cod_remittances', {
+  id: text('id').primaryKey().default(sql`gen_random_uuid()`),
+  courier: text('courier').notNull(),
+  reference: text('reference'), // Bank deposit or courier statement reference
+  expectedAmount: decimal('expectedAmount').notNull(), // Sum of the orders in the batch
+  depositedAmount: decimal('depositedAmount').notNull(),
+  depositedAt: timestamp('depositedAt').notNull().defaultNow(),
+  notes: text('notes'),
+  createdBy: text('createdBy').references(() => users.id),
+  createdAt: timestamp('createdAt').notNull().defaultNow(),
+});
+
+// COD collections table - cash owed for a cash on delivery order, recorded
+// when the order is delivered and settled by a courier remittance
+export const codCollections = pgTable('cod_collections', {
+  id: text('id').primaryKey().default(sql`gen_random_uuid()`),
+  orderId: text('orderId').notNull().unique().references(() => orders.id),
+  courier: text('courier'),
+  expectedAmount: decimal('expectedAmount').notNull(),
+  status: text('status').notNull().default(CodCollectionStatus.COLLECTED), // COLLECTED, REMITTED
+  collectedAt: timestamp('collectedAt').notNull().defaultNow(),
+  remittanceId: text('remittanceId').references(() => codRemittances.id),
+  remittedAt: timestamp('remittedAt'),
+  createdAt: timestamp('createdAt').notNull().defaultNow(),
+  updatedAt: timestamp('updatedAt').notNull().defaultNow(),
+});
+
+// Payment transactions table - one row per payment attempt with a gateway.
+// Holds the checkout session the order is created from once payment is verified.
+export const paymentTransactions = pgTable('payment_transactions', {
+  id: text('id').primaryKey().default(sql`gen_random_uuid()`),
+  orderId: text('orderId').notNull(), // The order may not exist until payment is verified
+  method: text('method').notNull(), // esewa, khalti, cod
+  gatewayReference: text('gatewayReference').notNull(), // Khalti pidx, eSewa pid, COD reference
+  gatewayTransactionId: text('gatewayTransactionId'),
+  amount: decimal('amount').notNull(),
+  currency: text('currency').notNull().default('NPR'),
+  status: text('status').notNull().default(PaymentTransactionStatus.INITIATED), // INITIATED, COMPLETED, FAILED, EXPIRED
+  session: json('session'),
+  requestPayload: json('requestPayload'),
+  responsePayload: json('responsePayload'),
+  errorMessage: text('errorMessage'),
+  lastCheckedAt: timestamp('lastCheckedAt'), // Last time reconciliation looked the attempt up
+  createdAt: timestamp('createdAt').notNull().defaultNow(),
+  updatedAt: timestamp('updatedAt').notNull().defaultNow(),
+  completedAt: timestamp('completedAt'),
+}, (table) => {
+  return {
+    methodGatewayReferenceIdx: uniqueIndex('paymentTransactionMethodReferenceIdx').on(table.method, table.gatewayReference),
+  }
+});
+
 // Reviews table
 export const reviews = pgTable('reviews', {
   id: text('id').primaryKey().default(sql`gen_random_uuid()`),
@@ -252,8 +495,153 @@ export const inventoryAdjustments = pgTable('inventory_adjustments', {
   reason: text('reason'),
   referenceId: text('referenceId'),
   userId: text('userId').references(() => users.id),
+  locationId: text('locationId').references(() => stockLocations.id), // Null on adjustments made before locations existed
+  createdAt: timestamp('createdAt').notNull().defaultNow(),
+  notes: text('notes'),
+});
+
+// Inventory reservations table - stock held for an online checkout until
+// its payment is verified. The order may not exist while the hold is open.
+export const inventoryReservations = pgTable('inventory_reservations', {
+  id: text('id').primaryKey().default(sql`gen_random_uuid()`),
+  orderId: text('orderId').notNull(),
+  productId: text('productId').notNull().references(() => products.id),
+  locationId: text('locationId').references(() => stockLocations.id),
+  quantity: integer('quantity').notNull(),
+  status: text('status').notNull().default(InventoryReservationStatus.HELD), // HELD, CONSUMED, RELEASED
+  expiresAt: timestamp('expiresAt').notNull(),
+  releasedAt: timestamp('releasedAt'),
+  createdAt: timestamp('createdAt').notNull().defaultNow(),
+  updatedAt: timestamp('updatedAt').notNull().defaultNow(),
+}, (table) => {
+  return {
+    orderProductLocationIdx: uniqueIndex('inventoryReservationOrderProductLocationIdx').on(table.orderId, table.productId, table.locationId),
+  }
+});
+
+// Stock locations table - a warehouse or shop holding stock. Orders are
+// fulfilled from active locations in priority order.
+export const stockLocations = pgTable('stock_locations', {
+  id: text('id').primaryKey().default(sql`gen_random_uuid()`),
+  name: text('name').notNull(),
+  code: text('code').notNull().unique(),
+  city: text('city'),
+  isActive: boolean('isActive').notNull().default(true),
+  isDefault: boolean('isDefault').notNull().default(false), // Receives stock entered without a location
+  priority: integer('priority').notNull().default(0), // Lower is tried first when fulfilling
+  createdAt: timestamp('createdAt').notNull().defaultNow(),
+  updatedAt: timestamp('updatedAt').notNull().defaultNow(),
+});
+
+// Location stock table - units of a product on hand at a location. The sum
+// across locations is the product's sellable inventory.
+export const locationStock = pgTable('location_stock', {
+  id: text('id').primaryKey().default(sql`gen_random_uuid()`),
+  locationId: text('locationId').notNull().references(() => stockLocations.id),
+  productId: text('productId').notNull().references(() => products.id),
+  quantity: integer('quantity').notNull().default(0),
+  updatedAt: timestamp('updatedAt').notNull().defaultNow(),
+}, (table) => {
+  return {
+    locationProductIdx: uniqueIndex('locationStockLocationProductIdx').on(table.locationId, table.productId),
+  }
+});
+
+// Stock transfers table - stock sent from one location to another
+export const stockTransfers = pgTable('stock_transfers', {
+  id: text('id').primaryKey().default(sql`gen_random_uuid()`),
+  fromLocationId: text('fromLocationId').notNull().references(() => stockLocations.id),
+  toLocationId: text('toLocationId').notNull().references(() => stockLocations.id),
+  status: text('status').notNull().default(StockTransferStatus.IN_TRANSIT), // IN_TRANSIT, RECEIVED, CANCELLED
+  notes: text('notes'),
+  createdBy: text('createdBy').references(() => users.id),
+  shippedAt: timestamp('shippedAt').notNull().defaultNow(),
+  receivedAt: timestamp('receivedAt'),
+  cancelledAt: timestamp('cancelledAt'),
+  createdAt: timestamp('createdAt').notNull().defaultNow(),
+  updatedAt: timestamp('updatedAt').notNull().defaultNow(),
+});
+
+// Stock transfer items table
+export const stockTransferItems = pgTable('stock_transfer_items', {
+  id: text('id').primaryKey().default(sql`gen_random_uuid()`),
+  transferId: text('transferId').notNull().references(() => stockTransfers.id, { onDelete: 'cascade' }),
+  productId: text('productId').notNull().references(() => products.id),
+  quantity: integer('quantity').notNull(),
+});
+
+// Suppliers table
+export const suppliers = pgTable('suppliers', {
+  id: text('id').primaryKey().default(sql`gen_random_uuid()`),
+  name: text('name').notNull(),
+  contactName: text('contactName'),
+  email: text('email'),
+  phone: text('phone'),
+  address: text('address'),
+  notes: text('notes'),
+  isActive: boolean('isActive').notNull().default(true),
+  createdAt: timestamp('createdAt').notNull().defaultNow(),
+  updatedAt: timestamp('updatedAt').notNull().defaultNow(),
+});
+
+// Purchase orders table - stock ordered from a supplier. Receiving against
+// it restocks the receiving location.
+export const purchaseOrders = pgTable('purchase_orders', {
+  id: text('id').primaryKey().default(sql`gen_random_uuid()`),
+  supplierId: text('supplierId').notNull().references(() => suppliers.id),
+  locationId: text('locationId').references(() => stockLocations.id), // Null receives into the default location
+  status: text('status').notNull().default(PurchaseOrderStatus.DRAFT), // DRAFT, SENT, PARTIALLY_RECEIVED, RECEIVED, CANCELLED
+  currency: text('currency').notNull().default('NPR'),
+  notes: text('notes'),
+  expectedAt: timestamp('expectedAt'),
+  createdBy: text('createdBy').references(() => users.id),
+  sentAt: timestamp('sentAt'),
+  receivedAt: timestamp('receivedAt'),
+  cancelledAt: timestamp('cancelledAt'),
   createdAt: timestamp('createdAt').notNull().defaultNow(),
+  updatedAt: timestamp('updatedAt').notNull().defaultNow(),
+});
+
+// Purchase order items table
+export const purchaseOrderItems = pgTable('purchase_order_items', {
+  id: text('id').primaryKey().default(sql`gen_random_uuid()`),
+  purchaseOrderId: text('purchaseOrderId').notNull().references(() => purchaseOrders.id, { onDelete: 'cascade' }),
+  productId: text('productId').notNull().references(() => products.id),
+  quantityOrdered: integer('quantityOrdered').notNull(),
+  quantityReceived: integer('quantityReceived').notNull().default(0),
+  unitCost: decimal('unitCost').notNull(),
+});
+
+// Stocktakes table - a physical count of a location's stock, optionally
+// limited to one category. Posting books every variance in one batch.
+export const stocktakes = pgTable('stocktakes', {
+  id: text('id').primaryKey().default(sql`gen_random_uuid()`),
+  locationId: text('locationId').notNull().references(() => stockLocations.id),
+  categoryId: text('categoryId').references(() => categories.id), // Null counts every category
+  status: text('status').notNull().default(StocktakeStatus.COUNTING), // COUNTING, POSTED, CANCELLED
   notes: text('notes'),
+  createdBy: text('createdBy').references(() => users.id),
+  postedBy: text('postedBy').references(() => users.id),
+  postedAt: timestamp('postedAt'),
+  cancelledAt: timestamp('cancelledAt'),
+  createdAt: timestamp('createdAt').notNull().defaultNow(),
+  updatedAt: timestamp('updatedAt').notNull().defaultNow(),
+});
+
+// Stocktake items table - one line of the count sheet
+export const stocktakeItems = pgTable('stocktake_items', {
+  id: text('id').primaryKey().default(sql`gen_random_uuid()`),
+  stocktakeId: text('stocktakeId').notNull().references(() => stocktakes.id, { onDelete: 'cascade' }),
+  productId: text('productId').notNull().references(() => products.id),
+  expectedQuantity: integer('expectedQuantity').notNull(), // System stock at the location when last counted
+  countedQuantity: integer('countedQuantity'), // Null until counted
+  unitCost: decimal('unitCost'), // Purchase price when the sheet was generated
+  countedBy: text('countedBy').references(() => users.id),
+  countedAt: timestamp('countedAt'),
+}, (table) => {
+  return {
+    stocktakeProductIdx: uniqueIndex('stocktakeItemStocktakeProductIdx').on(table.stocktakeId, table.productId),
+  }
 });
 
 // Product attributes table
@@ -376,6 +764,37 @@ export const discountUsage = pgTable('discount_usage', {
   usedAt: timestamp('usedAt').notNull().defaultNow(),
 });
 
+// Discount reservations table - a code's use claimed for an online checkout
+// until the payment settles, so parallel checkouts can't exceed its limit
+export const discountReservations = pgTable('discount_reservations', {
+  id: text('id').primaryKey().default(sql`gen_random_uuid()`),
+  discountId: text('discountId').notNull().references(() => discounts.id),
+  orderId: text('orderId').notNull().unique(), // The order may not exist until payment is verified
+  userId: text('userId').references(() => users.id),
+  status: text('status').notNull().default(DiscountReservationStatus.HELD), // HELD, CONSUMED, RELEASED
+  releasedAt: timestamp('releasedAt'),
+  createdAt: timestamp('createdAt').notNull().defaultNow(),
+  updatedAt: timestamp('updatedAt').notNull().defaultNow(),
+});
+
+// Automatic promotions table (applied without a code)
+export const promotions = pgTable('promotions', {
+  id: text('id').primaryKey().default(sql`gen_random_uuid()`),
+  name: text('name').notNull(),
+  description: text('description'),
+  promotionType: text('promotionType').notNull(), // BUY_X_GET_Y, SPEND_THRESHOLD, CATEGORY_SALE, TIERED_QUANTITY
+  config: json('config').notNull(), // Type-specific rule settings
+  applicableProductIds: text('applicableProductIds').array().default([]),
+  applicableCategoryIds: text('applicableCategoryIds').array().default([]),
+  isExclusive: boolean('isExclusive').notNull().default(false), // Cannot be combined with other promotions or codes
+  priority: integer('priority').notNull().default(0),
+  startsAt: timestamp('startsAt').notNull(),
+  endsAt: timestamp('endsAt'),
+  isActive: boolean('isActive').notNull().default(true),
+  createdAt: timestamp('createdAt').notNull().defaultNow(),
+  updatedAt: timestamp('updatedAt').notNull().defaultNow(),
+});
+
 // Addresses table
 export const addresses = pgTable('addresses', {
   id: text('id').primaryKey().default(sql`gen_random_uuid()`),
@@ -494,6 +913,7 @@ export const productRelations = relations(products, ({ one, many }) => ({
   }),
   attributes: many(productAttributes),
   inventoryAdjustments: many(inventoryAdjustments),
+  locationStock: many(locationStock),
   favorites: many(userFavorites),
   cartItems: many(cartItems),
   activityRecords: many(userActivities),
@@ -505,6 +925,15 @@ export const orderRelations = relations(orders, ({ one, many }) => ({
     references: [users.id]
   }),
   items: many(orderItems),
+  events: many(orderEvents),
+  returnRequests: many(returnRequests),
+  refunds: many(refunds),
+  shipments: many(shipments),
+  codCollection: one(codCollections),
+  fulfillmentLocation: one(stockLocations, {
+    fields: [orders.fulfillmentLocationId],
+    references: [stockLocations.id]
+  }),
   discountUsage: many(discountUsage),
 }));
 
@@ -519,6 +948,86 @@ export const orderItemRelations = relations(orderItems, ({ one }) => ({
   }),
 }));
 
+export const orderEventRelations = relations(orderEvents, ({ one }) => ({
+  order: one(orders, {
+    fields: [orderEvents.orderId],
+    references: [orders.id]
+  }),
+  createdByUser: one(users, {
+    fields: [orderEvents.createdBy],
+    references: [users.id]
+  }),
+}));
+
+export const returnRequestRelations = relations(returnRequests, ({ one, many }) => ({
+  order: one(orders, {
+    fields: [returnRequests.orderId],
+    references: [orders.id]
+  }),
+  orderItem: one(orderItems, {
+    fields: [returnRequests.orderItemId],
+    references: [orderItems.id]
+  }),
+  user: one(users, {
+    fields: [returnRequests.userId],
+    references: [users.id]
+  }),
+  refunds: many(refunds),
+}));
+
+export const refundRelations = relations(refunds, ({ one }) => ({
+  order: one(orders, {
+    fields: [refunds.orderId],
+    references: [orders.id]
+  }),
+  orderItem: one(orderItems, {
+    fields: [refunds.orderItemId],
+    references: [orderItems.id]
+  }),
+  returnRequest: one(returnRequests, {
+    fields: [refunds.returnRequestId],
+    references: [returnRequests.id]
+  }),
+}));
+
+export const shipmentRelations = relations(shipments, ({ one, many }) => ({
+  order: one(orders, {
+    fields: [shipments.orderId],
+    references: [orders.id]
+  }),
+  items: many(shipmentItems),
+}));
+
+export const codRemittanceRelations = relations(codRemittances, ({ one, many }) => ({
+  collections: many(codCollections),
+  createdByUser: one(users, {
+    fields: [codRemittances.createdBy],
+    references: [users.id]
+  }),
+}));
+
+export const codCollectionRelations = relations(codCollections, ({ one }) => ({
+  order: one(orders, {
+    fields: [codCollections.orderId],
+    references: [orders.id]
+  }),
+  remittance: one(codRemittances, {
+    fields: [codCollections.remittanceId],
+    references: [codRemittances.id]
+  }),
+}));
+
+export const shipmentItemRelations = relations(shipmentItems, ({ one }) => ({
+  shipment: one(shipments, {
+    fields: [shipmentItems.shipmentId],
+    references: [shipments.id]
+  }),
+  orderItem: one(orderItems, {
+    fields: [shipmentItems.orderItemId],
+    references: [orderItems.id]
+  }),
+}));
+
 export const reviewRelations = relations(reviews, ({ one }) => ({
   product: one(products, {
     fields: [reviews.productId],
@@ -550,6 +1059,129 @@ export const inventoryAdjustmentRelations = relations(inventoryAdjustments, ({ o
     fields: [inventoryAdjustments.userId],
     references: [users.id]
   }),
+  location: one(stockLocations, {
+    fields: [inventoryAdjustments.locationId],
+    references: [stockLocations.id]
+  }),
+}));
+
+export const inventoryReservationRelations = relations(inventoryReservations, ({ one }) => ({
+  product: one(products, {
+    fields: [inventoryReservations.productId],
+    references: [products.id]
+  }),
+  location: one(stockLocations, {
+    fields: [inventoryReservations.locationId],
+    references: [stockLocations.id]
+  }),
+}));
+
+export const stockLocationRelations = relations(stockLocations, ({ many }) => ({
+  stock: many(locationStock),
+  transfersOut: many(stockTransfers, {
+    relationName: 'transfersOut'
+  }),
+  transfersIn: many(stockTransfers, {
+    relationName: 'transfersIn'
+  }),
+}));
+
+export const locationStockRelations = relations(locationStock, ({ one }) => ({
+  location: one(stockLocations, {
+    fields: [locationStock.locationId],
+    references: [stockLocations.id]
+  }),
+  product: one(products, {
+    fields: [locationStock.productId],
+    references: [products.id]
+  }),
+}));
+
+export const stockTransferRelations = relations(stockTransfers, ({ one, many }) => ({
+  fromLocation: one(stockLocations, {
+    fields: [stockTransfers.fromLocationId],
+    references: [stockLocations.id],
+    relationName: 'transfersOut'
+  }),
+  toLocation: one(stockLocations, {
+    fields: [stockTransfers.toLocationId],
+    references: [stockLocations.id],
+    relationName: 'transfersIn'
+  }),
+  items: many(stockTransferItems),
+  createdByUser: one(users, {
+    fields: [stockTransfers.createdBy],
+    references: [users.id]
+  }),
+}));
+
+export const stockTransferItemRelations = relations(stockTransferItems, ({ one }) => ({
+  transfer: one(stockTransfers, {
+    fields: [stockTransferItems.transferId],
+    references: [stockTransfers.id]
+  }),
+  product: one(products, {
+    fields: [stockTransferItems.productId],
+    references: [products.id]
+  }),
+}));
+
+export const supplierRelations = relations(suppliers, ({ many }) => ({
+  purchaseOrders: many(purchaseOrders),
+}));
+
+export const purchaseOrderRelations = relations(purchaseOrders, ({ one, many }) => ({
+  supplier: one(suppliers, {
+    fields: [purchaseOrders.supplierId],
+    references: [suppliers.id]
+  }),
+  location: one(stockLocations, {
+    fields: [purchaseOrders.locationId],
+    references: [stockLocations.id]
+  }),
+  items: many(purchaseOrderItems),
+  createdByUser: one(users, {
+    fields: [purchaseOrders.createdBy],
+    references: [users.id]
+  }),
+}));
+
+export const purchaseOrderItemRelations = relations(purchaseOrderItems, ({ one }) => ({
+  purchaseOrder: one(purchaseOrders, {
+    fields: [purchaseOrderItems.purchaseOrderId],
+    references: [purchaseOrders.id]
+  }),
+  product: one(products, {
+    fields: [purchaseOrderItems.productId],
+    references: [products.id]
+  }),
+}));
+
+export const stocktakeRelations = relations(stocktakes, ({ one, many }) => ({
+  location: one(stockLocations, {
+    fields: [stocktakes.locationId],
+    references: [stockLocations.id]
+  }),
+  category: one(categories, {
+    fields: [stocktakes.categoryId],
+    references: [categories.id]
+  }),
+  items: many(stocktakeItems),
+  createdByUser: one(users, {
+    fields: [stocktakes.createdBy],
+    references: [users.id]
+  }),
+}));
+
+export const stocktakeItemRelations = relations(stocktakeItems, ({ one }) => ({
+  stocktake: one(stocktakes, {
+    fields: [stocktakeItems.stocktakeId],
+    references: [stocktakes.id]
+  }),
+  product: one(products, {
+    fields: [stocktakeItems.productId],
+    references: [products.id]
+  }),
 }));
 
 export const productAttributeRelations = relations(productAttributes, ({ one }) => ({
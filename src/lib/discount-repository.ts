@@ -0,0 +1,536 @@
+import { randomInt } from 'crypto'
+import { db } from './db'
+import {
+  discounts,
+  discountUsage,
+  discountReservations,
+  DiscountReservationStatus,
+  orders,
+  products,
+  users,
+} from './db/schema'
+import { eq, and, or, desc, ilike, inArray, isNull, lt, gte, lte, sql } from 'drizzle-orm'
+import {
+  calculateDiscountAmount,
+  getDiscountIneligibilityReason,
+  getEligibleSubtotal,
+  normalizeDiscountCode,
+  type DiscountableItem,
+} from './discount-utils'
+import type {
+  BulkGenerateDiscountsInput,
+  CreateDiscountInput,
+  PaginationInput,
+  UpdateDiscountInput,
+} from './validations'
+import type { Discount, PaginatedResponse } from '@/types'
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0]
+type DbClient = typeof db | Transaction
+
+export type DiscountStatusFilter = 'active' | 'scheduled' | 'expired' | 'inactive'
+
+export interface DiscountFilters {
+  search?: string
+  status?: DiscountStatusFilter
+  prefix?: string
+}
+
+export interface DiscountRedemption {
+  id: string
+  usedAt: Date
+  orderId: string | null
+  orderStatus: string | null
+  orderTotal: string | null
+  customerName: string | null
+  customerEmail: string | null
+}
+
+// Unambiguous characters for generated codes (no 0/O, 1/I/L)
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789'
+const BULK_INSERT_CHUNK_SIZE = 100
+
+export interface DiscountValidationResult {
+  valid: boolean
+  discount?: Discount
+  discountAmount: number
+  eligibleSubtotal: number
+  error?: string
+}
+
+function toDecimalString(value: number | null | undefined): string | null {
+  return value === null || value === undefined ? null : value.toString()
+}
+
+export class DiscountRepository {
+  async findAll(
+    pagination: PaginationInput = { page: 1, limit: 20 },
+    filters: DiscountFilters = {}
+  ): Promise<PaginatedResponse<Discount>> {
+    const { page, limit } = pagination
+    const offset = (page - 1) * limit
+    const whereClause = this.buildFilters(filters)
+
+    const [data, [{ count: total }]] = await Promise.all([
+      db.select()
+        .from(discounts)
+        .where(whereClause)
+        .orderBy(desc(discounts.createdAt))
+        .limit(limit)
+        .offset(offset),
+      db.select({ count: sql<number>`count(*)::int` })
+        .from(discounts)
+        .where(whereClause),
+    ])
+
+    return {
+      data: data as Discount[],
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    }
+  }
+
+  /**
+   * All discounts matching the filters, unpaginated, for CSV export
+   */
+  async findAllForExport(filters: DiscountFilters = {}): Promise<Discount[]> {
+    return await db.select()
+      .from(discounts)
+      .where(this.buildFilters(filters))
+      .orderBy(desc(discounts.createdAt)) as Discount[]
+  }
+
+  async findById(id: string): Promise<Discount | null> {
+    const result = await db.select()
+      .from(discounts)
+      .where(eq(discounts.id, id))
+      .limit(1)
+
+    return (result[0] as Discount) || null
+  }
+
+  async findByCode(code: string): Promise<Discount | null> {
+    const result = await db.select()
+      .from(discounts)
+      .where(sql`upper(${discounts.code}) = ${normalizeDiscountCode(code)}`)
+      .limit(1)
+
+    return (result[0] as Discount) || null
+  }
+
+  async create(data: CreateDiscountInput): Promise<Discount> {
+    const code = normalizeDiscountCode(data.code)
+
+    if (await this.findByCode(code)) {
+      throw new Error(`Discount code ${code} already exists`)
+    }
+
+    const [discount] = await db.insert(discounts)
+      .values({
+        code,
+        name: data.name,
+        description: data.description || null,
+        discountType: data.discountType,
+        discountValue: data.discountValue.toString(),
+        minimumOrderValue: toDecimalString(data.minimumOrderValue),
+        maximumDiscountAmount: toDecimalString(data.maximumDiscountAmount),
+        usageLimit: data.usageLimit ?? null,
+        validFrom: data.validFrom,
+        validTo: data.validTo,
+        isActive: data.isActive,
+        applicableProductIds: data.applicableProductIds,
+        applicableCategoryIds: data.applicableCategoryIds,
+        userId: data.userId || null,
+      })
+      .returning()
+
+    return discount as Discount
+  }
+
+  /**
+   * Generate a batch of unique codes sharing the same rules, e.g. 500 single-use
+   * codes for a campaign. Codes are PREFIX-XXXXXXXX.
+   */
+  async bulkCreate(data: BulkGenerateDiscountsInput): Promise<Discount[]> {
+    const prefix = normalizeDiscountCode(data.prefix)
+    const codes = new Set<string>()
+
+    // Keep generating until enough codes are free of collisions with existing ones
+    while (codes.size < data.count) {
+      const candidates = new Set<string>()
+      while (candidates.size < data.count - codes.size) {
+        const code = this.generateCode(prefix, data.codeLength)
+        if (!codes.has(code)) candidates.add(code)
+      }
+
+      const existing = await db.select({ code: discounts.code })
+        .from(discounts)
+        .where(inArray(discounts.code, Array.from(candidates)))
+      const taken = new Set(existing.map(row => row.code))
+
+      candidates.forEach(code => {
+        if (!taken.has(code)) codes.add(code)
+      })
+    }
+
+    const rows = Array.from(codes).map(code => ({
+      code,
+      name: data.name,
+      description: data.description || null,
+      discountType: data.discountType,
+      discountValue: data.discountValue.toString(),
+      minimumOrderValue: toDecimalString(data.minimumOrderValue),
+      maximumDiscountAmount: toDecimalString(data.maximumDiscountAmount),
+      usageLimit: data.usageLimit,
+      validFrom: data.validFrom,
+      validTo: data.validTo,
+      isActive: data.isActive,
+      applicableProductIds: data.applicableProductIds,
+      applicableCategoryIds: data.applicableCategoryIds,
+    }))
+
+    return await db.transaction(async (tx) => {
+      const created: Discount[] = []
+      for (let i = 0; i < rows.length; i += BULK_INSERT_CHUNK_SIZE) {
+        const inserted = await tx.insert(discounts)
+          .values(rows.slice(i, i + BULK_INSERT_CHUNK_SIZE))
+          .returning()
+        created.push(...(inserted as Discount[]))
+      }
+      return created
+    })
+  }
+
+  async update(id: string, data: UpdateDiscountInput): Promise<Discount> {
+    const existing = await this.findById(id)
+    if (!existing) {
+      throw new Error('Discount not found')
+    }
+
+    const updateData: Partial<typeof discounts.$inferInsert> = { updatedAt: new Date() }
+
+    if (data.code !== undefined) {
+      const code = normalizeDiscountCode(data.code)
+      const duplicate = await this.findByCode(code)
+      if (duplicate && duplicate.id !== id) {
+        throw new Error(`Discount code ${code} already exists`)
+      }
+      updateData.code = code
+    }
+    if (data.name !== undefined) updateData.name = data.name
+    if (data.description !== undefined) updateData.description = data.description
+    if (data.discountType !== undefined) updateData.discountType = data.discountType
+    if (data.discountValue !== undefined) updateData.discountValue = data.discountValue.toString()
+    if (data.minimumOrderValue !== undefined) updateData.minimumOrderValue = toDecimalString(data.minimumOrderValue)
+    if (data.maximumDiscountAmount !== undefined) updateData.maximumDiscountAmount = toDecimalString(data.maximumDiscountAmount)
+    if (data.usageLimit !== undefined) updateData.usageLimit = data.usageLimit
+    if (data.validFrom !== undefined) updateData.validFrom = data.validFrom
+    if (data.validTo !== undefined) updateData.validTo = data.validTo
+    if (data.isActive !== undefined) updateData.isActive = data.isActive
+    if (data.applicableProductIds !== undefined) updateData.applicableProductIds = data.applicableProductIds
+    if (data.applicableCategoryIds !== undefined) updateData.applicableCategoryIds = data.applicableCategoryIds
+    if (data.userId !== undefined) updateData.userId = data.userId
+
+    const validFrom = updateData.validFrom || existing.validFrom
+    const validTo = updateData.validTo || existing.validTo
+    if (validTo <= validFrom) {
+      throw new Error('End date must be after start date')
+    }
+
+    const [discount] = await db.update(discounts)
+      .set(updateData)
+      .where(eq(discounts.id, id))
+      .returning()
+
+    return discount as Discount
+  }
+
+  async deactivate(id: string): Promise<Discount> {
+    const [discount] = await db.update(discounts)
+      .set({ isActive: false, updatedAt: new Date() })
+      .where(eq(discounts.id, id))
+      .returning()
+
+    if (!discount) {
+      throw new Error('Discount not found')
+    }
+
+    return discount as Discount
+  }
+
+  /**
+   * Redemptions of a code with the order and customer they belong to
+   */
+  async getRedemptions(discountId: string): Promise<DiscountRedemption[]> {
+    return await db.select({
+      id: discountUsage.id,
+      usedAt: discountUsage.usedAt,
+      orderId: discountUsage.orderId,
+      orderStatus: orders.status,
+      orderTotal: orders.total,
+      customerName: sql<string | null>`coalesce(${users.name}, ${orders.guestName})`,
+      customerEmail: sql<string | null>`coalesce(${users.email}, ${orders.guestEmail})`,
+    })
+      .from(discountUsage)
+      .leftJoin(orders, eq(discountUsage.orderId, orders.id))
+      .leftJoin(users, eq(discountUsage.userId, users.id))
+      .where(eq(discountUsage.discountId, discountId))
+      .orderBy(desc(discountUsage.usedAt))
+  }
+
+  /**
+   * Validate a code against the cart and calculate the discount it would apply.
+   * Items without a categoryId are enriched from the products table so
+   * category-scoped codes work with client-supplied carts.
+   */
+  async validateCode(
+    code: string,
+    options: {
+      items: DiscountableItem[]
+      subtotal?: number
+      userId?: string | null
+    }
+  ): Promise<DiscountValidationResult> {
+    const discount = await this.findByCode(code)
+
+    if (!discount) {
+      return { valid: false, discountAmount: 0, eligibleSubtotal: 0, error: 'Invalid discount code' }
+    }
+
+    const items = await this.withCategoryIds(options.items)
+    const subtotal = options.subtotal ?? items.reduce((total, item) => total + item.price * item.quantity, 0)
+
+    const reason = getDiscountIneligibilityReason(discount, { subtotal, userId: options.userId })
+    if (reason) {
+      return { valid: false, discount, discountAmount: 0, eligibleSubtotal: 0, error: reason }
+    }
+
+    const eligibleSubtotal = getEligibleSubtotal(discount, items)
+    if (eligibleSubtotal <= 0) {
+      return {
+        valid: false,
+        discount,
+        discountAmount: 0,
+        eligibleSubtotal: 0,
+        error: 'This discount code does not apply to any items in your cart',
+      }
+    }
+
+    return {
+      valid: true,
+      discount,
+      discountAmount: calculateDiscountAmount(discount, items),
+      eligibleSubtotal,
+    }
+  }
+
+  /**
+   * Record a redemption. The usage counter is incremented conditionally so
+   * concurrent checkouts cannot push a code past its usage limit.
+   * Pass the transaction client to keep the redemption atomic with the order.
+   * allowOverLimit records a redemption that has already been paid for even
+   * when the code ran out meanwhile, so the usage still shows against it.
+   */
+  async recordUsage(
+    data: { discountId: string; userId?: string | null; orderId: string },
+    client: DbClient = db,
+    options: { allowOverLimit?: boolean } = {}
+  ): Promise<void> {
+    await this.claimUse(data.discountId, client, options)
+
+    await client.insert(discountUsage).values({
+      discountId: data.discountId,
+      userId: data.userId || null,
+      orderId: data.orderId,
+    })
+  }
+
+  /**
+   * Claim a use of the code for an online checkout while the customer pays
+   * at the gateway, the way its stock is reserved. The use is redeemed when
+   * the order is created, or given back if the payment fails or expires.
+   */
+  async reserveUsage(data: { discountId: string; userId?: string | null; orderId: string }): Promise<void> {
+    await db.transaction(async (tx) => {
+      await this.claimUse(data.discountId, tx)
+
+      await tx.insert(discountReservations).values({
+        discountId: data.discountId,
+        userId: data.userId || null,
+        orderId: data.orderId,
+      })
+    })
+  }
+
+  /**
+   * Redeem the use reserved for a paid checkout against its order. When the
+   * reservation was already given back, the customer has still paid with
+   * the code, so the use is recorded even if the code ran out meanwhile.
+   */
+  async redeemReservation(
+    data: { discountId: string; userId?: string | null; orderId: string },
+    client: DbClient = db
+  ): Promise<void> {
+    const [reservation] = await client.update(discountReservations)
+      .set({
+        status: DiscountReservationStatus.CONSUMED,
+        updatedAt: new Date(),
+      })
+      .where(and(
+        eq(discountReservations.orderId, data.orderId),
+        eq(discountReservations.discountId, data.discountId),
+        eq(discountReservations.status, DiscountReservationStatus.HELD)
+      ))
+      .returning()
+
+    if (!reservation) {
+      await this.recordUsage(data, client, { allowOverLimit: true })
+      return
+    }
+
+    await client.insert(discountUsage).values({
+      discountId: data.discountId,
+      userId: data.userId || null,
+      orderId: data.orderId,
+    })
+  }
+
+  /**
+   * Give back the use reserved for a checkout whose payment failed or
+   * expired. Safe to call more than once: only open reservations are
+   * released.
+   */
+  async releaseReservation(orderId: string): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const [released] = await tx.update(discountReservations)
+        .set({
+          status: DiscountReservationStatus.RELEASED,
+          releasedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(and(
+          eq(discountReservations.orderId, orderId),
+          eq(discountReservations.status, DiscountReservationStatus.HELD)
+        ))
+        .returning()
+
+      if (!released) {
+        return false
+      }
+
+      await this.returnUse(released.discountId, tx)
+      return true
+    })
+  }
+
+  /**
+   * Give back the codes redeemed by a cancelled order
+   */
+  async releaseUsage(orderId: string, client: DbClient = db): Promise<void> {
+    const released = await client.delete(discountUsage)
+      .where(eq(discountUsage.orderId, orderId))
+      .returning({ discountId: discountUsage.discountId })
+
+    for (const usage of released) {
+      await this.returnUse(usage.discountId, client)
+    }
+  }
+
+  /**
+   * Count a use against the code, unless it has run out
+   */
+  private async claimUse(
+    discountId: string,
+    client: DbClient,
+    options: { allowOverLimit?: boolean } = {}
+  ): Promise<void> {
+    const updated = await client.update(discounts)
+      .set({
+        usedCount: sql`${discounts.usedCount} + 1`,
+        updatedAt: new Date(),
+      })
+      .where(and(
+        eq(discounts.id, discountId),
+        options.allowOverLimit
+          ? undefined
+          : or(isNull(discounts.usageLimit), lt(discounts.usedCount, discounts.usageLimit))
+      ))
+      .returning({ id: discounts.id })
+
+    if (updated.length === 0) {
+      throw new Error('This discount code has reached its usage limit')
+    }
+  }
+
+  private async returnUse(discountId: string, client: DbClient): Promise<void> {
+    await client.update(discounts)
+      .set({
+        usedCount: sql`greatest(${discounts.usedCount} - 1, 0)`,
+        updatedAt: new Date(),
+      })
+      .where(eq(discounts.id, discountId))
+  }
+
+  private buildFilters(filters: DiscountFilters) {
+    const now = new Date()
+    const conditions = []
+
+    if (filters.search) {
+      conditions.push(or(
+        ilike(discounts.code, `%${filters.search}%`),
+        ilike(discounts.name, `%${filters.search}%`)
+      ))
+    }
+
+    if (filters.prefix) {
+      conditions.push(ilike(discounts.code, `${normalizeDiscountCode(filters.prefix)}-%`))
+    }
+
+    switch (filters.status) {
+      case 'active':
+        conditions.push(eq(discounts.isActive, true), lte(discounts.validFrom, now), gte(discounts.validTo, now))
+        break
+      case 'scheduled':
+        conditions.push(eq(discounts.isActive, true), gte(discounts.validFrom, now))
+        break
+      case 'expired':
+        conditions.push(lt(discounts.validTo, now))
+        break
+      case 'inactive':
+        conditions.push(eq(discounts.isActive, false))
+        break
+    }
+
+    return conditions.length > 0 ? and(...conditions) : undefined
+  }
+
+  private generateCode(prefix: string, length: number): string {
+    let suffix = ''
+    for (let i = 0; i < length; i++) {
+      suffix += CODE_ALPHABET[randomInt(CODE_ALPHABET.length)]
+    }
+    return `${prefix}-${suffix}`
+  }
+
+  private async withCategoryIds(items: DiscountableItem[]): Promise<DiscountableItem[]> {
+    const missing = items.filter(item => item.categoryId === undefined).map(item => item.productId)
+    if (missing.length === 0) return items
+
+    const rows = await db.select({ id: products.id, categoryId: products.categoryId })
+      .from(products)
+      .where(inArray(products.id, missing))
+
+    const categoryByProduct = new Map(rows.map(row => [row.id, row.categoryId]))
+
+    return items.map(item => item.categoryId === undefined
+      ? { ...item, categoryId: categoryByProduct.get(item.productId) ?? null }
+      : item
+    )
+  }
+}
+
+export const discountRepository = new DiscountRepository()
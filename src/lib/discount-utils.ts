@@ -0,0 +1,147 @@
+import { DiscountType } from './db/schema'
+
+// Minimal shape of a discount row needed for eligibility and amount calculations.
+// Decimal columns come back from the database as strings, so both are accepted.
+export interface DiscountRule {
+  discountType: string
+  discountValue: string | number
+  minimumOrderValue?: string | number | null
+  maximumDiscountAmount?: string | number | null
+  usageLimit?: number | null
+  usedCount: number
+  validFrom: Date | string
+  validTo: Date | string
+  isActive: boolean
+  applicableProductIds?: string[] | null
+  applicableCategoryIds?: string[] | null
+  userId?: string | null
+}
+
+export type DiscountScope = Pick<DiscountRule, 'applicableProductIds' | 'applicableCategoryIds'>
+
+export interface DiscountableItem {
+  productId: string
+  categoryId?: string | null
+  price: number
+  quantity: number
+}
+
+export interface DiscountEligibilityContext {
+  subtotal: number
+  userId?: string | null
+  now?: Date
+}
+
+function toNumber(value: string | number | null | undefined): number | null {
+  if (value === null || value === undefined || value === '') return null
+  const parsed = typeof value === 'number' ? value : parseFloat(value)
+  return isNaN(parsed) ? null : parsed
+}
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+export function normalizeDiscountCode(code: string): string {
+  return code.trim().toUpperCase()
+}
+
+/**
+ * A discount is scoped when it only applies to specific products or categories
+ */
+export function isDiscountScoped(discount: DiscountScope): boolean {
+  return (discount.applicableProductIds?.length ?? 0) > 0 ||
+    (discount.applicableCategoryIds?.length ?? 0) > 0
+}
+
+export function isItemEligibleForDiscount(discount: DiscountScope, item: DiscountableItem): boolean {
+  if (!isDiscountScoped(discount)) return true
+
+  const productIds = discount.applicableProductIds || []
+  const categoryIds = discount.applicableCategoryIds || []
+
+  return productIds.includes(item.productId) ||
+    (!!item.categoryId && categoryIds.includes(item.categoryId))
+}
+
+/**
+ * Sum of line totals the discount can be applied to
+ */
+export function getEligibleSubtotal(discount: DiscountRule, items: DiscountableItem[]): number {
+  return items
+    .filter(item => isItemEligibleForDiscount(discount, item))
+    .reduce((total, item) => total + item.price * item.quantity, 0)
+}
+
+/**
+ * Calculate the discount amount for a cart, capped by the maximum discount
+ * amount and never exceeding the eligible subtotal
+ */
+export function calculateDiscountAmount(discount: DiscountRule, items: DiscountableItem[]): number {
+  const eligibleSubtotal = getEligibleSubtotal(discount, items)
+  if (eligibleSubtotal <= 0) return 0
+
+  const value = toNumber(discount.discountValue) || 0
+  let amount = discount.discountType === DiscountType.PERCENTAGE
+    ? eligibleSubtotal * (value / 100)
+    : value
+
+  const maximum = toNumber(discount.maximumDiscountAmount)
+  if (maximum !== null && maximum > 0) {
+    amount = Math.min(amount, maximum)
+  }
+
+  return roundCurrency(Math.max(0, Math.min(amount, eligibleSubtotal)))
+}
+
+/**
+ * Check validity window, usage limit, user restriction and minimum order value.
+ * Returns a customer-facing reason when the discount cannot be used, otherwise null.
+ */
+export function getDiscountIneligibilityReason(
+  discount: DiscountRule,
+  context: DiscountEligibilityContext
+): string | null {
+  const now = context.now || new Date()
+
+  if (!discount.isActive) {
+    return 'This discount code is no longer active'
+  }
+
+  if (now < new Date(discount.validFrom)) {
+    return 'This discount code is not valid yet'
+  }
+
+  if (now > new Date(discount.validTo)) {
+    return 'This discount code has expired'
+  }
+
+  if (discount.usageLimit !== null && discount.usageLimit !== undefined && discount.usedCount >= discount.usageLimit) {
+    return 'This discount code has reached its usage limit'
+  }
+
+  if (discount.userId) {
+    if (!context.userId) {
+      return 'Please sign in to use this discount code'
+    }
+    if (discount.userId !== context.userId) {
+      return 'This discount code is not valid for your account'
+    }
+  }
+
+  const minimumOrderValue = toNumber(discount.minimumOrderValue)
+  if (minimumOrderValue !== null && context.subtotal < minimumOrderValue) {
+    return `A minimum order of ${minimumOrderValue.toFixed(2)} is required for this discount code`
+  }
+
+  return null
+}
+
+/**
+ * Quote a value for a CSV cell. Values a spreadsheet would run as a formula
+ * are prefixed with a quote so they open as text.
+ */
+export function toCsvCell(value: string): string {
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value
+  return `"${safe.replace(/"/g, '""')}"`
+}
@@ -2,12 +2,14 @@ import { sendEmail, sendEmailWithRetry, emailQueue } from './email'
 import {
   generateOrderConfirmationEmail,
   generateOrderStatusUpdateEmail,
+  generateOrderCancellationEmail,
   generatePasswordResetEmail,
   generateWelcomeEmail,
   generateLowStockAlertEmail,
   generatePaymentFailureEmail,
   OrderConfirmationData,
   OrderStatusUpdateData,
+  OrderCancellationData,
   PasswordResetData,
   WelcomeEmailData,
   PaymentFailureData,
@@ -58,6 +60,27 @@ export class EmailService {
     return await sendEmailWithRetry(emailOptions)
   }
 
+  static async sendOrderCancellation(data: OrderCancellationData, useQueue = false) {
+    const emailContent = generateOrderCancellationEmail(data)
+    
+    const emailOptions = {
+      to: data.customer.email,
+      subject: emailContent.subject,
+      html: emailContent.html,
+      text: emailContent.text,
+    }
+
+    if (useQueue) {
+      const messageId = emailQueue.add(emailOptions, 'normal')
+      return {
+        success: true,
+        messageId
+      }
+    }
+
+    return await sendEmailWithRetry(emailOptions)
+  }
+
   // Authentication-related emails
   static async sendPasswordReset(data: PasswordResetData, useQueue = false) {
     const emailContent = generatePasswordResetEmail(data)
@@ -1,5 +1,6 @@
 import { wrapEmailTemplate } from './email'
 import { Order, Product, User } from '@/types'
+import { getOrderPriceBreakdown } from './order-pricing'
 
 export interface OrderConfirmationData {
   order: Order
@@ -18,6 +19,16 @@ export interface OrderStatusUpdateData {
   newStatus: string
 }
 
+export interface OrderCancellationData {
+  order: Order
+  customer: {
+    name?: string | null
+    email: string
+  }
+  reason: string
+  refundAmount: number
+}
+
 export interface PasswordResetData {
   user: User
   resetToken: string
@@ -40,6 +51,28 @@ export interface PaymentFailureData {
 
 export function generateOrderConfirmationEmail(data: OrderConfirmationData): { subject: string; html: string; text: string } {
   const { order, user, orderItems } = data
+  const breakdown = getOrderPriceBreakdown(order, orderItems)
+
+  // Discount, shipping and tax rows are only shown when the order recorded them
+  const priceRows: Array<[string, string]> = [['Subtotal', `$${breakdown.subtotal.toFixed(2)}`]]
+  if (breakdown.discount > 0) {
+    priceRows.push([
+      breakdown.discountCode ? `Discount (${breakdown.discountCode})` : 'Discount',
+      `-$${breakdown.discount.toFixed(2)}`,
+    ])
+  }
+  if (breakdown.shipping !== null) {
+    priceRows.push(['Shipping', breakdown.shipping === 0 ? 'FREE' : `$${breakdown.shipping.toFixed(2)}`])
+  }
+  if (breakdown.tax !== null) {
+    priceRows.push(['Tax', `$${breakdown.tax.toFixed(2)}`])
+  }
+
+  const priceRowsHtml = priceRows.map(([label, amount]) => `
+        <tr>
+          <td colspan="3">${label}:</td>
+          <td class="text-right">${amount}</td>
+        </tr>`).join('')
   
   const itemsHtml = orderItems.map(item => `
     <tr>
@@ -75,10 +108,10 @@ export function generateOrderConfirmationEmail(data: OrderConfirmationData): { s
       <tbody>
         ${itemsHtml}
       </tbody>
-      <tfoot>
+      <tfoot>${priceRowsHtml}
         <tr>
           <td colspan="3"><strong>Total Amount:</strong></td>
-          <td class="text-right"><strong>$${order.total.toFixed(2)}</strong></td>
+          <td class="text-right"><strong>$${breakdown.total.toFixed(2)}</strong></td>
         </tr>
       </tfoot>
     </table>
@@ -109,7 +142,8 @@ ${orderItems.map(item =>
   `${item.product.name} - Qty: ${item.quantity} - $${item.price.toFixed(2)} each - Total: $${(item.quantity * item.price).toFixed(2)}`
 ).join('\n')}
 
-Total Amount: $${order.total.toFixed(2)}
+${priceRows.map(([label, amount]) => `${label}: ${amount}`).join('\n')}
+Total Amount: $${breakdown.total.toFixed(2)}
 
 View your order: ${process.env.NEXT_PUBLIC_SITE_URL}/orders/${order.id}
 
@@ -132,9 +166,12 @@ export function generateOrderStatusUpdateEmail(data: OrderStatusUpdateData): { s
   const statusMessages = {
     PENDING: 'Your order is being processed',
     CONFIRMED: 'Your order has been confirmed',
+    PARTIALLY_SHIPPED: 'Part of your order has been shipped',
     SHIPPED: 'Your order has been shipped',
     DELIVERED: 'Your order has been delivered',
-    CANCELLED: 'Your order has been cancelled'
+    CANCELLED: 'Your order has been cancelled',
+    PARTIALLY_REFUNDED: 'Part of your order has been refunded',
+    REFUNDED: 'Your order has been refunded'
   }
 
   const statusMessage = statusMessages[newStatus as keyof typeof statusMessages] || `Your order status has been updated to ${newStatus}`
@@ -206,6 +243,67 @@ E-Commerce Platform Team
   }
 }
 
+export function generateOrderCancellationEmail(data: OrderCancellationData): { subject: string; html: string; text: string } {
+  const { order, customer, reason, refundAmount } = data
+
+  const refundMessage = refundAmount > 0
+    ? `A refund of $${refundAmount.toFixed(2)} has been initiated to your original payment method. It may take 5-7 business days to appear.`
+    : 'No payment was taken for this order, so there is nothing to refund.'
+
+  const content = `
+    <h1>Order Cancelled</h1>
+    <p>Hi ${customer.name || customer.email},</p>
+    <p>Your order has been cancelled as requested.</p>
+    
+    <div class="mt-4 mb-4">
+      <strong>Order Details:</strong><br>
+      Order Number: <strong>#${order.id}</strong><br>
+      Order Total: $${Number(order.total).toFixed(2)}<br>
+      Reason: ${reason}<br>
+      Cancelled: ${new Date().toLocaleDateString()}
+    </div>
+
+    <p>${refundMessage}</p>
+
+    <div class="mt-4">
+      <a href="${process.env.NEXT_PUBLIC_SITE_URL}/products" class="button">
+        Continue Shopping
+      </a>
+    </div>
+
+    <p>We're sorry to see this order go. If you have any questions, please contact our support team.</p>
+  `
+
+  const textContent = `
+Order Cancelled
+
+Hi ${customer.name || customer.email},
+
+Your order has been cancelled as requested.
+
+Order Details:
+Order Number: #${order.id}
+Order Total: $${Number(order.total).toFixed(2)}
+Reason: ${reason}
+Cancelled: ${new Date().toLocaleDateString()}
+
+${refundMessage}
+
+Continue shopping: ${process.env.NEXT_PUBLIC_SITE_URL}/products
+
+We're sorry to see this order go. If you have any questions, please contact our support team.
+
+Best regards,
+E-Commerce Platform Team
+  `
+
+  return {
+    subject: `Order Cancelled - #${order.id}`,
+    html: wrapEmailTemplate(content, 'Order Cancelled'),
+    text: textContent
+  }
+}
+
 export function generatePasswordResetEmail(data: PasswordResetData): { subject: string; html: string; text: string } {
   const { user, resetUrl } = data
 
@@ -22,8 +22,17 @@ const envSchema = z.object({
   // Payment gateways (optional in production)
   ESEWA_MERCHANT_ID: z.string().optional(),
   ESEWA_SECRET_KEY: z.string().optional(),
+  ESEWA_API_VERSION: z.enum(['v1', 'v2']).optional(),
+  ESEWA_V2_BASE_URL: z.string().url().optional(),
+  ESEWA_STATUS_CHECK_URL: z.string().url().optional(),
+  ESEWA_REFUND_URL: z.string().url().optional(),
   KHALTI_PUBLIC_KEY: z.string().optional(),
   KHALTI_SECRET_KEY: z.string().optional(),
+  FONEPAY_MERCHANT_CODE: z.string().optional(),
+  FONEPAY_SECRET_KEY: z.string().optional(),
+  FONEPAY_USERNAME: z.string().optional(),
+  FONEPAY_PASSWORD: z.string().optional(),
+  FONEPAY_BASE_URL: z.string().url().optional(),
   
   // URLs
   PAYMENT_SUCCESS_URL: z.string().url().optional(),
@@ -0,0 +1,219 @@
+import { db } from './db'
+import {
+  orders,
+  orderItems,
+  products,
+  purchaseOrders,
+  purchaseOrderItems,
+  OrderStatus,
+  PurchaseOrderStatus,
+} from './db/schema'
+import { and, eq, gte, inArray, isNotNull, lt, ne, sql } from 'drizzle-orm'
+import { purchaseOrderRepository } from './purchase-order-repository'
+import {
+  DEFAULT_LEAD_TIME_DAYS,
+  DEFAULT_REVIEW_PERIOD_DAYS,
+  FORECAST_HISTORY_DAYS,
+  addDays,
+  buildDailySeries,
+  daysBetween,
+  fitDemandModel,
+  forecastDemand,
+  getDaysOfCover,
+  planPurchaseReorder,
+  startOfUtcDay,
+  type DailyDemand,
+} from './inventory-forecast-utils'
+
+export interface ForecastOptions {
+  horizonDays?: number
+  // Overrides the lead time measured from received purchase orders
+  leadTimeDays?: number
+  now?: Date
+}
+
+export interface ProductForecast {
+  productId: string
+  name: string
+  sku: string | null
+  price: number
+  currentStock: number
+  onOrder: number
+  historyDays: number
+  averageDailyDemand: number
+  trendPerDay: number
+  weekdayFactors: number[]
+  leadTimeDays: number
+  leadTimeSource: 'override' | 'purchase_orders' | 'default'
+  safetyStock: number
+  reorderPoint: number
+  suggestedOrderQuantity: number
+  // Days until the current stock sells through; null when it outlasts the forecast
+  daysOfCover: number | null
+  daily: DailyDemand[]
+}
+
+export type ReorderSuggestion = Omit<ProductForecast, 'daily' | 'weekdayFactors'>
+
+type ForecastProduct = Pick<typeof products.$inferSelect, 'id' | 'name' | 'sku' | 'price' | 'inventory' | 'createdAt'>
+
+const productColumns = {
+  id: products.id,
+  name: products.name,
+  sku: products.sku,
+  price: products.price,
+  inventory: products.inventory,
+  createdAt: products.createdAt,
+}
+
+export class InventoryForecastService {
+  /**
+   * Forecast one product's demand and when to reorder it
+   */
+  async getProductForecast(productId: string, options: ForecastOptions = {}): Promise<ProductForecast | null> {
+    const [product] = await db.select(productColumns)
+      .from(products)
+      .where(eq(products.id, productId))
+      .limit(1)
+
+    if (!product) {
+      return null
+    }
+
+    const [forecast] = await this.forecastProducts([product], options)
+    return forecast
+  }
+
+  /**
+   * Active products that have reached their reorder point, the ones
+   * running out soonest first
+   */
+  async getReorderSuggestions(options: ForecastOptions = {}): Promise<ReorderSuggestion[]> {
+    const activeProducts = await db.select(productColumns)
+      .from(products)
+      .where(eq(products.isActive, true))
+
+    const forecasts = await this.forecastProducts(activeProducts, options)
+
+    return forecasts
+      .filter(forecast => forecast.suggestedOrderQuantity > 0)
+      .sort((a, b) => (a.daysOfCover ?? Infinity) - (b.daysOfCover ?? Infinity))
+      .map(({ daily: _daily, weekdayFactors: _weekdayFactors, ...suggestion }) => suggestion)
+  }
+
+  private async forecastProducts(list: ForecastProduct[], options: ForecastOptions): Promise<ProductForecast[]> {
+    if (list.length === 0) {
+      return []
+    }
+
+    const today = startOfUtcDay(options.now || new Date())
+    const historyStart = addDays(today, -FORECAST_HISTORY_DAYS)
+    const productIds = list.map(product => product.id)
+
+    const [sales, leadTimes, onOrder] = await Promise.all([
+      this.getDailySales(productIds, historyStart, today),
+      options.leadTimeDays ? Promise.resolve(new Map<string, number>()) : this.getLeadTimes(productIds),
+      purchaseOrderRepository.getOnOrderQuantities(productIds),
+    ])
+
+    return list.map((product): ProductForecast => {
+      // Products added during the window only count from the day they were listed
+      const start = product.createdAt > historyStart ? startOfUtcDay(product.createdAt) : historyStart
+      const series = buildDailySeries(sales.get(product.id) || [], start, daysBetween(start, today))
+      const model = fitDemandModel(series, start)
+
+      const measuredLeadTime = leadTimes.get(product.id)
+      const leadTimeDays = options.leadTimeDays || measuredLeadTime || DEFAULT_LEAD_TIME_DAYS
+      const horizonDays = Math.max(options.horizonDays || 30, leadTimeDays + DEFAULT_REVIEW_PERIOD_DAYS)
+      const daily = forecastDemand(model, today, horizonDays)
+
+      const currentStock = product.inventory
+      const productOnOrder = onOrder[product.id] || 0
+      const plan = planPurchaseReorder({
+        forecast: daily,
+        standardDeviation: model.standardDeviation,
+        currentStock,
+        onOrder: productOnOrder,
+        leadTimeDays,
+      })
+
+      return {
+        productId: product.id,
+        name: product.name,
+        sku: product.sku,
+        price: Number(product.price),
+        currentStock,
+        onOrder: productOnOrder,
+        historyDays: model.historyDays,
+        averageDailyDemand: model.averageDailyDemand,
+        trendPerDay: model.trendPerDay,
+        weekdayFactors: model.weekdayFactors,
+        leadTimeDays,
+        leadTimeSource: options.leadTimeDays ? 'override' : measuredLeadTime ? 'purchase_orders' : 'default',
+        safetyStock: plan.safetyStock,
+        reorderPoint: plan.reorderPoint,
+        suggestedOrderQuantity: plan.suggestedOrderQuantity,
+        daysOfCover: getDaysOfCover(daily, currentStock),
+        daily: daily.slice(0, options.horizonDays || 30),
+      }
+    })
+  }
+
+  /**
+   * Units ordered per product per day. Cancelled orders never shipped, so
+   * they aren't demand we need stock for.
+   */
+  private async getDailySales(productIds: string[], from: Date, to: Date): Promise<Map<string, DailyDemand[]>> {
+    const day = sql`date_trunc('day', ${orders.createdAt})`
+
+    const rows = await db.select({
+      productId: orderItems.productId,
+      date: sql<string>`to_char(${day}, 'YYYY-MM-DD')`,
+      quantity: sql<number>`SUM(${orderItems.quantity})::int`,
+    })
+      .from(orderItems)
+      .innerJoin(orders, eq(orders.id, orderItems.orderId))
+      .where(and(
+        inArray(orderItems.productId, productIds),
+        gte(orders.createdAt, from),
+        lt(orders.createdAt, to),
+        ne(orders.status, OrderStatus.CANCELLED)
+      ))
+      .groupBy(orderItems.productId, day)
+
+    const sales = new Map<string, DailyDemand[]>()
+    for (const row of rows) {
+      const entries = sales.get(row.productId) || []
+      entries.push({ date: row.date, quantity: row.quantity })
+      sales.set(row.productId, entries)
+    }
+
+    return sales
+  }
+
+  /**
+   * Average days from sending a purchase order to receiving it in full,
+   * per product
+   */
+  private async getLeadTimes(productIds: string[]): Promise<Map<string, number>> {
+    const rows = await db.select({
+      productId: purchaseOrderItems.productId,
+      days: sql<number>`CEIL(AVG(EXTRACT(EPOCH FROM (${purchaseOrders.receivedAt} - ${purchaseOrders.sentAt})) / 86400))::int`,
+    })
+      .from(purchaseOrderItems)
+      .innerJoin(purchaseOrders, eq(purchaseOrders.id, purchaseOrderItems.purchaseOrderId))
+      .where(and(
+        inArray(purchaseOrderItems.productId, productIds),
+        eq(purchaseOrders.status, PurchaseOrderStatus.RECEIVED),
+        isNotNull(purchaseOrders.sentAt),
+        isNotNull(purchaseOrders.receivedAt)
+      ))
+      .groupBy(purchaseOrderItems.productId)
+
+    return new Map(
+      rows.filter(row => row.days > 0).map(row => [row.productId, row.days])
+    )
+  }
+}
+
+export const inventoryForecastService = new InventoryForecastService()
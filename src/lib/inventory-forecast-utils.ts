@@ -0,0 +1,218 @@
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Days of order history the demand model is fitted on
+export const FORECAST_HISTORY_DAYS = 90
+
+// Used when no purchase order for the product has been received yet
+export const DEFAULT_LEAD_TIME_DAYS = 7
+
+// How often stock is reviewed; an order should last until the next review
+export const DEFAULT_REVIEW_PERIOD_DAYS = 14
+
+// z-score for a 95% chance of not running out while an order is on its way
+export const SERVICE_LEVEL_Z = 1.65
+
+// Less history than this and weekday patterns and trend are treated as noise
+const MIN_DAYS_FOR_PATTERNS = 28
+
+export interface DailyDemand {
+  date: string // YYYY-MM-DD, UTC
+  quantity: number
+}
+
+export interface DemandModel {
+  historyDays: number
+  averageDailyDemand: number
+  // Demand on the last day of history with the weekday effect removed
+  level: number
+  trendPerDay: number
+  // Demand on each weekday relative to an average day, Sunday first
+  weekdayFactors: number[]
+  // Spread of daily demand around the fitted model
+  standardDeviation: number
+}
+
+export interface ReorderPlan {
+  leadTimeDemand: number
+  safetyStock: number
+  reorderPoint: number
+  suggestedOrderQuantity: number
+}
+
+const round = (value: number, places: number = 2) => {
+  const factor = Math.pow(10, places)
+  return Math.round(value * factor) / factor
+}
+
+export function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+}
+
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS)
+}
+
+export function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+export function daysBetween(from: Date, to: Date): number {
+  return Math.round((startOfUtcDay(to).getTime() - startOfUtcDay(from).getTime()) / DAY_MS)
+}
+
+/**
+ * Units sold on each day from startDate, oldest first, with days without
+ * sales as zero
+ */
+export function buildDailySeries(sales: DailyDemand[], startDate: Date, days: number): number[] {
+  const byDate = new Map<string, number>()
+  for (const sale of sales) {
+    byDate.set(sale.date, (byDate.get(sale.date) || 0) + sale.quantity)
+  }
+
+  return Array.from({ length: Math.max(0, days) }, (_, index) =>
+    byDate.get(toDateKey(addDays(startDate, index))) || 0
+  )
+}
+
+/**
+ * Fit weekday seasonality and a linear trend to daily demand. Short
+ * histories fall back to a flat average.
+ */
+export function fitDemandModel(series: number[], startDate: Date): DemandModel {
+  const n = series.length
+  const mean = n > 0 ? series.reduce((sum, value) => sum + value, 0) / n : 0
+  const weekdayOf = (index: number) => addDays(startDate, index).getUTCDay()
+
+  if (n < MIN_DAYS_FOR_PATTERNS || mean === 0) {
+    const variance = n > 1
+      ? series.reduce((sum, value) => sum + Math.pow(value - mean, 2), 0) / (n - 1)
+      : mean
+
+    return {
+      historyDays: n,
+      averageDailyDemand: round(mean),
+      level: mean,
+      trendPerDay: 0,
+      weekdayFactors: Array(7).fill(1),
+      standardDeviation: round(Math.sqrt(variance)),
+    }
+  }
+
+  // Average demand on each weekday relative to the overall average
+  const totals = Array(7).fill(0)
+  const counts = Array(7).fill(0)
+  series.forEach((value, index) => {
+    totals[weekdayOf(index)] += value
+    counts[weekdayOf(index)] += 1
+  })
+  const raw = totals.map((total, day) => counts[day] > 0 ? total / counts[day] / mean : 1)
+  const rawMean = raw.reduce((sum, factor) => sum + factor, 0) / 7
+  const weekdayFactors = raw.map(factor => factor / rawMean)
+
+  // Least-squares trend on the weekday-adjusted series
+  const adjusted = series.map((value, index) => {
+    const factor = weekdayFactors[weekdayOf(index)]
+    return factor > 0 ? value / factor : value
+  })
+  const meanIndex = (n - 1) / 2
+  const meanAdjusted = adjusted.reduce((sum, value) => sum + value, 0) / n
+  let covariance = 0
+  let varianceIndex = 0
+  adjusted.forEach((value, index) => {
+    covariance += (index - meanIndex) * (value - meanAdjusted)
+    varianceIndex += Math.pow(index - meanIndex, 2)
+  })
+  const trendPerDay = varianceIndex > 0 ? covariance / varianceIndex : 0
+  const intercept = meanAdjusted - trendPerDay * meanIndex
+
+  const squaredErrors = series.reduce((sum, value, index) => {
+    const fitted = Math.max(0, (intercept + trendPerDay * index) * weekdayFactors[weekdayOf(index)])
+    return sum + Math.pow(value - fitted, 2)
+  }, 0)
+
+  return {
+    historyDays: n,
+    averageDailyDemand: round(mean),
+    level: Math.max(0, intercept + trendPerDay * (n - 1)),
+    trendPerDay: round(trendPerDay, 4),
+    weekdayFactors: weekdayFactors.map(factor => round(factor, 3)),
+    standardDeviation: round(Math.sqrt(squaredErrors / Math.max(1, n - 2))),
+  }
+}
+
+/**
+ * Expected units sold on each of the next days, starting at startDate,
+ * which should be the day after the model's history ends
+ */
+export function forecastDemand(model: DemandModel, startDate: Date, days: number): DailyDemand[] {
+  return Array.from({ length: days }, (_, index) => {
+    const date = addDays(startDate, index)
+    const base = model.level + model.trendPerDay * (index + 1)
+
+    return {
+      date: toDateKey(date),
+      quantity: round(Math.max(0, base * model.weekdayFactors[date.getUTCDay()])),
+    }
+  })
+}
+
+/**
+ * Days until the forecast sells through the stock, or null when it lasts
+ * beyond the forecast
+ */
+export function getDaysOfCover(forecast: DailyDemand[], stock: number): number | null {
+  if (stock <= 0) {
+    return 0
+  }
+
+  let remaining = stock
+  for (let index = 0; index < forecast.length; index++) {
+    remaining -= forecast[index].quantity
+    if (remaining <= 0) {
+      return index
+    }
+  }
+
+  return null
+}
+
+/**
+ * Reorder once stock plus what is already on order falls to the demand
+ * expected over the lead time plus safety stock, and order enough to last
+ * until the next review after the delivery arrives
+ */
+export function planPurchaseReorder(options: {
+  forecast: DailyDemand[]
+  standardDeviation: number
+  currentStock: number
+  onOrder: number
+  leadTimeDays: number
+  reviewPeriodDays?: number
+  serviceLevelZ?: number
+}): ReorderPlan {
+  const {
+    forecast,
+    standardDeviation,
+    currentStock,
+    onOrder,
+    leadTimeDays,
+    reviewPeriodDays = DEFAULT_REVIEW_PERIOD_DAYS,
+    serviceLevelZ = SERVICE_LEVEL_Z,
+  } = options
+
+  const demandOver = (days: number) => forecast.slice(0, days).reduce((sum, day) => sum + day.quantity, 0)
+
+  const leadTimeDemand = demandOver(leadTimeDays)
+  const safetyStock = Math.ceil(serviceLevelZ * standardDeviation * Math.sqrt(leadTimeDays))
+  const reorderPoint = Math.ceil(leadTimeDemand + safetyStock)
+  const targetLevel = Math.ceil(demandOver(leadTimeDays + reviewPeriodDays) + safetyStock)
+  const position = currentStock + onOrder
+
+  return {
+    leadTimeDemand: round(leadTimeDemand),
+    safetyStock,
+    reorderPoint,
+    suggestedOrderQuantity: reorderPoint > 0 && position <= reorderPoint ? Math.max(0, targetLevel - position) : 0,
+  }
+}
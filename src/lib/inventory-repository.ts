@@ -1,7 +1,31 @@
 import { db } from './db'
-import { products, inventoryAdjustments } from './db/schema'
-import { eq, and, or, gte, lte, sql, desc, asc } from 'drizzle-orm'
-import { PaginationParams, PaginatedResponse } from '@/types'
+import {
+  products,
+  inventoryAdjustments,
+  inventoryReservations,
+  InventoryReservationStatus,
+  stockLocations,
+  locationStock,
+} from './db/schema'
+import { eq, and, or, gte, lte, lt, sql, desc, asc, inArray } from 'drizzle-orm'
+import { PaginationParams, PaginatedResponse, InventoryReservation } from '@/types'
+import { SettingsRepository } from './settings-repository'
+import {
+  DEFAULT_RESERVATION_MINUTES,
+  formatInsufficientStock,
+  getReservationExpiry,
+  mergeStockItems,
+  type StockItem,
+} from './inventory-reservation-utils'
+import {
+  allocateReturnedStock,
+  allocateStock,
+  getNetStockTaken,
+  type StockAllocationPlan,
+} from './stock-location-utils'
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0]
+type DbClient = typeof db | Transaction
 
 export type InventoryChangeType = 
   | 'MANUAL_ADJUSTMENT'
@@ -9,6 +33,10 @@ export type InventoryChangeType =
   | 'DAMAGED'
   | 'ORDER_PLACED'
   | 'ORDER_RETURNED'
+  | 'RESERVATION_RELEASED'
+  | 'TRANSFER_OUT'
+  | 'TRANSFER_IN'
+  | 'STOCKTAKE'
   | 'INITIAL'
   | 'OTHER'
 
@@ -23,10 +51,24 @@ export type InventoryAdjustment = {
   type: InventoryChangeType
   reason: string
   createdBy?: string
+  // Defaults to the default location
+  locationId?: string
+}
+
+// One product's stock moving in or out of a location
+export type StockChange = {
+  productId: string
+  locationId: string
+  quantity: number
+  changeType: InventoryChangeType
+  reason: string
+  referenceId?: string | null
+  userId?: string | null
 }
 
 export type InventoryHistoryFilters = {
   productId?: string
+  locationId?: string
   type?: string
   dateFrom?: string
   dateTo?: string
@@ -47,12 +89,18 @@ export type InventoryAdjustmentWithProduct = {
   type: InventoryChangeType
   reason: string
   createdBy?: string
+  locationId?: string | null
   createdAt: Date
   product: {
     id: string
     name: string
     slug: string
   }
+  location?: {
+    id: string
+    name: string
+    code: string
+  } | null
 }
 
 export type Product = {
@@ -124,13 +172,18 @@ class InventoryRepository {
     }
   }
 
+  /**
+   * Set the stock counted at a location, the default one unless given
+   */
   async bulkUpdateInventory(
     updates: InventoryUpdate[], 
     reason: string,
-    createdBy?: string
+    createdBy?: string,
+    locationId?: string
   ): Promise<{ updatedCount: number; errors: string[] }> {
     const errors: string[] = []
     let updatedCount = 0
+    const targetLocationId = locationId || await this.getDefaultLocationId()
 
     // Process updates sequentially (Drizzle doesn't have nested transactions)
     for (const update of updates) {
@@ -149,23 +202,19 @@ class InventoryRepository {
         }
 
         // Calculate change amount
-        const changeAmount = update.quantity - product.inventory;
+        const changeAmount = update.quantity - await this.getLocationQuantity(update.productId, targetLocationId);
 
-        // Update product inventory
-        await db.update(products)
-          .set({ inventory: update.quantity })
-          .where(eq(products.id, update.productId));
-
-        // Record the adjustment
         if (changeAmount !== 0) {
-          await db.insert(inventoryAdjustments)
-            .values({
+          await db.transaction(async (tx) => {
+            await this.applyStockChange({
               productId: update.productId,
+              locationId: targetLocationId,
               quantity: changeAmount,
               changeType: 'MANUAL_ADJUSTMENT',
               reason,
               userId: createdBy || null,
-            });
+            }, tx)
+          })
         }
 
         updatedCount++;
@@ -190,31 +239,29 @@ class InventoryRepository {
       throw new Error(`Product ${adjustment.productId} not found`);
     }
 
-    // Calculate new inventory level
-    const newInventory = Math.max(0, product.inventory + adjustment.quantity);
-
-    // Update product inventory
-    await db.update(products)
-      .set({ inventory: newInventory })
-      .where(eq(products.id, adjustment.productId));
+    const locationId = adjustment.locationId || await this.getDefaultLocationId()
 
-    // Create adjustment record
-    const insertResult = await db.insert(inventoryAdjustments)
-      .values({
+    // Fails rather than take the location below zero
+    const created = await db.transaction(async (tx) => {
+      return this.applyStockChange({
         productId: adjustment.productId,
+        locationId,
         quantity: adjustment.quantity,
         changeType: adjustment.type,
         reason: adjustment.reason,
         userId: adjustment.createdBy || null,
-      })
-      .returning();
+      }, tx)
+    })
 
     // Fetch with product data
     const adjustmentRecord = await db.query.inventoryAdjustments.findFirst({
-      where: eq(inventoryAdjustments.id, insertResult[0].id),
+      where: eq(inventoryAdjustments.id, created.id),
       with: {
         product: {
           columns: { id: true, name: true, slug: true }
+        },
+        location: {
+          columns: { id: true, name: true, code: true }
         }
       }
     });
@@ -260,6 +307,10 @@ class InventoryRepository {
     if (filters.type) {
       conditions.push(eq(inventoryAdjustments.changeType, filters.type));
     }
+
+    if (filters.locationId) {
+      conditions.push(eq(inventoryAdjustments.locationId, filters.locationId));
+    }
     
     if (filters.dateFrom) {
       conditions.push(gte(inventoryAdjustments.createdAt, new Date(filters.dateFrom)));
@@ -277,6 +328,9 @@ class InventoryRepository {
         with: {
           product: {
             columns: { id: true, name: true, slug: true }
+          },
+          location: {
+            columns: { id: true, name: true, code: true }
           }
         },
         orderBy: desc(inventoryAdjustments.createdAt),
@@ -324,41 +378,454 @@ class InventoryRepository {
   async recordOrderInventoryDeduction(
     orderItems: { productId: string; quantity: number }[]
   ): Promise<void> {
-    for (const item of orderItems) {
-      // Update product inventory
-      await db.update(products)
-        .set({ inventory: sql`${products.inventory} - ${item.quantity}` })
-        .where(eq(products.id, item.productId));
-
-      // Record inventory adjustment
-      await db.insert(inventoryAdjustments)
-        .values({
-          productId: item.productId,
-          quantity: -item.quantity,
-          changeType: 'ORDER_PLACED',
-          reason: 'Inventory deducted for order',
-        });
-    }
+    await db.transaction(async (tx) => {
+      await this.decrementStock(orderItems, {
+        reason: 'Inventory deducted for order',
+        allowOversell: true,
+      }, tx)
+    })
   }
 
+  /**
+   * Put an order's stock back on the shelf. Given the order as referenceId,
+   * units go back to the locations the order's adjustments took them from,
+   * so a split order restocks each location. Anything else goes to the
+   * location it shipped from, or the default location for orders placed
+   * before locations.
+   */
   async recordOrderInventoryReturn(
-    orderItems: { productId: string; quantity: number }[]
+    orderItems: { productId: string; quantity: number }[],
+    options: { reason?: string; referenceId?: string; locationId?: string | null } = {},
+    client: DbClient = db
   ): Promise<void> {
-    for (const item of orderItems) {
-      // Update product inventory
-      await db.update(products)
-        .set({ inventory: sql`${products.inventory} + ${item.quantity}` })
-        .where(eq(products.id, item.productId));
-
-      // Record inventory adjustment
-      await db.insert(inventoryAdjustments)
+    const defaultLocationId = await this.getDefaultLocationId(client)
+    const adjustments = options.referenceId
+      ? await client.select({
+        productId: inventoryAdjustments.productId,
+        locationId: inventoryAdjustments.locationId,
+        quantity: inventoryAdjustments.quantity,
+      })
+        .from(inventoryAdjustments)
+        .where(eq(inventoryAdjustments.referenceId, options.referenceId))
+        .orderBy(asc(inventoryAdjustments.createdAt))
+      : []
+
+    const { allocations, unplaced } = allocateReturnedStock(
+      orderItems,
+      getNetStockTaken(adjustments, defaultLocationId)
+    )
+    const locationId = options.locationId || defaultLocationId
+
+    for (const item of [...allocations, ...unplaced.map(item => ({ ...item, locationId }))]) {
+      await this.applyStockChange({
+        productId: item.productId,
+        locationId: item.locationId,
+        quantity: item.quantity,
+        changeType: 'ORDER_RETURNED',
+        reason: options.reason || 'Inventory returned from cancelled/refunded order',
+        referenceId: options.referenceId,
+      }, client)
+    }
+  }
+
+  /**
+   * Bring a product's sellable total to a figure entered for the product as
+   * a whole, such as on the product form. Added stock goes to the default
+   * location; a lower total is taken from the default location first and
+   * then from the others in priority order. Pass a transaction so a
+   * reduction spread over several locations applies as a whole.
+   */
+  async setProductTotal(
+    productId: string,
+    total: number,
+    change: { changeType: InventoryChangeType; reason: string; userId?: string | null },
+    client: DbClient = db
+  ): Promise<void> {
+    const [product] = await client.select({ name: products.name, inventory: products.inventory })
+      .from(products)
+      .where(eq(products.id, productId))
+      .limit(1)
+
+    if (!product) {
+      throw new Error(`Product ${productId} not found`)
+    }
+
+    if (total > product.inventory) {
+      await this.applyStockChange({
+        ...change,
+        productId,
+        locationId: await this.getDefaultLocationId(client),
+        quantity: total - product.inventory,
+      }, client)
+    } else if (total < product.inventory) {
+      const levels = await client.select()
+        .from(locationStock)
+        .where(eq(locationStock.productId, productId))
+        .orderBy(asc(locationStock.locationId))
+        .for('update')
+
+      // Inactive locations can still hold stock to take
+      const defaultLocationId = await this.getDefaultLocationId(client)
+      const fulfillmentIds = await this.getFulfillmentLocationIds(client)
+      const locationIds = [defaultLocationId, ...fulfillmentIds, ...levels.map(level => level.locationId)]
+        .filter((id, index, ids) => ids.indexOf(id) === index)
+
+      let remaining = product.inventory - total
+      for (const locationId of locationIds) {
+        if (remaining === 0) {
+          break
+        }
+
+        const held = levels.find(level => level.locationId === locationId)?.quantity || 0
+        const quantity = Math.min(remaining, Math.max(0, held))
+        if (quantity > 0) {
+          await this.applyStockChange({
+            ...change,
+            productId,
+            locationId,
+            quantity: -quantity,
+          }, client)
+          remaining -= quantity
+        }
+      }
+
+      if (remaining > 0) {
+        const reduction = product.inventory - total
+        throw new Error(formatInsufficientStock(product.name, reduction - remaining, reduction))
+      }
+    }
+  }
+
+  /**
+   * The location stock entered without one goes to
+   */
+  async getDefaultLocationId(client: DbClient = db): Promise<string> {
+    const [location] = await client.select({ id: stockLocations.id })
+      .from(stockLocations)
+      .orderBy(desc(stockLocations.isDefault), desc(stockLocations.isActive), asc(stockLocations.priority))
+      .limit(1)
+
+    if (!location) {
+      throw new Error('No stock location configured')
+    }
+
+    return location.id
+  }
+
+  /**
+   * Active locations in the order they are tried when fulfilling
+   */
+  async getFulfillmentLocationIds(client: DbClient = db): Promise<string[]> {
+    const locations = await client.select({ id: stockLocations.id })
+      .from(stockLocations)
+      .where(eq(stockLocations.isActive, true))
+      .orderBy(asc(stockLocations.priority), desc(stockLocations.isDefault), asc(stockLocations.name))
+
+    return locations.map(location => location.id)
+  }
+
+  async getLocationQuantity(productId: string, locationId: string, client: DbClient = db): Promise<number> {
+    const [level] = await client.select({ quantity: locationStock.quantity })
+      .from(locationStock)
+      .where(and(eq(locationStock.productId, productId), eq(locationStock.locationId, locationId)))
+      .limit(1)
+
+    return level?.quantity || 0
+  }
+
+  /**
+   * Move one product's stock in or out of a location and record why.
+   * products.inventory, the sellable total across locations, moves with
+   * it. Stock is only taken if the location has enough, unless
+   * allowNegative is set for stock that has already left.
+   */
+  async applyStockChange(
+    change: StockChange,
+    client: DbClient = db,
+    options: { allowNegative?: boolean } = {}
+  ) {
+    if (change.quantity < 0 && !options.allowNegative) {
+      const [updated] = await client.update(locationStock)
+        .set({
+          quantity: sql`${locationStock.quantity} + ${change.quantity}`,
+          updatedAt: new Date(),
+        })
+        .where(and(
+          eq(locationStock.productId, change.productId),
+          eq(locationStock.locationId, change.locationId),
+          gte(locationStock.quantity, -change.quantity)
+        ))
+        .returning({ id: locationStock.id })
+
+      if (!updated) {
+        const [product] = await client.select({ name: products.name })
+          .from(products)
+          .where(eq(products.id, change.productId))
+          .limit(1)
+
+        if (!product) {
+          throw new Error(`Product ${change.productId} not found`)
+        }
+
+        const available = await this.getLocationQuantity(change.productId, change.locationId, client)
+        throw new Error(formatInsufficientStock(product.name, available, -change.quantity))
+      }
+    } else {
+      await client.insert(locationStock)
         .values({
-          productId: item.productId,
-          quantity: item.quantity,
-          changeType: 'ORDER_RETURNED',
-          reason: 'Inventory returned from cancelled/refunded order',
-        });
+          locationId: change.locationId,
+          productId: change.productId,
+          quantity: change.quantity,
+        })
+        .onConflictDoUpdate({
+          target: [locationStock.locationId, locationStock.productId],
+          set: {
+            quantity: sql`${locationStock.quantity} + ${change.quantity}`,
+            updatedAt: new Date(),
+          },
+        })
     }
+
+    await client.update(products)
+      .set({
+        inventory: sql`${products.inventory} + ${change.quantity}`,
+        updatedAt: new Date(),
+      })
+      .where(eq(products.id, change.productId))
+
+    const [adjustment] = await client.insert(inventoryAdjustments)
+      .values({
+        productId: change.productId,
+        locationId: change.locationId,
+        quantity: change.quantity,
+        changeType: change.changeType,
+        reason: change.reason,
+        referenceId: change.referenceId || null,
+        userId: change.userId || null,
+      })
+      .returning()
+
+    return adjustment
+  }
+
+  /**
+   * Take stock for an order and pick the location it ships from. Each
+   * location is decremented only if enough is left, in the same statement,
+   * so two checkouts can't both sell the last unit. Pass the order's
+   * transaction so a shortfall rolls the order back.
+   *
+   * allowOversell takes stock the locations don't have from the shipping
+   * location anyway, for orders that have already been paid.
+   */
+  async decrementStock(
+    items: StockItem[],
+    options: {
+      reason: string
+      referenceId?: string | null
+      locationId?: string | null
+      allowOversell?: boolean
+    },
+    client: DbClient = db
+  ): Promise<StockAllocationPlan> {
+    const merged = mergeStockItems(items)
+    const productIds = merged.map(item => item.productId)
+    const locationIds = await this.getFulfillmentLocationIds(client)
+
+    const found = await client.select({ id: products.id, name: products.name })
+      .from(products)
+      .where(inArray(products.id, productIds))
+
+    // Lock the levels so the plan still holds when the stock is taken
+    const levels = await client.select()
+      .from(locationStock)
+      .where(inArray(locationStock.productId, productIds))
+      .orderBy(asc(locationStock.productId), asc(locationStock.locationId))
+      .for('update')
+
+    for (const item of merged) {
+      if (!found.some(product => product.id === item.productId)) {
+        throw new Error(`Product ${item.productId} not found`)
+      }
+    }
+
+    const plan = allocateStock(merged, levels, locationIds, options.locationId)
+
+    if (plan.shortfalls.length > 0) {
+      if (!options.allowOversell) {
+        const shortfall = plan.shortfalls[0]
+        const requested = merged.find(item => item.productId === shortfall.productId)!.quantity
+        const name = found.find(product => product.id === shortfall.productId)!.name
+
+        throw new Error(formatInsufficientStock(name, requested - shortfall.quantity, requested))
+      }
+
+      const locationId = plan.locationId || await this.getDefaultLocationId(client)
+      plan.locationId = locationId
+      for (const shortfall of plan.shortfalls) {
+        await this.applyStockChange({
+          ...shortfall,
+          locationId,
+          quantity: -shortfall.quantity,
+          changeType: 'ORDER_PLACED',
+          reason: options.reason,
+          referenceId: options.referenceId,
+        }, client, { allowNegative: true })
+      }
+    }
+
+    for (const allocation of plan.allocations) {
+      await this.applyStockChange({
+        ...allocation,
+        quantity: -allocation.quantity,
+        changeType: 'ORDER_PLACED',
+        reason: options.reason,
+        referenceId: options.referenceId,
+      }, client)
+    }
+
+    plan.allocations.push(...plan.shortfalls.map(shortfall => ({ ...shortfall, locationId: plan.locationId! })))
+
+    return plan
+  }
+
+  /**
+   * Ship an order from a different location: the stock it took goes back
+   * where it came from and is taken from the new location instead
+   */
+  async moveOrderStock(orderId: string, toLocationId: string, client: DbClient = db): Promise<void> {
+    const adjustments = await client.select({
+      productId: inventoryAdjustments.productId,
+      locationId: inventoryAdjustments.locationId,
+      quantity: inventoryAdjustments.quantity,
+    })
+      .from(inventoryAdjustments)
+      .where(eq(inventoryAdjustments.referenceId, orderId))
+
+    const taken = getNetStockTaken(adjustments, await this.getDefaultLocationId(client))
+
+    for (const entry of taken) {
+      if (entry.locationId === toLocationId) {
+        continue
+      }
+
+      await this.applyStockChange({
+        ...entry,
+        changeType: 'ORDER_RETURNED',
+        reason: `Order ${orderId} moved to another location`,
+        referenceId: orderId,
+      }, client)
+
+      await this.applyStockChange({
+        ...entry,
+        locationId: toLocationId,
+        quantity: -entry.quantity,
+        changeType: 'ORDER_PLACED',
+        reason: `Order ${orderId} moved to this location`,
+        referenceId: orderId,
+      }, client)
+    }
+  }
+
+  /**
+   * Hold stock for an online checkout while the customer pays at the
+   * gateway. The stock leaves inventory now; the hold is consumed when the
+   * order is created, or released if the payment fails or times out.
+   */
+  async reserveStock(orderId: string, items: StockItem[]): Promise<InventoryReservation[]> {
+    const minutes = Number(
+      await SettingsRepository.getValue('inventory_reservation_minutes', DEFAULT_RESERVATION_MINUTES)
+    )
+    const expiresAt = getReservationExpiry(minutes > 0 ? minutes : DEFAULT_RESERVATION_MINUTES)
+
+    return db.transaction(async (tx) => {
+      const plan = await this.decrementStock(items, {
+        reason: `Stock reserved for checkout ${orderId}`,
+        referenceId: orderId,
+      }, tx)
+
+      return tx.insert(inventoryReservations)
+        .values(plan.allocations.map(allocation => ({
+          orderId,
+          productId: allocation.productId,
+          locationId: allocation.locationId,
+          quantity: allocation.quantity,
+          expiresAt,
+        })))
+        .returning()
+    })
+  }
+
+  /**
+   * Turn an order's held stock into the order itself. Returns the consumed
+   * holds; none means the hold was already released and the stock has to
+   * be taken again.
+   */
+  async consumeReservation(orderId: string, client: DbClient = db): Promise<InventoryReservation[]> {
+    return client.update(inventoryReservations)
+      .set({
+        status: InventoryReservationStatus.CONSUMED,
+        updatedAt: new Date(),
+      })
+      .where(and(
+        eq(inventoryReservations.orderId, orderId),
+        eq(inventoryReservations.status, InventoryReservationStatus.HELD)
+      ))
+      .returning()
+  }
+
+  /**
+   * Put the stock held for a checkout back into inventory. Safe to call
+   * more than once: only holds still open are released.
+   */
+  async releaseReservation(orderId: string, reason: string): Promise<number> {
+    return db.transaction(async (tx) => {
+      const released = await tx.update(inventoryReservations)
+        .set({
+          status: InventoryReservationStatus.RELEASED,
+          releasedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(and(
+          eq(inventoryReservations.orderId, orderId),
+          eq(inventoryReservations.status, InventoryReservationStatus.HELD)
+        ))
+        .returning()
+
+      for (const reservation of released) {
+        await this.applyStockChange({
+          productId: reservation.productId,
+          locationId: reservation.locationId || await this.getDefaultLocationId(tx),
+          quantity: reservation.quantity,
+          changeType: 'RESERVATION_RELEASED',
+          reason,
+          referenceId: orderId,
+        }, tx)
+      }
+
+      return released.length
+    })
+  }
+
+  /**
+   * Release holds whose customer never finished paying. Returns the number
+   * of checkouts whose stock went back into inventory.
+   */
+  async releaseExpiredReservations(now: Date = new Date()): Promise<number> {
+    const expired = await db.selectDistinct({ orderId: inventoryReservations.orderId })
+      .from(inventoryReservations)
+      .where(and(
+        eq(inventoryReservations.status, InventoryReservationStatus.HELD),
+        lt(inventoryReservations.expiresAt, now)
+      ))
+
+    let released = 0
+    for (const { orderId } of expired) {
+      if (await this.releaseReservation(orderId, 'Checkout payment timed out') > 0) {
+        released++
+      }
+    }
+
+    return released
   }
 }
 
@@ -0,0 +1,33 @@
+const MINUTE_MS = 60 * 1000
+
+// How long stock stays held for a customer paying online, unless the
+// inventory_reservation_minutes setting says otherwise
+export const DEFAULT_RESERVATION_MINUTES = 30
+
+export interface StockItem {
+  productId: string
+  quantity: number
+}
+
+/**
+ * One line per product, in product id order. Locking rows in the same order
+ * everywhere keeps two checkouts for the same products from deadlocking.
+ */
+export function mergeStockItems(items: StockItem[]): StockItem[] {
+  const quantities = new Map<string, number>()
+
+  for (const item of items) {
+    quantities.set(item.productId, (quantities.get(item.productId) || 0) + item.quantity)
+  }
+
+  return Array.from(quantities, ([productId, quantity]) => ({ productId, quantity }))
+    .sort((a, b) => (a.productId < b.productId ? -1 : a.productId > b.productId ? 1 : 0))
+}
+
+export function getReservationExpiry(minutes: number = DEFAULT_RESERVATION_MINUTES, now: Date = new Date()): Date {
+  return new Date(now.getTime() + minutes * MINUTE_MS)
+}
+
+export function formatInsufficientStock(name: string, available: number, requested: number): string {
+  return `Insufficient inventory for product ${name}. Available: ${Math.max(0, available)}, Requested: ${requested}`
+}
@@ -1,4 +1,10 @@
 import { DEFAULT_CURRENCY } from '@/lib/currency'
+import {
+  formatPaymentMethod,
+  getOrderPriceBreakdown,
+  type DisplayPriceBreakdown,
+  type OrderPriceFields,
+} from '@/lib/order-pricing'
 
 // Simple PDF-friendly currency formatting
 function formatCurrencyForPDF(amount: number, currency: string = DEFAULT_CURRENCY): string {
@@ -10,7 +16,7 @@ function formatCurrencyForPDF(amount: number, currency: string = DEFAULT_CURRENC
   return `${symbol} ${formattedAmount}`
 }
 
-interface InvoiceOrder {
+interface InvoiceOrder extends OrderPriceFields {
   id: string
   userId: string
   status: string
@@ -46,15 +52,18 @@ interface InvoiceOrder {
     postalCode: string
     country?: string
   } | null
+  refunds?: Array<{
+    amount: string | number
+    reason: string
+    reference?: string | null
+    createdAt: Date
+  }>
 }
 
 async function generateEnhancedInvoice(
   doc: any,
   order: InvoiceOrder,
-  subtotal: number,
-  tax: number,
-  shipping: number,
-  total: number
+  breakdown: DisplayPriceBreakdown
 ) {
   // Set colors
   const primaryColor = [41, 128, 185] // Blue
@@ -147,23 +156,72 @@ async function generateEnhancedInvoice(
   doc.setDrawColor(...secondaryColor)
   doc.line(120, totalsY, 190, totalsY)
 
+  const currency = breakdown.currency
+  let lineY = totalsY + 10
+
   doc.setFont('helvetica', 'normal')
-  doc.text('Subtotal:', 130, totalsY + 10)
-  doc.text(formatCurrencyForPDF(subtotal, DEFAULT_CURRENCY), 175, totalsY + 10)
+  doc.text('Subtotal:', 130, lineY)
+  doc.text(formatCurrencyForPDF(breakdown.subtotal, currency), 175, lineY)
 
-  doc.text('Tax (13%):', 130, totalsY + 18)
-  doc.text(formatCurrencyForPDF(tax, DEFAULT_CURRENCY), 175, totalsY + 18)
+  if (breakdown.discount > 0) {
+    lineY += 8
+    doc.text(breakdown.discountCode ? `Discount (${breakdown.discountCode}):` : 'Discount:', 130, lineY)
+    doc.text(`-${formatCurrencyForPDF(breakdown.discount, currency)}`, 175, lineY)
+  }
+
+  // Orders placed before the breakdown was stored have no shipping or tax recorded
+  if (breakdown.tax !== null) {
+    lineY += 8
+    const taxLabel = breakdown.taxRate !== null
+      ? `Tax (${parseFloat((breakdown.taxRate * 100).toFixed(2))}%):`
+      : 'Tax:'
+    doc.text(taxLabel, 130, lineY)
+    doc.text(formatCurrencyForPDF(breakdown.tax, currency), 175, lineY)
+  }
 
-  doc.text('Shipping:', 130, totalsY + 26)
-  doc.text(shipping === 0 ? 'FREE' : formatCurrencyForPDF(shipping, DEFAULT_CURRENCY), 175, totalsY + 26)
+  if (breakdown.shipping !== null) {
+    lineY += 8
+    doc.text('Shipping:', 130, lineY)
+    doc.text(breakdown.shipping === 0 ? 'FREE' : formatCurrencyForPDF(breakdown.shipping, currency), 175, lineY)
+  }
 
   // Total with background
   doc.setFillColor(...primaryColor)
-  doc.rect(120, totalsY + 32, 70, 12, 'F')
+  doc.rect(120, lineY + 6, 70, 12, 'F')
   doc.setTextColor(255, 255, 255)
   doc.setFont('helvetica', 'bold')
-  doc.text('TOTAL:', 130, totalsY + 40)
-  doc.text(formatCurrencyForPDF(total, DEFAULT_CURRENCY), 175, totalsY + 40)
+  doc.text('TOTAL:', 130, lineY + 14)
+  doc.text(formatCurrencyForPDF(breakdown.total, currency), 175, lineY + 14)
+
+  // Credit note listing refunds issued against this invoice
+  if (order.refunds && order.refunds.length > 0) {
+    let creditY = lineY + 30
+    const refundedTotal = order.refunds.reduce((sum, refund) => sum + parseFloat(refund.amount.toString()), 0)
+
+    doc.setTextColor(...secondaryColor)
+    doc.setFontSize(12)
+    doc.setFont('helvetica', 'bold')
+    doc.text('CREDIT NOTE', 20, creditY)
+
+    doc.setTextColor(0, 0, 0)
+    doc.setFontSize(10)
+    doc.setFont('helvetica', 'normal')
+    order.refunds.forEach(refund => {
+      creditY += 7
+      const reference = refund.reference ? ` (Ref: ${refund.reference})` : ''
+      doc.text(new Date(refund.createdAt).toLocaleDateString(), 20, creditY)
+      doc.text(`${refund.reason}${reference}`.slice(0, 60), 50, creditY)
+      doc.text(`-${formatCurrencyForPDF(parseFloat(refund.amount.toString()), currency)}`, 175, creditY)
+    })
+
+    creditY += 10
+    doc.setFont('helvetica', 'bold')
+    doc.text('Total Refunded:', 130, creditY)
+    doc.text(`-${formatCurrencyForPDF(refundedTotal, currency)}`, 175, creditY)
+    creditY += 7
+    doc.text('Net Paid:', 130, creditY)
+    doc.text(formatCurrencyForPDF(Math.max(0, breakdown.total - refundedTotal), currency), 175, creditY)
+  }
 
   // Footer
   doc.setTextColor(128, 128, 128)
@@ -172,8 +230,12 @@ async function generateEnhancedInvoice(
   doc.text('Thank you for your business!', 20, 270)
   doc.text('For questions about this invoice, contact rijaldecorsvalley@gmail.com', 20, 276)
 
+  if (breakdown.paymentMethod) {
+    doc.text(`Payment Method: ${formatPaymentMethod(breakdown.paymentMethod)}`, 20, 282)
+  }
+
   if (order.stripePaymentIntentId) {
-    doc.text(`Payment ID: ${order.stripePaymentIntentId}`, 20, 282)
+    doc.text(`Payment ID: ${order.stripePaymentIntentId}`, 20, breakdown.paymentMethod ? 288 : 282)
   }
 }
 
@@ -184,14 +246,11 @@ export async function generateInvoicePDF(order: InvoiceOrder): Promise<Buffer> {
     const { jsPDF } = await import('jspdf')
     const doc = new jsPDF()
 
-    // Calculate totals
-    const subtotal = order.items.reduce((sum, item) => sum + (item.price * item.quantity), 0)
-    const tax = subtotal * 0.13
-    const shipping = subtotal >= 2000 ? 0 : 200
-    const total = subtotal + tax + shipping
+    // Use the amounts stored on the order at checkout rather than recomputing them
+    const breakdown = getOrderPriceBreakdown(order, order.items)
 
     // Generate enhanced invoice
-    await generateEnhancedInvoice(doc, order, subtotal, tax, shipping, total)
+    await generateEnhancedInvoice(doc, order, breakdown)
 
     // Convert to buffer
     const pdfOutput = doc.output('arraybuffer')
@@ -19,6 +19,13 @@ interface PerformanceMetric {
   timestamp?: Date
 }
 
+interface SecurityEvent {
+  type: string
+  message: string
+  details?: Record<string, any>
+  timestamp?: Date
+}
+
 interface BusinessMetric {
   event: string
   properties?: Record<string, any>
@@ -248,6 +255,32 @@ export class BusinessMetrics {
   }
 }
 
+// Security events, such as tampered payment amounts
+export class SecurityMonitor {
+  private static instance: SecurityMonitor
+
+  static getInstance(): SecurityMonitor {
+    if (!SecurityMonitor.instance) {
+      SecurityMonitor.instance = new SecurityMonitor()
+    }
+    return SecurityMonitor.instance
+  }
+
+  logEvent(type: string, message: string, details?: Record<string, any>): void {
+    const event: SecurityEvent = {
+      type,
+      message,
+      details,
+      timestamp: new Date(),
+    }
+
+    // Always written to the application logs so they can be alerted on
+    console.warn(`[security] ${type}: ${message}`, JSON.stringify(event))
+
+    ErrorTracker.getInstance().captureError(new Error(`Security event ${type}: ${message}`))
+  }
+}
+
 // Request context middleware
 export function createRequestContext(request: NextRequest): ErrorContext {
   return {
@@ -385,4 +418,5 @@ export class HealthChecker {
 // Export singleton instances
 export const errorTracker = ErrorTracker.getInstance()
 export const performanceMonitor = PerformanceMonitor.getInstance()
-export const businessMetrics = BusinessMetrics.getInstance()
\ No newline at end of file
+export const businessMetrics = BusinessMetrics.getInstance()
+export const securityMonitor = SecurityMonitor.getInstance()
\ No newline at end of file
@@ -0,0 +1,28 @@
+// Statuses customers may cancel from when the store has not configured
+// `customer_cancellable_statuses` in site settings
+export const DEFAULT_CANCELLABLE_STATUSES = ['PENDING', 'PROCESSING']
+
+export const CANCELLATION_REASON_LABELS: Record<string, string> = {
+  CHANGED_MIND: 'Changed my mind',
+  ORDERED_BY_MISTAKE: 'Ordered by mistake',
+  FOUND_BETTER_PRICE: 'Found a better price',
+  DELIVERY_TOO_SLOW: 'Delivery is taking too long',
+  OTHER: 'Other',
+}
+
+export function canCustomerCancel(
+  status: string,
+  cancellableStatuses: string[] = DEFAULT_CANCELLABLE_STATUSES
+): boolean {
+  // Orders that have left the warehouse can only be returned
+  if (!['PENDING', 'PROCESSING'].includes(status)) return false
+  return cancellableStatuses.includes(status)
+}
+
+/**
+ * Reason stored on the order, e.g. "Ordered by mistake: wrong size"
+ */
+export function formatCancellationReason(reason: string, comments?: string | null): string {
+  const label = CANCELLATION_REASON_LABELS[reason] || reason
+  return comments?.trim() ? `${label}: ${comments.trim()}` : label
+}
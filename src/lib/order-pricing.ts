@@ -0,0 +1,130 @@
+import { DEFAULT_CURRENCY } from './currency'
+
+// Breakdown written to the order row at checkout
+export interface OrderPriceBreakdown {
+  subtotal: number
+  shippingAmount: number
+  taxAmount: number
+  taxRate: number
+  discountAmount: number
+  discountCode?: string | null
+  paymentMethod?: string | null
+  currency?: string
+}
+
+// Stored breakdown columns as they come back from the database
+export interface OrderPriceFields {
+  total: string | number
+  subtotal?: string | number | null
+  shippingAmount?: string | number | null
+  taxAmount?: string | number | null
+  taxRate?: string | number | null
+  discountAmount?: string | number | null
+  discountCode?: string | null
+  paymentMethod?: string | null
+  currency?: string | null
+}
+
+// Breakdown ready for display. Shipping and tax are null for orders placed
+// before the breakdown was stored, since they cannot be recovered reliably.
+export interface DisplayPriceBreakdown {
+  subtotal: number
+  shipping: number | null
+  tax: number | null
+  taxRate: number | null
+  discount: number
+  discountCode: string | null
+  paymentMethod: string | null
+  currency: string
+  total: number
+}
+
+function toNumber(value: string | number | null | undefined): number | null {
+  if (value === null || value === undefined || value === '') return null
+  const parsed = typeof value === 'number' ? value : parseFloat(value)
+  return isNaN(parsed) ? null : parsed
+}
+
+/**
+ * Build the breakdown to store from a cart summary
+ */
+export function buildOrderPriceBreakdown(
+  summary: {
+    subtotal: number
+    shipping: number
+    tax: number
+    taxRate: number
+    discount?: number
+    discountCode?: string | null
+  },
+  options: { paymentMethod?: string | null; currency?: string } = {}
+): OrderPriceBreakdown {
+  return {
+    subtotal: summary.subtotal,
+    shippingAmount: summary.shipping,
+    taxAmount: summary.tax,
+    taxRate: summary.taxRate,
+    discountAmount: summary.discount || 0,
+    discountCode: summary.discountCode || null,
+    paymentMethod: options.paymentMethod || null,
+    currency: options.currency || DEFAULT_CURRENCY,
+  }
+}
+
+/**
+ * Column values for inserting a breakdown into the orders table
+ */
+export function toOrderPriceColumns(breakdown?: OrderPriceBreakdown | null) {
+  if (!breakdown) return {}
+
+  return {
+    subtotal: breakdown.subtotal.toFixed(2),
+    shippingAmount: breakdown.shippingAmount.toFixed(2),
+    taxAmount: breakdown.taxAmount.toFixed(2),
+    taxRate: breakdown.taxRate.toString(),
+    discountAmount: breakdown.discountAmount.toFixed(2),
+    discountCode: breakdown.discountCode || null,
+    paymentMethod: breakdown.paymentMethod || null,
+    currency: breakdown.currency || DEFAULT_CURRENCY,
+  }
+}
+
+/**
+ * Read the stored breakdown of an order for invoices, emails and order pages
+ */
+export function getOrderPriceBreakdown(
+  order: OrderPriceFields,
+  items: Array<{ price: string | number; quantity: number }> = []
+): DisplayPriceBreakdown {
+  const storedSubtotal = toNumber(order.subtotal)
+  const itemsSubtotal = items.reduce((sum, item) => sum + (toNumber(item.price) || 0) * item.quantity, 0)
+
+  return {
+    subtotal: storedSubtotal ?? itemsSubtotal,
+    shipping: toNumber(order.shippingAmount),
+    tax: toNumber(order.taxAmount),
+    taxRate: toNumber(order.taxRate),
+    discount: toNumber(order.discountAmount) || 0,
+    discountCode: order.discountCode || null,
+    paymentMethod: order.paymentMethod || null,
+    currency: order.currency || DEFAULT_CURRENCY,
+    total: toNumber(order.total) || 0,
+  }
+}
+
+export function formatPaymentMethod(method?: string | null): string {
+  switch (method) {
+    case 'cod':
+      return 'Cash on Delivery'
+    case 'esewa':
+      return 'eSewa'
+    case 'khalti':
+      return 'Khalti'
+    case 'fonepay':
+      return 'Fonepay QR'
+    case 'mock':
+      return 'Test Payment'
+    default:
+      return method || 'Not recorded'
+  }
+}
@@ -2,6 +2,20 @@ import { db } from './db'
 import { orderRepository } from './order-repository'
 import { orders, orderItems } from './db/schema'
 import { eq, lte, sql } from 'drizzle-orm'
+import { refundRepository } from './refund-repository'
+import { paymentTransactionRepository } from './payment-transaction-repository'
+import { getPaymentGatewayManager } from './payment-gateways'
+import { SettingsRepository } from './settings-repository'
+import { EmailService } from './email-service'
+import { formatPrice } from './cart-utils'
+import { summarizeRefunds } from './refund-utils'
+import {
+  DEFAULT_CANCELLABLE_STATUSES,
+  canCustomerCancel,
+  formatCancellationReason,
+} from './order-cancellation'
+import type { CancelOrderInput } from './validations'
+import type { Order } from '@/types'
 
 export class OrderProcessingService {
   /**
@@ -26,13 +40,9 @@ export class OrderProcessingService {
 
       for (const order of pendingOrders) {
         try {
-          // Update order status to PROCESSING
+          // Update order status to PROCESSING (recorded on the order timeline)
           await orderRepository.updateStatus(order.id, 'PROCESSING')
 
-          // Note: orderTracking table doesn't exist in Drizzle schema
-          // This functionality would need to be implemented differently
-          // For now, we'll skip this as it's not in the schema
-
           processedCount++
         } catch (error) {
           console.error(`Failed to process order ${order.id}:`, error)
@@ -76,10 +86,6 @@ export class OrderProcessingService {
           // Update order status to SHIPPED (this will auto-generate tracking number)
           await orderRepository.updateStatus(order.id, 'SHIPPED')
 
-          // Note: orderTracking table doesn't exist in Drizzle schema
-          // This functionality would need to be implemented differently
-          // For now, we'll skip this as it's not in the schema
-
           shippedCount++
         } catch (error) {
           console.error(`Failed to ship order ${order.id}:`, error)
@@ -137,6 +143,96 @@ export class OrderProcessingService {
     }
   }
 
+  /**
+   * Cancel an order on behalf of its customer. Signed-in customers are
+   * matched on their user id and guests on the email they ordered with.
+   * Stock is restored by the CANCELLED transition, and online payments are
+   * refunded in full; a failed refund is left for an admin to issue.
+   */
+  async cancelByCustomer(
+    orderId: string,
+    data: CancelOrderInput,
+    requester: { userId?: string | null; guestEmail?: string | null }
+  ): Promise<{ order: Order; refundAmount: number }> {
+    const order = await orderRepository.findById(orderId)
+
+    const isOwner = (!!requester.userId && order?.userId === requester.userId) ||
+      (!!order?.isGuestOrder &&
+        !!requester.guestEmail &&
+        order.guestEmail?.toLowerCase() === requester.guestEmail.toLowerCase())
+
+    if (!order || !isOwner) {
+      throw new Error('Order not found')
+    }
+
+    const cancellableStatuses = await SettingsRepository.getValue(
+      'customer_cancellable_statuses',
+      DEFAULT_CANCELLABLE_STATUSES
+    )
+    if (!canCustomerCancel(order.status, cancellableStatuses)) {
+      throw new Error(`This order is ${order.status.toLowerCase()} and can no longer be cancelled. Please contact support.`)
+    }
+
+    const cancellationReason = formatCancellationReason(data.reason, data.comments)
+    const cancelledOrder = await orderRepository.updateStatus(orderId, 'CANCELLED', {
+      message: `Cancelled by customer: ${cancellationReason}`,
+      createdBy: requester.userId || null,
+    }, { cancellationReason, notifyCustomer: false })
+
+    // Cash on delivery has not been collected yet, so only payments the
+    // gateway confirmed are refunded
+    let refundAmount = 0
+    const isOnline = !!order.paymentMethod && getPaymentGatewayManager().isOnlinePaymentMethod(order.paymentMethod)
+    const paidAmount = isOnline ? await paymentTransactionRepository.getCompletedAmount(orderId) : 0
+    const { remaining } = summarizeRefunds({ ...order, status: 'CANCELLED', paidAmount }, order.refunds || [])
+    if (paidAmount > 0 && remaining > 0) {
+      try {
+        await refundRepository.create(orderId, {
+          amount: remaining,
+          reason: 'Order cancelled by customer',
+          method: 'ORIGINAL_PAYMENT',
+        }, requester.userId || null, { notifyCustomer: false })
+        refundAmount = remaining
+      } catch (error) {
+        console.error(`Failed to initiate refund for cancelled order ${orderId}:`, error)
+
+        // Leave a note on the order's timeline so an admin refunds it by hand
+        try {
+          await orderRepository.recordEvent(orderId, {
+            status: 'CANCELLED',
+            previousStatus: 'CANCELLED',
+            message: `Automatic refund of ${formatPrice(remaining)} failed` +
+              `${error instanceof Error ? `: ${error.message}` : ''}. Refund this order manually.`,
+          })
+        } catch (eventError) {
+          console.error(`Failed to record refund failure for order ${orderId}:`, eventError)
+        }
+      }
+    }
+
+    const customerEmail = order.user?.email || order.guestEmail
+    if (customerEmail) {
+      try {
+        await EmailService.sendOrderCancellation({
+          order: cancelledOrder,
+          customer: {
+            name: order.user?.name || order.guestName,
+            email: customerEmail,
+          },
+          reason: cancellationReason,
+          refundAmount,
+        }, true) // Use queue
+      } catch (error) {
+        console.error('Failed to send order cancellation email:', error)
+      }
+    }
+
+    // The refund moves the order on to refunded
+    const updatedOrder = refundAmount > 0 ? await orderRepository.findById(orderId) : null
+
+    return { order: updatedOrder || cancelledOrder, refundAmount }
+  }
+
   /**
    * Get orders that need processing
    */
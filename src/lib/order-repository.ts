@@ -1,5 +1,5 @@
 import { db } from './db'
-import { orders, orderItems, products, categories, users, inventoryAdjustments } from './db/schema'
+import { orders, orderItems, orderEvents, refunds, shipments, products, categories, users, stockLocations } from './db/schema'
 import { eq, and, or, desc, asc, gte, lte, sql, ilike, inArray } from 'drizzle-orm'
 import { 
   CreateOrderInput, 
@@ -8,6 +8,7 @@ import {
 } from './validations'
 import type { 
   Order, 
+  OrderEvent,
   OrderWithItems, 
   PaginatedResponse,
   OrderStatus 
@@ -20,69 +21,94 @@ import {
   CACHE_DURATIONS,
 } from './cache'
 import { inventoryRepository } from './inventory-repository'
+import { codRepository } from './cod-repository'
+import { discountRepository } from './discount-repository'
+import { paymentTransactionRepository } from './payment-transaction-repository'
+import { toOrderPriceColumns, type OrderPriceBreakdown } from './order-pricing'
+import {
+  OrderTransitionError,
+  resolveTransition,
+  type OrderStatusValue,
+  type TransitionEffect,
+} from './order-state-machine'
+import { EmailService } from './email-service'
+import { businessMetrics } from './monitoring'
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0]
+type DbClient = typeof db | Transaction
+
+// Optional context recorded alongside a status change
+export interface OrderEventDetails {
+  message?: string | null
+  location?: string | null
+  carrier?: string | null
+  carrierReference?: string | null
+  createdBy?: string | null
+}
+
+// Extra behaviour for a status change beyond the recorded event
+export interface OrderStatusUpdateOptions {
+  cancellationReason?: string | null
+  // Set to false when the caller sends its own, more specific email
+  notifyCustomer?: boolean
+}
+
+// A status change made inside a transaction, with the effects still to run once it commits
+export interface OrderStatusChange {
+  order: Order
+  previousStatus: string
+  effects: TransitionEffect[]
+}
+
+const DEFAULT_EVENT_MESSAGES: Record<string, string> = {
+  PENDING: 'Order placed',
+  PROCESSING: 'Order is being prepared',
+  PARTIALLY_SHIPPED: 'Part of the order shipped',
+  SHIPPED: 'Order shipped',
+  DELIVERED: 'Order delivered',
+  CANCELLED: 'Order cancelled',
+  PARTIALLY_REFUNDED: 'Part of the order was refunded',
+  REFUNDED: 'Order refunded',
+}
 
 export class OrderRepository {
-  async create(data: CreateOrderInput): Promise<OrderWithItems> {
-    // First, validate inventory availability
-    for (const item of data.items) {
-      const [product] = await db.select({
-        inventory: products.inventory,
-        name: products.name
-      })
-      .from(products)
-      .where(eq(products.id, item.productId))
-      .limit(1)
-      
-      if (!product) {
-        throw new Error(`Product ${item.productId} not found`)
-      }
-      
-      if (product.inventory < item.quantity) {
-        throw new Error(`Insufficient inventory for product ${product.name}. Available: ${product.inventory}, Requested: ${item.quantity}`)
+  async create(data: CreateOrderInput & {
+    discountId?: string | null
+    priceBreakdown?: OrderPriceBreakdown
+  }): Promise<OrderWithItems> {
+    const orderId = await db.transaction(async (tx) => {
+      const [newOrder] = await tx.insert(orders).values({
+        userId: data.userId,
+        total: data.total.toString(),
+        ...toOrderPriceColumns(data.priceBreakdown),
+        stripePaymentIntentId: data.stripePaymentIntentId,
+        status: 'PENDING',
+        shippingAddress: data.shippingAddress ? data.shippingAddress : undefined,
+      }).returning()
+
+      // Validated by createOrderSchema, so every field is present
+      const items = data.items as Required<CreateOrderInput['items'][number]>[]
+      await this.addItemsAndTakeStock(newOrder.id, items, 'Inventory reduced for order', tx)
+
+      // Redeem the applied coupon
+      if (data.discountId) {
+        await discountRepository.recordUsage({
+          discountId: data.discountId,
+          userId: data.userId,
+          orderId: newOrder.id,
+        }, tx)
       }
-    }
 
-    // Create order
-    const [newOrder] = await db.insert(orders).values({
-      userId: data.userId,
-      total: data.total.toString(),
-      stripePaymentIntentId: data.stripePaymentIntentId,
-      status: 'PENDING',
-      shippingAddress: data.shippingAddress ? data.shippingAddress : undefined,
-    }).returning()
-
-    // Create order items
-    const itemsData = data.items.map(item => ({
-      orderId: newOrder.id,
-      productId: item.productId,
-      quantity: item.quantity,
-      price: item.price.toString()
-    }))
-    await db.insert(orderItems).values(itemsData)
-
-    // Update product inventory and create adjustments
-    for (const item of data.items) {
-      await db.update(products)
-        .set({ 
-          inventory: sql`${products.inventory} - ${item.quantity}`,
-          orderCount: sql`${products.orderCount} + 1`,
-          purchaseCount: sql`${products.purchaseCount} + ${item.quantity}`
-        })
-        .where(eq(products.id, item.productId))
+      await this.recordEvent(newOrder.id, { status: 'PENDING', createdBy: data.userId }, tx)
 
-      await db.insert(inventoryAdjustments).values({
-        productId: item.productId,
-        quantity: -item.quantity,
-        changeType: 'ORDER_PLACED',
-        reason: `Inventory reduced for order`,
-      })
-    }
+      return newOrder.id
+    })
 
     // Fetch the complete order with relations
-    const order = await this.findById(newOrder.id)
+    const order = await this.findById(orderId)
 
     // Invalidate related caches
-    await invalidateOrder(newOrder.id)
+    await invalidateOrder(orderId)
 
     return order!
   }
@@ -94,72 +120,78 @@ export class OrderRepository {
     total: number
     shippingAddress: any
     stripePaymentIntentId?: string
+    discountId?: string | null
+    priceBreakdown?: OrderPriceBreakdown
   }): Promise<OrderWithItems> {
-    // First, validate inventory availability
-    for (const item of data.items) {
-      const [product] = await db.select({
-        inventory: products.inventory,
-        name: products.name
-      })
-      .from(products)
-      .where(eq(products.id, item.productId))
-      .limit(1)
-      
-      if (!product) {
-        throw new Error(`Product ${item.productId} not found`)
-      }
-      
-      if (product.inventory < item.quantity) {
-        throw new Error(`Insufficient inventory for product ${product.name}. Available: ${product.inventory}, Requested: ${item.quantity}`)
+    const orderId = await db.transaction(async (tx) => {
+      const [newOrder] = await tx.insert(orders).values({
+        userId: null,
+        guestEmail: data.guestEmail,
+        guestName: data.guestName,
+        isGuestOrder: true,
+        total: data.total.toString(),
+        ...toOrderPriceColumns(data.priceBreakdown),
+        stripePaymentIntentId: data.stripePaymentIntentId,
+        status: 'PENDING',
+        shippingAddress: data.shippingAddress,
+      }).returning()
+
+      await this.addItemsAndTakeStock(newOrder.id, data.items, 'Inventory reduced for guest order', tx)
+
+      // Redeem the applied coupon
+      if (data.discountId) {
+        await discountRepository.recordUsage({
+          discountId: data.discountId,
+          orderId: newOrder.id,
+        }, tx)
       }
-    }
 
-    // Create guest order
-    const [newOrder] = await db.insert(orders).values({
-      userId: null,
-      guestEmail: data.guestEmail,
-      guestName: data.guestName,
-      isGuestOrder: true,
-      total: data.total.toString(),
-      stripePaymentIntentId: data.stripePaymentIntentId,
-      status: 'PENDING',
-      shippingAddress: data.shippingAddress,
-    }).returning()
-
-    // Create order items
-    const itemsData = data.items.map(item => ({
-      orderId: newOrder.id,
+      await this.recordEvent(newOrder.id, { status: 'PENDING' }, tx)
+
+      return newOrder.id
+    })
+
+    // Fetch the complete order with relations
+    const order = await this.findById(orderId)
+
+    // Invalidate related caches
+    await invalidateOrder(orderId)
+
+    return order!
+  }
+
+  /**
+   * Insert an order's items and take their stock inside the order's
+   * transaction, so running out of stock rolls the whole order back.
+   * The order ships from the location the stock was taken from.
+   */
+  private async addItemsAndTakeStock(
+    orderId: string,
+    items: { productId: string; quantity: number; price: number }[],
+    reason: string,
+    tx: Transaction
+  ) {
+    await tx.insert(orderItems).values(items.map(item => ({
+      orderId,
       productId: item.productId,
       quantity: item.quantity,
       price: item.price.toString()
-    }))
-    await db.insert(orderItems).values(itemsData)
-
-    // Update product inventory and create adjustments
-    for (const item of data.items) {
-      await db.update(products)
-        .set({ 
-          inventory: sql`${products.inventory} - ${item.quantity}`,
+    })))
+
+    const plan = await inventoryRepository.decrementStock(items, { reason, referenceId: orderId }, tx)
+
+    await tx.update(orders)
+      .set({ fulfillmentLocationId: plan.locationId })
+      .where(eq(orders.id, orderId))
+
+    for (const item of items) {
+      await tx.update(products)
+        .set({
           orderCount: sql`${products.orderCount} + 1`,
           purchaseCount: sql`${products.purchaseCount} + ${item.quantity}`
         })
         .where(eq(products.id, item.productId))
-
-      await db.insert(inventoryAdjustments).values({
-        productId: item.productId,
-        quantity: -item.quantity,
-        changeType: 'ORDER_PLACED',
-        reason: `Inventory reduced for guest order`,
-      })
     }
-
-    // Fetch the complete order with relations
-    const order = await this.findById(newOrder.id)
-
-    // Invalidate related caches
-    await invalidateOrder(newOrder.id)
-
-    return order!
   }
 
   async findById(id: string): Promise<OrderWithItems | null> {
@@ -181,9 +213,21 @@ export class OrderRepository {
               },
             },
             user: true,
+            refunds: {
+              orderBy: desc(refunds.createdAt),
+            },
+            shipments: {
+              with: {
+                items: true,
+              },
+              orderBy: asc(shipments.createdAt),
+            },
           },
         })
-        return result as OrderWithItems | null
+        if (!result) return null
+
+        const paidAmount = await paymentTransactionRepository.getCompletedAmount(id)
+        return { ...result, paidAmount } as OrderWithItems
       },
       {
         memoryTtl: CACHE_DURATIONS.SHORT,
@@ -217,6 +261,7 @@ export class OrderRepository {
             },
           },
           user: true,
+          refunds: true,
         },
       }),
       db.select({ count: sql<number>`cast(count(*) as integer)` })
@@ -350,8 +395,34 @@ export class OrderRepository {
     }
   }
 
-  async updateStatus(id: string, status: OrderStatus): Promise<Order> {
-    const order = await db.query.orders.findFirst({
+  async updateStatus(
+    id: string,
+    status: OrderStatus,
+    details: OrderEventDetails = {},
+    options: OrderStatusUpdateOptions = {}
+  ): Promise<Order> {
+    const change = await db.transaction(async (tx) => {
+      return await this.applyStatusChange(id, status, details, options, tx)
+    })
+
+    await this.afterStatusChange(change, options)
+
+    return change.order
+  }
+
+  /**
+   * Change the order's status as part of the caller's transaction, so the
+   * change commits or rolls back with the caller's own writes. Call
+   * afterStatusChange once the transaction has committed.
+   */
+  async applyStatusChange(
+    id: string,
+    status: OrderStatusValue,
+    details: OrderEventDetails,
+    options: OrderStatusUpdateOptions,
+    tx: Transaction
+  ): Promise<OrderStatusChange> {
+    const order = await tx.query.orders.findFirst({
       where: eq(orders.id, id),
       with: {
         items: {
@@ -372,40 +443,85 @@ export class OrderRepository {
 
     const oldStatus = order.status
 
+    // Rejects transitions the state machine does not allow
+    const isPaid = await paymentTransactionRepository.hasCompletedPayment(order.id, tx)
+    const effects = resolveTransition({ ...order, isPaid }, status)
+
     // Prepare update data
     const updateData: any = {
       status,
       updatedAt: new Date(),
     }
 
+    if (status === 'CANCELLED' && oldStatus !== 'CANCELLED') {
+      updateData.cancelledAt = new Date()
+      updateData.cancellationReason = options.cancellationReason || null
+    }
+
     if (status === 'SHIPPED' && !order.trackingNumber) {
-      const trackingNumber = `TN${Date.now().toString(36).toUpperCase()}${Math.random().toString(36).substr(2, 5).toUpperCase()}`
+      // Split shipments carry their own tracking numbers; keep the last one on the order
+      const trackingNumber = details.carrierReference || `TN${Date.now().toString(36).toUpperCase()}${Math.random().toString(36).substr(2, 5).toUpperCase()}`
       updateData.trackingNumber = trackingNumber
     }
 
-    // Update order status
-    const [updatedOrder] = await db.update(orders)
+    // Only update if nobody changed the status in the meantime
+    const [updated] = await tx.update(orders)
       .set(updateData)
-      .where(eq(orders.id, id))
+      .where(and(eq(orders.id, id), eq(orders.status, oldStatus)))
       .returning()
 
-    // Handle inventory adjustments for cancellations/refunds
-    if (oldStatus === 'PENDING' && (status === 'CANCELLED' || status === 'REFUNDED')) {
-      for (const item of order.items) {
-        await db.update(products)
-          .set({ inventory: sql`${products.inventory} + ${item.quantity}` })
-          .where(eq(products.id, item.productId))
-
-        await db.insert(inventoryAdjustments).values({
-          productId: item.productId,
-          quantity: item.quantity,
-          changeType: 'ORDER_RETURNED',
+    if (!updated) {
+      throw new OrderTransitionError(
+        'Order status was changed by another request, please reload and try again',
+        oldStatus,
+        status
+      )
+    }
+
+    await this.recordEvent(id, {
+      ...details,
+      status,
+      previousStatus: oldStatus,
+      carrierReference: details.carrierReference ?? updateData.trackingNumber ?? null,
+    }, tx)
+
+    if (effects.includes('RESTORE_INVENTORY')) {
+      await inventoryRepository.recordOrderInventoryReturn(
+        order.items.map(item => ({ productId: item.productId, quantity: item.quantity })),
+        {
           reason: `Inventory restored from ${status.toLowerCase()} order`,
-        })
-      }
+          referenceId: id,
+          locationId: order.fulfillmentLocationId,
+        },
+        tx
+      )
     }
 
-    return updatedOrder as Order
+    // A cancelled order gives its coupon use back
+    if (status === 'CANCELLED' && oldStatus !== 'CANCELLED') {
+      await discountRepository.releaseUsage(id, tx)
+    }
+
+    if (effects.includes('RECORD_COD_COLLECTION')) {
+      await codRepository.recordCollection(order, details.carrier || null, tx)
+    }
+
+    return { order: updated as Order, previousStatus: oldStatus, effects }
+  }
+
+  /**
+   * Clear the cached order and send the emails and metrics for a committed
+   * status change
+   */
+  async afterStatusChange(change: OrderStatusChange, options: OrderStatusUpdateOptions = {}): Promise<void> {
+    await invalidateOrder(change.order.id)
+    await this.runNotificationEffects(
+      change.order,
+      change.previousStatus,
+      options.notifyCustomer === false
+        ? change.effects.filter(effect => effect !== 'NOTIFY_CUSTOMER')
+        : change.effects
+    )
   }
 
   async updateShippingAddress(id: string, data: UpdateShippingAddressInput): Promise<Order> {
@@ -437,6 +553,56 @@ export class OrderRepository {
     return updatedOrder as Order
   }
 
+  /**
+   * Ship an order from another location, moving the stock it took there.
+   * Only possible until the order starts shipping.
+   */
+  async updateFulfillmentLocation(id: string, locationId: string): Promise<Order> {
+    const [order] = await db.select()
+      .from(orders)
+      .where(eq(orders.id, id))
+      .limit(1)
+
+    if (!order) {
+      throw new Error('Order not found')
+    }
+
+    if (order.status !== 'PENDING' && order.status !== 'PROCESSING') {
+      throw new Error('Fulfillment location can only be changed before the order ships')
+    }
+
+    const [location] = await db.select()
+      .from(stockLocations)
+      .where(eq(stockLocations.id, locationId))
+      .limit(1)
+
+    if (!location || !location.isActive) {
+      throw new Error('Stock location not found')
+    }
+
+    const updatedOrder = await db.transaction(async (tx) => {
+      const [updated] = await tx.update(orders)
+        .set({
+          fulfillmentLocationId: locationId,
+          updatedAt: new Date(),
+        })
+        .where(and(eq(orders.id, id), eq(orders.status, order.status)))
+        .returning()
+
+      if (!updated) {
+        throw new Error('Order status was changed by another request, please reload and try again')
+      }
+
+      await inventoryRepository.moveOrderStock(id, locationId, tx)
+
+      return updated
+    })
+
+    await invalidateOrder(id)
+
+    return updatedOrder as Order
+  }
+
   async findByStripePaymentIntentId(paymentIntentId: string): Promise<OrderWithItems | null> {
     const result = await db.query.orders.findFirst({
       where: eq(orders.stripePaymentIntentId, paymentIntentId),
@@ -587,9 +753,11 @@ export class OrderRepository {
     const statusCounts: Record<OrderStatus, number> = {
       PENDING: 0,
       PROCESSING: 0,
+      PARTIALLY_SHIPPED: 0,
       SHIPPED: 0,
       DELIVERED: 0,
       CANCELLED: 0,
+      PARTIALLY_REFUNDED: 0,
       REFUNDED: 0,
     }
     
@@ -610,21 +778,95 @@ export class OrderRepository {
     }
   }
 
-  async bulkUpdateStatus(orderIds: string[], status: OrderStatus): Promise<number> {
-    // For bulk updates, we need to handle tracking numbers and logs individually
+  async bulkUpdateStatus(
+    orderIds: string[],
+    status: OrderStatus,
+    details: OrderEventDetails = {}
+  ): Promise<{ updatedCount: number; rejected: Array<{ orderId: string; error: string }> }> {
+    // Each order goes through the state machine on its own; rejected orders are reported back
     let updatedCount = 0
+    const rejected: Array<{ orderId: string; error: string }> = []
     
     for (const orderId of orderIds) {
       try {
-        await this.updateStatus(orderId, status)
+        await this.updateStatus(orderId, status, details)
         updatedCount++
       } catch (error) {
         console.error(`Failed to update status for order ${orderId}:`, error)
-        // Continue with other orders
+        rejected.push({
+          orderId,
+          error: error instanceof Error ? error.message : 'Failed to update status',
+        })
       }
     }
     
-    return updatedCount
+    return { updatedCount, rejected }
+  }
+
+  /**
+   * Append an entry to the order's status timeline
+   */
+  async recordEvent(
+    orderId: string,
+    data: OrderEventDetails & { status: string; previousStatus?: string | null },
+    client: DbClient = db
+  ): Promise<OrderEvent> {
+    const [event] = await client.insert(orderEvents)
+      .values({
+        orderId,
+        status: data.status,
+        previousStatus: data.previousStatus || null,
+        message: data.message || DEFAULT_EVENT_MESSAGES[data.status] || `Order status updated to ${data.status}`,
+        location: data.location || null,
+        carrier: data.carrier || null,
+        carrierReference: data.carrierReference || null,
+        createdBy: data.createdBy || null,
+      })
+      .returning()
+
+    return event as OrderEvent
+  }
+
+  /**
+   * Customer emails and metrics for a status change. Failures are logged
+   * rather than thrown since the status change has already been committed.
+   */
+  private async runNotificationEffects(order: Order, previousStatus: string, effects: TransitionEffect[]) {
+    if (effects.includes('TRACK_METRICS')) {
+      businessMetrics.track('order_status_changed', {
+        orderId: order.id,
+        from: previousStatus,
+        to: order.status,
+        total: Number(order.total),
+      }, order.userId || undefined)
+    }
+
+    if (effects.includes('NOTIFY_CUSTOMER') && order.userId) {
+      try {
+        const [user] = await db.select()
+          .from(users)
+          .where(eq(users.id, order.userId))
+          .limit(1)
+
+        if (user) {
+          await EmailService.sendOrderStatusUpdate({
+            order,
+            user,
+            previousStatus,
+            newStatus: order.status,
+          }, true) // Use queue
+        }
+      } catch (error) {
+        console.error('Failed to send order status update email:', error)
+      }
+    }
+  }
+
+  async getEvents(orderId: string): Promise<OrderEvent[]> {
+    return await db.select()
+      .from(orderEvents)
+      .where(eq(orderEvents.orderId, orderId))
+      .orderBy(asc(orderEvents.createdAt)) as OrderEvent[]
   }
 }
 
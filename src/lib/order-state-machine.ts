@@ -0,0 +1,115 @@
+import { OrderStatus } from './db/schema'
+
+export type OrderStatusValue = typeof OrderStatus[keyof typeof OrderStatus]
+
+// Side-effects run by OrderRepository.updateStatus after a transition
+export type TransitionEffect = 'RESTORE_INVENTORY' | 'NOTIFY_CUSTOMER' | 'TRACK_METRICS' | 'RECORD_COD_COLLECTION'
+
+// Fields of the order that guards are allowed to inspect
+export interface OrderTransitionContext {
+  id: string
+  status: string
+  paymentMethod?: string | null
+  // Whether a completed payment transaction is recorded for the order
+  isPaid?: boolean
+}
+
+type TransitionGuard = (order: OrderTransitionContext) => string | null
+
+interface TransitionRule {
+  to: OrderStatusValue
+  guards?: TransitionGuard[]
+  effects: TransitionEffect[]
+}
+
+export class OrderTransitionError extends Error {
+  constructor(
+    message: string,
+    public readonly from: string,
+    public readonly to: string
+  ) {
+    super(message)
+    this.name = 'OrderTransitionError'
+  }
+}
+
+const requirePayment: TransitionGuard = (order) => {
+  // Cash on delivery is collected on delivery; older orders have no method recorded
+  if (!order.paymentMethod || order.paymentMethod === 'cod') return null
+  return order.isPaid ? null : 'Cannot ship an order that has not been paid'
+}
+
+const NOTIFY: TransitionEffect[] = ['NOTIFY_CUSTOMER', 'TRACK_METRICS']
+
+// The courier takes the cash for cash on delivery orders when handing them over
+const DELIVER: TransitionEffect[] = ['RECORD_COD_COLLECTION', ...NOTIFY]
+
+export const ORDER_TRANSITIONS: Record<OrderStatusValue, TransitionRule[]> = {
+  PENDING: [
+    { to: 'PROCESSING', effects: NOTIFY },
+    { to: 'CANCELLED', effects: ['RESTORE_INVENTORY', ...NOTIFY] },
+  ],
+  PROCESSING: [
+    { to: 'PARTIALLY_SHIPPED', guards: [requirePayment], effects: NOTIFY },
+    { to: 'SHIPPED', guards: [requirePayment], effects: NOTIFY },
+    { to: 'CANCELLED', effects: ['RESTORE_INVENTORY', ...NOTIFY] },
+  ],
+  // Set from shipment states once an order is split into several shipments
+  PARTIALLY_SHIPPED: [
+    { to: 'SHIPPED', effects: NOTIFY },
+    { to: 'DELIVERED', effects: DELIVER },
+  ],
+  SHIPPED: [
+    { to: 'DELIVERED', effects: DELIVER },
+  ],
+  DELIVERED: [
+    // Returned stock is restocked by the returns workflow when items are received
+    { to: 'PARTIALLY_REFUNDED', effects: NOTIFY },
+    { to: 'REFUNDED', effects: NOTIFY },
+  ],
+  CANCELLED: [
+    // Paid orders are refunded after cancellation; stock was already restored
+    { to: 'PARTIALLY_REFUNDED', effects: NOTIFY },
+    { to: 'REFUNDED', effects: NOTIFY },
+  ],
+  PARTIALLY_REFUNDED: [
+    { to: 'REFUNDED', effects: NOTIFY },
+  ],
+  REFUNDED: [],
+}
+
+export function getAllowedTransitions(status: string): OrderStatusValue[] {
+  return (ORDER_TRANSITIONS[status as OrderStatusValue] || []).map(rule => rule.to)
+}
+
+export function canTransition(from: string, to: string): boolean {
+  return from === to || getAllowedTransitions(from).includes(to as OrderStatusValue)
+}
+
+/**
+ * Check a status change against the transition table and its guards and
+ * return the side-effects to run. Re-applying the current status is allowed
+ * so tracking updates can be added without changing the status, and has no
+ * side-effects.
+ */
+export function resolveTransition(order: OrderTransitionContext, to: string): TransitionEffect[] {
+  if (order.status === to) return []
+
+  const rule = (ORDER_TRANSITIONS[order.status as OrderStatusValue] || []).find(r => r.to === to)
+  if (!rule) {
+    throw new OrderTransitionError(
+      `Cannot change order status from ${order.status} to ${to}`,
+      order.status,
+      to
+    )
+  }
+
+  for (const guard of rule.guards || []) {
+    const failure = guard(order)
+    if (failure) {
+      throw new OrderTransitionError(failure, order.status, to)
+    }
+  }
+
+  return rule.effects
+}
@@ -0,0 +1,205 @@
+import { db } from './db'
+import { orderRepository } from './order-repository'
+import { inventoryRepository } from './inventory-repository'
+import { discountRepository } from './discount-repository'
+import { orderProcessingService } from './order-processing-service'
+import { EmailService } from './email-service'
+import { toOrderPriceColumns, type OrderPriceBreakdown } from './order-pricing'
+import { paymentTransactionRepository, type PaymentSessionData } from './payment-transaction-repository'
+import { securityMonitor } from './monitoring'
+import { orders, orderItems } from './db/schema'
+import { eq, or, sql } from 'drizzle-orm'
+import { getPaymentAmountMismatch } from './payment-utils'
+import { getMainLocationId } from './stock-location-utils'
+import type { PaymentTransaction } from '@/types'
+
+/**
+ * Check a verified payment's amount before its order is created. A
+ * mismatch fails the attempt, is logged as a security event and its
+ * description is returned; null means the payment can be finalised.
+ */
+export async function rejectMismatchedPayment(
+  attempt: PaymentTransaction,
+  capturedAmount: number | undefined,
+  responsePayload?: unknown
+): Promise<string | null> {
+  const mismatch = getPaymentAmountMismatch(attempt, capturedAmount)
+  if (!mismatch) {
+    return null
+  }
+
+  securityMonitor.logEvent('PAYMENT_AMOUNT_MISMATCH', mismatch, {
+    paymentTransactionId: attempt.id,
+    orderId: attempt.orderId,
+    method: attempt.method,
+    gatewayReference: attempt.gatewayReference,
+    capturedAmount,
+  })
+
+  // Left for an admin rather than creating an order that was under- or overpaid
+  await paymentTransactionRepository.markFailed(attempt.id, {
+    errorMessage: mismatch,
+    responsePayload,
+  })
+  await inventoryRepository.releaseReservation(attempt.orderId, 'Payment amount did not match the order')
+  await discountRepository.releaseReservation(attempt.orderId)
+
+  return mismatch
+}
+
+/**
+ * Create the order a verified online payment was made for, from the
+ * checkout session stored with the payment attempt. Used both when the
+ * customer returns from the gateway and when reconciliation finds a
+ * payment whose callback never arrived.
+ *
+ * Idempotent on the gateway's payment reference: a callback that arrives
+ * twice, or a verified reference replayed against another checkout,
+ * returns the order already created for it with `created: false`.
+ */
+export async function createOrderFromPaymentSession(
+  orderId: string,
+  session: PaymentSessionData,
+  paymentReference: string
+) {
+  const result = await db.transaction(async (tx) => {
+    // Serialise finalisation of the same order or payment across requests
+    await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${orderId}))`)
+    await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${paymentReference}))`)
+
+    const existingOrder = await tx.query.orders.findFirst({
+      where: or(eq(orders.id, orderId), eq(orders.stripePaymentIntentId, paymentReference)),
+      with: {
+        items: {
+          with: {
+            product: true
+          }
+        },
+        user: true
+      }
+    })
+
+    if (existingOrder) {
+      if (existingOrder.id !== orderId) {
+        securityMonitor.logEvent('PAYMENT_REPLAY', `Payment ${paymentReference} was already used for order ${existingOrder.id}`, {
+          orderId,
+          existingOrderId: existingOrder.id,
+          paymentReference,
+        })
+      }
+
+      return { order: existingOrder, created: false }
+    }
+
+    // Create the order
+    const [newOrder] = await tx.insert(orders)
+      .values({
+        id: orderId,
+        userId: session.userId || null,
+        total: session.amount.toString(),
+        ...toOrderPriceColumns(session.priceBreakdown as OrderPriceBreakdown | undefined),
+        status: 'PENDING',
+        stripePaymentIntentId: paymentReference,
+        shippingAddress: session.shippingAddress ? session.shippingAddress : null,
+        isGuestOrder: !session.userId,
+        guestEmail: session.guestEmail || null,
+        guestName: (session as any).guestName || null,
+      })
+      .returning()
+
+    // Create order items
+    const itemsData = session.cartItems.map((item: any) => ({
+      orderId: newOrder.id,
+      productId: item.productId,
+      quantity: item.quantity,
+      price: item.price.toString(),
+    }))
+
+    await tx.insert(orderItems)
+      .values(itemsData)
+      .returning()
+
+    // The stock was reserved when the payment started. If the hold ran out
+    // first, the customer has still paid, so the stock is taken regardless.
+    const reserved = await inventoryRepository.consumeReservation(orderId, tx)
+    const fulfillmentLocationId = reserved.length > 0
+      ? getMainLocationId(reserved)
+      : (await inventoryRepository.decrementStock(session.cartItems, {
+        reason: `Inventory reduced for order ${orderId}`,
+        referenceId: orderId,
+        allowOversell: true,
+      }, tx)).locationId
+
+    await tx.update(orders)
+      .set({ fulfillmentLocationId })
+      .where(eq(orders.id, orderId))
+
+    await orderRepository.recordEvent(newOrder.id, {
+      status: 'PENDING',
+      createdBy: session.userId || null,
+    }, tx)
+
+    // Redeem the coupon use reserved when the payment started
+    if (session.discountId) {
+      await discountRepository.redeemReservation({
+        discountId: session.discountId,
+        userId: session.userId || null,
+        orderId: newOrder.id,
+      }, tx)
+    }
+
+    // Fetch complete order with relations
+    const completeOrder = await tx.query.orders.findFirst({
+      where: eq(orders.id, newOrder.id),
+      with: {
+        items: {
+          with: {
+            product: true
+          }
+        },
+        user: true
+      }
+    })
+
+    return { order: completeOrder!, created: true }
+  })
+
+  if (!result.created) {
+    return result
+  }
+
+  const { order } = result
+
+  // Start order processing workflow
+  try {
+    await orderProcessingService.processOrderLifecycle(order.id)
+  } catch (processingError) {
+    console.error('Failed to start order processing:', processingError)
+    // Don't fail the order if processing fails
+  }
+
+  // Send confirmation email if user email is available
+  const userEmail = session.guestEmail || (order.user as any)?.email
+  if (userEmail) {
+    try {
+      await EmailService.sendOrderConfirmation({
+        order: order,
+        user: order.user || {
+          id: 'guest',
+          name: 'Guest Customer',
+          email: userEmail,
+        } as any,
+        orderItems: order.items.map(item => ({
+          product: item.product,
+          quantity: item.quantity,
+          price: item.price,
+        })),
+      })
+    } catch (emailError) {
+      console.error('Failed to send order confirmation email:', emailError)
+      // Don't fail the order if email fails
+    }
+  }
+
+  return result
+}
@@ -0,0 +1,53 @@
+import type { PaymentGateway } from './types'
+
+export const codPaymentGateway: PaymentGateway = {
+  method: 'cod',
+  displayName: 'Cash on Delivery',
+  description: 'Pay in cash when your order is delivered',
+  icon: '/images/payment/cod-icon.png',
+  capabilities: {
+    online: false,
+    refunds: false,
+  },
+
+  async initiate(config) {
+    // For COD, we don't need to redirect to any payment gateway
+    // We'll handle this in the checkout flow directly
+    const transactionId = `cod-${config.orderId}-${Date.now()}`
+
+    return {
+      method: 'cod',
+      success: true,
+      transactionId,
+      data: {
+        orderId: config.orderId,
+        amount: config.amount,
+        method: 'cod',
+      },
+    }
+  },
+
+  async verify(transactionId, data?: { orderId: string; amount: number }) {
+    if (!data) {
+      throw new Error('COD verification data required')
+    }
+
+    // For COD, verification is always successful since no online payment is involved.
+    // The cash itself is tracked as a COD collection once the order is delivered
+    return {
+      method: 'cod',
+      success: true,
+      transactionId,
+      amount: data.amount,
+      orderId: data.orderId,
+    }
+  },
+
+  async refund() {
+    return { success: false, error: 'Cash on delivery orders are refunded manually' }
+  },
+
+  parseCallback() {
+    return { success: false, params: {} }
+  },
+}
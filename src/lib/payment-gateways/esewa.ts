@@ -1,11 +1,20 @@
 import crypto from 'crypto'
+import type { PaymentGateway, PaymentLookupStatus } from './types'
+
+// v1 is the legacy epay/main redirect; v2 is the HMAC signed form
+export type ESewaApiVersion = 'v1' | 'v2'
 
 export interface ESewaConfig {
-  merchantId: string
+  merchantId: string // Also the v2 product code
   secretKey: string
   baseUrl: string
   successUrl: string
   failureUrl: string
+  apiVersion: ESewaApiVersion
+  v2BaseUrl: string
+  statusCheckUrl: string
+  // Merchant refund endpoint; eSewa only enables it on request, so refunds are manual without it
+  refundUrl?: string
 }
 
 export interface ESewaPaymentData {
@@ -29,6 +38,55 @@ export interface ESewaPaymentRequest {
   fu: string // Failure URL
 }
 
+export interface ESewaV2PaymentRequest {
+  amount: string
+  tax_amount: string
+  total_amount: string
+  transaction_uuid: string
+  product_code: string
+  product_service_charge: string
+  product_delivery_charge: string
+  success_url: string
+  failure_url: string
+  signed_field_names: string
+  signature: string
+}
+
+// Decoded from the base64 `data` parameter eSewa v2 redirects back with
+export interface ESewaV2CallbackData {
+  transaction_code: string
+  status: string
+  total_amount: string
+  transaction_uuid: string
+  product_code: string
+  signed_field_names: string
+  signature: string
+}
+
+export interface ESewaStatusResponse {
+  product_code: string
+  transaction_uuid: string
+  total_amount: number
+  status: 'COMPLETE' | 'PENDING' | 'FULL_REFUND' | 'PARTIAL_REFUND' | 'AMBIGUOUS' | 'NOT_FOUND' | 'CANCELED'
+  ref_id: string | null
+}
+
+export interface ESewaRefundResponse {
+  status: string
+  refund_id?: string
+  message?: string
+}
+
+export interface ESewaCallbackResult {
+  oid: string // v1 pid or v2 transaction_uuid
+  amt: string
+  refId: string // v1 refId or v2 transaction_code
+  status: string
+  version: ESewaApiVersion
+  // Only v2 callbacks are signed
+  signatureValid?: boolean
+}
+
 export interface ESewaVerificationResponse {
   response_code: string
   status: string
@@ -38,6 +96,9 @@ export interface ESewaVerificationResponse {
   signature: string
 }
 
+// Fields eSewa v2 expects to be signed, in this order
+const V2_SIGNED_FIELD_NAMES = ['total_amount', 'transaction_uuid', 'product_code']
+
 export class ESewaGateway {
   private config: ESewaConfig
 
@@ -45,6 +106,13 @@ export class ESewaGateway {
     this.config = config
   }
 
+  /**
+   * API version new payments are started with
+   */
+  get apiVersion(): ESewaApiVersion {
+    return this.config.apiVersion
+  }
+
   /**
    * Create payment request data for eSewa
    */
@@ -80,13 +148,58 @@ export class ESewaGateway {
   }
 
   /**
-   * Verify payment from eSewa callback
+   * Create the signed form fields for eSewa ePay v2
+   */
+  createV2PaymentRequest(paymentData: ESewaPaymentData): ESewaV2PaymentRequest {
+    const totalAmount = paymentData.amount.toFixed(2)
+
+    const fields = {
+      amount: totalAmount,
+      tax_amount: '0',
+      total_amount: totalAmount,
+      transaction_uuid: `${paymentData.orderId}-${Date.now()}`,
+      product_code: this.config.merchantId,
+      product_service_charge: '0',
+      product_delivery_charge: '0',
+      success_url: this.config.successUrl,
+      failure_url: this.config.failureUrl,
+      signed_field_names: V2_SIGNED_FIELD_NAMES.join(','),
+    }
+
+    return {
+      ...fields,
+      signature: this.generateSignature(fields, V2_SIGNED_FIELD_NAMES),
+    }
+  }
+
+  /**
+   * URL the v2 payment form is posted to
+   */
+  getV2FormUrl(): string {
+    return `${this.config.v2BaseUrl}/api/epay/main/v2/form`
+  }
+
+  /**
+   * Verify payment from eSewa callback. v1 payments are confirmed through
+   * the transrec endpoint and v2 payments through the status check API, so
+   * payments started before a version switch still verify.
    */
   async verifyPayment(
     oid: string, // Transaction reference ID
     amt: string, // Amount
-    refId: string // eSewa reference ID
+    refId: string, // eSewa reference ID
+    version: ESewaApiVersion = 'v1'
   ): Promise<boolean> {
+    if (version === 'v2') {
+      try {
+        const status = await this.checkTransactionStatus(oid, amt)
+        return status.status === 'COMPLETE' && (!status.ref_id || status.ref_id === refId)
+      } catch (error) {
+        console.error('eSewa payment status check error:', error)
+        return false
+      }
+    }
+
     try {
       const verificationUrl = `${this.config.baseUrl}/epay/transrec`
       const verificationData = {
@@ -119,12 +232,84 @@ export class ESewaGateway {
   }
 
   /**
-   * Generate signature for secure payments (if using eSewa API v2)
+   * Look up a v2 transaction with eSewa's status check API
    */
-  generateSignature(data: Record<string, string>): string {
-    const signedFieldNames = Object.keys(data).sort().join(',')
-    const message = Object.keys(data)
-      .sort()
+  async checkTransactionStatus(transactionUuid: string, totalAmount: string): Promise<ESewaStatusResponse> {
+    const params = new URLSearchParams({
+      product_code: this.config.merchantId,
+      total_amount: totalAmount,
+      transaction_uuid: transactionUuid,
+    })
+
+    const response = await fetch(`${this.config.statusCheckUrl}?${params.toString()}`)
+
+    if (!response.ok) {
+      throw new Error(`eSewa status check failed: ${response.status}`)
+    }
+
+    return await response.json()
+  }
+
+  /**
+   * Refund a payment through the merchant refund API, where eSewa has
+   * enabled it for the merchant
+   */
+  async refundPayment(refId: string, amount: number, remarks?: string): Promise<ESewaRefundResponse> {
+    if (!this.config.refundUrl) {
+      throw new Error('eSewa refunds are not enabled for this merchant')
+    }
+
+    const fields = {
+      product_code: this.config.merchantId,
+      transaction_code: refId,
+      amount: amount.toFixed(2),
+    }
+
+    const response = await fetch(this.config.refundUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        ...fields,
+        remarks: remarks || '',
+        signed_field_names: Object.keys(fields).join(','),
+        signature: this.generateSignature(fields, Object.keys(fields)),
+      }),
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => '')
+      throw new Error(`eSewa refund failed: ${response.status} ${errorText}`.trim())
+    }
+
+    return await response.json()
+  }
+
+  /**
+   * Map a status check response onto the outcome reconciliation acts on.
+   * Refunded payments were captured, so they count as completed.
+   */
+  getLookupStatus(status: ESewaStatusResponse['status']): PaymentLookupStatus {
+    switch (status) {
+      case 'COMPLETE':
+      case 'FULL_REFUND':
+      case 'PARTIAL_REFUND':
+        return 'COMPLETED'
+      case 'PENDING':
+      case 'AMBIGUOUS':
+        return 'PENDING'
+      default:
+        return 'FAILED'
+    }
+  }
+
+  /**
+   * HMAC-SHA256 signature over `field=value` pairs joined with commas.
+   * v2 signs the fields listed in signed_field_names, in that order.
+   */
+  generateSignature(data: Record<string, string>, fieldNames: string[] = Object.keys(data).sort()): string {
+    const message = fieldNames
       .map(key => `${key}=${data[key]}`)
       .join(',')
 
@@ -134,6 +319,22 @@ export class ESewaGateway {
       .digest('base64')
   }
 
+  /**
+   * Check the signature on a decoded v2 callback
+   */
+  verifyCallbackSignature(data: ESewaV2CallbackData): boolean {
+    try {
+      const fields = data as unknown as Record<string, string>
+      const expected = Buffer.from(this.generateSignature(fields, data.signed_field_names.split(',')))
+      const received = Buffer.from(data.signature || '')
+
+      return expected.length === received.length && crypto.timingSafeEqual(expected, received)
+    } catch (error) {
+      console.error('eSewa callback signature validation error:', error)
+      return false
+    }
+  }
+
   /**
    * Validate webhook signature
    */
@@ -170,6 +371,10 @@ export const getESewaGateway = (): ESewaGateway => {
       baseUrl: process.env.ESEWA_BASE_URL!,
       successUrl: process.env.PAYMENT_SUCCESS_URL!,
       failureUrl: process.env.PAYMENT_FAILURE_URL!,
+      apiVersion: process.env.ESEWA_API_VERSION === 'v2' ? 'v2' : 'v1',
+      v2BaseUrl: process.env.ESEWA_V2_BASE_URL || process.env.ESEWA_BASE_URL!,
+      statusCheckUrl: process.env.ESEWA_STATUS_CHECK_URL || `${process.env.ESEWA_BASE_URL}/api/epay/transaction/status/`,
+      refundUrl: process.env.ESEWA_REFUND_URL,
     }
 
     // Validate required environment variables
@@ -188,11 +393,151 @@ export const formatESewaAmount = (amount: number): string => {
   return amount.toFixed(2)
 }
 
-// Helper function to parse eSewa callback parameters
-export const parseESewaCallback = (query: Record<string, string | string[]>) => {
+// Helper function to parse eSewa callback parameters. v2 callbacks carry a
+// base64 JSON `data` parameter whose signature is checked here.
+export const parseESewaCallback = (query: Record<string, string | string[]>): ESewaCallbackResult => {
+  const first = (value: string | string[] | undefined) => (Array.isArray(value) ? value[0] : value) || ''
+  const encoded = first(query.data)
+
+  if (encoded) {
+    try {
+      const data: ESewaV2CallbackData = JSON.parse(Buffer.from(encoded, 'base64').toString('utf8'))
+
+      return {
+        oid: data.transaction_uuid || '',
+        // eSewa formats v2 amounts with thousands separators, e.g. "1,000.0"
+        amt: String(data.total_amount || '').replace(/,/g, ''),
+        refId: data.transaction_code || '',
+        status: data.status || '',
+        version: 'v2',
+        signatureValid: getESewaGateway().verifyCallbackSignature(data),
+      }
+    } catch (error) {
+      console.error('eSewa callback decoding error:', error)
+      return { oid: '', amt: '', refId: '', status: '', version: 'v2', signatureValid: false }
+    }
+  }
+
   return {
-    oid: Array.isArray(query.oid) ? query.oid[0] : query.oid || '',
-    amt: Array.isArray(query.amt) ? query.amt[0] : query.amt || '',
-    refId: Array.isArray(query.refId) ? query.refId[0] : query.refId || '',
+    oid: first(query.oid),
+    amt: first(query.amt),
+    refId: first(query.refId),
+    status: '',
+    version: 'v1',
   }
-}
\ No newline at end of file
+}
+
+export const esewaPaymentGateway: PaymentGateway = {
+  method: 'esewa',
+  displayName: 'eSewa',
+  description: 'Pay securely with your eSewa wallet',
+  icon: '/images/payment/esewa-logo.png',
+  capabilities: {
+    online: true,
+    refunds: !!process.env.ESEWA_REFUND_URL,
+  },
+
+  async initiate(config) {
+    const esewa = getESewaGateway()
+
+    const paymentData: ESewaPaymentData = {
+      amount: config.amount,
+      productId: config.orderId,
+      productName: config.productName,
+      orderId: config.orderId,
+      customerEmail: config.customerInfo?.email,
+      customerPhone: config.customerInfo?.phone,
+    }
+
+    if (esewa.apiVersion === 'v2') {
+      const paymentRequest = esewa.createV2PaymentRequest(paymentData)
+
+      return {
+        method: 'esewa',
+        success: true,
+        // v2 payments start by posting the signed form to eSewa
+        paymentForm: {
+          action: esewa.getV2FormUrl(),
+          fields: paymentRequest as unknown as Record<string, string>,
+        },
+        transactionId: paymentRequest.transaction_uuid,
+        data: paymentRequest,
+      }
+    }
+
+    const paymentRequest = esewa.createPaymentRequest(paymentData)
+
+    return {
+      method: 'esewa',
+      success: true,
+      paymentUrl: esewa.getPaymentUrl(paymentRequest),
+      transactionId: paymentRequest.pid,
+      data: paymentRequest,
+    }
+  },
+
+  async verify(transactionId, data?: { oid: string; amt: string; refId: string; version?: ESewaApiVersion }) {
+    if (!data?.oid || !data.amt || !data.refId) {
+      throw new Error('eSewa verification data required')
+    }
+
+    // Callbacks without a version predate v2 support
+    const isVerified = await getESewaGateway().verifyPayment(data.oid, data.amt, data.refId, data.version || 'v1')
+
+    return {
+      method: 'esewa',
+      success: isVerified,
+      transactionId: data.refId,
+      amount: parseFloat(data.amt),
+      orderId: data.oid,
+      data,
+    }
+  },
+
+  async refund(request) {
+    if (!esewaPaymentGateway.capabilities.refunds) {
+      return { success: false, error: 'eSewa refunds are not enabled for this merchant' }
+    }
+
+    const refundResponse = await getESewaGateway().refundPayment(request.transactionId, request.amount, request.reason)
+    const success = refundResponse.status?.toUpperCase() === 'SUCCESS'
+
+    return {
+      success,
+      reference: refundResponse.refund_id,
+      error: success ? undefined : refundResponse.message || 'eSewa refund was not accepted',
+      data: refundResponse,
+    }
+  },
+
+  parseCallback(query) {
+    const { oid, amt, refId, status, version, signatureValid } = parseESewaCallback(query)
+    return {
+      success: !!(oid && amt && refId) && signatureValid !== false && (version === 'v1' || status === 'COMPLETE'),
+      params: { oid, amt, refId, version },
+    }
+  },
+
+  // eSewa calls back with the pid (v1) or transaction_uuid (v2) the payment was started with as `oid`
+  getAttemptReference(transactionId, data) {
+    return data?.oid
+  },
+
+  async lookup(attempt) {
+    // Only v2 requests carry a transaction_uuid; v1 payments can only be
+    // confirmed with the refId eSewa hands to the callback
+    if (!(attempt.responsePayload as Partial<ESewaV2PaymentRequest> | null)?.transaction_uuid) {
+      return { status: 'PENDING', error: 'Legacy eSewa payments cannot be looked up without the callback' }
+    }
+
+    const esewa = getESewaGateway()
+    const statusResponse = await esewa.checkTransactionStatus(attempt.gatewayReference, Number(attempt.amount).toFixed(2))
+
+    return {
+      status: esewa.getLookupStatus(statusResponse.status),
+      transactionId: statusResponse.ref_id || undefined,
+      amount: Number(statusResponse.total_amount),
+      data: statusResponse,
+    }
+  },
+}
@@ -0,0 +1,243 @@
+import crypto from 'crypto'
+import QRCode from 'qrcode'
+import type { PaymentGateway, PaymentLookupStatus } from './types'
+import { paymentTransactionRepository } from '@/lib/payment-transaction-repository'
+
+export interface FonepayConfig {
+  merchantCode: string
+  secretKey: string
+  username: string
+  password: string
+  baseUrl: string
+}
+
+export interface FonepayQrRequest {
+  amount: string
+  remarks1: string
+  remarks2: string
+  prn: string // Product reference number, unique per payment
+  merchantCode: string
+  dataValidation: string
+  username: string
+  password: string
+}
+
+export interface FonepayQrResponse {
+  message: string
+  qrMessage: string // EMVCo QR content, readable by Fonepay and NepalPay banking apps
+  status: string
+  statusCode: number
+  success: boolean
+  thirdpartyQrWebSocketUrl?: string
+}
+
+export interface FonepayStatusResponse {
+  fonepayTraceId: number | string | null
+  paymentStatus: 'success' | 'failed' | 'pending'
+  prn: string
+}
+
+export class FonepayGateway {
+  private config: FonepayConfig
+
+  constructor(config: FonepayConfig) {
+    this.config = config
+  }
+
+  /**
+   * Create a dynamic merchant QR for a fixed amount
+   */
+  async createQrPayment(prn: string, amount: number, remarks: string): Promise<FonepayQrResponse> {
+    const fields = {
+      amount: amount.toFixed(2),
+      prn,
+      merchantCode: this.config.merchantCode,
+      // Fonepay limits remarks to 50 characters
+      remarks1: remarks.slice(0, 50),
+      remarks2: 'Online order',
+    }
+
+    const payload: FonepayQrRequest = {
+      ...fields,
+      dataValidation: this.generateDataValidation([
+        fields.amount,
+        fields.prn,
+        fields.merchantCode,
+        fields.remarks1,
+        fields.remarks2,
+      ]),
+      username: this.config.username,
+      password: this.config.password,
+    }
+
+    const response = await fetch(`${this.config.baseUrl}/merchant/merchantDetailsForThirdParty/thirdPartyDynamicQrDownload`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(payload),
+    })
+
+    const data = await response.json().catch(() => ({}))
+    if (!response.ok || !data.success) {
+      throw new Error(`Fonepay QR generation failed: ${data.message || response.status}`)
+    }
+
+    return data
+  }
+
+  /**
+   * Check whether a QR payment has been made
+   */
+  async checkQrStatus(prn: string): Promise<FonepayStatusResponse> {
+    const response = await fetch(`${this.config.baseUrl}/merchant/merchantDetailsForThirdParty/thirdPartyDynamicQrGetStatus`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        prn,
+        merchantCode: this.config.merchantCode,
+        dataValidation: this.generateDataValidation([prn, this.config.merchantCode]),
+        username: this.config.username,
+        password: this.config.password,
+      }),
+    })
+
+    if (!response.ok) {
+      throw new Error(`Fonepay status check failed: ${response.status}`)
+    }
+
+    return await response.json()
+  }
+
+  /**
+   * Map a status check response onto the outcome reconciliation acts on
+   */
+  getLookupStatus(status: FonepayStatusResponse['paymentStatus']): PaymentLookupStatus {
+    switch (status) {
+      case 'success':
+        return 'COMPLETED'
+      case 'failed':
+        return 'FAILED'
+      default:
+        return 'PENDING'
+    }
+  }
+
+  /**
+   * HMAC-SHA512 over the values joined with commas, hex encoded
+   */
+  generateDataValidation(values: string[]): string {
+    return crypto
+      .createHmac('sha512', this.config.secretKey)
+      .update(values.join(','))
+      .digest('hex')
+  }
+}
+
+// Singleton instance
+let fonepayGateway: FonepayGateway | null = null
+
+export const getFonepayGateway = (): FonepayGateway => {
+  if (!fonepayGateway) {
+    const config: FonepayConfig = {
+      merchantCode: process.env.FONEPAY_MERCHANT_CODE!,
+      secretKey: process.env.FONEPAY_SECRET_KEY!,
+      username: process.env.FONEPAY_USERNAME!,
+      password: process.env.FONEPAY_PASSWORD!,
+      baseUrl: process.env.FONEPAY_BASE_URL || 'https://dev-merchantapi.fonepay.com/api',
+    }
+
+    // Validate required environment variables
+    if (!config.merchantCode || !config.secretKey || !config.username || !config.password) {
+      throw new Error('Fonepay configuration is incomplete. Check environment variables.')
+    }
+
+    fonepayGateway = new FonepayGateway(config)
+  }
+
+  return fonepayGateway
+}
+
+// Product reference number for a new QR payment
+export const generateFonepayPrn = (): string =>
+  `FP${Date.now().toString(36).toUpperCase()}${crypto.randomBytes(3).toString('hex').toUpperCase()}`
+
+export const fonepayPaymentGateway: PaymentGateway = {
+  method: 'fonepay',
+  displayName: 'Fonepay QR',
+  description: 'Scan a QR code with any Fonepay or NepalPay banking app',
+  icon: '/images/payment/fonepay-logo.png',
+  capabilities: {
+    online: true,
+    refunds: false,
+    qr: true,
+  },
+
+  async initiate(config) {
+    const prn = generateFonepayPrn()
+    const qrResponse = await getFonepayGateway().createQrPayment(prn, config.amount, config.productName)
+
+    return {
+      method: 'fonepay',
+      success: true,
+      // The customer pays from their phone, so checkout shows the QR and polls for the result
+      qrCode: {
+        payload: qrResponse.qrMessage,
+        image: await QRCode.toDataURL(qrResponse.qrMessage, { margin: 1, width: 256 }),
+      },
+      transactionId: prn,
+      data: qrResponse,
+    }
+  },
+
+  async verify(transactionId, data?: { prn: string }) {
+    const prn = data?.prn || transactionId
+
+    // The status API doesn't report the amount; the QR was issued for the amount on the attempt
+    const attempt = await paymentTransactionRepository.findByGatewayReference('fonepay', prn)
+    if (!attempt) {
+      throw new Error('Fonepay payment not found')
+    }
+
+    const fonepay = getFonepayGateway()
+    const statusResponse = await fonepay.checkQrStatus(prn)
+
+    return {
+      method: 'fonepay',
+      success: statusResponse.paymentStatus === 'success',
+      transactionId: statusResponse.fonepayTraceId?.toString() || prn,
+      amount: Number(attempt.amount),
+      orderId: attempt.orderId,
+      pending: fonepay.getLookupStatus(statusResponse.paymentStatus) === 'PENDING',
+      data: statusResponse,
+    }
+  },
+
+  async refund() {
+    return { success: false, error: 'Fonepay QR payments are refunded manually' }
+  },
+
+  // QR payments are confirmed by polling, so there is no redirect to parse
+  parseCallback() {
+    return { success: false, params: {} }
+  },
+
+  getAttemptReference(transactionId, data) {
+    return data?.prn || transactionId
+  },
+
+  async lookup(attempt) {
+    const fonepay = getFonepayGateway()
+    const statusResponse = await fonepay.checkQrStatus(attempt.gatewayReference)
+
+    return {
+      status: fonepay.getLookupStatus(statusResponse.paymentStatus),
+      transactionId: statusResponse.fonepayTraceId?.toString() || undefined,
+      // As in verify, the QR was issued for the amount on the attempt
+      amount: Number(attempt.amount),
+      data: statusResponse,
+    }
+  },
+}
@@ -1,38 +1,31 @@
-import { ESewaGateway, getESewaGateway, ESewaPaymentData } from './esewa'
-import { KhaltiGateway, getKhaltiGateway, KhaltiPaymentData } from './khalti'
+import { esewaPaymentGateway } from './esewa'
+import { khaltiPaymentGateway } from './khalti'
+import { codPaymentGateway } from './cod'
+import { fonepayPaymentGateway } from './fonepay'
+import { isMockPaymentEnabled, mockPaymentGateway } from './mock'
+import { getPaymentGateway, getRegisteredPaymentGateways, hasPaymentGateway, registerPaymentGateway } from './registry'
+import type {
+  PaymentGatewayConfig,
+  PaymentInitiationResult,
+  PaymentMethod,
+  PaymentRefundRequest,
+  PaymentRefundResult,
+  PaymentVerificationResult,
+} from './types'
 import { formatCurrency } from '@/lib/currency'
-
-export type PaymentMethod = 'esewa' | 'khalti' | 'cod'
-
-export interface PaymentGatewayConfig {
-  method: PaymentMethod
-  orderId: string
-  amount: number
-  productName: string
-  customerInfo?: {
-    name?: string
-    email?: string
-    phone?: string
-  }
-}
-
-export interface PaymentInitiationResult {
-  method: PaymentMethod
-  success: boolean
-  paymentUrl?: string
-  error?: string
-  transactionId?: string
-  data?: any
-}
-
-export interface PaymentVerificationResult {
-  method: PaymentMethod
-  success: boolean
-  transactionId: string
-  amount: number
-  orderId: string
-  error?: string
-  data?: any
+import { paymentTransactionRepository } from '@/lib/payment-transaction-repository'
+import { inventoryRepository } from '@/lib/inventory-repository'
+import { discountRepository } from '@/lib/discount-repository'
+import { SettingsRepository } from '@/lib/settings-repository'
+import type { PaymentTransaction } from '@/types'
+
+registerPaymentGateway(esewaPaymentGateway)
+registerPaymentGateway(khaltiPaymentGateway)
+registerPaymentGateway(fonepayPaymentGateway)
+registerPaymentGateway(codPaymentGateway)
+
+if (isMockPaymentEnabled()) {
+  registerPaymentGateway(mockPaymentGateway)
 }
 
 export class PaymentGatewayManager {
@@ -41,16 +34,24 @@ export class PaymentGatewayManager {
    */
   async initiatePayment(config: PaymentGatewayConfig): Promise<PaymentInitiationResult> {
     try {
-      switch (config.method) {
-        case 'esewa':
-          return await this.initiateESewaPayment(config)
-        case 'khalti':
-          return await this.initiateKhaltiPayment(config)
-        case 'cod':
-          return await this.initiateCODPayment(config)
-        default:
-          throw new Error(`Unsupported payment method: ${config.method}`)
-      }
+      const result = await getPaymentGateway(config.method).initiate(config)
+
+      // Every attempt is persisted so it survives restarts and can be audited
+      await paymentTransactionRepository.create({
+        orderId: config.orderId,
+        method: config.method,
+        gatewayReference: result.transactionId!,
+        amount: config.amount,
+        session: config.session,
+        requestPayload: {
+          amount: config.amount,
+          productName: config.productName,
+          customerInfo: config.customerInfo,
+        },
+        responsePayload: result.data,
+      })
+
+      return result
     } catch (error) {
       console.error('Payment initiation error:', error)
       return {
@@ -69,26 +70,46 @@ export class PaymentGatewayManager {
     transactionId: string,
     additionalData?: any
   ): Promise<PaymentVerificationResult> {
+    let gatewayReference: string | undefined = transactionId
+    let result: PaymentVerificationResult
+
     try {
-      switch (method) {
-        case 'esewa':
-          return await this.verifyESewaPayment(transactionId, additionalData)
-        case 'khalti':
-          return await this.verifyKhaltiPayment(transactionId)
-        case 'cod':
-          return await this.verifyCODPayment(transactionId, additionalData)
-        default:
-          throw new Error(`Unsupported payment method: ${method}`)
-      }
+      const gateway = getPaymentGateway(method)
+      gatewayReference = gateway.getAttemptReference
+        ? gateway.getAttemptReference(transactionId, additionalData)
+        : transactionId
+      result = await gateway.verify(transactionId, additionalData)
     } catch (error) {
       console.error('Payment verification error:', error)
-      return {
+      // The gateway gave no answer, so the payment may still go through
+      result = {
         method,
         success: false,
         transactionId,
         amount: 0,
         orderId: '',
         error: error instanceof Error ? error.message : 'Payment verification failed',
+        pending: true,
+      }
+    }
+
+    result.paymentTransaction = await this.recordVerification(method, gatewayReference, result)
+    return result
+  }
+
+  /**
+   * Refund a captured payment through its gateway. Gateways that can't
+   * refund, and API errors, come back as an unsuccessful result so the
+   * refund can be handed to an admin instead.
+   */
+  async refundPayment(method: PaymentMethod, request: PaymentRefundRequest): Promise<PaymentRefundResult> {
+    try {
+      return await getPaymentGateway(method).refund(request)
+    } catch (error) {
+      console.error('Payment refund error:', error)
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Payment refund failed',
       }
     }
   }
@@ -97,145 +118,65 @@ export class PaymentGatewayManager {
    * Get payment method display name
    */
   getPaymentMethodDisplayName(method: PaymentMethod): string {
-    const names = {
-      esewa: 'eSewa',
-      khalti: 'Khalti',
-      cod: 'Cash on Delivery',
-    }
-    return names[method] || method
+    return hasPaymentGateway(method) ? getPaymentGateway(method).displayName : method
   }
 
   /**
    * Check if payment method is online
    */
   isOnlinePaymentMethod(method: PaymentMethod): boolean {
-    return method !== 'cod'
+    return hasPaymentGateway(method) && getPaymentGateway(method).capabilities.online
   }
 
   /**
    * Get payment method icon/logo path
    */
   getPaymentMethodIcon(method: PaymentMethod): string {
-    const icons = {
-      esewa: '/images/payment/esewa-logo.png',
-      khalti: '/images/payment/khalti-logo.png',
-      cod: '/images/payment/cod-icon.png',
-    }
-    return icons[method] || '/images/payment/default.png'
-  }
-
-  private async initiateESewaPayment(config: PaymentGatewayConfig): Promise<PaymentInitiationResult> {
-    const esewa = getESewaGateway()
-    
-    const paymentData: ESewaPaymentData = {
-      amount: config.amount,
-      productId: config.orderId,
-      productName: config.productName,
-      orderId: config.orderId,
-      customerEmail: config.customerInfo?.email,
-      customerPhone: config.customerInfo?.phone,
-    }
-
-    const paymentRequest = esewa.createPaymentRequest(paymentData)
-    const paymentUrl = esewa.getPaymentUrl(paymentRequest)
-
-    return {
-      method: 'esewa',
-      success: true,
-      paymentUrl,
-      transactionId: paymentRequest.pid,
-      data: paymentRequest,
-    }
+    return hasPaymentGateway(method) ? getPaymentGateway(method).icon : '/images/payment/default.png'
   }
 
-  private async initiateKhaltiPayment(config: PaymentGatewayConfig): Promise<PaymentInitiationResult> {
-    const khalti = getKhaltiGateway()
-    
-    const paymentData: KhaltiPaymentData = {
-      amount: khalti.convertNprToPaisa(config.amount), // Convert to paisa
-      productIdentity: config.orderId,
-      productName: config.productName,
-      orderId: config.orderId,
-      customerInfo: config.customerInfo,
-    }
-
-    const initiateResponse = await khalti.initiatePayment(paymentData)
-
-    return {
-      method: 'khalti',
-      success: true,
-      paymentUrl: initiateResponse.payment_url,
-      transactionId: initiateResponse.pidx,
-      data: initiateResponse,
-    }
-  }
-
-  private async initiateCODPayment(config: PaymentGatewayConfig): Promise<PaymentInitiationResult> {
-    // For COD, we don't need to redirect to any payment gateway
-    // We'll handle this in the checkout flow directly
-    const transactionId = `cod-${config.orderId}-${Date.now()}`
-
-    return {
-      method: 'cod',
-      success: true,
-      transactionId,
-      data: {
-        orderId: config.orderId,
-        amount: config.amount,
-        method: 'cod',
-      },
-    }
-  }
+  /**
+   * Store the verification outcome against the payment attempt. Failures
+   * are logged rather than thrown so a verified payment is never reported
+   * as failed because of bookkeeping. Payments the gateway hasn't settled
+   * yet leave the attempt open for reconciliation to pick up.
+   */
+  private async recordVerification(
+    method: PaymentMethod,
+    gatewayReference: string | undefined,
+    result: PaymentVerificationResult
+  ): Promise<PaymentTransaction | null> {
+    if (!gatewayReference) return null
 
-  private async verifyESewaPayment(
-    transactionId: string,
-    additionalData: { oid: string; amt: string; refId: string }
-  ): Promise<PaymentVerificationResult> {
-    const esewa = getESewaGateway()
-    
-    const isVerified = await esewa.verifyPayment(
-      additionalData.oid,
-      additionalData.amt,
-      additionalData.refId
-    )
+    try {
+      const transaction = await paymentTransactionRepository.findByGatewayReference(method, gatewayReference)
+      if (!transaction) {
+        console.warn(`No payment attempt recorded for ${method} reference ${gatewayReference}`)
+        return null
+      }
 
-    return {
-      method: 'esewa',
-      success: isVerified,
-      transactionId: additionalData.refId,
-      amount: parseFloat(additionalData.amt),
-      orderId: additionalData.oid,
-      data: additionalData,
-    }
-  }
+      if (result.success) {
+        return await paymentTransactionRepository.markCompleted(transaction.id, {
+          gatewayTransactionId: result.transactionId,
+          responsePayload: result.data,
+        })
+      }
 
-  private async verifyKhaltiPayment(transactionId: string): Promise<PaymentVerificationResult> {
-    const khalti = getKhaltiGateway()
-    
-    const verificationResponse = await khalti.verifyPayment(transactionId)
-    const isSuccessful = khalti.isPaymentSuccessful(verificationResponse)
+      if (result.pending) {
+        return transaction
+      }
 
-    return {
-      method: 'khalti',
-      success: isSuccessful,
-      transactionId: verificationResponse.transaction_id,
-      amount: khalti.convertPaisaToNpr(verificationResponse.total_amount),
-      orderId: verificationResponse.purchase_order_id,
-      data: verificationResponse,
-    }
-  }
+      const failed = await paymentTransactionRepository.markFailed(transaction.id, {
+        errorMessage: result.error || 'Payment verification failed',
+        responsePayload: result.data,
+      })
+      await inventoryRepository.releaseReservation(transaction.orderId, 'Payment failed')
+      await discountRepository.releaseReservation(transaction.orderId)
 
-  private async verifyCODPayment(
-    transactionId: string,
-    additionalData: { orderId: string; amount: number }
-  ): Promise<PaymentVerificationResult> {
-    // For COD, verification is always successful since no online payment is involved
-    return {
-      method: 'cod',
-      success: true,
-      transactionId,
-      amount: additionalData.amount,
-      orderId: additionalData.orderId,
+      return failed
+    } catch (error) {
+      console.error('Failed to record payment verification:', error)
+      return null
     }
   }
 }
@@ -251,25 +192,54 @@ export const getPaymentGatewayManager = (): PaymentGatewayManager => {
 }
 
 // Export everything from individual gateway files
+export * from './types'
+export * from './registry'
 export * from './esewa'
 export * from './khalti'
+export * from './cod'
+export * from './fonepay'
+export * from './mock'
 
 // Helper functions
 export const formatCurrencyAmount = (amount: number): string => {
   return formatCurrency(amount, 'NPR')
 }
 
-export const getAvailablePaymentMethods = (): PaymentMethod[] => {
-  return ['esewa', 'khalti', 'cod']
+/**
+ * Payment methods offered at checkout, in the order configured by the
+ * `enabled_payment_methods` setting. Methods without a registered gateway
+ * are skipped. The mock gateway is always offered where it is registered,
+ * so tests can pay online without changing settings.
+ */
+export const getAvailablePaymentMethods = async (): Promise<PaymentMethod[]> => {
+  const registered = getRegisteredPaymentGateways().map(gateway => gateway.method)
+
+  try {
+    const enabled = await SettingsRepository.getValue('enabled_payment_methods', registered)
+    if (Array.isArray(enabled)) {
+      const methods = enabled.filter((method: string) => hasPaymentGateway(method))
+      if (hasPaymentGateway('mock') && !methods.includes('mock')) {
+        methods.push('mock')
+      }
+      return methods
+    }
+  } catch (error) {
+    console.error('Failed to load enabled payment methods:', error)
+  }
+
+  return registered
 }
 
 export const getPaymentMethodInfo = (method: PaymentMethod) => {
-  const manager = getPaymentGatewayManager()
-  
+  const gateway = getPaymentGateway(method)
+
   return {
     method,
-    displayName: manager.getPaymentMethodDisplayName(method),
-    isOnline: manager.isOnlinePaymentMethod(method),
-    icon: manager.getPaymentMethodIcon(method),
+    displayName: gateway.displayName,
+    description: gateway.description,
+    isOnline: gateway.capabilities.online,
+    isQr: !!gateway.capabilities.qr,
+    supportsRefunds: gateway.capabilities.refunds,
+    icon: gateway.icon,
   }
-}
\ No newline at end of file
+}
@@ -1,4 +1,5 @@
 import crypto from 'crypto'
+import type { PaymentGateway, PaymentLookupStatus } from './types'
 
 export interface KhaltiConfig {
   publicKey: string
@@ -69,6 +70,23 @@ export interface KhaltiVerificationResponse {
   extra_merchant_params?: Record<string, any>
 }
 
+export interface KhaltiRefundResponse {
+  detail: string
+  idx?: string // Refund transaction id
+}
+
+export const toKhaltiLookupStatus = (status: KhaltiVerificationResponse['status']): PaymentLookupStatus => {
+  switch (status) {
+    case 'Completed':
+      return 'COMPLETED'
+    case 'Pending':
+    case 'Initiated':
+      return 'PENDING'
+    default:
+      return 'FAILED'
+  }
+}
+
 export class KhaltiGateway {
   private config: KhaltiConfig
 
@@ -145,6 +163,33 @@ export class KhaltiGateway {
     }
   }
 
+  /**
+   * Refund a completed payment through Khalti's merchant refund API. The
+   * amount is in paisa; leaving it out refunds the full payment.
+   */
+  async refundPayment(transactionId: string, amount?: number): Promise<KhaltiRefundResponse> {
+    try {
+      const response = await fetch(`${this.config.baseUrl}/api/merchant-transaction/${encodeURIComponent(transactionId)}/refund/`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Key ${this.config.secretKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(amount !== undefined ? { amount } : {}),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(`Khalti refund failed: ${JSON.stringify(errorData)}`)
+      }
+
+      return await response.json()
+    } catch (error) {
+      console.error('Khalti refund error:', error)
+      throw error
+    }
+  }
+
   /**
    * Check if payment is successful
    */
@@ -152,6 +197,13 @@ export class KhaltiGateway {
     return verificationResponse.status === 'Completed'
   }
 
+  /**
+   * Map a lookup status onto the outcome reconciliation acts on
+   */
+  getLookupStatus(status: KhaltiVerificationResponse['status']): PaymentLookupStatus {
+    return toKhaltiLookupStatus(status)
+  }
+
   /**
    * Get payment status text for display
    */
@@ -259,4 +311,87 @@ export const parseKhaltiCallback = (query: Record<string, string | string[]>) =>
     purchase_order_id: Array.isArray(query.purchase_order_id) ? query.purchase_order_id[0] : query.purchase_order_id || '',
     purchase_order_name: Array.isArray(query.purchase_order_name) ? query.purchase_order_name[0] : query.purchase_order_name || '',
   }
-}
\ No newline at end of file
+}
+export const khaltiPaymentGateway: PaymentGateway = {
+  method: 'khalti',
+  displayName: 'Khalti',
+  description: 'Pay with Khalti wallet or mobile banking',
+  icon: '/images/payment/khalti-logo.png',
+  capabilities: {
+    online: true,
+    refunds: true,
+  },
+
+  async initiate(config) {
+    const khalti = getKhaltiGateway()
+
+    const initiateResponse = await khalti.initiatePayment({
+      amount: khalti.convertNprToPaisa(config.amount), // Convert to paisa
+      productIdentity: config.orderId,
+      productName: config.productName,
+      orderId: config.orderId,
+      customerInfo: config.customerInfo,
+    })
+
+    return {
+      method: 'khalti',
+      success: true,
+      paymentUrl: initiateResponse.payment_url,
+      transactionId: initiateResponse.pidx,
+      data: initiateResponse,
+    }
+  },
+
+  async verify(transactionId, data?: { pidx: string }) {
+    const khalti = getKhaltiGateway()
+
+    const verificationResponse = await khalti.verifyPayment(data?.pidx || transactionId)
+
+    return {
+      method: 'khalti',
+      success: khalti.isPaymentSuccessful(verificationResponse),
+      transactionId: verificationResponse.transaction_id,
+      amount: khalti.convertPaisaToNpr(verificationResponse.total_amount),
+      orderId: verificationResponse.purchase_order_id,
+      pending: khalti.getLookupStatus(verificationResponse.status) === 'PENDING',
+      data: verificationResponse,
+    }
+  },
+
+  async refund(request) {
+    const khalti = getKhaltiGateway()
+
+    const refundResponse = await khalti.refundPayment(request.transactionId, khalti.convertNprToPaisa(request.amount))
+
+    return {
+      success: true,
+      reference: refundResponse.idx,
+      data: refundResponse,
+    }
+  },
+
+  parseCallback(query) {
+    const { pidx, status, transaction_id } = parseKhaltiCallback(query)
+    return {
+      success: !!(pidx && status && transaction_id),
+      params: { pidx, status, transaction_id },
+    }
+  },
+
+  getAttemptReference(transactionId, data) {
+    return data?.pidx || transactionId
+  },
+
+  async lookup(attempt) {
+    const khalti = getKhaltiGateway()
+
+    const lookupResponse = await khalti.verifyPayment(attempt.gatewayReference)
+
+    return {
+      status: khalti.getLookupStatus(lookupResponse.status),
+      transactionId: lookupResponse.transaction_id || undefined,
+      amount: khalti.convertPaisaToNpr(lookupResponse.total_amount),
+      data: lookupResponse,
+    }
+  },
+}
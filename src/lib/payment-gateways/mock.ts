@@ -0,0 +1,183 @@
+import crypto from 'crypto'
+import type { PaymentGateway } from './types'
+import { parseKhaltiCallback, toKhaltiLookupStatus, type KhaltiInitiateResponse, type KhaltiVerificationResponse } from './khalti'
+import { paymentTransactionRepository } from '@/lib/payment-transaction-repository'
+import { PaymentTransactionStatus } from '@/lib/db/schema'
+import type { PaymentTransaction } from '@/types'
+
+// What the hosted mock payment page lets the tester choose
+export const MOCK_PAYMENT_OUTCOMES = ['success', 'failure', 'timeout', 'amount_mismatch'] as const
+export type MockPaymentOutcome = typeof MOCK_PAYMENT_OUTCOMES[number]
+
+// Seconds a mock payment can stay unpaid before it expires, like a Khalti pidx
+const MOCK_PAYMENT_EXPIRY_SECONDS = 30 * 60
+
+// Kept on the payment attempt's response payload once the tester picks an outcome
+interface MockPaymentState extends KhaltiInitiateResponse {
+  amount: number // Paisa
+  purchase_order_id: string
+  result?: {
+    status: KhaltiVerificationResponse['status']
+    transaction_id: string
+    total_amount: number
+  }
+}
+
+/**
+ * The mock gateway stands in for eSewa and Khalti in development and e2e
+ * tests. It is never registered in production.
+ */
+export const isMockPaymentEnabled = (): boolean => process.env.NODE_ENV !== 'production'
+
+const getMockState = (attempt: PaymentTransaction): MockPaymentState =>
+  attempt.responsePayload as MockPaymentState
+
+const findMockAttempt = async (pidx: string): Promise<PaymentTransaction> => {
+  const attempt = await paymentTransactionRepository.findByGatewayReference('mock', pidx)
+  if (!attempt) {
+    throw new Error('Mock payment not found')
+  }
+  return attempt
+}
+
+/**
+ * Khalti-shaped lookup response for a mock payment. Payments nobody paid
+ * for stay pending until they expire.
+ */
+export const lookupMockPayment = (attempt: PaymentTransaction, now: Date = new Date()): KhaltiVerificationResponse => {
+  // Verification replaces the mock state with the lookup response it returned
+  if (attempt.status !== PaymentTransactionStatus.INITIATED) {
+    return attempt.responsePayload as KhaltiVerificationResponse
+  }
+
+  const state = getMockState(attempt)
+  const expired = new Date(state.expires_at) < now
+
+  return {
+    pidx: state.pidx,
+    total_amount: state.result?.total_amount ?? state.amount,
+    status: state.result?.status ?? (expired ? 'Expired' : 'Pending'),
+    transaction_id: state.result?.transaction_id ?? '',
+    fee: 0,
+    refunded: false,
+    purchase_order_id: state.purchase_order_id,
+    purchase_order_name: 'Mock payment',
+  }
+}
+
+/**
+ * Settle a mock payment with the outcome picked on the hosted page and
+ * return where to send the customer: the callback URL with Khalti's query
+ * parameters, or null when the outcome is a timeout and nothing calls back.
+ */
+export async function completeMockPayment(pidx: string, outcome: MockPaymentOutcome): Promise<string | null> {
+  const attempt = await findMockAttempt(pidx)
+  const state = getMockState(attempt)
+
+  if (state.result || attempt.status !== PaymentTransactionStatus.INITIATED) {
+    throw new Error('Mock payment has already been completed')
+  }
+
+  if (outcome === 'timeout') {
+    return null
+  }
+
+  const paid = outcome !== 'failure'
+  const result: MockPaymentState['result'] = {
+    status: paid ? 'Completed' : 'User Canceled',
+    transaction_id: paid ? `MOCK${crypto.randomBytes(6).toString('hex').toUpperCase()}` : '',
+    // Short by one rupee, as if the customer was charged a different amount
+    total_amount: outcome === 'amount_mismatch' ? state.amount - 100 : state.amount,
+  }
+
+  await paymentTransactionRepository.updateResponsePayload(attempt.id, { ...state, result })
+
+  const params = new URLSearchParams({
+    method: 'mock',
+    pidx,
+    status: result.status,
+    transaction_id: result.transaction_id,
+    amount: result.total_amount.toString(),
+    purchase_order_id: state.purchase_order_id,
+  })
+
+  return `/api/checkout/verify-payment?${params.toString()}`
+}
+
+export const mockPaymentGateway: PaymentGateway = {
+  method: 'mock',
+  displayName: 'Test Payment',
+  description: 'Simulated online payment for development and testing',
+  icon: '/images/payment/default.png',
+  capabilities: {
+    online: true,
+    refunds: true,
+  },
+
+  async initiate(config) {
+    const pidx = `mock_${crypto.randomUUID()}`
+    const paymentUrl = `/checkout/mock-gateway?pidx=${encodeURIComponent(pidx)}`
+
+    const state: MockPaymentState = {
+      pidx,
+      payment_url: paymentUrl,
+      expires_at: new Date(Date.now() + MOCK_PAYMENT_EXPIRY_SECONDS * 1000).toISOString(),
+      expires_in: MOCK_PAYMENT_EXPIRY_SECONDS,
+      amount: Math.round(config.amount * 100),
+      purchase_order_id: config.orderId,
+    }
+
+    return {
+      method: 'mock',
+      success: true,
+      paymentUrl,
+      transactionId: pidx,
+      data: state,
+    }
+  },
+
+  async verify(transactionId, data?: { pidx: string }) {
+    const lookupResponse = lookupMockPayment(await findMockAttempt(data?.pidx || transactionId))
+
+    return {
+      method: 'mock',
+      success: lookupResponse.status === 'Completed',
+      transactionId: lookupResponse.transaction_id,
+      amount: lookupResponse.total_amount / 100,
+      orderId: lookupResponse.purchase_order_id,
+      pending: toKhaltiLookupStatus(lookupResponse.status) === 'PENDING',
+      data: lookupResponse,
+    }
+  },
+
+  async refund(request) {
+    return {
+      success: true,
+      reference: `MOCKREFUND${crypto.randomBytes(4).toString('hex').toUpperCase()}`,
+      data: { transaction_id: request.transactionId, amount: Math.round(request.amount * 100) },
+    }
+  },
+
+  parseCallback(query) {
+    const { pidx, status, transaction_id } = parseKhaltiCallback(query)
+    return {
+      success: !!(pidx && status === 'Completed' && transaction_id),
+      params: { pidx, status, transaction_id },
+    }
+  },
+
+  getAttemptReference(transactionId, data) {
+    return data?.pidx || transactionId
+  },
+
+  async lookup(attempt) {
+    const lookupResponse = lookupMockPayment(attempt)
+
+    return {
+      status: toKhaltiLookupStatus(lookupResponse.status),
+      transactionId: lookupResponse.transaction_id || undefined,
+      amount: lookupResponse.total_amount / 100,
+      data: lookupResponse,
+    }
+  },
+}
@@ -0,0 +1,26 @@
+import type { PaymentGateway, PaymentMethod } from './types'
+
+const gateways = new Map<PaymentMethod, PaymentGateway>()
+
+export function registerPaymentGateway(gateway: PaymentGateway): void {
+  gateways.set(gateway.method, gateway)
+}
+
+export function getPaymentGateway(method: PaymentMethod): PaymentGateway {
+  const gateway = gateways.get(method)
+  if (!gateway) {
+    throw new Error(`Unsupported payment method: ${method}`)
+  }
+  return gateway
+}
+
+export function hasPaymentGateway(method: PaymentMethod): boolean {
+  return gateways.has(method)
+}
+
+/**
+ * Registered gateways in registration order
+ */
+export function getRegisteredPaymentGateways(): PaymentGateway[] {
+  return Array.from(gateways.values())
+}
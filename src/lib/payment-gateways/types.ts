@@ -0,0 +1,119 @@
+import type { PaymentSessionData } from '@/lib/payment-transaction-repository'
+import type { PaymentTransaction } from '@/types'
+
+// Identifier a gateway is registered under, e.g. 'esewa' or 'cod'
+export type PaymentMethod = string
+
+export interface PaymentGatewayConfig {
+  method: PaymentMethod
+  orderId: string
+  amount: number
+  productName: string
+  customerInfo?: {
+    name?: string
+    email?: string
+    phone?: string
+  }
+  // Checkout data to create the order from once the payment is verified
+  session?: PaymentSessionData
+}
+
+// A form the customer's browser posts to start the payment, for gateways
+// that don't accept a plain redirect
+export interface PaymentForm {
+  action: string
+  fields: Record<string, string>
+}
+
+// A QR code the customer scans with their banking app, for gateways
+// that are paid from the phone instead of a redirect
+export interface PaymentQrCode {
+  payload: string
+  image: string // PNG data URL
+}
+
+export interface PaymentInitiationResult {
+  method: PaymentMethod
+  success: boolean
+  paymentUrl?: string
+  paymentForm?: PaymentForm
+  qrCode?: PaymentQrCode
+  error?: string
+  transactionId?: string
+  data?: any
+}
+
+export interface PaymentVerificationResult {
+  method: PaymentMethod
+  success: boolean
+  transactionId: string
+  amount: number
+  orderId: string
+  error?: string
+  data?: any
+  // Not settled at the gateway yet; the attempt stays open for reconciliation
+  pending?: boolean
+  // The recorded payment attempt, with the checkout session it was started from
+  paymentTransaction?: PaymentTransaction | null
+}
+
+export interface PaymentRefundRequest {
+  // Gateway transaction id of the captured payment
+  transactionId: string
+  amount: number
+  reason?: string
+}
+
+export interface PaymentRefundResult {
+  success: boolean
+  reference?: string
+  error?: string
+  data?: any
+}
+
+// Where the gateway says a payment attempt stands
+export type PaymentLookupStatus = 'COMPLETED' | 'PENDING' | 'FAILED'
+
+export interface PaymentLookupResult {
+  status: PaymentLookupStatus
+  transactionId?: string
+  amount?: number
+  // Set when the attempt could not be looked up
+  error?: string
+  data?: any
+}
+
+export interface PaymentCallbackResult {
+  success: boolean
+  // Query parameters forwarded to the checkout success page for verification
+  params: Record<string, string>
+}
+
+export interface PaymentGatewayCapabilities {
+  // Customer is redirected to the gateway to pay
+  online: boolean
+  // Payments can be refunded through the gateway's API
+  refunds: boolean
+  // Paid by scanning a QR code at checkout; the page polls for the result
+  qr?: boolean
+}
+
+/**
+ * A payment method. Gateways are added by implementing this interface and
+ * registering the module with `registerPaymentGateway`.
+ */
+export interface PaymentGateway {
+  method: PaymentMethod
+  displayName: string
+  description: string
+  icon: string
+  capabilities: PaymentGatewayCapabilities
+  initiate(config: PaymentGatewayConfig): Promise<PaymentInitiationResult>
+  verify(transactionId: string, data?: any): Promise<PaymentVerificationResult>
+  refund(request: PaymentRefundRequest): Promise<PaymentRefundResult>
+  parseCallback(query: Record<string, string | string[]>): PaymentCallbackResult
+  // Reference the attempt was recorded under at initiation; defaults to the transaction id
+  getAttemptReference?(transactionId: string, data?: any): string | undefined
+  // Status of a recorded attempt, for payments whose callback never arrived
+  lookup?(attempt: PaymentTransaction): Promise<PaymentLookupResult>
+}
@@ -0,0 +1,209 @@
+import { getRegisteredPaymentGateways, getPaymentGateway } from './payment-gateways'
+import type { PaymentLookupResult } from './payment-gateways/types'
+import { paymentTransactionRepository, type PaymentSessionData } from './payment-transaction-repository'
+import { orderRepository } from './order-repository'
+import { inventoryRepository } from './inventory-repository'
+import { discountRepository } from './discount-repository'
+import { createOrderFromPaymentSession, rejectMismatchedPayment } from './payment-finalization'
+import { SettingsRepository } from './settings-repository'
+import type { PaymentTransaction } from '@/types'
+
+export const DEFAULT_RECONCILIATION_MINUTES = 30
+
+// Attempts the gateway still hasn't settled after this long are given up on
+export const ABANDONED_PAYMENT_HOURS = 24
+
+export type PaymentMismatchType =
+  | 'AMOUNT_MISMATCH' // Captured or requested amount differs from the checkout session total
+  | 'MISSING_SESSION' // Paid, but there is no checkout session to create the order from
+  | 'PAID_CANCELLED_ORDER' // Paid for an order that has since been cancelled
+  | 'RECONCILIATION_FAILED' // Updating the attempt or creating the order failed
+  | 'LOOKUP_UNAVAILABLE' // The gateway cannot look this attempt up
+  | 'LOOKUP_FAILED'
+
+export interface PaymentMismatch {
+  type: PaymentMismatchType
+  paymentTransactionId: string
+  orderId: string
+  method: string
+  gatewayReference: string
+  message: string
+}
+
+export interface PaymentReconciliationReport {
+  checked: number
+  completed: number
+  ordersCreated: number
+  expired: number
+  ordersCancelled: number
+  stillPending: number
+  // Checkouts whose held stock went back into inventory
+  reservationsReleased: number
+  mismatches: PaymentMismatch[]
+}
+
+export class PaymentReconciliationService {
+  /**
+   * Settle online payment attempts still waiting on the gateway, typically
+   * because the customer closed the browser before being redirected back.
+   * Paid attempts get their order created; abandoned ones are expired and
+   * any pending order they belong to is cancelled, as are attempts that
+   * still have no result after ABANDONED_PAYMENT_HOURS. Stock held for
+   * checkouts that have run out of time is released afterwards.
+   */
+  async reconcile(options: { olderThanMinutes?: number; limit?: number } = {}): Promise<PaymentReconciliationReport> {
+    const olderThanMinutes = options.olderThanMinutes ?? Number(
+      await SettingsRepository.getValue('payment_reconciliation_minutes', DEFAULT_RECONCILIATION_MINUTES)
+    )
+    const cutoff = new Date(Date.now() - olderThanMinutes * 60 * 1000)
+    const abandonedBefore = new Date(Date.now() - ABANDONED_PAYMENT_HOURS * 60 * 60 * 1000)
+
+    const methods = getRegisteredPaymentGateways()
+      .filter(gateway => gateway.capabilities.online && gateway.lookup)
+      .map(gateway => gateway.method)
+
+    const attempts = await paymentTransactionRepository.findStale(methods, cutoff, options.limit)
+
+    const report: PaymentReconciliationReport = {
+      checked: attempts.length,
+      completed: 0,
+      ordersCreated: 0,
+      expired: 0,
+      ordersCancelled: 0,
+      stillPending: 0,
+      reservationsReleased: 0,
+      mismatches: [],
+    }
+
+    for (const attempt of attempts) {
+      const mismatch = (type: PaymentMismatchType, message: string) => {
+        report.mismatches.push({
+          type,
+          paymentTransactionId: attempt.id,
+          orderId: attempt.orderId,
+          method: attempt.method,
+          gatewayReference: attempt.gatewayReference,
+          message,
+        })
+      }
+
+      // Checked attempts go to the back of the queue for the next run
+      await paymentTransactionRepository.markChecked(attempt.id)
+
+      let lookup: PaymentLookupResult
+      let lookupFailed = false
+      try {
+        lookup = await getPaymentGateway(attempt.method).lookup!(attempt)
+      } catch (error) {
+        console.error(`Payment lookup failed for ${attempt.method} reference ${attempt.gatewayReference}:`, error)
+        lookup = { status: 'PENDING', error: error instanceof Error ? error.message : 'Payment lookup failed' }
+        lookupFailed = true
+      }
+
+      try {
+        switch (lookup.status) {
+          case 'COMPLETED':
+            await this.completeAttempt(attempt, lookup, report, mismatch)
+            break
+
+          case 'FAILED':
+            await this.expireAttempt(attempt, 'Payment was not completed at the gateway', lookup.data, report)
+            break
+
+          default:
+            if (new Date(attempt.createdAt) < abandonedBefore) {
+              await this.expireAttempt(
+                attempt,
+                `Payment was not confirmed by the gateway within ${ABANDONED_PAYMENT_HOURS} hours`,
+                lookup.data,
+                report
+              )
+              break
+            }
+
+            report.stillPending++
+            if (lookup.error) {
+              mismatch(lookupFailed ? 'LOOKUP_FAILED' : 'LOOKUP_UNAVAILABLE', lookup.error)
+            }
+        }
+      } catch (error) {
+        console.error(`Failed to reconcile payment attempt ${attempt.id}:`, error)
+        mismatch('RECONCILIATION_FAILED', error instanceof Error ? error.message : 'Reconciliation failed')
+      }
+    }
+
+    try {
+      report.reservationsReleased = await inventoryRepository.releaseExpiredReservations()
+    } catch (error) {
+      console.error('Failed to release expired inventory reservations:', error)
+    }
+
+    return report
+  }
+
+  private async completeAttempt(
+    attempt: PaymentTransaction,
+    lookup: PaymentLookupResult,
+    report: PaymentReconciliationReport,
+    mismatch: (type: PaymentMismatchType, message: string) => void
+  ) {
+    const amountMismatch = await rejectMismatchedPayment(attempt, lookup.amount, lookup.data)
+    if (amountMismatch) {
+      mismatch('AMOUNT_MISMATCH', amountMismatch)
+      return
+    }
+
+    await paymentTransactionRepository.markCompleted(attempt.id, {
+      gatewayTransactionId: lookup.transactionId,
+      responsePayload: lookup.data,
+    })
+    report.completed++
+
+    const order = await orderRepository.findById(attempt.orderId)
+    if (order) {
+      if (order.status === 'CANCELLED') {
+        mismatch('PAID_CANCELLED_ORDER', `Order ${order.id} was cancelled but the payment was captured`)
+      }
+      return
+    }
+
+    const session = attempt.session as PaymentSessionData | null
+    if (!session) {
+      mismatch('MISSING_SESSION', 'Payment captured but no checkout session was stored to create the order')
+      return
+    }
+
+    const { created } = await createOrderFromPaymentSession(attempt.orderId, session, lookup.transactionId || attempt.gatewayReference)
+    if (created) {
+      report.ordersCreated++
+    }
+  }
+
+  private async expireAttempt(
+    attempt: PaymentTransaction,
+    reason: string,
+    responsePayload: unknown,
+    report: PaymentReconciliationReport
+  ) {
+    await paymentTransactionRepository.markExpired(attempt.id, {
+      errorMessage: reason,
+      responsePayload,
+    })
+    report.expired++
+
+    if (await inventoryRepository.releaseReservation(attempt.orderId, reason) > 0) {
+      report.reservationsReleased++
+    }
+    await discountRepository.releaseReservation(attempt.orderId)
+
+    const order = await orderRepository.findById(attempt.orderId)
+    if (order?.status === 'PENDING') {
+      await orderRepository.updateStatus(attempt.orderId, 'CANCELLED', {
+        message: 'Cancelled automatically: payment was not completed',
+      }, { cancellationReason: 'Payment was not completed', notifyCustomer: false })
+      report.ordersCancelled++
+    }
+  }
+}
+
+export const paymentReconciliationService = new PaymentReconciliationService()
@@ -0,0 +1,203 @@
+import { db } from './db'
+import { paymentTransactions, PaymentTransactionStatus } from './db/schema'
+import { eq, and, asc, desc, inArray, lt, sql } from 'drizzle-orm'
+import type { PaymentTransaction } from '@/types'
+import type { OrderPriceBreakdown } from './order-pricing'
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0]
+type DbClient = typeof db | Transaction
+
+// Checkout data kept server-side while the customer is at the gateway, used
+// to create the order once the payment is verified
+export interface PaymentSessionData {
+  userId: string | null
+  guestEmail: string | null
+  cartItems: {
+    productId: string
+    quantity: number
+    price: number
+  }[]
+  amount: number
+  shippingAddress: any
+  discountId: string | null
+  discountCode: string | null
+  priceBreakdown: OrderPriceBreakdown
+}
+
+export interface CreatePaymentTransactionData {
+  orderId: string
+  method: string
+  gatewayReference: string
+  amount: number
+  session?: PaymentSessionData | null
+  requestPayload?: unknown
+  responsePayload?: unknown
+}
+
+export class PaymentTransactionRepository {
+  async create(data: CreatePaymentTransactionData): Promise<PaymentTransaction> {
+    const [transaction] = await db.insert(paymentTransactions)
+      .values({
+        orderId: data.orderId,
+        method: data.method,
+        gatewayReference: data.gatewayReference,
+        amount: data.amount.toFixed(2),
+        session: data.session || null,
+        requestPayload: data.requestPayload ?? null,
+        responsePayload: data.responsePayload ?? null,
+      })
+      .returning()
+
+    return transaction as PaymentTransaction
+  }
+
+  async findByGatewayReference(method: string, gatewayReference: string): Promise<PaymentTransaction | null> {
+    const [transaction] = await db.select()
+      .from(paymentTransactions)
+      .where(and(
+        eq(paymentTransactions.method, method),
+        eq(paymentTransactions.gatewayReference, gatewayReference)
+      ))
+      .limit(1)
+
+    return (transaction as PaymentTransaction) || null
+  }
+
+  /**
+   * All payment attempts for an order, newest first
+   */
+  async findByOrderId(orderId: string): Promise<PaymentTransaction[]> {
+    const result = await db.select()
+      .from(paymentTransactions)
+      .where(eq(paymentTransactions.orderId, orderId))
+      .orderBy(desc(paymentTransactions.createdAt))
+
+    return result as PaymentTransaction[]
+  }
+
+  /**
+   * Whether the gateway has confirmed a payment for the order. Order
+   * references supplied by the client are not proof of payment.
+   */
+  async hasCompletedPayment(orderId: string, client: DbClient = db): Promise<boolean> {
+    const [transaction] = await client.select({ id: paymentTransactions.id })
+      .from(paymentTransactions)
+      .where(and(
+        eq(paymentTransactions.orderId, orderId),
+        eq(paymentTransactions.status, PaymentTransactionStatus.COMPLETED)
+      ))
+      .limit(1)
+
+    return !!transaction
+  }
+
+  /**
+   * Total of the payments the gateway has confirmed for the order
+   */
+  async getCompletedAmount(orderId: string, client: DbClient = db): Promise<number> {
+    const [{ total }] = await client.select({
+      total: sql<string>`coalesce(sum(${paymentTransactions.amount}), 0)`,
+    })
+      .from(paymentTransactions)
+      .where(and(
+        eq(paymentTransactions.orderId, orderId),
+        eq(paymentTransactions.status, PaymentTransactionStatus.COMPLETED)
+      ))
+
+    return parseFloat(total)
+  }
+
+  /**
+   * Attempts still waiting on the gateway that were started before the
+   * cutoff. Attempts never looked up come first, then the ones checked
+   * longest ago, so attempts the gateway can't settle don't hold up the rest.
+   */
+  async findStale(methods: string[], startedBefore: Date, limit: number = 50): Promise<PaymentTransaction[]> {
+    if (methods.length === 0) return []
+
+    const result = await db.select()
+      .from(paymentTransactions)
+      .where(and(
+        eq(paymentTransactions.status, PaymentTransactionStatus.INITIATED),
+        inArray(paymentTransactions.method, methods),
+        lt(paymentTransactions.createdAt, startedBefore)
+      ))
+      .orderBy(sql`${paymentTransactions.lastCheckedAt} asc nulls first`, asc(paymentTransactions.createdAt))
+      .limit(limit)
+
+    return result as PaymentTransaction[]
+  }
+
+  async markChecked(id: string): Promise<void> {
+    await db.update(paymentTransactions)
+      .set({ lastCheckedAt: new Date() })
+      .where(eq(paymentTransactions.id, id))
+  }
+
+  async updateResponsePayload(id: string, responsePayload: unknown): Promise<PaymentTransaction> {
+    const [transaction] = await db.update(paymentTransactions)
+      .set({
+        responsePayload,
+        updatedAt: new Date(),
+      })
+      .where(eq(paymentTransactions.id, id))
+      .returning()
+
+    return transaction as PaymentTransaction
+  }
+
+  async markCompleted(
+    id: string,
+    data: { gatewayTransactionId?: string | null; responsePayload?: unknown }
+  ): Promise<PaymentTransaction> {
+    const [transaction] = await db.update(paymentTransactions)
+      .set({
+        status: PaymentTransactionStatus.COMPLETED,
+        gatewayTransactionId: data.gatewayTransactionId || null,
+        responsePayload: data.responsePayload ?? null,
+        errorMessage: null,
+        completedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(paymentTransactions.id, id))
+      .returning()
+
+    return transaction as PaymentTransaction
+  }
+
+  async markFailed(
+    id: string,
+    data: { errorMessage: string; responsePayload?: unknown }
+  ): Promise<PaymentTransaction> {
+    const [transaction] = await db.update(paymentTransactions)
+      .set({
+        status: PaymentTransactionStatus.FAILED,
+        errorMessage: data.errorMessage,
+        responsePayload: data.responsePayload ?? null,
+        updatedAt: new Date(),
+      })
+      .where(eq(paymentTransactions.id, id))
+      .returning()
+
+    return transaction as PaymentTransaction
+  }
+
+  async markExpired(
+    id: string,
+    data: { errorMessage: string; responsePayload?: unknown }
+  ): Promise<PaymentTransaction> {
+    const [transaction] = await db.update(paymentTransactions)
+      .set({
+        status: PaymentTransactionStatus.EXPIRED,
+        errorMessage: data.errorMessage,
+        responsePayload: data.responsePayload ?? null,
+        updatedAt: new Date(),
+      })
+      .where(eq(paymentTransactions.id, id))
+      .returning()
+
+    return transaction as PaymentTransaction
+  }
+}
+
+export const paymentTransactionRepository = new PaymentTransactionRepository()
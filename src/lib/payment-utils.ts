@@ -0,0 +1,53 @@
+import type { PaymentSessionData } from './payment-transaction-repository'
+import type { PaymentTransaction } from '@/types'
+
+/**
+ * True when the gateway captured the amount the attempt was started for.
+ * A gateway that reports no amount can't be trusted to have captured it.
+ */
+export const isMatchingAmount = (expected: number, captured: number | undefined): boolean =>
+  captured !== undefined && Math.abs(expected - captured) < 0.01
+
+/**
+ * What the customer owes for a checkout session, recomputed from the item
+ * prices and breakdown captured on the server when payment was initiated
+ */
+export function getExpectedPaymentAmount(session: PaymentSessionData): number {
+  // Sessions stored before the breakdown was kept only have the total
+  if (!session.priceBreakdown) {
+    return Number(session.amount)
+  }
+
+  const subtotal = session.cartItems.reduce((sum, item) => sum + Number(item.price) * item.quantity, 0)
+  const { discountAmount, shippingAmount, taxAmount } = session.priceBreakdown
+
+  return Math.round((subtotal - discountAmount + shippingAmount + taxAmount) * 100) / 100
+}
+
+/**
+ * Describe why a payment doesn't add up, or null when it does. The
+ * recomputed session total must match both the amount the attempt was
+ * started for and the amount the gateway reports as captured.
+ */
+export function getPaymentAmountMismatch(
+  attempt: Pick<PaymentTransaction, 'amount' | 'session'>,
+  capturedAmount: number | undefined
+): string | null {
+  const attemptAmount = Number(attempt.amount)
+  const session = attempt.session as PaymentSessionData | null
+  const expected = session ? getExpectedPaymentAmount(session) : attemptAmount
+
+  if (!isMatchingAmount(expected, attemptAmount)) {
+    return `Payment was started for ${attemptAmount} but the checkout session totals ${expected}`
+  }
+
+  if (capturedAmount === undefined) {
+    return `Gateway did not report the amount captured; ${expected} was expected`
+  }
+
+  if (!isMatchingAmount(expected, capturedAmount)) {
+    return `Gateway captured ${capturedAmount} but ${expected} was expected`
+  }
+
+  return null
+}
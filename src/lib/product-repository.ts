@@ -21,17 +21,28 @@ import {
   CACHE_DURATIONS,
   createCachedFunction,
 } from './cache'
+import { inventoryRepository } from './inventory-repository'
 
 export class ProductRepository {
   async create(data: CreateProductInput): Promise<Product> {
-    const insertResult = await db.insert(products)
-      .values(data as any)
-      .returning();
+    const product = await db.transaction(async (tx) => {
+      const [created] = await tx.insert(products)
+        .values({ ...data, inventory: 0 } as any)
+        .returning();
+
+      // The opening stock goes to the default location
+      await inventoryRepository.setProductTotal(created.id, data.inventory, {
+        changeType: 'INITIAL',
+        reason: 'Opening stock',
+      }, tx)
+
+      return { ...created, inventory: data.inventory }
+    })
 
     // Invalidate related caches
     await invalidateProducts()
 
-    return insertResult[0] as Product;
+    return product as Product;
   }
 
   async findById(id: string): Promise<Product | null> {
@@ -245,15 +256,29 @@ export class ProductRepository {
   }
 
   async update(id: string, data: UpdateProductInput): Promise<Product> {
-    const updateResult = await db.update(products)
-      .set(data as any)
-      .where(eq(products.id, id))
-      .returning();
+    const { inventory, ...fields } = data
+
+    const updated = await db.transaction(async (tx) => {
+      // Stock is kept per location, so a new total is applied as a stock change
+      if (inventory !== undefined) {
+        await inventoryRepository.setProductTotal(id, inventory, {
+          changeType: 'MANUAL_ADJUSTMENT',
+          reason: 'Stock edited on the product',
+        }, tx)
+      }
+
+      const [result] = await tx.update(products)
+        .set({ ...fields, updatedAt: new Date() } as any)
+        .where(eq(products.id, id))
+        .returning();
+
+      return result
+    })
 
     // Invalidate related caches
     await invalidateProduct(id)
 
-    return updateResult[0] as Product;
+    return updated as Product;
   }
 
   async delete(id: string): Promise<Product> {
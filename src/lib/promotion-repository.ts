@@ -0,0 +1,139 @@
+import { db } from './db'
+import { promotions } from './db/schema'
+import { eq, and, or, desc, gte, lte, isNull, sql } from 'drizzle-orm'
+import {
+  promotionConfigSchemas,
+  type CreatePromotionInput,
+  type PaginationInput,
+  type UpdatePromotionInput,
+} from './validations'
+import type { PaginatedResponse, Promotion } from '@/types'
+
+export class PromotionRepository {
+  async findAll(
+    pagination: PaginationInput = { page: 1, limit: 20 },
+    filters: { isActive?: boolean } = {}
+  ): Promise<PaginatedResponse<Promotion>> {
+    const { page, limit } = pagination
+    const offset = (page - 1) * limit
+
+    const whereClause = filters.isActive !== undefined
+      ? eq(promotions.isActive, filters.isActive)
+      : undefined
+
+    const [data, [{ count: total }]] = await Promise.all([
+      db.select()
+        .from(promotions)
+        .where(whereClause)
+        .orderBy(desc(promotions.priority), desc(promotions.createdAt))
+        .limit(limit)
+        .offset(offset),
+      db.select({ count: sql<number>`count(*)::int` })
+        .from(promotions)
+        .where(whereClause),
+    ])
+
+    return {
+      data: data as Promotion[],
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    }
+  }
+
+  /**
+   * Promotions that are switched on and inside their start/end window
+   */
+  async findLive(now: Date = new Date()): Promise<Promotion[]> {
+    return await db.select()
+      .from(promotions)
+      .where(and(
+        eq(promotions.isActive, true),
+        lte(promotions.startsAt, now),
+        or(isNull(promotions.endsAt), gte(promotions.endsAt, now))
+      ))
+      .orderBy(desc(promotions.priority)) as Promotion[]
+  }
+
+  async findById(id: string): Promise<Promotion | null> {
+    const result = await db.select()
+      .from(promotions)
+      .where(eq(promotions.id, id))
+      .limit(1)
+
+    return (result[0] as Promotion) || null
+  }
+
+  async create(data: CreatePromotionInput): Promise<Promotion> {
+    const [promotion] = await db.insert(promotions)
+      .values({
+        name: data.name,
+        description: data.description || null,
+        promotionType: data.promotionType,
+        config: data.config,
+        applicableProductIds: data.applicableProductIds,
+        applicableCategoryIds: data.applicableCategoryIds,
+        isExclusive: data.isExclusive,
+        priority: data.priority,
+        startsAt: data.startsAt,
+        endsAt: data.endsAt || null,
+        isActive: data.isActive,
+      })
+      .returning()
+
+    return promotion as Promotion
+  }
+
+  async update(id: string, data: UpdatePromotionInput): Promise<Promotion> {
+    const existing = await this.findById(id)
+    if (!existing) {
+      throw new Error('Promotion not found')
+    }
+
+    const promotionType = (data.promotionType || existing.promotionType) as keyof typeof promotionConfigSchemas
+    const updateData: Partial<typeof promotions.$inferInsert> = {
+      ...data,
+      updatedAt: new Date(),
+    }
+
+    // Config must always match the promotion type, including when only the type changes
+    if (data.config !== undefined || data.promotionType !== undefined) {
+      const result = promotionConfigSchemas[promotionType].safeParse(data.config ?? existing.config)
+      if (!result.success) {
+        throw new Error(`Invalid ${promotionType} configuration: ${result.error.issues[0]?.message}`)
+      }
+      updateData.config = result.data
+    }
+
+    const startsAt = data.startsAt || existing.startsAt
+    const endsAt = data.endsAt !== undefined ? data.endsAt : existing.endsAt
+    if (endsAt && endsAt <= startsAt) {
+      throw new Error('End time must be after start time')
+    }
+
+    const [promotion] = await db.update(promotions)
+      .set(updateData)
+      .where(eq(promotions.id, id))
+      .returning()
+
+    return promotion as Promotion
+  }
+
+  async deactivate(id: string): Promise<Promotion> {
+    const [promotion] = await db.update(promotions)
+      .set({ isActive: false, updatedAt: new Date() })
+      .where(eq(promotions.id, id))
+      .returning()
+
+    if (!promotion) {
+      throw new Error('Promotion not found')
+    }
+
+    return promotion as Promotion
+  }
+}
+
+export const promotionRepository = new PromotionRepository()
@@ -0,0 +1,203 @@
+import { PromotionType } from './db/schema'
+import { isItemEligibleForDiscount, type DiscountableItem } from './discount-utils'
+
+export interface BuyXGetYConfig {
+  buyQuantity: number
+  getQuantity: number
+  // Percentage off the "get" units, 100 means free
+  getDiscountPercent?: number
+}
+
+export interface SpendThresholdConfig {
+  minimumSpend: number
+  percentOff: number
+  maximumDiscount?: number
+}
+
+export interface CategorySaleConfig {
+  percentOff: number
+}
+
+export interface TieredQuantityConfig {
+  tiers: { minQuantity: number; percentOff: number }[]
+}
+
+export type PromotionConfig =
+  | BuyXGetYConfig
+  | SpendThresholdConfig
+  | CategorySaleConfig
+  | TieredQuantityConfig
+
+// Minimal shape of a promotion row needed to evaluate it against a cart
+export interface PromotionRule {
+  id: string
+  name: string
+  promotionType: string
+  config: unknown
+  applicableProductIds?: string[] | null
+  applicableCategoryIds?: string[] | null
+  isExclusive: boolean
+  priority: number
+  startsAt: Date | string
+  endsAt?: Date | string | null
+  isActive: boolean
+}
+
+export interface AppliedPromotion {
+  promotionId: string
+  name: string
+  promotionType: string
+  savings: number
+}
+
+export interface PromotionResult {
+  appliedPromotions: AppliedPromotion[]
+  totalSavings: number
+  isExclusive: boolean
+}
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+function percentOf(amount: number, percent: number): number {
+  return amount * (Math.min(Math.max(percent, 0), 100) / 100)
+}
+
+export function isPromotionLive(promotion: PromotionRule, now: Date = new Date()): boolean {
+  if (!promotion.isActive) return false
+  if (now < new Date(promotion.startsAt)) return false
+  if (promotion.endsAt && now > new Date(promotion.endsAt)) return false
+  return true
+}
+
+function getEligibleItems(promotion: PromotionRule, items: DiscountableItem[]): DiscountableItem[] {
+  return items.filter(item => isItemEligibleForDiscount(promotion, item))
+}
+
+function calculateBuyXGetY(config: BuyXGetYConfig, items: DiscountableItem[]): number {
+  const groupSize = config.buyQuantity + config.getQuantity
+  if (config.buyQuantity < 1 || config.getQuantity < 1) return 0
+
+  // Expand to unit prices; the cheapest units in the cart are the discounted ones
+  const unitPrices = items
+    .flatMap(item => Array(item.quantity).fill(item.price) as number[])
+    .sort((a, b) => a - b)
+
+  const discountedUnits = Math.floor(unitPrices.length / groupSize) * config.getQuantity
+  const discountedTotal = unitPrices.slice(0, discountedUnits).reduce((sum, price) => sum + price, 0)
+
+  return percentOf(discountedTotal, config.getDiscountPercent ?? 100)
+}
+
+function calculateSpendThreshold(config: SpendThresholdConfig, items: DiscountableItem[]): number {
+  const eligibleSubtotal = items.reduce((sum, item) => sum + item.price * item.quantity, 0)
+  if (eligibleSubtotal < config.minimumSpend) return 0
+
+  const savings = percentOf(eligibleSubtotal, config.percentOff)
+  return config.maximumDiscount ? Math.min(savings, config.maximumDiscount) : savings
+}
+
+function calculateCategorySale(config: CategorySaleConfig, items: DiscountableItem[]): number {
+  const eligibleSubtotal = items.reduce((sum, item) => sum + item.price * item.quantity, 0)
+  return percentOf(eligibleSubtotal, config.percentOff)
+}
+
+function calculateTieredQuantity(config: TieredQuantityConfig, items: DiscountableItem[]): number {
+  const quantity = items.reduce((sum, item) => sum + item.quantity, 0)
+  const tier = [...(config.tiers || [])]
+    .sort((a, b) => b.minQuantity - a.minQuantity)
+    .find(t => quantity >= t.minQuantity)
+
+  if (!tier) return 0
+
+  const eligibleSubtotal = items.reduce((sum, item) => sum + item.price * item.quantity, 0)
+  return percentOf(eligibleSubtotal, tier.percentOff)
+}
+
+/**
+ * Savings a single promotion gives on the cart, never more than the eligible subtotal
+ */
+export function calculatePromotionSavings(promotion: PromotionRule, items: DiscountableItem[]): number {
+  const eligibleItems = getEligibleItems(promotion, items)
+  if (eligibleItems.length === 0) return 0
+
+  let savings = 0
+  switch (promotion.promotionType) {
+    case PromotionType.BUY_X_GET_Y:
+      savings = calculateBuyXGetY(promotion.config as BuyXGetYConfig, eligibleItems)
+      break
+    case PromotionType.SPEND_THRESHOLD:
+      savings = calculateSpendThreshold(promotion.config as SpendThresholdConfig, eligibleItems)
+      break
+    case PromotionType.CATEGORY_SALE:
+      savings = calculateCategorySale(promotion.config as CategorySaleConfig, eligibleItems)
+      break
+    case PromotionType.TIERED_QUANTITY:
+      savings = calculateTieredQuantity(promotion.config as TieredQuantityConfig, eligibleItems)
+      break
+  }
+
+  const eligibleSubtotal = eligibleItems.reduce((sum, item) => sum + item.price * item.quantity, 0)
+  return roundCurrency(Math.max(0, Math.min(savings, eligibleSubtotal)))
+}
+
+/**
+ * Evaluate all live promotions against the cart. Stackable promotions are
+ * combined; an exclusive promotion applies on its own and wins only when it
+ * saves more than every stackable promotion together.
+ */
+export function applyPromotions(
+  promotions: PromotionRule[],
+  items: DiscountableItem[],
+  now: Date = new Date()
+): PromotionResult {
+  const subtotal = items.reduce((sum, item) => sum + item.price * item.quantity, 0)
+
+  const evaluated = promotions
+    .filter(promotion => isPromotionLive(promotion, now))
+    .sort((a, b) => b.priority - a.priority)
+    .map(promotion => ({ promotion, savings: calculatePromotionSavings(promotion, items) }))
+    .filter(({ savings }) => savings > 0)
+
+  const toApplied = ({ promotion, savings }: { promotion: PromotionRule; savings: number }): AppliedPromotion => ({
+    promotionId: promotion.id,
+    name: promotion.name,
+    promotionType: promotion.promotionType,
+    savings,
+  })
+
+  // Stacked savings can't exceed the subtotal; promotions are capped in
+  // priority order so each one's savings add up to the total given
+  let remaining = subtotal
+  const stackable = evaluated
+    .filter(({ promotion }) => !promotion.isExclusive)
+    .map(({ promotion, savings }) => {
+      const capped = roundCurrency(Math.min(savings, remaining))
+      remaining -= capped
+      return { promotion, savings: capped }
+    })
+    .filter(({ savings }) => savings > 0)
+  const stackableSavings = roundCurrency(stackable.reduce((sum, { savings }) => sum + savings, 0))
+
+  const bestExclusive = evaluated
+    .filter(({ promotion }) => promotion.isExclusive)
+    .reduce<{ promotion: PromotionRule; savings: number } | null>(
+      (best, current) => (!best || current.savings > best.savings ? current : best),
+      null
+    )
+
+  if (bestExclusive && bestExclusive.savings > stackableSavings) {
+    return {
+      appliedPromotions: [toApplied(bestExclusive)],
+      totalSavings: bestExclusive.savings,
+      isExclusive: true,
+    }
+  }
+
+  return {
+    appliedPromotions: stackable.map(toApplied),
+    totalSavings: stackableSavings,
+    isExclusive: false,
+  }
+}
@@ -0,0 +1,353 @@
+import { db } from './db'
+import {
+  suppliers,
+  purchaseOrders,
+  purchaseOrderItems,
+  products,
+  stockLocations,
+  PurchaseOrderStatus,
+} from './db/schema'
+import { eq, and, asc, desc, inArray, sql } from 'drizzle-orm'
+import type {
+  CreateSupplierInput,
+  UpdateSupplierInput,
+  CreatePurchaseOrderInput,
+  ReceivePurchaseOrderInput,
+  PurchaseOrderFiltersInput,
+  PaginationInput,
+} from './validations'
+import type { PaginatedResponse, PurchaseOrderWithItems, Supplier } from '@/types'
+import { inventoryRepository } from './inventory-repository'
+import {
+  ON_ORDER_STATUSES,
+  canApplyPurchaseOrderAction,
+  checkReceipt,
+  formatPurchaseOrderNumber,
+  getStatusAfterReceipt,
+  type PurchaseOrderAction,
+} from './purchase-order-utils'
+
+const withOrderDetails = {
+  supplier: true,
+  location: true,
+  items: {
+    with: {
+      product: {
+        columns: { id: true, name: true, slug: true, sku: true, purchasePrice: true },
+      },
+    },
+  },
+} as const
+
+export class PurchaseOrderRepository {
+  async findSuppliers(): Promise<Supplier[]> {
+    return db.select()
+      .from(suppliers)
+      .orderBy(desc(suppliers.isActive), asc(suppliers.name))
+  }
+
+  async findSupplierById(id: string): Promise<Supplier | null> {
+    const [supplier] = await db.select()
+      .from(suppliers)
+      .where(eq(suppliers.id, id))
+      .limit(1)
+
+    return supplier || null
+  }
+
+  async createSupplier(data: CreateSupplierInput): Promise<Supplier> {
+    const [created] = await db.insert(suppliers)
+      .values({
+        name: data.name,
+        contactName: data.contactName || null,
+        email: data.email || null,
+        phone: data.phone || null,
+        address: data.address || null,
+        notes: data.notes || null,
+        isActive: data.isActive,
+      })
+      .returning()
+
+    return created
+  }
+
+  async updateSupplier(id: string, data: UpdateSupplierInput): Promise<Supplier> {
+    const [updated] = await db.update(suppliers)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(suppliers.id, id))
+      .returning()
+
+    if (!updated) {
+      throw new Error('Supplier not found')
+    }
+
+    return updated
+  }
+
+  async findAll(
+    pagination: PaginationInput = { page: 1, limit: 20 },
+    filters: PurchaseOrderFiltersInput = {}
+  ): Promise<PaginatedResponse<PurchaseOrderWithItems>> {
+    const { page, limit } = pagination
+    const offset = (page - 1) * limit
+
+    const conditions = []
+    if (filters.status) {
+      conditions.push(eq(purchaseOrders.status, filters.status))
+    }
+    if (filters.supplierId) {
+      conditions.push(eq(purchaseOrders.supplierId, filters.supplierId))
+    }
+    const where = conditions.length > 0 ? and(...conditions) : undefined
+
+    const [data, [{ count: total }]] = await Promise.all([
+      db.query.purchaseOrders.findMany({
+        where,
+        with: withOrderDetails,
+        orderBy: [desc(purchaseOrders.createdAt)],
+        limit,
+        offset,
+      }),
+      db.select({ count: sql<number>`count(*)::int` })
+        .from(purchaseOrders)
+        .where(where),
+    ])
+
+    return {
+      data: data as PurchaseOrderWithItems[],
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    }
+  }
+
+  async findById(id: string): Promise<PurchaseOrderWithItems | null> {
+    const result = await db.query.purchaseOrders.findFirst({
+      where: eq(purchaseOrders.id, id),
+      with: withOrderDetails,
+    })
+
+    return (result as PurchaseOrderWithItems) || null
+  }
+
+  /**
+   * Draft a purchase order. Nothing counts as on order until it is sent.
+   */
+  async create(data: CreatePurchaseOrderInput, createdBy: string | null): Promise<PurchaseOrderWithItems> {
+    const supplier = await this.findSupplierById(data.supplierId)
+    if (!supplier) {
+      throw new Error('Supplier not found')
+    }
+
+    if (!supplier.isActive) {
+      throw new Error(`${supplier.name} is no longer an active supplier`)
+    }
+
+    if (data.locationId) {
+      const [location] = await db.select({ id: stockLocations.id })
+        .from(stockLocations)
+        .where(and(eq(stockLocations.id, data.locationId), eq(stockLocations.isActive, true)))
+        .limit(1)
+
+      if (!location) {
+        throw new Error('Stock location not found')
+      }
+    }
+
+    const items = data.items.map(item => ({
+      productId: item.productId!,
+      quantity: item.quantity!,
+      unitCost: item.unitCost!,
+    }))
+
+    const found = await db.select({ id: products.id })
+      .from(products)
+      .where(inArray(products.id, items.map(item => item.productId)))
+
+    if (found.length !== items.length) {
+      throw new Error('Product not found')
+    }
+
+    const order = await db.transaction(async (tx) => {
+      const [created] = await tx.insert(purchaseOrders)
+        .values({
+          supplierId: supplier.id,
+          locationId: data.locationId || null,
+          expectedAt: data.expectedAt || null,
+          notes: data.notes || null,
+          createdBy,
+        })
+        .returning()
+
+      await tx.insert(purchaseOrderItems)
+        .values(items.map(item => ({
+          purchaseOrderId: created.id,
+          productId: item.productId,
+          quantityOrdered: item.quantity,
+          unitCost: item.unitCost.toFixed(2),
+        })))
+
+      return created
+    })
+
+    return (await this.findById(order.id))!
+  }
+
+  /**
+   * Mark a draft as placed with the supplier
+   */
+  async send(id: string): Promise<PurchaseOrderWithItems> {
+    return this.applyAction(id, 'send', {
+      status: PurchaseOrderStatus.SENT,
+      sentAt: new Date(),
+    })
+  }
+
+  /**
+   * Stop expecting whatever hasn't arrived. Stock already received stays.
+   */
+  async cancel(id: string): Promise<PurchaseOrderWithItems> {
+    return this.applyAction(id, 'cancel', {
+      status: PurchaseOrderStatus.CANCELLED,
+      cancelledAt: new Date(),
+    })
+  }
+
+  /**
+   * Book a delivery against the order. Each received line restocks the
+   * receiving location with the order as the adjustment's reference, and
+   * the product's purchase price becomes the line's unit cost.
+   */
+  async receive(
+    id: string,
+    data: ReceivePurchaseOrderInput,
+    userId: string | null
+  ): Promise<PurchaseOrderWithItems> {
+    await db.transaction(async (tx) => {
+      // Lock the order so two deliveries can't both book the same units
+      const [order] = await tx.select()
+        .from(purchaseOrders)
+        .where(eq(purchaseOrders.id, id))
+        .for('update')
+
+      if (!order) {
+        throw new Error('Purchase order not found')
+      }
+
+      if (!canApplyPurchaseOrderAction(order.status, 'receive')) {
+        throw new Error('Only sent purchase orders can be received')
+      }
+
+      const [supplier] = await tx.select({ name: suppliers.name })
+        .from(suppliers)
+        .where(eq(suppliers.id, order.supplierId))
+
+      const items = await tx.select()
+        .from(purchaseOrderItems)
+        .where(eq(purchaseOrderItems.purchaseOrderId, id))
+
+      const lines = data.items.map(line => ({ itemId: line.itemId!, quantity: line.quantity! }))
+      const problem = checkReceipt(items, lines)
+      if (problem) {
+        throw new Error(problem)
+      }
+
+      const locationId = order.locationId || await inventoryRepository.getDefaultLocationId(tx)
+
+      for (const line of lines) {
+        const item = items.find(entry => entry.id === line.itemId)!
+        if (line.quantity === 0) {
+          continue
+        }
+
+        item.quantityReceived += line.quantity
+
+        await tx.update(purchaseOrderItems)
+          .set({ quantityReceived: item.quantityReceived })
+          .where(eq(purchaseOrderItems.id, item.id))
+
+        await inventoryRepository.applyStockChange({
+          productId: item.productId,
+          locationId,
+          quantity: line.quantity,
+          changeType: 'RESTOCK',
+          reason: `Received on ${formatPurchaseOrderNumber(id)} from ${supplier.name}`,
+          referenceId: id,
+          userId,
+        }, tx)
+
+        await tx.update(products)
+          .set({ purchasePrice: item.unitCost, updatedAt: new Date() })
+          .where(eq(products.id, item.productId))
+      }
+
+      const status = getStatusAfterReceipt(items)
+
+      await tx.update(purchaseOrders)
+        .set({
+          status,
+          ...(status === PurchaseOrderStatus.RECEIVED ? { receivedAt: new Date() } : {}),
+          updatedAt: new Date(),
+        })
+        .where(eq(purchaseOrders.id, id))
+    })
+
+    return (await this.findById(id))!
+  }
+
+  /**
+   * Units still expected from suppliers on sent orders, by product
+   */
+  async getOnOrderQuantities(productIds?: string[]): Promise<Record<string, number>> {
+    if (productIds && productIds.length === 0) {
+      return {}
+    }
+
+    const rows = await db.select({
+      productId: purchaseOrderItems.productId,
+      quantity: sql<number>`COALESCE(SUM(GREATEST(${purchaseOrderItems.quantityOrdered} - ${purchaseOrderItems.quantityReceived}, 0)), 0)::int`,
+    })
+      .from(purchaseOrderItems)
+      .innerJoin(purchaseOrders, eq(purchaseOrders.id, purchaseOrderItems.purchaseOrderId))
+      .where(and(
+        inArray(purchaseOrders.status, ON_ORDER_STATUSES),
+        productIds ? inArray(purchaseOrderItems.productId, productIds) : undefined
+      ))
+      .groupBy(purchaseOrderItems.productId)
+
+    return Object.fromEntries(
+      rows.filter(row => row.quantity > 0).map(row => [row.productId, row.quantity])
+    )
+  }
+
+  private async applyAction(
+    id: string,
+    action: Exclude<PurchaseOrderAction, 'receive'>,
+    changes: Partial<typeof purchaseOrders.$inferInsert>
+  ): Promise<PurchaseOrderWithItems> {
+    const existing = await this.findById(id)
+    if (!existing) {
+      throw new Error('Purchase order not found')
+    }
+
+    const allowedFrom = Object.values(PurchaseOrderStatus)
+      .filter(status => canApplyPurchaseOrderAction(status, action))
+
+    // Conditional on the status so a concurrent change isn't overwritten
+    const [updated] = await db.update(purchaseOrders)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(and(eq(purchaseOrders.id, id), inArray(purchaseOrders.status, allowedFrom)))
+      .returning()
+
+    if (!updated) {
+      throw new Error(`A ${existing.status.toLowerCase().replace('_', ' ')} purchase order cannot be ${action === 'send' ? 'sent' : 'cancelled'}`)
+    }
+
+    return (await this.findById(id))!
+  }
+}
+
+export const purchaseOrderRepository = new PurchaseOrderRepository()
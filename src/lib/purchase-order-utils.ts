@@ -0,0 +1,96 @@
+import { PurchaseOrderStatus } from './db/schema'
+
+export type PurchaseOrderStatusValue = typeof PurchaseOrderStatus[keyof typeof PurchaseOrderStatus]
+
+export type PurchaseOrderAction = 'send' | 'receive' | 'cancel'
+
+interface PurchaseOrderItemLike {
+  id: string
+  quantityOrdered: number
+  quantityReceived: number
+  unitCost: string | number
+}
+
+export interface ReceiptLine {
+  itemId: string
+  quantity: number
+}
+
+// What can be done with a purchase order in each status
+const PURCHASE_ORDER_ACTIONS: Record<PurchaseOrderStatusValue, PurchaseOrderAction[]> = {
+  DRAFT: ['send', 'cancel'],
+  SENT: ['receive', 'cancel'],
+  PARTIALLY_RECEIVED: ['receive', 'cancel'],
+  RECEIVED: [],
+  CANCELLED: [],
+}
+
+// Statuses whose outstanding quantities are still expected from the supplier
+export const ON_ORDER_STATUSES: PurchaseOrderStatusValue[] = ['SENT', 'PARTIALLY_RECEIVED']
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100
+
+/**
+ * Short reference shown to staff and quoted to the supplier
+ */
+export function formatPurchaseOrderNumber(id: string): string {
+  return `PO-${id.slice(-8).toUpperCase()}`
+}
+
+export function getPurchaseOrderActions(status: string): PurchaseOrderAction[] {
+  return PURCHASE_ORDER_ACTIONS[status as PurchaseOrderStatusValue] || []
+}
+
+export function canApplyPurchaseOrderAction(status: string, action: PurchaseOrderAction): boolean {
+  return getPurchaseOrderActions(status).includes(action)
+}
+
+export function getOutstandingQuantity(item: Pick<PurchaseOrderItemLike, 'quantityOrdered' | 'quantityReceived'>): number {
+  return Math.max(0, item.quantityOrdered - item.quantityReceived)
+}
+
+export function getPurchaseOrderTotal(items: Pick<PurchaseOrderItemLike, 'quantityOrdered' | 'unitCost'>[]): number {
+  return items.reduce((sum, item) => roundAmount(sum + item.quantityOrdered * Number(item.unitCost)), 0)
+}
+
+/**
+ * Why a delivery can't be booked against the order's items, or null when
+ * it can. Nothing may be received beyond what is still outstanding.
+ */
+export function checkReceipt(items: PurchaseOrderItemLike[], lines: ReceiptLine[]): string | null {
+  const seen = new Set<string>()
+
+  for (const line of lines) {
+    const item = items.find(entry => entry.id === line.itemId)
+    if (!item) {
+      return 'Item is not on this purchase order'
+    }
+
+    if (seen.has(line.itemId)) {
+      return 'Each item can only be received once per delivery'
+    }
+    seen.add(line.itemId)
+
+    const outstanding = getOutstandingQuantity(item)
+    if (line.quantity > outstanding) {
+      return `Only ${outstanding} more can be received for this item`
+    }
+  }
+
+  if (lines.every(line => line.quantity === 0)) {
+    return 'Enter a received quantity for at least one item'
+  }
+
+  return null
+}
+
+/**
+ * Status once a delivery has been booked against the items
+ */
+export function getStatusAfterReceipt(
+  items: Pick<PurchaseOrderItemLike, 'quantityOrdered' | 'quantityReceived'>[]
+): PurchaseOrderStatusValue {
+  return items.every(item => getOutstandingQuantity(item) === 0)
+    ? PurchaseOrderStatus.RECEIVED
+    : PurchaseOrderStatus.PARTIALLY_RECEIVED
+}
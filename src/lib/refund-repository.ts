@@ -0,0 +1,226 @@
+import { db } from './db'
+import { orders, refunds, PaymentTransactionStatus, RefundStatus } from './db/schema'
+import { eq, and, desc, sql } from 'drizzle-orm'
+import type { CreateRefundInput } from './validations'
+import type { Order, Refund } from '@/types'
+import { orderRepository } from './order-repository'
+import { paymentTransactionRepository } from './payment-transaction-repository'
+import { getPaymentGatewayManager } from './payment-gateways'
+import { formatPrice } from './cart-utils'
+import {
+  REFUNDABLE_ORDER_STATUSES,
+  calculateItemRefundAmount,
+  getCapturedAmount,
+  getRefundedOrderStatus,
+  roundCurrency,
+  shouldRefundThroughGateway,
+} from './refund-utils'
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0]
+type DbClient = typeof db | Transaction
+
+export class RefundRepository {
+  async findByOrder(orderId: string): Promise<Refund[]> {
+    return await db.select()
+      .from(refunds)
+      .where(eq(refunds.orderId, orderId))
+      .orderBy(desc(refunds.createdAt))
+  }
+
+  /**
+   * Record a refund against an order, either for units of a line item or an
+   * arbitrary amount, and move the order to partially or fully refunded.
+   * The total refunded can never exceed what was captured. Refunds to an
+   * online payment are sent to its gateway; when the gateway can't refund
+   * it, the refund is left as manual for an admin to pay back.
+   */
+  async create(
+    orderId: string,
+    data: CreateRefundInput,
+    createdBy: string | null,
+    options: { returnRequestId?: string; notifyCustomer?: boolean } = {}
+  ): Promise<Refund> {
+    const order = await orderRepository.findById(orderId)
+    if (!order) {
+      throw new Error('Order not found')
+    }
+
+    if (!REFUNDABLE_ORDER_STATUSES.includes(order.status)) {
+      throw new Error(`Cannot refund an order that is ${order.status.toLowerCase()}`)
+    }
+
+    // Read fresh rather than from the cached order
+    const paidAmount = await paymentTransactionRepository.getCompletedAmount(orderId)
+    const captured = getCapturedAmount({ ...order, paidAmount })
+    if (captured <= 0) {
+      throw new Error('No payment has been captured for this order')
+    }
+
+    let amount = data.amount
+    let quantity: number | null = null
+
+    const item = data.orderItemId ? order.items.find(i => i.id === data.orderItemId) : undefined
+    if (data.orderItemId && !item) {
+      throw new Error('Item not found in this order')
+    }
+
+    if (item) {
+      quantity = data.quantity || 1
+      amount = amount ?? calculateItemRefundAmount(order, order.items, item.id, quantity)
+    }
+
+    const refundAmount = roundCurrency(amount || 0)
+    if (refundAmount <= 0) {
+      throw new Error('Refund amount must be greater than 0')
+    }
+
+    const throughGateway = shouldRefundThroughGateway(
+      data,
+      !!order.paymentMethod && getPaymentGatewayManager().isOnlinePaymentMethod(order.paymentMethod)
+    )
+
+    const { refund, refundedTotal } = await db.transaction(async (tx) => {
+      // Lock the order so concurrent refunds cannot both pass the limit check
+      await tx.select({ id: orders.id })
+        .from(orders)
+        .where(eq(orders.id, orderId))
+        .for('update')
+
+      // Receiving a return can be retried after a failed refund; never refund it twice
+      if (options.returnRequestId) {
+        const [existing] = await tx.select({ id: refunds.id })
+          .from(refunds)
+          .where(eq(refunds.returnRequestId, options.returnRequestId))
+          .limit(1)
+
+        if (existing) {
+          throw new Error('This return has already been refunded')
+        }
+      }
+
+      // Checked under the lock so concurrent refunds can't over-refund the item
+      if (item && quantity) {
+        const refundedQuantity = await this.getRefundedQuantity(item.id, tx)
+        if (refundedQuantity + quantity > item.quantity) {
+          throw new Error(`Only ${item.quantity - refundedQuantity} of this item can be refunded`)
+        }
+      }
+
+      const [{ total: alreadyRefunded }] = await tx.select({
+        total: sql<string>`coalesce(sum(${refunds.amount}), 0)`,
+      })
+        .from(refunds)
+        .where(eq(refunds.orderId, orderId))
+
+      const remaining = roundCurrency(captured - parseFloat(alreadyRefunded))
+      if (refundAmount > remaining) {
+        throw new Error(`Refund exceeds the remaining refundable amount of ${formatPrice(remaining)}`)
+      }
+
+      const [created] = await tx.insert(refunds)
+        .values({
+          orderId,
+          orderItemId: data.orderItemId || null,
+          returnRequestId: options.returnRequestId || null,
+          quantity,
+          amount: refundAmount.toFixed(2),
+          reason: data.reason,
+          method: data.method,
+          reference: data.reference || null,
+          // Counted against the refundable amount straight away, so a slow
+          // gateway call cannot let a second refund through
+          status: throughGateway ? RefundStatus.PROCESSING : RefundStatus.COMPLETED,
+          createdBy,
+          completedAt: throughGateway ? null : new Date(),
+        })
+        .returning()
+
+      return {
+        refund: created,
+        refundedTotal: roundCurrency(parseFloat(alreadyRefunded) + refundAmount),
+      }
+    })
+
+    await orderRepository.updateStatus(orderId, getRefundedOrderStatus(captured, refundedTotal), {
+      message: `Refunded ${formatPrice(refundAmount)}: ${data.reason}`,
+      createdBy,
+    }, { notifyCustomer: options.notifyCustomer })
+
+    if (throughGateway) {
+      return await this.refundThroughGateway(order, refund as Refund)
+    }
+
+    return refund as Refund
+  }
+
+  /**
+   * Record that an admin paid back a refund the gateway couldn't process
+   */
+  async completeManually(orderId: string, refundId: string, reference: string): Promise<Refund> {
+    const [existing] = await db.select()
+      .from(refunds)
+      .where(and(eq(refunds.id, refundId), eq(refunds.orderId, orderId)))
+      .limit(1)
+
+    if (!existing) {
+      throw new Error('Refund not found')
+    }
+
+    if (existing.status !== RefundStatus.MANUAL_REQUIRED) {
+      throw new Error('This refund does not need to be paid back manually')
+    }
+
+    const [refund] = await db.update(refunds)
+      .set({
+        status: RefundStatus.COMPLETED,
+        reference,
+        completedAt: new Date(),
+      })
+      .where(eq(refunds.id, refundId))
+      .returning()
+
+    return refund as Refund
+  }
+
+  private async refundThroughGateway(order: Order, refund: Refund): Promise<Refund> {
+    const payments = await paymentTransactionRepository.findByOrderId(order.id)
+    const payment = payments.find(transaction => transaction.status === PaymentTransactionStatus.COMPLETED)
+
+    const result = payment?.gatewayTransactionId
+      ? await getPaymentGatewayManager().refundPayment(order.paymentMethod!, {
+          transactionId: payment.gatewayTransactionId,
+          amount: parseFloat(refund.amount),
+          reason: refund.reason,
+        })
+      : { success: false, error: 'No completed gateway payment found for this order', reference: undefined, data: undefined }
+
+    if (!result.success) {
+      console.warn(`Refund ${refund.id} for order ${order.id} needs a manual refund: ${result.error}`)
+    }
+
+    const [updated] = await db.update(refunds)
+      .set({
+        status: result.success ? RefundStatus.COMPLETED : RefundStatus.MANUAL_REQUIRED,
+        reference: result.reference || null,
+        gatewayResponse: result.data ?? null,
+        failureReason: result.success ? null : result.error || 'Gateway refund failed',
+        completedAt: result.success ? new Date() : null,
+      })
+      .where(eq(refunds.id, refund.id))
+      .returning()
+
+    return updated as Refund
+  }
+
+  private async getRefundedQuantity(orderItemId: string, client: DbClient = db): Promise<number> {
+    const [result] = await client.select({
+      quantity: sql<number>`coalesce(sum(${refunds.quantity}), 0)::int`,
+    })
+      .from(refunds)
+      .where(eq(refunds.orderItemId, orderItemId))
+
+    return result.quantity
+  }
+}
+
+export const refundRepository = new RefundRepository()
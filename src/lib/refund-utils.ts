@@ -0,0 +1,92 @@
+import { getOrderPriceBreakdown, type OrderPriceFields } from './order-pricing'
+
+// Refunds can be issued once the money has been taken and the order is settled
+export const REFUNDABLE_ORDER_STATUSES = ['DELIVERED', 'PARTIALLY_REFUNDED', 'CANCELLED']
+
+// Statuses in which a cash on delivery order has been paid for
+const COD_PAID_STATUSES = ['DELIVERED', 'PARTIALLY_REFUNDED', 'REFUNDED']
+
+export interface RefundableOrder extends OrderPriceFields {
+  status: string
+  // Total of the payments the gateway confirmed for the order
+  paidAmount?: number
+}
+
+export interface RefundSummary {
+  captured: number
+  refunded: number
+  remaining: number
+}
+
+export function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+/**
+ * Amount actually collected from the customer. Cash on delivery, and orders
+ * placed before payment methods were recorded, are collected once the order
+ * is delivered; online payments only as far as the gateway confirmed them.
+ */
+export function getCapturedAmount(order: RefundableOrder): number {
+  const total = parseFloat(order.total.toString()) || 0
+
+  if (!order.paymentMethod || order.paymentMethod === 'cod') {
+    return COD_PAID_STATUSES.includes(order.status) ? total : 0
+  }
+
+  return Math.min(total, roundCurrency(order.paidAmount || 0))
+}
+
+export function summarizeRefunds(
+  order: RefundableOrder,
+  refunds: Array<{ amount: string | number }>
+): RefundSummary {
+  const captured = getCapturedAmount(order)
+  const refunded = roundCurrency(refunds.reduce((sum, refund) => sum + parseFloat(refund.amount.toString()), 0))
+
+  return {
+    captured,
+    refunded,
+    remaining: Math.max(0, roundCurrency(captured - refunded)),
+  }
+}
+
+/**
+ * Refund due for some units of a line item: the item's share of what the
+ * customer paid for goods, so order discounts and tax are split across
+ * items pro rata. Shipping is only refunded as a separate amount.
+ */
+export function calculateItemRefundAmount(
+  order: OrderPriceFields,
+  items: Array<{ id: string; price: string | number; quantity: number }>,
+  orderItemId: string,
+  quantity: number
+): number {
+  const item = items.find(i => i.id === orderItemId)
+  if (!item) return 0
+
+  const breakdown = getOrderPriceBreakdown(order, items)
+  const goodsPaid = breakdown.total - (breakdown.shipping || 0)
+  const itemTotal = parseFloat(item.price.toString()) * quantity
+
+  if (breakdown.subtotal <= 0) return roundCurrency(itemTotal)
+  return roundCurrency(Math.min(itemTotal / breakdown.subtotal, 1) * goodsPaid)
+}
+
+/**
+ * Whether a refund is paid back through the order's payment gateway. A
+ * reference means the admin already refunded it some other way.
+ */
+export function shouldRefundThroughGateway(
+  refund: { method?: string; reference?: string | null },
+  isOnlinePayment: boolean
+): boolean {
+  return isOnlinePayment && refund.method === 'ORIGINAL_PAYMENT' && !refund.reference
+}
+
+/**
+ * Order status once the given amount has been refunded
+ */
+export function getRefundedOrderStatus(captured: number, refunded: number): 'REFUNDED' | 'PARTIALLY_REFUNDED' {
+  return captured > 0 && refunded >= captured ? 'REFUNDED' : 'PARTIALLY_REFUNDED'
+}
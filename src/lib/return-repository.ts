@@ -0,0 +1,276 @@
+import { db } from './db'
+import { returnRequests, ReturnStatus } from './db/schema'
+import { eq, and, ne, desc, sql } from 'drizzle-orm'
+import type {
+  CreateReturnRequestInput,
+  PaginationInput,
+  ReturnRequestFiltersInput,
+} from './validations'
+import type { PaginatedResponse, ReturnRequest, ReturnRequestWithDetails } from '@/types'
+import { orderRepository } from './order-repository'
+import { inventoryRepository } from './inventory-repository'
+import { SettingsRepository } from './settings-repository'
+import { refundRepository } from './refund-repository'
+import { calculateItemRefundAmount } from './refund-utils'
+
+// Orders can only be returned once they have reached the customer
+const RETURNABLE_ORDER_STATUSES = ['DELIVERED', 'PARTIALLY_REFUNDED']
+
+const withDetails = {
+  orderItem: {
+    with: {
+      product: true,
+    },
+  },
+  order: true,
+  user: {
+    columns: {
+      id: true,
+      name: true,
+      email: true,
+    },
+  },
+  refunds: {
+    columns: {
+      id: true,
+      status: true,
+    },
+  },
+} as const
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0]
+type DbClient = typeof db | Transaction
+
+export class ReturnRepository {
+  async findAll(
+    pagination: PaginationInput = { page: 1, limit: 20 },
+    filters: ReturnRequestFiltersInput = {}
+  ): Promise<PaginatedResponse<ReturnRequestWithDetails>> {
+    const { page, limit } = pagination
+    const offset = (page - 1) * limit
+
+    const conditions = []
+    if (filters.status) conditions.push(eq(returnRequests.status, filters.status))
+    if (filters.orderId) conditions.push(eq(returnRequests.orderId, filters.orderId))
+    const whereClause = conditions.length > 0 ? and(...conditions) : undefined
+
+    const [data, [{ count: total }]] = await Promise.all([
+      db.query.returnRequests.findMany({
+        where: whereClause,
+        with: withDetails,
+        orderBy: [desc(returnRequests.createdAt)],
+        limit,
+        offset,
+      }),
+      db.select({ count: sql<number>`count(*)::int` })
+        .from(returnRequests)
+        .where(whereClause),
+    ])
+
+    return {
+      data: data as ReturnRequestWithDetails[],
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    }
+  }
+
+  async findById(id: string): Promise<ReturnRequestWithDetails | null> {
+    const result = await db.query.returnRequests.findFirst({
+      where: eq(returnRequests.id, id),
+      with: withDetails,
+    })
+
+    return (result as ReturnRequestWithDetails) || null
+  }
+
+  async findByOrder(orderId: string): Promise<ReturnRequestWithDetails[]> {
+    return await db.query.returnRequests.findMany({
+      where: eq(returnRequests.orderId, orderId),
+      with: withDetails,
+      orderBy: [desc(returnRequests.createdAt)],
+    }) as ReturnRequestWithDetails[]
+  }
+
+  async create(orderId: string, userId: string, data: CreateReturnRequestInput): Promise<ReturnRequest> {
+    const order = await orderRepository.findById(orderId)
+    if (!order || order.userId !== userId) {
+      throw new Error('Order not found')
+    }
+
+    if (!RETURNABLE_ORDER_STATUSES.includes(order.status)) {
+      throw new Error('Returns can only be requested for delivered orders')
+    }
+
+    // Return window runs from the delivery event, or the last update for older orders
+    const returnWindowDays = Number(await SettingsRepository.getValue('return_window_days', 30))
+    const events = await orderRepository.getEvents(orderId)
+    const deliveredEvent = events.filter(event => event.status === 'DELIVERED').pop()
+    const deliveredAt = new Date(deliveredEvent?.createdAt || order.updatedAt)
+    if (Date.now() - deliveredAt.getTime() > returnWindowDays * 24 * 60 * 60 * 1000) {
+      throw new Error(`Returns must be requested within ${returnWindowDays} days of delivery`)
+    }
+
+    const item = order.items.find(i => i.id === data.orderItemId)
+    if (!item) {
+      throw new Error('Item not found in this order')
+    }
+
+    const returnableQuantity = item.quantity - await this.getReturnedQuantity(item.id)
+    if (data.quantity > returnableQuantity) {
+      throw new Error(
+        returnableQuantity > 0
+          ? `Only ${returnableQuantity} of this item can be returned`
+          : 'A return has already been requested for this item'
+      )
+    }
+
+    const refundAmount = calculateItemRefundAmount(order, order.items, item.id, data.quantity)
+
+    const [returnRequest] = await db.insert(returnRequests)
+      .values({
+        orderId,
+        orderItemId: item.id,
+        userId,
+        quantity: data.quantity,
+        reason: data.reason,
+        comments: data.comments || null,
+        images: data.images,
+        refundAmount: refundAmount.toFixed(2),
+      })
+      .returning()
+
+    return returnRequest as ReturnRequest
+  }
+
+  async approve(id: string, adminId: string, adminNotes?: string): Promise<ReturnRequest> {
+    return await this.review(id, [ReturnStatus.REQUESTED], ReturnStatus.APPROVED, adminId, adminNotes)
+  }
+
+  async reject(id: string, adminId: string, adminNotes?: string): Promise<ReturnRequest> {
+    return await this.review(
+      id,
+      [ReturnStatus.REQUESTED, ReturnStatus.APPROVED],
+      ReturnStatus.REJECTED,
+      adminId,
+      adminNotes
+    )
+  }
+
+  /**
+   * Mark an approved return as received: restock the items and record the
+   * refund, which moves the order to partially or fully refunded. The status
+   * change and restock are committed together; if the refund then fails,
+   * receiving the return again retries just the refund.
+   */
+  async receive(id: string, adminId: string, adminNotes?: string): Promise<ReturnRequest> {
+    const details = await this.findById(id)
+    if (!details) {
+      throw new Error('Return request not found')
+    }
+
+    let returnRequest: ReturnRequest = details
+    const awaitingRefund = details.status === ReturnStatus.RECEIVED && details.refunds?.length === 0
+
+    if (!awaitingRefund) {
+      returnRequest = await db.transaction(async (tx) => {
+        const received = await this.review(
+          id,
+          [ReturnStatus.APPROVED],
+          ReturnStatus.RECEIVED,
+          adminId,
+          adminNotes,
+          { receivedAt: new Date() },
+          tx
+        )
+
+        await inventoryRepository.recordOrderInventoryReturn(
+          [{ productId: details.orderItem.productId, quantity: received.quantity }],
+          {
+            reason: `Inventory returned from return request ${id}`,
+            referenceId: received.orderId,
+            locationId: details.order?.fulfillmentLocationId,
+          },
+          tx
+        )
+
+        return received
+      })
+    }
+
+    await refundRepository.create(
+      returnRequest.orderId,
+      {
+        orderItemId: returnRequest.orderItemId,
+        quantity: returnRequest.quantity,
+        amount: Number(returnRequest.refundAmount),
+        reason: `Returned ${returnRequest.quantity} x ${details.orderItem.product.name}`,
+        method: 'ORIGINAL_PAYMENT',
+      },
+      adminId,
+      { returnRequestId: id }
+    )
+
+    return returnRequest
+  }
+
+  private async review(
+    id: string,
+    fromStatuses: string[],
+    toStatus: string,
+    adminId: string,
+    adminNotes?: string,
+    extra: Partial<typeof returnRequests.$inferInsert> = {},
+    client: DbClient = db
+  ): Promise<ReturnRequest> {
+    const existing = await client.select()
+      .from(returnRequests)
+      .where(eq(returnRequests.id, id))
+      .limit(1)
+
+    if (!existing[0]) {
+      throw new Error('Return request not found')
+    }
+
+    if (!fromStatuses.includes(existing[0].status)) {
+      throw new Error(`Return request is ${existing[0].status.toLowerCase()} and cannot be moved to ${toStatus.toLowerCase()}`)
+    }
+
+    // Conditional on the status we checked so concurrent reviews cannot both apply
+    const [updated] = await client.update(returnRequests)
+      .set({
+        ...extra,
+        status: toStatus,
+        adminNotes: adminNotes || existing[0].adminNotes,
+        reviewedBy: adminId,
+        reviewedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(and(eq(returnRequests.id, id), eq(returnRequests.status, existing[0].status)))
+      .returning()
+
+    if (!updated) {
+      throw new Error('Return request was updated by someone else, please reload')
+    }
+
+    return updated as ReturnRequest
+  }
+
+  private async getReturnedQuantity(orderItemId: string): Promise<number> {
+    const [result] = await db.select({
+      quantity: sql<number>`coalesce(sum(${returnRequests.quantity}), 0)::int`,
+    })
+      .from(returnRequests)
+      .where(and(
+        eq(returnRequests.orderItemId, orderItemId),
+        ne(returnRequests.status, ReturnStatus.REJECTED)
+      ))
+
+    return result.quantity
+  }
+}
+
+export const returnRepository = new ReturnRepository()
@@ -210,6 +210,50 @@ export class SettingsRepository {
         description: 'Store address',
         category: 'store',
         isPublic: true
+      },
+
+      // Order settings
+      {
+        key: 'customer_cancellable_statuses',
+        value: '["PENDING","PROCESSING"]',
+        type: SettingType.JSON,
+        description: 'Order statuses from which customers can cancel their own orders',
+        category: 'orders',
+        isPublic: true
+      },
+      {
+        key: 'return_window_days',
+        value: '30',
+        type: SettingType.NUMBER,
+        description: 'Days after delivery that customers can request a return',
+        category: 'orders',
+        isPublic: true
+      },
+
+      // Payment settings
+      {
+        key: 'enabled_payment_methods',
+        value: '["esewa","khalti","cod"]',
+        type: SettingType.JSON,
+        description: 'Payment methods offered at checkout, in display order',
+        category: 'payments',
+        isPublic: true
+      },
+      {
+        key: 'payment_reconciliation_minutes',
+        value: '30',
+        type: SettingType.NUMBER,
+        description: 'Minutes an online payment may stay unconfirmed before it is checked with the gateway',
+        category: 'payments',
+        isPublic: false
+      },
+      {
+        key: 'inventory_reservation_minutes',
+        value: '30',
+        type: SettingType.NUMBER,
+        description: 'Minutes stock stays reserved for a customer paying online before it is released',
+        category: 'payments',
+        isPublic: false
       }
     ]
 
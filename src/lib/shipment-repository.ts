@@ -0,0 +1,180 @@
+import { db } from './db'
+import { orders, orderItems, shipments, shipmentItems, ShipmentStatus } from './db/schema'
+import { eq, and, asc } from 'drizzle-orm'
+import type { CreateShipmentInput } from './validations'
+import type { ShipmentWithItems } from '@/types'
+import { orderRepository } from './order-repository'
+import { invalidateOrder } from './cache'
+import { deriveOrderStatusFromShipments, getUnshippedQuantities } from './shipment-utils'
+
+// Statuses an order can still have items sent from
+const SHIPPABLE_ORDER_STATUSES = ['PROCESSING', 'PARTIALLY_SHIPPED']
+
+// Statuses that are kept in step with the order's shipments
+const SHIPMENT_DRIVEN_STATUSES = ['PARTIALLY_SHIPPED', 'SHIPPED']
+
+export class ShipmentRepository {
+  async findByOrder(orderId: string): Promise<ShipmentWithItems[]> {
+    const result = await db.query.shipments.findMany({
+      where: eq(shipments.orderId, orderId),
+      with: {
+        items: true,
+      },
+      orderBy: asc(shipments.createdAt),
+    })
+
+    return result as ShipmentWithItems[]
+  }
+
+  /**
+   * Send some or all of an order's remaining items in a new shipment and move
+   * the order to partially shipped or shipped.
+   */
+  async create(
+    orderId: string,
+    data: CreateShipmentInput,
+    createdBy: string | null
+  ): Promise<ShipmentWithItems> {
+    const order = await orderRepository.findById(orderId)
+    if (!order) {
+      throw new Error('Order not found')
+    }
+
+    if (!SHIPPABLE_ORDER_STATUSES.includes(order.status)) {
+      throw new Error(`Cannot ship an order that is ${order.status.toLowerCase()}`)
+    }
+
+    const { shipment, statusChange } = await db.transaction(async (tx) => {
+      // Lock the order so concurrent shipments cannot both send the same units
+      await tx.select({ id: orders.id })
+        .from(orders)
+        .where(eq(orders.id, orderId))
+        .for('update')
+
+      const existing = await tx.query.shipments.findMany({
+        where: eq(shipments.orderId, orderId),
+        with: {
+          items: true,
+        },
+      }) as ShipmentWithItems[]
+
+      // The same line can be listed more than once; ship the combined quantity
+      const quantities = new Map<string, number>()
+      data.items.forEach(item => {
+        quantities.set(item.orderItemId!, (quantities.get(item.orderItemId!) || 0) + item.quantity!)
+      })
+      const requested = Array.from(quantities, ([orderItemId, quantity]) => ({ orderItemId, quantity }))
+
+      const unshipped = getUnshippedQuantities(order.items, existing)
+      for (const item of requested) {
+        const orderItem = order.items.find(i => i.id === item.orderItemId)
+        if (!orderItem) {
+          throw new Error('Item not found in this order')
+        }
+
+        if (item.quantity > (unshipped[item.orderItemId] || 0)) {
+          throw new Error(`Only ${unshipped[item.orderItemId] || 0} of ${orderItem.product.name} left to ship`)
+        }
+      }
+
+      const nextStatus = deriveOrderStatusFromShipments(order.items, [
+        ...existing,
+        { status: ShipmentStatus.SHIPPED, items: requested },
+      ])
+
+      const [created] = await tx.insert(shipments)
+        .values({
+          orderId,
+          carrier: data.carrier || null,
+          trackingNumber: data.trackingNumber || null,
+          createdBy,
+        })
+        .returning()
+
+      const items = await tx.insert(shipmentItems)
+        .values(requested.map(item => ({ shipmentId: created.id, ...item })))
+        .returning()
+
+      // Guards such as unpaid online orders roll the shipment back with the status change
+      const units = requested.reduce((sum, item) => sum + item.quantity, 0)
+      const statusChange = await orderRepository.applyStatusChange(orderId, nextStatus!, {
+        message: `Shipped ${units} ${units === 1 ? 'item' : 'items'}${data.carrier ? ` via ${data.carrier}` : ''}`,
+        carrier: data.carrier || null,
+        carrierReference: data.trackingNumber || null,
+        createdBy,
+      }, {}, tx)
+
+      return { shipment: { ...created, items }, statusChange }
+    })
+
+    await orderRepository.afterStatusChange(statusChange)
+
+    return shipment
+  }
+
+  /**
+   * Mark a shipment as arrived; the order becomes delivered once every
+   * item has shipped and every shipment has arrived.
+   */
+  async markDelivered(orderId: string, shipmentId: string, updatedBy: string | null): Promise<ShipmentWithItems> {
+    const [shipment] = await db.select()
+      .from(shipments)
+      .where(and(eq(shipments.id, shipmentId), eq(shipments.orderId, orderId)))
+      .limit(1)
+
+    if (!shipment) {
+      throw new Error('Shipment not found')
+    }
+
+    if (shipment.status === ShipmentStatus.DELIVERED) {
+      throw new Error('Shipment has already been delivered')
+    }
+
+    const statusChange = await db.transaction(async (tx) => {
+      await tx.update(shipments)
+        .set({
+          status: ShipmentStatus.DELIVERED,
+          deliveredAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(shipments.id, shipmentId))
+
+      const [order] = await tx.select({ status: orders.status })
+        .from(orders)
+        .where(eq(orders.id, orderId))
+
+      if (!order || !SHIPMENT_DRIVEN_STATUSES.includes(order.status)) {
+        return null
+      }
+
+      const items = await tx.select()
+        .from(orderItems)
+        .where(eq(orderItems.orderId, orderId))
+
+      const orderShipments = await tx.query.shipments.findMany({
+        where: eq(shipments.orderId, orderId),
+        with: {
+          items: true,
+        },
+      }) as ShipmentWithItems[]
+
+      return await orderRepository.applyStatusChange(orderId, deriveOrderStatusFromShipments(items, orderShipments)!, {
+        message: `Shipment${shipment.trackingNumber ? ` ${shipment.trackingNumber}` : ''} delivered`,
+        carrier: shipment.carrier,
+        carrierReference: shipment.trackingNumber,
+        createdBy: updatedBy,
+      }, {}, tx)
+    })
+
+    if (statusChange) {
+      await orderRepository.afterStatusChange(statusChange)
+    } else {
+      await invalidateOrder(orderId)
+    }
+
+    const orderShipments = await this.findByOrder(orderId)
+    return orderShipments.find(s => s.id === shipmentId)!
+  }
+}
+
+export const shipmentRepository = new ShipmentRepository()
@@ -0,0 +1,62 @@
+interface ShippableItem {
+  id: string
+  quantity: number
+}
+
+interface ShipmentLike {
+  status: string
+  items: { orderItemId: string; quantity: number }[]
+}
+
+/**
+ * Units of each order item already packed in a shipment
+ */
+export function getShippedQuantities(shipments: ShipmentLike[]): Record<string, number> {
+  const shipped: Record<string, number> = {}
+
+  for (const shipment of shipments) {
+    for (const item of shipment.items) {
+      shipped[item.orderItemId] = (shipped[item.orderItemId] || 0) + item.quantity
+    }
+  }
+
+  return shipped
+}
+
+/**
+ * Units of each order item still waiting to be shipped; fully shipped items are omitted
+ */
+export function getUnshippedQuantities(
+  items: ShippableItem[],
+  shipments: ShipmentLike[]
+): Record<string, number> {
+  const shipped = getShippedQuantities(shipments)
+  const unshipped: Record<string, number> = {}
+
+  for (const item of items) {
+    const remaining = item.quantity - (shipped[item.id] || 0)
+    if (remaining > 0) {
+      unshipped[item.id] = remaining
+    }
+  }
+
+  return unshipped
+}
+
+/**
+ * Order status implied by its shipments, or null before anything has shipped.
+ * The order is delivered only once every unit has shipped and every shipment
+ * has arrived.
+ */
+export function deriveOrderStatusFromShipments(
+  items: ShippableItem[],
+  shipments: ShipmentLike[]
+): 'PARTIALLY_SHIPPED' | 'SHIPPED' | 'DELIVERED' | null {
+  if (shipments.length === 0) return null
+
+  if (Object.keys(getUnshippedQuantities(items, shipments)).length > 0) {
+    return 'PARTIALLY_SHIPPED'
+  }
+
+  return shipments.every(shipment => shipment.status === 'DELIVERED') ? 'DELIVERED' : 'SHIPPED'
+}
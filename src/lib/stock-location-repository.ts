@@ -0,0 +1,362 @@
+import { db } from './db'
+import {
+  stockLocations,
+  locationStock,
+  stockTransfers,
+  stockTransferItems,
+  products,
+  StockTransferStatus,
+} from './db/schema'
+import { eq, and, asc, desc, sql } from 'drizzle-orm'
+import type {
+  CreateStockLocationInput,
+  UpdateStockLocationInput,
+  CreateStockTransferInput,
+  PaginationInput,
+} from './validations'
+import type { PaginatedResponse, StockLocation, StockTransferWithItems } from '@/types'
+import { inventoryRepository } from './inventory-repository'
+import { mergeStockItems } from './inventory-reservation-utils'
+
+export interface LocationStockSummary extends StockLocation {
+  onHand: number
+  // Sent from another location and not received yet
+  inTransit: number
+  value: number
+  outOfStockProducts: number
+}
+
+export interface ProductLocationStock {
+  location: StockLocation
+  quantity: number
+  inTransit: number
+}
+
+const withTransferDetails = {
+  fromLocation: true,
+  toLocation: true,
+  items: {
+    with: {
+      product: {
+        columns: { id: true, name: true, slug: true, sku: true },
+      },
+    },
+  },
+} as const
+
+export class StockLocationRepository {
+  async findAll(): Promise<StockLocation[]> {
+    return db.select()
+      .from(stockLocations)
+      .orderBy(asc(stockLocations.priority), asc(stockLocations.name))
+  }
+
+  async findById(id: string): Promise<StockLocation | null> {
+    const [location] = await db.select()
+      .from(stockLocations)
+      .where(eq(stockLocations.id, id))
+      .limit(1)
+
+    return location || null
+  }
+
+  async create(data: CreateStockLocationInput): Promise<StockLocation> {
+    const [existing] = await db.select({ id: stockLocations.id })
+      .from(stockLocations)
+      .where(eq(stockLocations.code, data.code))
+      .limit(1)
+
+    if (existing) {
+      throw new Error(`Location code ${data.code} already exists`)
+    }
+
+    return db.transaction(async (tx) => {
+      // Only one location can be the default
+      if (data.isDefault) {
+        await tx.update(stockLocations)
+          .set({ isDefault: false, updatedAt: new Date() })
+          .where(eq(stockLocations.isDefault, true))
+      }
+
+      const [created] = await tx.insert(stockLocations)
+        .values({
+          name: data.name,
+          code: data.code,
+          city: data.city || null,
+          isActive: data.isActive,
+          isDefault: data.isDefault,
+          priority: data.priority,
+        })
+        .returning()
+
+      return created
+    })
+  }
+
+  async update(id: string, data: UpdateStockLocationInput): Promise<StockLocation> {
+    const location = await this.findById(id)
+    if (!location) {
+      throw new Error('Stock location not found')
+    }
+
+    if (location.isDefault && (data.isDefault === false || data.isActive === false)) {
+      throw new Error('Make another location the default first')
+    }
+
+    if (data.code && data.code !== location.code) {
+      const [existing] = await db.select({ id: stockLocations.id })
+        .from(stockLocations)
+        .where(eq(stockLocations.code, data.code))
+        .limit(1)
+
+      if (existing) {
+        throw new Error(`Location code ${data.code} already exists`)
+      }
+    }
+
+    return db.transaction(async (tx) => {
+      if (data.isDefault && !location.isDefault) {
+        await tx.update(stockLocations)
+          .set({ isDefault: false, updatedAt: new Date() })
+          .where(eq(stockLocations.isDefault, true))
+      }
+
+      const [updated] = await tx.update(stockLocations)
+        .set({
+          ...data,
+          // The default location always takes stock, so it stays active
+          ...(data.isDefault ? { isActive: true } : {}),
+          updatedAt: new Date(),
+        })
+        .where(eq(stockLocations.id, id))
+        .returning()
+
+      return updated
+    })
+  }
+
+  /**
+   * Units and value on hand at each location, with what is on its way there
+   */
+  async getStockSummary(): Promise<LocationStockSummary[]> {
+    const [locations, levels, inTransit, [{ count: activeProducts }]] = await Promise.all([
+      this.findAll(),
+      db.select({
+        locationId: locationStock.locationId,
+        onHand: sql<number>`COALESCE(SUM(${locationStock.quantity}), 0)::int`,
+        value: sql<number>`COALESCE(SUM(${locationStock.quantity} * ${products.price}), 0)::float`,
+        inStockProducts: sql<number>`(COUNT(*) FILTER (WHERE ${locationStock.quantity} > 0))::int`,
+      })
+        .from(locationStock)
+        .innerJoin(products, eq(products.id, locationStock.productId))
+        .where(eq(products.isActive, true))
+        .groupBy(locationStock.locationId),
+      db.select({
+        locationId: stockTransfers.toLocationId,
+        quantity: sql<number>`COALESCE(SUM(${stockTransferItems.quantity}), 0)::int`,
+      })
+        .from(stockTransferItems)
+        .innerJoin(stockTransfers, eq(stockTransfers.id, stockTransferItems.transferId))
+        .where(eq(stockTransfers.status, StockTransferStatus.IN_TRANSIT))
+        .groupBy(stockTransfers.toLocationId),
+      db.select({ count: sql<number>`count(*)::int` })
+        .from(products)
+        .where(eq(products.isActive, true)),
+    ])
+
+    return locations.map(location => {
+      const level = levels.find(entry => entry.locationId === location.id)
+      const transit = inTransit.find(entry => entry.locationId === location.id)
+
+      return {
+        ...location,
+        onHand: level?.onHand || 0,
+        inTransit: transit?.quantity || 0,
+        value: level?.value || 0,
+        outOfStockProducts: activeProducts - (level?.inStockProducts || 0),
+      }
+    })
+  }
+
+  /**
+   * One product's stock at each location
+   */
+  async getProductStock(productId: string): Promise<ProductLocationStock[]> {
+    const [locations, levels, inTransit] = await Promise.all([
+      this.findAll(),
+      db.select()
+        .from(locationStock)
+        .where(eq(locationStock.productId, productId)),
+      db.select({
+        locationId: stockTransfers.toLocationId,
+        quantity: sql<number>`COALESCE(SUM(${stockTransferItems.quantity}), 0)::int`,
+      })
+        .from(stockTransferItems)
+        .innerJoin(stockTransfers, eq(stockTransfers.id, stockTransferItems.transferId))
+        .where(and(
+          eq(stockTransfers.status, StockTransferStatus.IN_TRANSIT),
+          eq(stockTransferItems.productId, productId)
+        ))
+        .groupBy(stockTransfers.toLocationId),
+    ])
+
+    return locations.map(location => ({
+      location,
+      quantity: levels.find(level => level.locationId === location.id)?.quantity || 0,
+      inTransit: inTransit.find(transit => transit.locationId === location.id)?.quantity || 0,
+    }))
+  }
+
+  async findTransfers(
+    pagination: PaginationInput = { page: 1, limit: 20 },
+    status?: string
+  ): Promise<PaginatedResponse<StockTransferWithItems>> {
+    const { page, limit } = pagination
+    const offset = (page - 1) * limit
+    const where = status ? eq(stockTransfers.status, status) : undefined
+
+    const [data, [{ count: total }]] = await Promise.all([
+      db.query.stockTransfers.findMany({
+        where,
+        with: withTransferDetails,
+        orderBy: [desc(stockTransfers.shippedAt)],
+        limit,
+        offset,
+      }),
+      db.select({ count: sql<number>`count(*)::int` })
+        .from(stockTransfers)
+        .where(where),
+    ])
+
+    return {
+      data: data as StockTransferWithItems[],
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    }
+  }
+
+  async findTransferById(id: string): Promise<StockTransferWithItems | null> {
+    const result = await db.query.stockTransfers.findFirst({
+      where: eq(stockTransfers.id, id),
+      with: withTransferDetails,
+    })
+
+    return (result as StockTransferWithItems) || null
+  }
+
+  /**
+   * Send stock to another location. It leaves the source and stops being
+   * sellable straight away; the destination only gets it when received.
+   */
+  async createTransfer(data: CreateStockTransferInput, createdBy: string | null): Promise<StockTransferWithItems> {
+    const [from, to] = await Promise.all([
+      this.findById(data.fromLocationId),
+      this.findById(data.toLocationId),
+    ])
+
+    if (!from || !to) {
+      throw new Error('Stock location not found')
+    }
+
+    const transfer = await db.transaction(async (tx) => {
+      const [created] = await tx.insert(stockTransfers)
+        .values({
+          fromLocationId: from.id,
+          toLocationId: to.id,
+          notes: data.notes || null,
+          createdBy,
+        })
+        .returning()
+
+      const items = mergeStockItems(data.items as Required<CreateStockTransferInput['items'][number]>[])
+
+      await tx.insert(stockTransferItems)
+        .values(items.map(item => ({
+          transferId: created.id,
+          productId: item.productId,
+          quantity: item.quantity,
+        })))
+
+      for (const item of items) {
+        await inventoryRepository.applyStockChange({
+          productId: item.productId,
+          locationId: from.id,
+          quantity: -item.quantity,
+          changeType: 'TRANSFER_OUT',
+          reason: `Sent to ${to.name}`,
+          referenceId: created.id,
+          userId: createdBy,
+        }, tx)
+      }
+
+      return created
+    })
+
+    return (await this.findTransferById(transfer.id))!
+  }
+
+  /**
+   * Book an in-transit transfer into its destination
+   */
+  async receiveTransfer(id: string, userId: string | null): Promise<StockTransferWithItems> {
+    return this.closeTransfer(id, StockTransferStatus.RECEIVED, userId)
+  }
+
+  /**
+   * Call back an in-transit transfer; the stock returns to its source
+   */
+  async cancelTransfer(id: string, userId: string | null): Promise<StockTransferWithItems> {
+    return this.closeTransfer(id, StockTransferStatus.CANCELLED, userId)
+  }
+
+  private async closeTransfer(
+    id: string,
+    status: typeof StockTransferStatus.RECEIVED | typeof StockTransferStatus.CANCELLED,
+    userId: string | null
+  ): Promise<StockTransferWithItems> {
+    const existing = await this.findTransferById(id)
+    if (!existing) {
+      throw new Error('Stock transfer not found')
+    }
+
+    await db.transaction(async (tx) => {
+      // Only one request gets to close the transfer
+      const [closed] = await tx.update(stockTransfers)
+        .set({
+          status,
+          ...(status === StockTransferStatus.RECEIVED ? { receivedAt: new Date() } : { cancelledAt: new Date() }),
+          updatedAt: new Date(),
+        })
+        .where(and(eq(stockTransfers.id, id), eq(stockTransfers.status, StockTransferStatus.IN_TRANSIT)))
+        .returning()
+
+      if (!closed) {
+        throw new Error('Stock transfer is no longer in transit')
+      }
+
+      const received = status === StockTransferStatus.RECEIVED
+
+      for (const item of existing.items) {
+        await inventoryRepository.applyStockChange({
+          productId: item.productId,
+          locationId: received ? existing.toLocationId : existing.fromLocationId,
+          quantity: item.quantity,
+          changeType: 'TRANSFER_IN',
+          reason: received
+            ? `Received from ${existing.fromLocation.name}`
+            : `Transfer to ${existing.toLocation.name} cancelled`,
+          referenceId: id,
+          userId,
+        }, tx)
+      }
+    })
+
+    return (await this.findTransferById(id))!
+  }
+}
+
+export const stockLocationRepository = new StockLocationRepository()
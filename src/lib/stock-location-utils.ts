@@ -0,0 +1,178 @@
+import { mergeStockItems, type StockItem } from './inventory-reservation-utils'
+
+export interface LocationStockLevel {
+  locationId: string
+  productId: string
+  quantity: number
+}
+
+export interface StockAllocation {
+  productId: string
+  locationId: string
+  quantity: number
+}
+
+export interface StockAllocationPlan {
+  // The location the order ships from; null when no location has any of it
+  locationId: string | null
+  allocations: StockAllocation[]
+  // Units no location could cover
+  shortfalls: StockItem[]
+}
+
+const levelKey = (locationId: string, productId: string) => `${locationId}:${productId}`
+
+/**
+ * Decide where an order's stock comes from. The first location, in
+ * priority order, that holds everything ships the order; otherwise the one
+ * that covers the most units does, and the rest is taken from the other
+ * locations in priority order. A preferred location is tried first.
+ */
+export function allocateStock(
+  items: StockItem[],
+  levels: LocationStockLevel[],
+  locationIds: string[],
+  preferredLocationId?: string | null
+): StockAllocationPlan {
+  const merged = mergeStockItems(items)
+  const available = new Map<string, number>()
+  for (const level of levels) {
+    available.set(levelKey(level.locationId, level.productId), Math.max(0, level.quantity))
+  }
+
+  const candidates = preferredLocationId
+    ? [preferredLocationId, ...locationIds.filter(id => id !== preferredLocationId)]
+    : locationIds
+
+  const coveredAt = (locationId: string) => merged.reduce(
+    (sum, item) => sum + Math.min(item.quantity, available.get(levelKey(locationId, item.productId)) || 0),
+    0
+  )
+
+  const requested = merged.reduce((sum, item) => sum + item.quantity, 0)
+  let primary: string | null = null
+  let bestCovered = 0
+  for (const locationId of candidates) {
+    const covered = coveredAt(locationId)
+    if (covered > bestCovered) {
+      primary = locationId
+      bestCovered = covered
+    }
+    if (covered === requested) {
+      break
+    }
+  }
+
+  if (primary === null) {
+    return {
+      locationId: preferredLocationId ?? null,
+      allocations: [],
+      shortfalls: merged,
+    }
+  }
+
+  const order = [primary, ...candidates.filter(id => id !== primary)]
+  const allocations: StockAllocation[] = []
+  const shortfalls: StockItem[] = []
+
+  for (const item of merged) {
+    let remaining = item.quantity
+
+    for (const locationId of order) {
+      if (remaining === 0) {
+        break
+      }
+
+      const quantity = Math.min(remaining, available.get(levelKey(locationId, item.productId)) || 0)
+      if (quantity > 0) {
+        allocations.push({ productId: item.productId, locationId, quantity })
+        remaining -= quantity
+      }
+    }
+
+    if (remaining > 0) {
+      shortfalls.push({ productId: item.productId, quantity: remaining })
+    }
+  }
+
+  return { locationId: primary, allocations, shortfalls }
+}
+
+/**
+ * The location that supplied most of an order's units
+ */
+export function getMainLocationId(allocations: { locationId: string | null; quantity: number }[]): string | null {
+  const totals = new Map<string, number>()
+  for (const allocation of allocations) {
+    if (allocation.locationId) {
+      totals.set(allocation.locationId, (totals.get(allocation.locationId) || 0) + allocation.quantity)
+    }
+  }
+
+  let main: string | null = null
+  for (const [locationId, quantity] of totals) {
+    if (main === null || quantity > totals.get(main)!) {
+      main = locationId
+    }
+  }
+
+  return main
+}
+
+/**
+ * Net stock an order took from each location, from its inventory
+ * adjustments. Adjustments recorded before locations existed count
+ * against the default location.
+ */
+export function getNetStockTaken(
+  adjustments: { productId: string; locationId: string | null; quantity: number }[],
+  defaultLocationId: string
+): StockAllocation[] {
+  const net = new Map<string, StockAllocation>()
+
+  for (const adjustment of adjustments) {
+    const locationId = adjustment.locationId || defaultLocationId
+    const key = levelKey(locationId, adjustment.productId)
+    const entry = net.get(key) || { productId: adjustment.productId, locationId, quantity: 0 }
+
+    entry.quantity -= adjustment.quantity
+    net.set(key, entry)
+  }
+
+  return Array.from(net.values()).filter(entry => entry.quantity > 0)
+}
+
+/**
+ * Where returned units go back to: the locations the order took them
+ * from, as found by getNetStockTaken. Units the order has no record of
+ * taking are left over for the caller to place.
+ */
+export function allocateReturnedStock(
+  items: StockItem[],
+  taken: StockAllocation[]
+): { allocations: StockAllocation[]; unplaced: StockItem[] } {
+  const allocations: StockAllocation[] = []
+  const unplaced: StockItem[] = []
+
+  for (const item of mergeStockItems(items)) {
+    let remaining = item.quantity
+
+    for (const entry of taken.filter(entry => entry.productId === item.productId)) {
+      if (remaining === 0) {
+        break
+      }
+
+      const quantity = Math.min(remaining, entry.quantity)
+      if (quantity > 0) {
+        allocations.push({ productId: item.productId, locationId: entry.locationId, quantity })
+        remaining -= quantity
+      }
+    }
+
+    if (remaining > 0) {
+      unplaced.push({ productId: item.productId, quantity: remaining })
+    }
+  }
+
+  return { allocations, unplaced }
+}
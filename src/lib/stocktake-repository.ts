@@ -0,0 +1,325 @@
+import { db } from './db'
+import {
+  stocktakes,
+  stocktakeItems,
+  products,
+  categories,
+  stockLocations,
+  locationStock,
+  StocktakeStatus,
+} from './db/schema'
+import { eq, and, or, desc, gt, inArray, sql } from 'drizzle-orm'
+import type {
+  CreateStocktakeInput,
+  RecordStocktakeCountsInput,
+  StocktakeFiltersInput,
+  PaginationInput,
+} from './validations'
+import type { PaginatedResponse, StocktakeWithItems } from '@/types'
+import { inventoryRepository } from './inventory-repository'
+import {
+  canApplyStocktakeAction,
+  checkCounts,
+  formatStocktakeNumber,
+  getStocktakeVariance,
+  type StocktakeAction,
+} from './stocktake-utils'
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0]
+
+const withStocktakeDetails = {
+  location: true,
+  category: true,
+  items: {
+    with: {
+      product: {
+        columns: { id: true, name: true, slug: true, sku: true, images: true },
+      },
+    },
+  },
+} as const
+
+const ACTION_VERBS: Record<StocktakeAction, string> = {
+  count: 'counted',
+  post: 'posted',
+  cancel: 'cancelled',
+}
+
+const cannotApply = (status: string, action: StocktakeAction) =>
+  new Error(`A ${status.toLowerCase()} stocktake cannot be ${ACTION_VERBS[action]}`)
+
+export class StocktakeRepository {
+  async findAll(
+    pagination: PaginationInput = { page: 1, limit: 20 },
+    filters: StocktakeFiltersInput = {}
+  ): Promise<PaginatedResponse<StocktakeWithItems>> {
+    const { page, limit } = pagination
+    const offset = (page - 1) * limit
+
+    const conditions = []
+    if (filters.status) {
+      conditions.push(eq(stocktakes.status, filters.status))
+    }
+    if (filters.locationId) {
+      conditions.push(eq(stocktakes.locationId, filters.locationId))
+    }
+    const where = conditions.length > 0 ? and(...conditions) : undefined
+
+    const [data, [{ count: total }]] = await Promise.all([
+      db.query.stocktakes.findMany({
+        where,
+        with: withStocktakeDetails,
+        orderBy: [desc(stocktakes.createdAt)],
+        limit,
+        offset,
+      }),
+      db.select({ count: sql<number>`count(*)::int` })
+        .from(stocktakes)
+        .where(where),
+    ])
+
+    return {
+      data: data as StocktakeWithItems[],
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    }
+  }
+
+  async findById(id: string): Promise<StocktakeWithItems | null> {
+    const result = await db.query.stocktakes.findFirst({
+      where: eq(stocktakes.id, id),
+      with: withStocktakeDetails,
+    })
+
+    if (!result) {
+      return null
+    }
+
+    // Count sheets read in product name order
+    const stocktake = result as StocktakeWithItems
+    stocktake.items.sort((a, b) => a.product.name.localeCompare(b.product.name))
+    return stocktake
+  }
+
+  /**
+   * Generate a count sheet: every active product in the category, plus
+   * anything inactive the location still holds. Expected quantities are the
+   * location's stock right now and are refreshed as each line is counted.
+   */
+  async create(data: CreateStocktakeInput, createdBy: string | null): Promise<StocktakeWithItems> {
+    const [location] = await db.select({ id: stockLocations.id })
+      .from(stockLocations)
+      .where(and(eq(stockLocations.id, data.locationId), eq(stockLocations.isActive, true)))
+      .limit(1)
+
+    if (!location) {
+      throw new Error('Stock location not found')
+    }
+
+    if (data.categoryId) {
+      const [category] = await db.select({ id: categories.id })
+        .from(categories)
+        .where(eq(categories.id, data.categoryId))
+        .limit(1)
+
+      if (!category) {
+        throw new Error('Category not found')
+      }
+    }
+
+    const sheet = await db.select({
+      productId: products.id,
+      purchasePrice: products.purchasePrice,
+      quantity: locationStock.quantity,
+    })
+      .from(products)
+      .leftJoin(locationStock, and(
+        eq(locationStock.productId, products.id),
+        eq(locationStock.locationId, location.id)
+      ))
+      .where(and(
+        data.categoryId ? eq(products.categoryId, data.categoryId) : undefined,
+        or(eq(products.isActive, true), gt(locationStock.quantity, 0))
+      ))
+
+    if (sheet.length === 0) {
+      throw new Error('There are no products to count')
+    }
+
+    const stocktake = await db.transaction(async (tx) => {
+      const [created] = await tx.insert(stocktakes)
+        .values({
+          locationId: location.id,
+          categoryId: data.categoryId || null,
+          notes: data.notes || null,
+          createdBy,
+        })
+        .returning()
+
+      await tx.insert(stocktakeItems)
+        .values(sheet.map(line => ({
+          stocktakeId: created.id,
+          productId: line.productId,
+          expectedQuantity: line.quantity || 0,
+          unitCost: line.purchasePrice,
+        })))
+
+      return created
+    })
+
+    return (await this.findById(stocktake.id))!
+  }
+
+  /**
+   * Record counted quantities. Each counted line's expected quantity is
+   * taken again at the moment of counting, so sales and deliveries while
+   * the count is under way don't show up as variances.
+   */
+  async recordCounts(
+    id: string,
+    data: RecordStocktakeCountsInput,
+    userId: string | null
+  ): Promise<StocktakeWithItems> {
+    await db.transaction(async (tx) => {
+      const stocktake = await this.lockForAction(tx, id, 'count')
+
+      const items = await tx.select()
+        .from(stocktakeItems)
+        .where(eq(stocktakeItems.stocktakeId, id))
+
+      const lines = data.counts.map(line => ({ itemId: line.itemId!, quantity: line.quantity ?? null }))
+      const problem = checkCounts(items, lines)
+      if (problem) {
+        throw new Error(problem)
+      }
+
+      for (const line of lines) {
+        const item = items.find(entry => entry.id === line.itemId)!
+
+        if (line.quantity === null) {
+          await tx.update(stocktakeItems)
+            .set({ countedQuantity: null, countedBy: null, countedAt: null })
+            .where(eq(stocktakeItems.id, item.id))
+          continue
+        }
+
+        await tx.update(stocktakeItems)
+          .set({
+            expectedQuantity: await inventoryRepository.getLocationQuantity(item.productId, stocktake.locationId, tx),
+            countedQuantity: line.quantity,
+            countedBy: userId,
+            countedAt: new Date(),
+          })
+          .where(eq(stocktakeItems.id, item.id))
+      }
+
+      await tx.update(stocktakes)
+        .set({ updatedAt: new Date() })
+        .where(eq(stocktakes.id, id))
+    })
+
+    return (await this.findById(id))!
+  }
+
+  /**
+   * Book every counted variance into the location's stock in one batch,
+   * with the stocktake as the adjustments' reference. Uncounted lines are
+   * left as they are.
+   */
+  async post(id: string, userId: string | null): Promise<StocktakeWithItems> {
+    await db.transaction(async (tx) => {
+      const stocktake = await this.lockForAction(tx, id, 'post')
+
+      const items = await tx.select()
+        .from(stocktakeItems)
+        .where(eq(stocktakeItems.stocktakeId, id))
+
+      if (items.every(item => item.countedQuantity === null)) {
+        throw new Error('Count at least one item before posting')
+      }
+
+      const reference = formatStocktakeNumber(id)
+
+      for (const item of items) {
+        const variance = getStocktakeVariance(item)
+        if (!variance) {
+          continue
+        }
+
+        await inventoryRepository.applyStockChange({
+          productId: item.productId,
+          locationId: stocktake.locationId,
+          quantity: variance,
+          changeType: 'STOCKTAKE',
+          reason: `Counted ${item.countedQuantity} on ${reference}, expected ${item.expectedQuantity}`,
+          referenceId: id,
+          userId,
+        }, tx)
+      }
+
+      await tx.update(stocktakes)
+        .set({
+          status: StocktakeStatus.POSTED,
+          postedBy: userId,
+          postedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(stocktakes.id, id))
+    })
+
+    return (await this.findById(id))!
+  }
+
+  /**
+   * Abandon the count. Nothing has touched stock yet.
+   */
+  async cancel(id: string): Promise<StocktakeWithItems> {
+    const existing = await this.findById(id)
+    if (!existing) {
+      throw new Error('Stocktake not found')
+    }
+
+    const allowedFrom = Object.values(StocktakeStatus)
+      .filter(status => canApplyStocktakeAction(status, 'cancel'))
+
+    // Conditional on the status so a concurrent post isn't overwritten
+    const [updated] = await db.update(stocktakes)
+      .set({
+        status: StocktakeStatus.CANCELLED,
+        cancelledAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(and(eq(stocktakes.id, id), inArray(stocktakes.status, allowedFrom)))
+      .returning()
+
+    if (!updated) {
+      throw cannotApply(existing.status, 'cancel')
+    }
+
+    return (await this.findById(id))!
+  }
+
+  private async lockForAction(tx: Transaction, id: string, action: StocktakeAction) {
+    // Lock the stocktake so counting and posting can't interleave
+    const [stocktake] = await tx.select()
+      .from(stocktakes)
+      .where(eq(stocktakes.id, id))
+      .for('update')
+
+    if (!stocktake) {
+      throw new Error('Stocktake not found')
+    }
+
+    if (!canApplyStocktakeAction(stocktake.status, action)) {
+      throw cannotApply(stocktake.status, action)
+    }
+
+    return stocktake
+  }
+}
+
+export const stocktakeRepository = new StocktakeRepository()
@@ -0,0 +1,151 @@
+import { StocktakeStatus } from './db/schema'
+
+export type StocktakeStatusValue = typeof StocktakeStatus[keyof typeof StocktakeStatus]
+
+export type StocktakeAction = 'count' | 'post' | 'cancel'
+
+interface StocktakeItemLike {
+  id: string
+  expectedQuantity: number
+  countedQuantity: number | null
+  unitCost: string | number | null
+}
+
+export interface CountLine {
+  itemId: string
+  quantity: number | null
+}
+
+export interface StocktakeSummary {
+  itemCount: number
+  countedCount: number
+  // Counted lines whose count differs from the system
+  varianceCount: number
+  shortageUnits: number
+  surplusUnits: number
+  shortageValue: number
+  surplusValue: number
+  netValue: number
+  // Lines with a variance but no purchase price, so left out of the values
+  missingCostCount: number
+}
+
+// What can be done with a stocktake in each status
+const STOCKTAKE_ACTIONS: Record<StocktakeStatusValue, StocktakeAction[]> = {
+  COUNTING: ['count', 'post', 'cancel'],
+  POSTED: [],
+  CANCELLED: [],
+}
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100
+
+/**
+ * Short reference shown to staff and on the posted adjustments
+ */
+export function formatStocktakeNumber(id: string): string {
+  return `ST-${id.slice(-8).toUpperCase()}`
+}
+
+export function getStocktakeActions(status: string): StocktakeAction[] {
+  return STOCKTAKE_ACTIONS[status as StocktakeStatusValue] || []
+}
+
+export function canApplyStocktakeAction(status: string, action: StocktakeAction): boolean {
+  return getStocktakeActions(status).includes(action)
+}
+
+/**
+ * Counted minus expected, or null while the line is uncounted
+ */
+export function getStocktakeVariance(item: Pick<StocktakeItemLike, 'expectedQuantity' | 'countedQuantity'>): number | null {
+  return item.countedQuantity === null ? null : item.countedQuantity - item.expectedQuantity
+}
+
+/**
+ * What the variance is worth at purchase price, or null when it can't be
+ * valued
+ */
+export function getVarianceValue(item: Omit<StocktakeItemLike, 'id'>): number | null {
+  const variance = getStocktakeVariance(item)
+  if (variance === null || item.unitCost === null) {
+    return null
+  }
+
+  return roundAmount(variance * Number(item.unitCost))
+}
+
+export function summarizeStocktake(items: Omit<StocktakeItemLike, 'id'>[]): StocktakeSummary {
+  const summary: StocktakeSummary = {
+    itemCount: items.length,
+    countedCount: 0,
+    varianceCount: 0,
+    shortageUnits: 0,
+    surplusUnits: 0,
+    shortageValue: 0,
+    surplusValue: 0,
+    netValue: 0,
+    missingCostCount: 0,
+  }
+
+  for (const item of items) {
+    const variance = getStocktakeVariance(item)
+    if (variance === null) {
+      continue
+    }
+
+    summary.countedCount++
+    if (variance === 0) {
+      continue
+    }
+
+    summary.varianceCount++
+    const value = getVarianceValue(item)
+    if (value === null) {
+      summary.missingCostCount++
+    }
+
+    if (variance < 0) {
+      summary.shortageUnits -= variance
+      summary.shortageValue = roundAmount(summary.shortageValue - (value || 0))
+    } else {
+      summary.surplusUnits += variance
+      summary.surplusValue = roundAmount(summary.surplusValue + (value || 0))
+    }
+  }
+
+  summary.netValue = roundAmount(summary.surplusValue - summary.shortageValue)
+  return summary
+}
+
+/**
+ * The sheet line for a scanned or typed code. Barcodes carry the
+ * product's SKU.
+ */
+export function findItemByCode<T extends { product: { sku: string | null } }>(items: T[], code: string): T | null {
+  const normalized = code.trim().toUpperCase()
+  if (!normalized) {
+    return null
+  }
+
+  return items.find(item => item.product.sku?.trim().toUpperCase() === normalized) || null
+}
+
+/**
+ * Why counts can't be recorded against the sheet, or null when they can
+ */
+export function checkCounts(items: Pick<StocktakeItemLike, 'id'>[], lines: CountLine[]): string | null {
+  const seen = new Set<string>()
+
+  for (const line of lines) {
+    if (!items.some(item => item.id === line.itemId)) {
+      return 'Item is not on this count sheet'
+    }
+
+    if (seen.has(line.itemId)) {
+      return 'Each item can only be counted once per update'
+    }
+    seen.add(line.itemId)
+  }
+
+  return null
+}
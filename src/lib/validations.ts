@@ -77,8 +77,16 @@ export const createOrderSchema = z.object({
   }).optional(),
 })
 
+// Statuses an admin can set by hand. Refunded statuses are only set by
+// recording a refund, so the refund and the order can't disagree.
+export const manualOrderStatuses = ['PENDING', 'PROCESSING', 'PARTIALLY_SHIPPED', 'SHIPPED', 'DELIVERED', 'CANCELLED'] as const
+
 export const updateOrderSchema = z.object({
-  status: z.enum(['PENDING', 'PROCESSING', 'SHIPPED', 'DELIVERED', 'CANCELLED', 'REFUNDED']),
+  status: z.enum(manualOrderStatuses),
+  message: z.string().trim().max(500).optional(),
+  location: z.string().trim().max(200).optional(),
+  carrier: z.string().trim().max(100).optional(),
+  carrierReference: z.string().trim().max(100).optional(),
 })
 
 export const updateShippingAddressSchema = z.object({
@@ -92,6 +100,19 @@ export const updateShippingAddressSchema = z.object({
   }),
 })
 
+export const updatePreferencesSchema = z.object({
+  preferredPaymentMethod: z.string().min(1).nullable().optional(),
+  defaultShippingAddress: z.object({
+    fullName: z.string().min(1, 'Full name is required'),
+    email: z.string().email('Invalid email address'),
+    phone: z.string().optional(),
+    address: z.string().min(1, 'Address is required'),
+    city: z.string().min(1, 'City is required'),
+    postalCode: z.string().min(1, 'Postal code is required'),
+    country: z.string().optional(),
+  }).nullable().optional(),
+})
+
 // Query validation schemas
 export const paginationSchema = z.object({
   page: z.number().int().positive().default(1),
@@ -128,6 +149,7 @@ export const inventoryUpdateSchema = z.object({
 export const bulkInventoryUpdateSchema = z.object({
   updates: z.array(inventoryUpdateSchema).min(1, 'At least one update is required'),
   reason: z.string().min(1, 'Reason is required').max(255, 'Reason is too long'),
+  locationId: z.string().min(1).optional(),
 })
 
 export const inventoryAdjustmentSchema = z.object({
@@ -136,15 +158,126 @@ export const inventoryAdjustmentSchema = z.object({
   type: z.enum(['MANUAL_ADJUSTMENT', 'RESTOCK', 'DAMAGED', 'ORDER_PLACED', 'ORDER_RETURNED', 'INITIAL', 'OTHER']),
   reason: z.string().min(1, 'Reason is required').max(255, 'Reason is too long'),
   createdBy: z.string().optional(),
+  locationId: z.string().min(1).optional(),
 })
 
 export const inventoryHistoryFiltersSchema = z.object({
   productId: z.string().cuid().optional(),
-  type: z.enum(['MANUAL_ADJUSTMENT', 'RESTOCK', 'DAMAGED', 'ORDER_PLACED', 'ORDER_RETURNED', 'INITIAL', 'OTHER']).optional(),
+  locationId: z.string().optional(),
+  type: z.enum(['MANUAL_ADJUSTMENT', 'RESTOCK', 'DAMAGED', 'ORDER_PLACED', 'ORDER_RETURNED', 'RESERVATION_RELEASED', 'TRANSFER_OUT', 'TRANSFER_IN', 'STOCKTAKE', 'INITIAL', 'OTHER']).optional(),
   dateFrom: z.string().datetime().optional(),
   dateTo: z.string().datetime().optional(),
 })
 
+export const inventoryForecastQuerySchema = z.object({
+  productId: z.string().optional(),
+  horizon: z.coerce.number().int().min(7).max(180).default(30),
+  leadTimeDays: z.coerce.number().int().min(1).max(180).optional(),
+})
+
+// Stock location schemas
+export const createStockLocationSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  code: z.string().trim().min(2, 'Code must be at least 2 characters').max(20, 'Code must be at most 20 characters')
+    .regex(/^[A-Za-z0-9_-]+$/, 'Code can only contain letters, numbers, dashes and underscores')
+    .transform(code => code.toUpperCase()),
+  city: z.string().trim().max(100).optional(),
+  isActive: z.boolean().default(true),
+  isDefault: z.boolean().default(false),
+  priority: z.number().int().min(0).default(0),
+})
+
+export const updateStockLocationSchema = createStockLocationSchema.partial()
+
+export const createStockTransferSchema = z.object({
+  fromLocationId: z.string().min(1, 'Source location is required'),
+  toLocationId: z.string().min(1, 'Destination location is required'),
+  items: z.array(z.object({
+    productId: z.string().min(1),
+    quantity: z.number().int().positive('Quantity must be at least 1'),
+  })).min(1, 'Add at least one product to transfer'),
+  notes: z.string().trim().max(1000).optional(),
+}).refine(data => data.fromLocationId !== data.toLocationId, {
+  message: 'Choose two different locations',
+  path: ['toLocationId'],
+})
+
+export const updateStockTransferSchema = z.object({
+  action: z.enum(['receive', 'cancel']),
+})
+
+export const updateFulfillmentLocationSchema = z.object({
+  locationId: z.string().min(1, 'Location is required'),
+})
+
+// Supplier and purchase order schemas
+export const createSupplierSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(200),
+  contactName: z.string().trim().max(100).optional(),
+  email: z.string().trim().email('Invalid email address').optional(),
+  phone: z.string().trim().max(30).optional(),
+  address: z.string().trim().max(500).optional(),
+  notes: z.string().trim().max(1000).optional(),
+  isActive: z.boolean().default(true),
+})
+
+export const updateSupplierSchema = createSupplierSchema.partial()
+
+export const createPurchaseOrderSchema = z.object({
+  supplierId: z.string().min(1, 'Supplier is required'),
+  locationId: z.string().min(1).optional(),
+  expectedAt: z.coerce.date().optional(),
+  notes: z.string().trim().max(1000).optional(),
+  items: z.array(z.object({
+    productId: z.string().min(1),
+    quantity: z.number().int().positive('Quantity must be at least 1'),
+    unitCost: z.number().min(0, 'Unit cost cannot be negative'),
+  })).min(1, 'Add at least one product to order'),
+}).refine(data => new Set(data.items.map(item => item.productId)).size === data.items.length, {
+  message: 'Each product can only appear once',
+  path: ['items'],
+})
+
+export const updatePurchaseOrderSchema = z.object({
+  action: z.enum(['send', 'cancel']),
+})
+
+export const receivePurchaseOrderSchema = z.object({
+  items: z.array(z.object({
+    itemId: z.string().min(1),
+    quantity: z.number().int().min(0, 'Quantity cannot be negative'),
+  })).min(1, 'Enter what was received'),
+})
+
+export const purchaseOrderFiltersSchema = z.object({
+  status: z.enum(['DRAFT', 'SENT', 'PARTIALLY_RECEIVED', 'RECEIVED', 'CANCELLED']).optional(),
+  supplierId: z.string().optional(),
+})
+
+// Stocktake schemas
+export const createStocktakeSchema = z.object({
+  locationId: z.string().min(1, 'Location is required'),
+  categoryId: z.string().min(1).optional(),
+  notes: z.string().trim().max(1000).optional(),
+})
+
+export const recordStocktakeCountsSchema = z.object({
+  counts: z.array(z.object({
+    itemId: z.string().min(1),
+    // Null clears a count entered by mistake
+    quantity: z.number().int().min(0, 'Count cannot be negative').nullable(),
+  })).min(1, 'Enter at least one count'),
+})
+
+export const updateStocktakeSchema = z.object({
+  action: z.enum(['post', 'cancel']),
+})
+
+export const stocktakeFiltersSchema = z.object({
+  status: z.enum(['COUNTING', 'POSTED', 'CANCELLED']).optional(),
+  locationId: z.string().optional(),
+})
+
 // Address validation schemas
 export const createAddressSchema = z.object({
   fullName: z.string().min(1, 'Full name is required'),
@@ -159,6 +292,183 @@ export const createAddressSchema = z.object({
 
 export const updateAddressSchema = createAddressSchema.partial()
 
+// Discount validation schemas
+const discountBaseSchema = z.object({
+  code: z.string().trim().min(3, 'Code must be at least 3 characters').max(32, 'Code must be at most 32 characters')
+    .regex(/^[A-Za-z0-9_-]+$/, 'Code can only contain letters, numbers, dashes and underscores'),
+  name: z.string().min(1, 'Name is required'),
+  description: z.string().optional().nullable(),
+  discountType: z.enum(['PERCENTAGE', 'FIXED_AMOUNT']),
+  discountValue: z.number().positive('Discount value must be positive'),
+  minimumOrderValue: z.number().nonnegative().optional().nullable(),
+  maximumDiscountAmount: z.number().positive().optional().nullable(),
+  usageLimit: z.number().int().positive().optional().nullable(),
+  validFrom: z.coerce.date(),
+  validTo: z.coerce.date(),
+  isActive: z.boolean().default(true),
+  applicableProductIds: z.array(z.string()).default([]),
+  applicableCategoryIds: z.array(z.string()).default([]),
+  userId: z.string().optional().nullable(),
+})
+
+export const createDiscountSchema = discountBaseSchema
+  .refine(data => data.validTo > data.validFrom, {
+    message: 'End date must be after start date',
+    path: ['validTo'],
+  })
+  .refine(data => data.discountType !== 'PERCENTAGE' || data.discountValue <= 100, {
+    message: 'Percentage discount cannot exceed 100',
+    path: ['discountValue'],
+  })
+
+export const updateDiscountSchema = discountBaseSchema.partial()
+
+export const bulkGenerateDiscountsSchema = discountBaseSchema
+  .omit({ code: true, userId: true })
+  .extend({
+    prefix: z.string().trim().min(2, 'Prefix must be at least 2 characters').max(16, 'Prefix must be at most 16 characters')
+      .regex(/^[A-Za-z0-9]+$/, 'Prefix can only contain letters and numbers'),
+    count: z.number().int().min(1).max(1000, 'At most 1000 codes can be generated at once'),
+    codeLength: z.number().int().min(6).max(12).default(8),
+    usageLimit: z.number().int().positive().default(1),
+  })
+  .refine(data => data.validTo > data.validFrom, {
+    message: 'End date must be after start date',
+    path: ['validTo'],
+  })
+
+// Promotion validation schemas
+export const promotionConfigSchemas = {
+  BUY_X_GET_Y: z.object({
+    buyQuantity: z.number().int().positive(),
+    getQuantity: z.number().int().positive(),
+    getDiscountPercent: z.number().positive().max(100).default(100),
+  }),
+  SPEND_THRESHOLD: z.object({
+    minimumSpend: z.number().positive(),
+    percentOff: z.number().positive().max(100),
+    maximumDiscount: z.number().positive().optional(),
+  }),
+  CATEGORY_SALE: z.object({
+    percentOff: z.number().positive().max(100),
+  }),
+  TIERED_QUANTITY: z.object({
+    tiers: z.array(z.object({
+      minQuantity: z.number().int().positive(),
+      percentOff: z.number().positive().max(100),
+    })).min(1, 'At least one tier is required'),
+  }),
+} as const
+
+const promotionBaseSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  description: z.string().optional().nullable(),
+  promotionType: z.enum(['BUY_X_GET_Y', 'SPEND_THRESHOLD', 'CATEGORY_SALE', 'TIERED_QUANTITY']),
+  config: z.record(z.unknown()),
+  applicableProductIds: z.array(z.string()).default([]),
+  applicableCategoryIds: z.array(z.string()).default([]),
+  isExclusive: z.boolean().default(false),
+  priority: z.number().int().default(0),
+  startsAt: z.coerce.date(),
+  endsAt: z.coerce.date().optional().nullable(),
+  isActive: z.boolean().default(true),
+})
+
+export const createPromotionSchema = promotionBaseSchema
+  .superRefine((data, ctx) => {
+    const result = promotionConfigSchemas[data.promotionType].safeParse(data.config)
+    if (!result.success) {
+      result.error.issues.forEach(issue => ctx.addIssue({ ...issue, path: ['config', ...issue.path] }))
+    }
+    if (data.endsAt && data.endsAt <= data.startsAt) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'End time must be after start time', path: ['endsAt'] })
+    }
+  })
+  .transform(data => ({
+    ...data,
+    config: promotionConfigSchemas[data.promotionType].parse(data.config) as Record<string, unknown>,
+  }))
+
+export const updatePromotionSchema = promotionBaseSchema.partial()
+
+export const validateDiscountCodeSchema = z.object({
+  code: z.string().trim().min(1, 'Discount code is required'),
+  items: z.array(z.object({
+    productId: z.string(),
+    quantity: z.number().int().positive(),
+    price: z.number().nonnegative().optional(),
+  })).min(1, 'Cart is empty'),
+})
+
+export const createReturnRequestSchema = z.object({
+  orderItemId: z.string().min(1, 'Order item is required'),
+  quantity: z.number().int().positive('Quantity must be at least 1'),
+  reason: z.enum(['DAMAGED', 'WRONG_ITEM', 'NOT_AS_DESCRIBED', 'NO_LONGER_NEEDED', 'OTHER']),
+  comments: z.string().trim().max(1000).optional(),
+  images: z.array(z.string().url('Invalid image URL')).max(5, 'You can attach up to 5 photos').default([]),
+}).refine(data => data.reason !== 'OTHER' || !!data.comments, {
+  message: 'Please describe the reason for the return',
+  path: ['comments'],
+})
+
+export const cancelOrderSchema = z.object({
+  reason: z.enum(['CHANGED_MIND', 'ORDERED_BY_MISTAKE', 'FOUND_BETTER_PRICE', 'DELIVERY_TOO_SLOW', 'OTHER']),
+  comments: z.string().trim().max(500).optional(),
+  // Guests confirm the email the order was placed with
+  guestEmail: z.string().email('Invalid email address').optional(),
+}).refine(data => data.reason !== 'OTHER' || !!data.comments, {
+  message: 'Please tell us why you are cancelling',
+  path: ['comments'],
+})
+
+export const createRefundSchema = z.object({
+  orderItemId: z.string().optional(),
+  quantity: z.number().int().positive('Quantity must be at least 1').optional(),
+  amount: z.number().positive('Refund amount must be greater than 0').optional(),
+  reason: z.string().trim().min(1, 'Reason is required').max(500),
+  method: z.enum(['ORIGINAL_PAYMENT', 'CASH', 'BANK_TRANSFER', 'STORE_CREDIT']).default('ORIGINAL_PAYMENT'),
+  reference: z.string().trim().max(200).optional(),
+}).refine(data => !!data.orderItemId || data.amount !== undefined, {
+  message: 'Enter an amount or choose an item to refund',
+  path: ['amount'],
+})
+
+export const completeRefundSchema = z.object({
+  reference: z.string().trim().min(1, 'Reference is required').max(200),
+})
+
+export const createShipmentSchema = z.object({
+  items: z.array(z.object({
+    orderItemId: z.string().min(1),
+    quantity: z.number().int().positive('Quantity must be at least 1'),
+  })).min(1, 'Choose at least one item to ship'),
+  carrier: z.string().trim().max(100).optional(),
+  trackingNumber: z.string().trim().max(100).optional(),
+})
+
+export const updateShipmentSchema = z.object({
+  status: z.enum(['DELIVERED']),
+})
+
+export const createCodRemittanceSchema = z.object({
+  courier: z.string().trim().min(1, 'Courier is required').max(100),
+  orderIds: z.array(z.string().min(1)).min(1, 'Choose at least one order'),
+  depositedAmount: z.number().min(0, 'Deposited amount cannot be negative'),
+  depositedAt: z.coerce.date().optional(),
+  reference: z.string().trim().max(200).optional(),
+  notes: z.string().trim().max(1000).optional(),
+})
+
+export const reviewReturnRequestSchema = z.object({
+  action: z.enum(['approve', 'reject', 'receive']),
+  adminNotes: z.string().trim().max(1000).optional(),
+})
+
+export const returnRequestFiltersSchema = z.object({
+  status: z.enum(['REQUESTED', 'APPROVED', 'REJECTED', 'RECEIVED']).optional(),
+  orderId: z.string().optional(),
+})
+
 // Type exports
 export type CreateUserInput = z.infer<typeof createUserSchema>
 export type UpdateUserInput = z.infer<typeof updateUserSchema>
@@ -167,6 +477,7 @@ export type UpdateProductInput = z.infer<typeof updateProductSchema>
 export type CreateOrderInput = z.infer<typeof createOrderSchema>
 export type UpdateOrderInput = z.infer<typeof updateOrderSchema>
 export type UpdateShippingAddressInput = z.infer<typeof updateShippingAddressSchema>
+export type UpdatePreferencesInput = z.infer<typeof updatePreferencesSchema>
 export type PaginationInput = z.infer<typeof paginationSchema>
 export type ProductFiltersInput = z.infer<typeof productFiltersSchema>
 export type AddToCartInput = z.infer<typeof addToCartSchema>
@@ -175,5 +486,30 @@ export type InventoryUpdateInput = z.infer<typeof inventoryUpdateSchema>
 export type BulkInventoryUpdateInput = z.infer<typeof bulkInventoryUpdateSchema>
 export type InventoryAdjustmentInput = z.infer<typeof inventoryAdjustmentSchema>
 export type InventoryHistoryFiltersInput = z.infer<typeof inventoryHistoryFiltersSchema>
+export type InventoryForecastQueryInput = z.infer<typeof inventoryForecastQuerySchema>
+export type CreateStockLocationInput = z.infer<typeof createStockLocationSchema>
+export type UpdateStockLocationInput = z.infer<typeof updateStockLocationSchema>
+export type CreateStockTransferInput = z.infer<typeof createStockTransferSchema>
+export type CreateSupplierInput = z.infer<typeof createSupplierSchema>
+export type UpdateSupplierInput = z.infer<typeof updateSupplierSchema>
+export type CreatePurchaseOrderInput = z.infer<typeof createPurchaseOrderSchema>
+export type ReceivePurchaseOrderInput = z.infer<typeof receivePurchaseOrderSchema>
+export type PurchaseOrderFiltersInput = z.infer<typeof purchaseOrderFiltersSchema>
+export type CreateStocktakeInput = z.infer<typeof createStocktakeSchema>
+export type RecordStocktakeCountsInput = z.infer<typeof recordStocktakeCountsSchema>
+export type StocktakeFiltersInput = z.infer<typeof stocktakeFiltersSchema>
 export type CreateAddressInput = z.infer<typeof createAddressSchema>
-export type UpdateAddressInput = z.infer<typeof updateAddressSchema>
\ No newline at end of file
+export type UpdateAddressInput = z.infer<typeof updateAddressSchema>
+export type CreateDiscountInput = z.infer<typeof createDiscountSchema>
+export type UpdateDiscountInput = z.infer<typeof updateDiscountSchema>
+export type BulkGenerateDiscountsInput = z.infer<typeof bulkGenerateDiscountsSchema>
+export type CreatePromotionInput = z.infer<typeof createPromotionSchema>
+export type UpdatePromotionInput = z.infer<typeof updatePromotionSchema>
+export type ValidateDiscountCodeInput = z.infer<typeof validateDiscountCodeSchema>
+export type CreateReturnRequestInput = z.infer<typeof createReturnRequestSchema>
+export type CancelOrderInput = z.infer<typeof cancelOrderSchema>
+export type CreateRefundInput = z.infer<typeof createRefundSchema>
+export type CreateShipmentInput = z.infer<typeof createShipmentSchema>
+export type CreateCodRemittanceInput = z.infer<typeof createCodRemittanceSchema>
+export type ReviewReturnRequestInput = z.infer<typeof reviewReturnRequestSchema>
+export type ReturnRequestFiltersInput = z.infer<typeof returnRequestFiltersSchema>
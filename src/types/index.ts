@@ -8,7 +8,28 @@ import {
   brands, 
   addresses, 
   reviews, 
-  emailLogs 
+  emailLogs,
+  discounts,
+  discountUsage,
+  promotions,
+  orderEvents,
+  returnRequests,
+  refunds,
+  shipments,
+  shipmentItems,
+  paymentTransactions,
+  codCollections,
+  codRemittances,
+  inventoryReservations,
+  stockLocations,
+  locationStock,
+  stockTransfers,
+  stockTransferItems,
+  suppliers,
+  purchaseOrders,
+  purchaseOrderItems,
+  stocktakes,
+  stocktakeItems
 } from '@/lib/db/schema';
 import { Role, OrderStatus, InventoryChangeType, AddressType } from '@/lib/db/schema';
 
@@ -22,6 +43,27 @@ export type Brand = InferSelectModel<typeof brands>;
 export type Address = InferSelectModel<typeof addresses>;
 export type Review = InferSelectModel<typeof reviews>;
 export type EmailLog = InferSelectModel<typeof emailLogs>;
+export type Discount = InferSelectModel<typeof discounts>;
+export type DiscountUsage = InferSelectModel<typeof discountUsage>;
+export type Promotion = InferSelectModel<typeof promotions>;
+export type OrderEvent = InferSelectModel<typeof orderEvents>;
+export type ReturnRequest = InferSelectModel<typeof returnRequests>;
+export type Refund = InferSelectModel<typeof refunds>;
+export type Shipment = InferSelectModel<typeof shipments>;
+export type ShipmentItem = InferSelectModel<typeof shipmentItems>;
+export type PaymentTransaction = InferSelectModel<typeof paymentTransactions>;
+export type CodCollection = InferSelectModel<typeof codCollections>;
+export type CodRemittance = InferSelectModel<typeof codRemittances>;
+export type InventoryReservation = InferSelectModel<typeof inventoryReservations>;
+export type StockLocation = InferSelectModel<typeof stockLocations>;
+export type LocationStock = InferSelectModel<typeof locationStock>;
+export type StockTransfer = InferSelectModel<typeof stockTransfers>;
+export type StockTransferItem = InferSelectModel<typeof stockTransferItems>;
+export type Supplier = InferSelectModel<typeof suppliers>;
+export type PurchaseOrder = InferSelectModel<typeof purchaseOrders>;
+export type PurchaseOrderItem = InferSelectModel<typeof purchaseOrderItems>;
+export type Stocktake = InferSelectModel<typeof stocktakes>;
+export type StocktakeItem = InferSelectModel<typeof stocktakeItems>;
 
 // Re-export enums
 export type { Role, OrderStatus, InventoryChangeType, AddressType };
@@ -43,12 +85,61 @@ export type OrderWithItems = Order & {
     }
   })[]
   user?: User | null
+  refunds?: Refund[]
+  shipments?: ShipmentWithItems[]
+  // Total of the payments the gateway confirmed for the order
+  paidAmount?: number
+}
+
+export type ShipmentWithItems = Shipment & {
+  items: ShipmentItem[]
+}
+
+export type CodCollectionWithOrder = CodCollection & {
+  order: Order
+}
+
+export type CodRemittanceWithCollections = CodRemittance & {
+  collections: CodCollectionWithOrder[]
+}
+
+export type StockTransferWithItems = StockTransfer & {
+  fromLocation: StockLocation
+  toLocation: StockLocation
+  items: (StockTransferItem & {
+    product: Pick<Product, 'id' | 'name' | 'slug' | 'sku'>
+  })[]
+}
+
+export type PurchaseOrderWithItems = PurchaseOrder & {
+  supplier: Supplier
+  location: StockLocation | null
+  items: (PurchaseOrderItem & {
+    product: Pick<Product, 'id' | 'name' | 'slug' | 'sku' | 'purchasePrice'>
+  })[]
+}
+
+export type StocktakeWithItems = Stocktake & {
+  location: StockLocation
+  category: Category | null
+  items: (StocktakeItem & {
+    product: Pick<Product, 'id' | 'name' | 'slug' | 'sku' | 'images'>
+  })[]
 }
 
 export type OrderItemWithProduct = OrderItem & {
   product: Product
 }
 
+export type ReturnRequestWithDetails = ReturnRequest & {
+  orderItem: OrderItem & {
+    product: Product
+  }
+  order?: Order
+  user?: User | null
+  refunds?: Pick<Refund, 'id' | 'status'>[]
+}
+
 // API Response types
 export type ApiResponse<T> = {
   success: boolean